@@ -0,0 +1,2 @@
+ALTER TABLE "DraftSession" ADD COLUMN "format" TEXT NOT NULL DEFAULT 'STANDARD';
+ALTER TABLE "Run" ADD COLUMN "format" TEXT NOT NULL DEFAULT 'STANDARD';
@@ -0,0 +1,55 @@
+-- CreateTable
+CREATE TABLE "DraftRoom" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "code" TEXT NOT NULL,
+    "groupCode" TEXT,
+    "seed" TEXT,
+    "format" TEXT NOT NULL DEFAULT 'STANDARD',
+    "drawSequenceJson" TEXT NOT NULL,
+    "currentDrawIndex" INTEGER NOT NULL DEFAULT 0,
+    "currentTurnIndex" INTEGER NOT NULL DEFAULT 0,
+    "takenPlayersJson" TEXT NOT NULL DEFAULT '[]',
+    "turnStartedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "status" TEXT NOT NULL DEFAULT 'LOBBY',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_DraftSession" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "cookieToken" TEXT NOT NULL,
+    "userName" TEXT,
+    "groupCode" TEXT,
+    "seed" TEXT,
+    "format" TEXT NOT NULL DEFAULT 'STANDARD',
+    "drawSequenceJson" TEXT NOT NULL,
+    "remainingTeamsJson" TEXT NOT NULL,
+    "currentDrawIndex" INTEGER NOT NULL DEFAULT 0,
+    "lineupJson" TEXT NOT NULL DEFAULT '{}',
+    "chosenPlayersJson" TEXT NOT NULL DEFAULT '[]',
+    "drawStartedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "status" TEXT NOT NULL DEFAULT 'DRAFTING',
+    "runId" TEXT,
+    "roomId" TEXT,
+    "roomSeat" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "DraftSession_runId_fkey" FOREIGN KEY ("runId") REFERENCES "Run" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "DraftSession_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "DraftRoom" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_DraftSession" ("id", "cookieToken", "userName", "groupCode", "seed", "format", "drawSequenceJson", "remainingTeamsJson", "currentDrawIndex", "lineupJson", "chosenPlayersJson", "drawStartedAt", "status", "runId", "createdAt", "updatedAt") SELECT "id", "cookieToken", "userName", "groupCode", "seed", "format", "drawSequenceJson", "remainingTeamsJson", "currentDrawIndex", "lineupJson", "chosenPlayersJson", "drawStartedAt", "status", "runId", "createdAt", "updatedAt" FROM "DraftSession";
+DROP TABLE "DraftSession";
+ALTER TABLE "new_DraftSession" RENAME TO "DraftSession";
+CREATE UNIQUE INDEX "DraftSession_cookieToken_key" ON "DraftSession"("cookieToken");
+CREATE UNIQUE INDEX "DraftSession_runId_key" ON "DraftSession"("runId");
+CREATE INDEX "DraftSession_groupCode_idx" ON "DraftSession"("groupCode");
+CREATE INDEX "DraftSession_roomId_idx" ON "DraftSession"("roomId");
+CREATE UNIQUE INDEX "DraftSession_roomId_roomSeat_key" ON "DraftSession"("roomId", "roomSeat");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DraftRoom_code_key" ON "DraftRoom"("code");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "DraftSession" ADD COLUMN "watchCode" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DraftSession_watchCode_key" ON "DraftSession"("watchCode");
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "DraftSession" ADD COLUMN "dailyDate" TEXT;
+ALTER TABLE "DraftSession" ADD COLUMN "deviceId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Run" ADD COLUMN "dailyDate" TEXT;
+
+-- CreateIndex
+CREATE INDEX "DraftSession_dailyDate_idx" ON "DraftSession"("dailyDate");
+
+-- CreateIndex
+CREATE INDEX "Run_dailyDate_idx" ON "Run"("dailyDate");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Run" ADD COLUMN "optimalTeamScore" REAL;
+ALTER TABLE "Run" ADD COLUMN "optimalLineupJson" TEXT;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "DraftSession" ADD COLUMN "coachEnabled" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "DraftSession" ADD COLUMN "coachUsed" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Run" ADD COLUMN "coachAssisted" BOOLEAN NOT NULL DEFAULT false;
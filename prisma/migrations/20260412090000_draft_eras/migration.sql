@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "DraftRoom" ADD COLUMN "era" TEXT NOT NULL DEFAULT 'ALL_TIME';
+
+-- AlterTable
+ALTER TABLE "DraftSession" ADD COLUMN "era" TEXT NOT NULL DEFAULT 'ALL_TIME';
+
+-- AlterTable
+ALTER TABLE "Run" ADD COLUMN "era" TEXT NOT NULL DEFAULT 'ALL_TIME';
+
+-- CreateIndex
+CREATE INDEX "Run_era_idx" ON "Run"("era");
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "DraftRoom" ADD COLUMN "scoringPreset" TEXT NOT NULL DEFAULT 'BALANCED';
+
+-- AlterTable
+ALTER TABLE "DraftSession" ADD COLUMN "scoringPreset" TEXT NOT NULL DEFAULT 'BALANCED';
+
+-- AlterTable
+ALTER TABLE "Run" ADD COLUMN "scoringPreset" TEXT NOT NULL DEFAULT 'BALANCED';
+
+-- CreateIndex
+CREATE INDEX "Run_scoringPreset_idx" ON "Run"("scoringPreset");
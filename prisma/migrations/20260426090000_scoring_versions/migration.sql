@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Run" ADD COLUMN "chemistryJson" TEXT;
+ALTER TABLE "Run" ADD COLUMN "scoringVersion" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Run" ADD COLUMN "originalTeamScore" REAL NOT NULL DEFAULT 0;
+ALTER TABLE "Run" ADD COLUMN "originalScoringVersion" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Run" ADD COLUMN "rescoredAt" DATETIME;
+
+-- Existing runs keep the score they were created with as their original.
+UPDATE "Run" SET "originalTeamScore" = "teamScore";
+
+-- CreateIndex
+CREATE INDEX "Run_scoringVersion_idx" ON "Run"("scoringVersion");
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "Run" ADD COLUMN "percentileAll" REAL;
+ALTER TABLE "Run" ADD COLUMN "percentileGroup" REAL;
+ALTER TABLE "Run" ADD COLUMN "percentileDaily" REAL;
+ALTER TABLE "Run" ADD COLUMN "simulatedPercentile" REAL;
+ALTER TABLE "Run" ADD COLUMN "percentilesUpdatedAt" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "Run_era_scoringPreset_teamScore_idx" ON "Run"("era", "scoringPreset", "teamScore");
+
+-- CreateIndex
+CREATE INDEX "Run_groupCode_era_scoringPreset_teamScore_idx" ON "Run"("groupCode", "era", "scoringPreset", "teamScore");
+
+-- CreateIndex
+CREATE INDEX "Run_era_scoringPreset_createdAt_idx" ON "Run"("era", "scoringPreset", "createdAt");
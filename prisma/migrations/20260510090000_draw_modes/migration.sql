@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "DraftRoom" ADD COLUMN "drawMode" TEXT NOT NULL DEFAULT 'UNIFORM';
+
+-- AlterTable
+ALTER TABLE "DraftSession" ADD COLUMN "drawMode" TEXT NOT NULL DEFAULT 'UNIFORM';
+
+-- AlterTable
+ALTER TABLE "Run" ADD COLUMN "drawMode" TEXT NOT NULL DEFAULT 'UNIFORM';
+ALTER TABLE "Run" ADD COLUMN "drawStrength" REAL;
+ALTER TABLE "Run" ADD COLUMN "luckAdjustedScore" REAL;
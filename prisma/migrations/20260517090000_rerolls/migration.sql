@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "DraftSession" ADD COLUMN "rerollsJson" TEXT NOT NULL DEFAULT '[]';
+
+-- AlterTable
+ALTER TABLE "Run" ADD COLUMN "rerollCount" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Run" ADD COLUMN "rerollsJson" TEXT NOT NULL DEFAULT '[]';
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "DraftSession" ADD COLUMN "clockMode" TEXT NOT NULL DEFAULT 'STANDARD';
+ALTER TABLE "DraftSession" ADD COLUMN "timeBankMs" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Run" ADD COLUMN "clockMode" TEXT NOT NULL DEFAULT 'STANDARD';
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "DraftRoom" ADD COLUMN "timeoutPolicy" TEXT NOT NULL DEFAULT 'EMPTY_SLOT';
+
+-- AlterTable
+ALTER TABLE "DraftSession" ADD COLUMN "timeoutPolicy" TEXT NOT NULL DEFAULT 'EMPTY_SLOT';
+
+-- AlterTable
+ALTER TABLE "Run" ADD COLUMN "timeoutPolicy" TEXT NOT NULL DEFAULT 'EMPTY_SLOT';
+
+-- AlterTable
+ALTER TABLE "RunPick" ADD COLUMN "autoDrafted" BOOLEAN NOT NULL DEFAULT false;
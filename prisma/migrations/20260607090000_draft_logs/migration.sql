@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "DraftSession" ADD COLUMN "draftLogJson" TEXT NOT NULL DEFAULT '[]';
+
+-- AlterTable
+ALTER TABLE "Run" ADD COLUMN "draftLogJson" TEXT NOT NULL DEFAULT '[]';
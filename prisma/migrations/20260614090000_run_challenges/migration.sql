@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "DraftSession" ADD COLUMN "challengeShareCode" TEXT;
+
+-- AlterTable
+ALTER TABLE "Run" ADD COLUMN "challengeShareCode" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Run_challengeShareCode_idx" ON "Run"("challengeShareCode");
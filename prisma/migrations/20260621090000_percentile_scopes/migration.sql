@@ -0,0 +1,17 @@
+-- DropIndex
+DROP INDEX "Run_era_scoringPreset_teamScore_idx";
+
+-- DropIndex
+DROP INDEX "Run_groupCode_era_scoringPreset_teamScore_idx";
+
+-- DropIndex
+DROP INDEX "Run_era_scoringPreset_createdAt_idx";
+
+-- CreateIndex
+CREATE INDEX "Run_era_scoringPreset_clockMode_format_drawMode_teamScore_idx" ON "Run"("era", "scoringPreset", "clockMode", "format", "drawMode", "teamScore");
+
+-- CreateIndex
+CREATE INDEX "Run_groupCode_era_scoringPreset_clockMode_format_drawMode_teamScore_idx" ON "Run"("groupCode", "era", "scoringPreset", "clockMode", "format", "drawMode", "teamScore");
+
+-- CreateIndex
+CREATE INDEX "Run_era_scoringPreset_clockMode_format_drawMode_createdAt_idx" ON "Run"("era", "scoringPreset", "clockMode", "format", "drawMode", "createdAt");
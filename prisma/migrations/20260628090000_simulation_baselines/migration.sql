@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "SimulationBaseline" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "format" TEXT NOT NULL,
+    "era" TEXT NOT NULL,
+    "scoringPreset" TEXT NOT NULL,
+    "drawMode" TEXT NOT NULL,
+    "scoringVersion" INTEGER NOT NULL,
+    "scoresJson" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SimulationBaseline_format_era_scoringPreset_drawMode_scoringVersion_key" ON "SimulationBaseline"("format", "era", "scoringPreset", "drawMode", "scoringVersion");
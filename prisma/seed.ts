@@ -1,5 +1,5 @@
 import { PrismaClient } from '@prisma/client';
-import { scoreLineup } from '../src/lib/scoring';
+import { buildRunScoreData } from '../src/lib/draft-state';
 import type { LineupPick } from '../src/lib/types';
 
 const prisma = new PrismaClient();
@@ -11,7 +11,7 @@ async function createSampleRun(input: {
   seed: string;
   picks: LineupPick[];
 }) {
-  const scoring = scoreLineup(input.picks);
+  const scoreData = buildRunScoreData(input.picks, { format: 'STANDARD', preset: 'BALANCED' });
 
   await prisma.run.create({
     data: {
@@ -19,29 +19,17 @@ async function createSampleRun(input: {
       userName: input.userName,
       groupCode: input.groupCode,
       seed: input.seed,
-      teamScore: scoring.teamScore,
-      usedFallbackStats: scoring.usedFallbackStats,
+      ...scoreData.run,
+      originalTeamScore: scoreData.run.teamScore,
+      originalScoringVersion: scoreData.run.scoringVersion,
       lineupJson: JSON.stringify(
         input.picks.reduce<Record<string, LineupPick>>((acc, pick) => {
           acc[pick.slot] = pick;
           return acc;
         }, {})
       ),
-      contributionsJson: JSON.stringify(scoring.playerScores),
       picks: {
-        create: scoring.playerScores.map((playerScore) => ({
-          slot: playerScore.pick.slot,
-          playerName: playerScore.pick.playerName,
-          teamAbbr: playerScore.pick.teamAbbr,
-          teamName: playerScore.pick.teamName,
-          bpm: playerScore.stats.bpm,
-          ws48: playerScore.stats.ws48,
-          vorp: playerScore.stats.vorp,
-          epm: playerScore.stats.epm,
-          usedFallback: playerScore.usedFallback,
-          isPenalty: Boolean(playerScore.pick.isPenalty),
-          contribution: playerScore.contribution
-        }))
+        create: scoreData.picks
       }
     }
   });
@@ -0,0 +1,25 @@
+import { buildSimulationBaselines } from '../src/lib/baseline-service';
+import { db } from '../src/lib/db';
+
+// Usage: npm run sim:baselines [-- --rebuild]
+const REBUILD = process.argv.includes('--rebuild');
+
+async function main() {
+  console.log(REBUILD ? 'Rebuilding every simulation baseline...' : 'Building missing simulation baselines...');
+  const summary = await buildSimulationBaselines({
+    rebuild: REBUILD,
+    onBuilt: (config) => console.log(`  ${config.format}, ${config.era}, ${config.preset}, ${config.drawMode} draws`)
+  });
+  console.log(
+    `Built ${summary.built} baseline(s) under scoring v${summary.scoringVersion}; ${summary.skipped} already stored.`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await db.$disconnect();
+  });
@@ -0,0 +1,30 @@
+import { db } from '../src/lib/db';
+import { rescoreRuns } from '../src/lib/rescore-service';
+
+// Usage: npm run runs:rescore [-- --all] [-- --batch-size=200]
+const RESCORE_ALL = process.argv.includes('--all');
+const BATCH_SIZE_ARG = process.argv.find((arg) => arg.startsWith('--batch-size='));
+const BATCH_SIZE = BATCH_SIZE_ARG ? Number(BATCH_SIZE_ARG.slice('--batch-size='.length)) : undefined;
+
+async function main() {
+  if (BATCH_SIZE !== undefined && (!Number.isInteger(BATCH_SIZE) || BATCH_SIZE < 1)) {
+    throw new Error('--batch-size must be a positive integer.');
+  }
+
+  console.log(
+    RESCORE_ALL ? 'Rescoring every stored run...' : 'Rescoring runs scored under an older scoring version...'
+  );
+  const summary = await rescoreRuns({ all: RESCORE_ALL, batchSize: BATCH_SIZE });
+  console.log(
+    `Rescored ${summary.scanned} run(s) under scoring v${summary.scoringVersion}; ${summary.changed} team score(s) changed.`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await db.$disconnect();
+  });
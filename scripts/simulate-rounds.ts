@@ -0,0 +1,60 @@
+import { writeFile } from 'node:fs/promises';
+import { parseDrawMode } from '../src/lib/draw-modes';
+import { parseDraftEra } from '../src/lib/eras';
+import { parseDraftFormat } from '../src/lib/formats';
+import { parseScoringPreset } from '../src/lib/scoring-presets';
+import { formatSimulationCsv, parseSimulationStrategy, runSimulation } from '../src/lib/simulation';
+
+// Usage: npm run sim:rounds -- [--rounds=500] [--strategy=random|greedy|optimal] [--format=STANDARD]
+//   [--era=ALL_TIME] [--preset=BALANCED] [--draw-mode=UNIFORM|BALANCED_TIERS] [--seed=sim] [--output=json|csv]
+//   [--out=report.json]
+function readFlag(name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return process.argv.find((arg) => arg.startsWith(prefix))?.slice(prefix.length);
+}
+
+async function main() {
+  const rounds = Number(readFlag('rounds') ?? '200');
+  if (!Number.isInteger(rounds) || rounds < 1) {
+    throw new Error('--rounds must be a positive integer.');
+  }
+
+  const output = readFlag('output') ?? 'json';
+  if (output !== 'json' && output !== 'csv') {
+    throw new Error('--output must be json or csv.');
+  }
+
+  const options = {
+    rounds,
+    strategy: parseSimulationStrategy(readFlag('strategy') ?? 'greedy'),
+    format: parseDraftFormat(readFlag('format')),
+    era: parseDraftEra(readFlag('era')),
+    preset: parseScoringPreset(readFlag('preset')),
+    drawMode: parseDrawMode(readFlag('draw-mode')),
+    seed: readFlag('seed') ?? 'sim'
+  };
+
+  console.error(
+    `Simulating ${options.rounds} ${options.strategy} round(s): ${options.format}, ${options.era}, ${options.preset}, ` +
+      `${options.drawMode} draws...`
+  );
+  const report = runSimulation(options, (_round, index) => {
+    if ((index + 1) % 50 === 0) {
+      console.error(`  ${index + 1}/${options.rounds}`);
+    }
+  });
+  const contents = output === 'csv' ? formatSimulationCsv(report) : JSON.stringify(report, null, 2);
+
+  const outPath = readFlag('out');
+  if (outPath) {
+    await writeFile(outPath, `${contents}\n`, 'utf8');
+    console.error(`Wrote ${outPath}`);
+  } else {
+    console.log(contents);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -4,6 +4,7 @@ import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 import teamsData from '../data/teams.json';
 import { ALL_TIME_TEAM_SEED, type AllTimeSeedPlayer } from '../src/lib/all-time-seed';
+import { inferArchetypes } from '../src/lib/archetypes';
 
 type Team = {
   abbr: string;
@@ -64,6 +65,11 @@ type AwardBreakdown = {
   blocksTitles: number;
 };
 
+type CareerStint = {
+  teamAbbr: string;
+  years: string;
+};
+
 type FranchisePlayerRow = {
   playerId: number;
   playerName: string;
@@ -91,6 +97,7 @@ type EnrichedCandidate = {
   tenureRatio: number;
   franchiseScore: number;
   accolades: AwardBreakdown | null;
+  careerStints: CareerStint[] | null;
   boxTotals: {
     gp: number;
     pts: number;
@@ -160,6 +167,7 @@ const CACHE_DIR = path.resolve(
 );
 
 const typedTeams = teamsData as Team[];
+const TEAM_ABBR_BY_ID = new Map(Object.entries(TEAM_ID_BY_ABBR).map(([abbr, id]) => [id, abbr]));
 const metaByPlayerId = new Map<number, Promise<PlayerMeta>>();
 const fallbackSeedByTeam = ALL_TIME_TEAM_SEED as Record<string, AllTimeSeedPlayer[]>;
 const slotOrder = new Map(LINEUP_SLOTS.map((slot, index) => [slot, index]));
@@ -1070,6 +1078,22 @@ function deriveYearRange(seasons: PlayerSeason[]): { years: string; yearsWithTea
   };
 }
 
+// Every franchise a player suited up for, so teammates outside a franchise's top 15 still connect.
+function buildCareerStints(seasons: PlayerSeason[]): CareerStint[] {
+  const seasonsByTeam = new Map<string, PlayerSeason[]>();
+  for (const season of seasons) {
+    const teamAbbr = TEAM_ABBR_BY_ID.get(season.teamId);
+    if (teamAbbr) {
+      seasonsByTeam.set(teamAbbr, [...(seasonsByTeam.get(teamAbbr) ?? []), season]);
+    }
+  }
+
+  return [...seasonsByTeam.entries()]
+    .map(([teamAbbr, teamSeasons]) => ({ teamAbbr, years: deriveYearRange(teamSeasons).years }))
+    .filter((stint) => stint.years !== 'Unknown')
+    .sort((a, b) => a.years.localeCompare(b.years));
+}
+
 function initialFranchiseImpact(row: FranchisePlayerRow): number {
   return (
     row.pts * 1 +
@@ -1141,12 +1165,14 @@ async function mapWithConcurrency<TItem, TResult>(
 
 function formatSeedFile(seedByTeam: Record<string, AllTimeSeedPlayer[]>): string {
   const lines: string[] = [];
-  lines.push("import type { AwardBreakdown, BoxTotals, LineupSlot } from '@/lib/types';");
+  lines.push("import type { AwardBreakdown, BoxTotals, CareerStint, LineupSlot, PlayerArchetype } from '@/lib/types';");
   lines.push('');
   lines.push('export type AllTimeSeedPlayer = {');
   lines.push('  name: string;');
   lines.push('  years: string;');
   lines.push('  positions: LineupSlot[];');
+  lines.push('  archetypes?: PlayerArchetype[];');
+  lines.push('  careerStints?: CareerStint[];');
   lines.push('  careerYears?: number;');
   lines.push('  championships?: number;');
   lines.push('  categoryRaw?: {');
@@ -1172,6 +1198,15 @@ function formatSeedFile(seedByTeam: Record<string, AllTimeSeedPlayer[]>): string
         `years: '${escapeTsString(player.years)}'`,
         `positions: [${slots}]`
       ];
+      if (player.archetypes && player.archetypes.length > 0) {
+        fields.push(`archetypes: [${player.archetypes.map((archetype) => `'${archetype}'`).join(', ')}]`);
+      }
+      if (player.careerStints && player.careerStints.length > 0) {
+        const stints = player.careerStints
+          .map((stint) => `{ teamAbbr: '${stint.teamAbbr}', years: '${escapeTsString(stint.years)}' }`)
+          .join(', ');
+        fields.push(`careerStints: [${stints}]`);
+      }
       if (typeof player.careerYears === 'number' && player.careerYears > 0) {
         fields.push(`careerYears: ${Math.round(player.careerYears)}`);
       }
@@ -1307,6 +1342,7 @@ async function buildTeamSeed(
         tenureRatio,
         franchiseScore: 0,
         accolades: awardBreakdown,
+        careerStints: buildCareerStints(meta.seasons),
         boxTotals: {
           gp: candidate.gp,
           pts: candidate.pts,
@@ -1389,6 +1425,7 @@ async function buildTeamSeed(
         tenureRatio,
         franchiseScore: 0,
         accolades: fallbackPlayer?.accolades ?? null,
+        careerStints: fallbackPlayer?.careerStints ?? null,
         boxTotals: fallbackPlayer?.boxTotals ?? null
       } satisfies EnrichedCandidate;
     }
@@ -1423,6 +1460,7 @@ async function buildTeamSeed(
     name: entry.playerName,
     years: entry.years,
     positions: entry.positions,
+    archetypes: inferArchetypes(entry),
     careerYears: Math.max(1, Math.round(entry.careerYears)),
     championships: Math.max(0, Math.round(entry.championships)),
     categoryRaw: {
@@ -1432,6 +1470,7 @@ async function buildTeamSeed(
       advanced: rounded(entry.advancedRaw, 3)
     },
     accolades: entry.accolades ?? undefined,
+    careerStints: entry.careerStints ?? undefined,
     boxTotals: entry.boxTotals ?? undefined
   }));
 
@@ -1445,7 +1484,7 @@ async function buildTeamSeed(
       if (existingNames.has(normalized)) {
         continue;
       }
-      seedPlayers.push(fallbackPlayer);
+      seedPlayers.push({ ...fallbackPlayer, archetypes: fallbackPlayer.archetypes ?? inferArchetypes(fallbackPlayer) });
       existingNames.add(normalized);
     }
   }
@@ -1516,6 +1555,7 @@ async function refreshZeroAccoladesPlayersForTeam(team: Team, teamId: string): P
 
     refreshed.push({
       ...player,
+      archetypes: inferArchetypes({ ...player, accolades: breakdown }),
       categoryRaw,
       accolades: breakdown
     });
@@ -1,13 +1,25 @@
 'use server';
 
 import { redirect } from 'next/navigation';
-import { createDraftSession, submitDraftPick } from '@/lib/draft-service';
+import { startRunChallenge } from '@/lib/challenge-service';
+import { startDailyChallenge } from '@/lib/daily-service';
+import { createDraftSession, rerollCurrentDraw, setDraftCoachEnabled, submitDraftPick } from '@/lib/draft-service';
+import { createDraftRoom, joinDraftRoom, startDraftRoom } from '@/lib/room-service';
 import {
   clearDraftSessionCookieToken,
+  ensureDeviceId,
   getDraftSessionCookieToken,
   setDraftSessionCookieToken
 } from '@/lib/session-cookie';
-import { draftPickSchema, startGameSchema } from '@/lib/validators';
+import {
+  draftCoachSchema,
+  draftPickSchema,
+  joinRoomSchema,
+  startChallengeSchema,
+  startDailySchema,
+  startGameSchema,
+  startRoomSchema
+} from '@/lib/validators';
 
 function getErrorMessage(error: unknown): string {
   if (error instanceof Error && error.message) {
@@ -23,13 +35,25 @@ export async function startGameAction(formData: FormData) {
     const parsed = startGameSchema.parse({
       userName: formData.get('userName')?.toString() ?? '',
       groupCode: formData.get('groupCode')?.toString() ?? '',
-      seed: formData.get('seed')?.toString() ?? ''
+      seed: formData.get('seed')?.toString() ?? '',
+      format: formData.get('format')?.toString() || undefined,
+      era: formData.get('era')?.toString() || undefined,
+      scoringPreset: formData.get('scoringPreset')?.toString() || undefined,
+      drawMode: formData.get('drawMode')?.toString() || undefined,
+      clockMode: formData.get('clockMode')?.toString() || undefined,
+      timeoutPolicy: formData.get('timeoutPolicy')?.toString() || undefined
     });
 
     const session = await createDraftSession({
       userName: parsed.userName,
       groupCode: parsed.groupCode,
-      seed: parsed.seed
+      seed: parsed.seed,
+      format: parsed.format,
+      era: parsed.era,
+      scoringPreset: parsed.scoringPreset,
+      drawMode: parsed.drawMode,
+      clockMode: parsed.clockMode,
+      timeoutPolicy: parsed.timeoutPolicy
     });
 
     setDraftSessionCookieToken(session.cookieToken);
@@ -40,6 +64,129 @@ export async function startGameAction(formData: FormData) {
   redirect(destination);
 }
 
+export async function startDailyAction(formData: FormData) {
+  let destination = '/draft';
+
+  try {
+    const parsed = startDailySchema.parse({
+      userName: formData.get('userName')?.toString() ?? ''
+    });
+
+    const session = await startDailyChallenge({
+      userName: parsed.userName,
+      deviceId: ensureDeviceId()
+    });
+
+    setDraftSessionCookieToken(session.cookieToken);
+  } catch (error) {
+    destination = `/daily?error=${encodeURIComponent(getErrorMessage(error))}`;
+  }
+
+  redirect(destination);
+}
+
+export async function startChallengeAction(formData: FormData) {
+  const shareCode = formData.get('shareCode')?.toString().trim() ?? '';
+  let destination = '/draft';
+
+  try {
+    const parsed = startChallengeSchema.parse({
+      shareCode,
+      userName: formData.get('userName')?.toString() ?? '',
+      groupCode: formData.get('groupCode')?.toString() ?? ''
+    });
+
+    const session = await startRunChallenge({
+      shareCode: parsed.shareCode,
+      userName: parsed.userName,
+      groupCode: parsed.groupCode
+    });
+
+    setDraftSessionCookieToken(session.cookieToken);
+  } catch (error) {
+    destination = `/challenge/${encodeURIComponent(shareCode)}?error=${encodeURIComponent(getErrorMessage(error))}`;
+  }
+
+  redirect(destination);
+}
+
+export async function createRoomAction(formData: FormData) {
+  let destination = '/rooms';
+
+  try {
+    const parsed = startGameSchema.parse({
+      userName: formData.get('userName')?.toString() ?? '',
+      groupCode: formData.get('groupCode')?.toString() ?? '',
+      seed: formData.get('seed')?.toString() ?? '',
+      format: formData.get('format')?.toString() || undefined,
+      era: formData.get('era')?.toString() || undefined,
+      scoringPreset: formData.get('scoringPreset')?.toString() || undefined,
+      drawMode: formData.get('drawMode')?.toString() || undefined,
+      timeoutPolicy: formData.get('timeoutPolicy')?.toString() || undefined
+    });
+
+    const { room, session } = await createDraftRoom({
+      userName: parsed.userName,
+      groupCode: parsed.groupCode,
+      seed: parsed.seed,
+      format: parsed.format,
+      era: parsed.era,
+      scoringPreset: parsed.scoringPreset,
+      drawMode: parsed.drawMode,
+      timeoutPolicy: parsed.timeoutPolicy
+    });
+
+    setDraftSessionCookieToken(session.cookieToken);
+    destination = `/rooms/${room.code}`;
+  } catch (error) {
+    destination = `/rooms?error=${encodeURIComponent(getErrorMessage(error))}`;
+  }
+
+  redirect(destination);
+}
+
+export async function joinRoomAction(formData: FormData) {
+  let destination = '/rooms';
+
+  try {
+    const parsed = joinRoomSchema.parse({
+      roomCode: formData.get('roomCode')?.toString() ?? '',
+      userName: formData.get('userName')?.toString() ?? ''
+    });
+
+    const { room, session } = await joinDraftRoom({
+      code: parsed.roomCode,
+      userName: parsed.userName
+    });
+
+    setDraftSessionCookieToken(session.cookieToken);
+    destination = `/rooms/${room.code}`;
+  } catch (error) {
+    destination = `/rooms?error=${encodeURIComponent(getErrorMessage(error))}`;
+  }
+
+  redirect(destination);
+}
+
+export async function startRoomAction(formData: FormData) {
+  const roomCode = formData.get('roomCode')?.toString() ?? '';
+  let destination = '/draft';
+
+  try {
+    const cookieToken = getDraftSessionCookieToken();
+    if (!cookieToken) {
+      throw new Error('Room session expired. Join the room again.');
+    }
+
+    const parsed = startRoomSchema.parse({ roomCode });
+    await startDraftRoom({ code: parsed.roomCode, cookieToken });
+  } catch (error) {
+    destination = `/rooms/${encodeURIComponent(roomCode)}?error=${encodeURIComponent(getErrorMessage(error))}`;
+  }
+
+  redirect(destination);
+}
+
 export async function submitPickAction(formData: FormData) {
   let destination = '/draft';
 
@@ -74,6 +221,52 @@ export async function submitPickAction(formData: FormData) {
   redirect(destination);
 }
 
+export async function rerollDrawAction() {
+  let destination = '/draft';
+
+  try {
+    const cookieToken = getDraftSessionCookieToken();
+    if (!cookieToken) {
+      throw new Error('Draft session expired. Start a new game.');
+    }
+
+    const result = await rerollCurrentDraw({ cookieToken });
+
+    if (result.completed) {
+      if (!result.shareCode) {
+        throw new Error('Run completed but no share code was generated.');
+      }
+
+      destination = `/results/${result.shareCode}`;
+    }
+  } catch (error) {
+    destination = `/draft?error=${encodeURIComponent(getErrorMessage(error))}`;
+  }
+
+  redirect(destination);
+}
+
+export async function toggleCoachAction(formData: FormData) {
+  let destination = '/draft';
+
+  try {
+    const cookieToken = getDraftSessionCookieToken();
+    if (!cookieToken) {
+      throw new Error('Draft session expired. Start a new game.');
+    }
+
+    const parsed = draftCoachSchema.parse({
+      enabled: formData.get('enabled')?.toString() ?? ''
+    });
+
+    await setDraftCoachEnabled({ cookieToken, enabled: parsed.enabled });
+  } catch (error) {
+    destination = `/draft?error=${encodeURIComponent(getErrorMessage(error))}`;
+  }
+
+  redirect(destination);
+}
+
 export async function resetGameAction() {
   clearDraftSessionCookieToken();
   redirect('/');
@@ -83,6 +276,12 @@ export async function resetGameWithPrefillAction(formData: FormData) {
   const userName = formData.get('userName')?.toString().trim() ?? '';
   const groupCode = formData.get('groupCode')?.toString().trim() ?? '';
   const seed = formData.get('seed')?.toString().trim() ?? '';
+  const format = formData.get('format')?.toString().trim() ?? '';
+  const era = formData.get('era')?.toString().trim() ?? '';
+  const scoringPreset = formData.get('scoringPreset')?.toString().trim() ?? '';
+  const drawMode = formData.get('drawMode')?.toString().trim() ?? '';
+  const clockMode = formData.get('clockMode')?.toString().trim() ?? '';
+  const timeoutPolicy = formData.get('timeoutPolicy')?.toString().trim() ?? '';
 
   const query = new URLSearchParams();
   if (userName) {
@@ -94,6 +293,24 @@ export async function resetGameWithPrefillAction(formData: FormData) {
   if (seed) {
     query.set('seed', seed);
   }
+  if (format) {
+    query.set('format', format);
+  }
+  if (era) {
+    query.set('era', era);
+  }
+  if (scoringPreset) {
+    query.set('scoringPreset', scoringPreset);
+  }
+  if (drawMode) {
+    query.set('drawMode', drawMode);
+  }
+  if (clockMode) {
+    query.set('clockMode', clockMode);
+  }
+  if (timeoutPolicy) {
+    query.set('timeoutPolicy', timeoutPolicy);
+  }
 
   clearDraftSessionCookieToken();
   const queryString = query.toString();
@@ -0,0 +1,28 @@
+import { createDraftEventStream } from '@/lib/draft-events';
+import { getDraftViewByCookieToken } from '@/lib/draft-service';
+import { getDraftSessionCookieToken } from '@/lib/session-cookie';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: Request) {
+  const cookieToken = getDraftSessionCookieToken();
+
+  if (!cookieToken) {
+    return new Response('No active draft found.', { status: 401 });
+  }
+
+  const stream = createDraftEventStream({
+    loadView: () => getDraftViewByCookieToken(cookieToken),
+    signal: request.signal
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
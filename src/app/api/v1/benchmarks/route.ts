@@ -0,0 +1,16 @@
+import { apiError, apiJson, parseQuery, type ApiBenchmarksResponse } from '@/lib/api-v1';
+import { getRunBenchmarks } from '@/lib/run-service';
+import { benchmarksQuerySchema } from '@/lib/validators';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  const query = parseQuery(benchmarksQuerySchema, new URL(request.url).searchParams);
+
+  if (!query.success) {
+    return apiError(400, 'bad_request', query.message);
+  }
+
+  const benchmarks = await getRunBenchmarks(query.data.groupCode);
+  return apiJson<ApiBenchmarksResponse>({ data: benchmarks }, { maxAgeSeconds: 60 });
+}
@@ -0,0 +1,70 @@
+import {
+  apiError,
+  apiJson,
+  apiPreflight,
+  getBearerToken,
+  parseJsonBody,
+  serializeDraftView,
+  type ApiDraftState
+} from '@/lib/api-v1';
+import { getDraftViewByCookieToken, submitDraftPick } from '@/lib/draft-service';
+import { draftPickSchema } from '@/lib/validators';
+
+export const dynamic = 'force-dynamic';
+
+type SubmitPickResponse = {
+  data: {
+    completed: boolean;
+    shareCode: string | null;
+    draft: ApiDraftState;
+  };
+};
+
+export async function POST(request: Request) {
+  const token = getBearerToken(request);
+
+  if (!token) {
+    return apiError(401, 'unauthorized', 'Send the draft token as `Authorization: Bearer <token>`.');
+  }
+
+  const body = await parseJsonBody(draftPickSchema, request);
+
+  if (!body.success) {
+    return apiError(400, 'bad_request', body.message);
+  }
+
+  if (!(await getDraftViewByCookieToken(token))) {
+    return apiError(404, 'not_found', 'No draft matches this token.');
+  }
+
+  let result: Awaited<ReturnType<typeof submitDraftPick>>;
+
+  try {
+    result = await submitDraftPick({
+      cookieToken: token,
+      playerName: body.data.playerName,
+      slot: body.data.slot
+    });
+  } catch (error) {
+    // Rule violations from the draft service (wrong slot, taken player, not your turn, ...).
+    return apiError(422, 'invalid_pick', error instanceof Error ? error.message : 'Pick was rejected.');
+  }
+
+  const view = await getDraftViewByCookieToken(token);
+
+  if (!view) {
+    return apiError(404, 'not_found', 'No draft matches this token.');
+  }
+
+  return apiJson<SubmitPickResponse>({
+    data: {
+      completed: result.completed,
+      shareCode: result.shareCode ?? null,
+      draft: serializeDraftView(view)
+    }
+  });
+}
+
+export function OPTIONS() {
+  return apiPreflight(['POST']);
+}
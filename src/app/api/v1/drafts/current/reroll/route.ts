@@ -0,0 +1,51 @@
+import { apiError, apiJson, apiPreflight, getBearerToken, serializeDraftView, type ApiDraftState } from '@/lib/api-v1';
+import { getDraftViewByCookieToken, rerollCurrentDraw } from '@/lib/draft-service';
+
+export const dynamic = 'force-dynamic';
+
+type RerollResponse = {
+  data: {
+    completed: boolean;
+    shareCode: string | null;
+    draft: ApiDraftState;
+  };
+};
+
+export async function POST(request: Request) {
+  const token = getBearerToken(request);
+
+  if (!token) {
+    return apiError(401, 'unauthorized', 'Send the draft token as `Authorization: Bearer <token>`.');
+  }
+
+  if (!(await getDraftViewByCookieToken(token))) {
+    return apiError(404, 'not_found', 'No draft matches this token.');
+  }
+
+  let result: Awaited<ReturnType<typeof rerollCurrentDraw>>;
+
+  try {
+    result = await rerollCurrentDraw({ cookieToken: token });
+  } catch (error) {
+    // No rerolls left, draft rooms, or nothing left to draw.
+    return apiError(422, 'invalid_reroll', error instanceof Error ? error.message : 'Reroll was rejected.');
+  }
+
+  const view = await getDraftViewByCookieToken(token);
+
+  if (!view) {
+    return apiError(404, 'not_found', 'No draft matches this token.');
+  }
+
+  return apiJson<RerollResponse>({
+    data: {
+      completed: result.completed,
+      shareCode: result.shareCode ?? null,
+      draft: serializeDraftView(view)
+    }
+  });
+}
+
+export function OPTIONS() {
+  return apiPreflight(['POST']);
+}
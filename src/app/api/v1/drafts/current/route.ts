@@ -0,0 +1,24 @@
+import { apiError, apiJson, apiPreflight, getBearerToken, serializeDraftView, type ApiDraftState } from '@/lib/api-v1';
+import { getDraftViewByCookieToken } from '@/lib/draft-service';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  const token = getBearerToken(request);
+
+  if (!token) {
+    return apiError(401, 'unauthorized', 'Send the draft token as `Authorization: Bearer <token>`.');
+  }
+
+  const view = await getDraftViewByCookieToken(token);
+
+  if (!view) {
+    return apiError(404, 'not_found', 'No draft matches this token.');
+  }
+
+  return apiJson<{ data: ApiDraftState }>({ data: serializeDraftView(view) });
+}
+
+export function OPTIONS() {
+  return apiPreflight(['GET']);
+}
@@ -0,0 +1,43 @@
+import { apiError, apiJson, apiPreflight, parseJsonBody, serializeDraftView, type ApiDraftState } from '@/lib/api-v1';
+import { createDraftSession, getDraftViewByCookieToken } from '@/lib/draft-service';
+import { startGameSchema } from '@/lib/validators';
+
+export const dynamic = 'force-dynamic';
+
+type CreateDraftResponse = {
+  data: {
+    token: string;
+    watchCode: string | null;
+    draft: ApiDraftState;
+  };
+};
+
+export async function POST(request: Request) {
+  const body = await parseJsonBody(startGameSchema, request);
+
+  if (!body.success) {
+    return apiError(400, 'bad_request', body.message);
+  }
+
+  const session = await createDraftSession(body.data);
+  const view = await getDraftViewByCookieToken(session.cookieToken);
+
+  if (!view) {
+    return apiError(404, 'not_found', 'Draft session missing after creation.');
+  }
+
+  return apiJson<CreateDraftResponse>(
+    {
+      data: {
+        token: session.cookieToken,
+        watchCode: view.watchCode,
+        draft: serializeDraftView(view)
+      }
+    },
+    { status: 201 }
+  );
+}
+
+export function OPTIONS() {
+  return apiPreflight(['POST']);
+}
@@ -0,0 +1,52 @@
+import {
+  apiError,
+  apiJson,
+  buildPagination,
+  parseQuery,
+  serializeRun,
+  type ApiLeaderboardResponse
+} from '@/lib/api-v1';
+import { countLeaderboardRuns, getLeaderboardRuns } from '@/lib/run-service';
+import { normalizeGroupCode } from '@/lib/share-code';
+import { leaderboardQuerySchema } from '@/lib/validators';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  const query = parseQuery(leaderboardQuerySchema, new URL(request.url).searchParams);
+
+  if (!query.success) {
+    return apiError(400, 'bad_request', query.message);
+  }
+
+  const { timeframe, assist, era, scoringPreset, clockMode, format, drawMode, score, page, pageSize } = query.data;
+  const groupCode = normalizeGroupCode(query.data.groupCode);
+  const skip = (page - 1) * pageSize;
+  const filters = { groupCode, timeframe, assist, era, scoringPreset, clockMode, format, drawMode, scoreVersion: score };
+  const [runs, total] = await Promise.all([
+    getLeaderboardRuns(filters, { skip, take: pageSize }),
+    countLeaderboardRuns(filters)
+  ]);
+
+  return apiJson<ApiLeaderboardResponse>(
+    {
+      data: runs.map((run, index) => ({
+        rank: skip + index + 1,
+        run: serializeRun(run)
+      })),
+      pagination: buildPagination(page, pageSize, total),
+      filters: {
+        groupCode,
+        timeframe,
+        assist,
+        era,
+        scoringPreset,
+        clockMode,
+        format,
+        drawMode,
+        score
+      }
+    },
+    { maxAgeSeconds: 30 }
+  );
+}
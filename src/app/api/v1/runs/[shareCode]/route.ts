@@ -0,0 +1,15 @@
+import { apiError, apiJson, serializeRun, type ApiRun } from '@/lib/api-v1';
+import { getRunByShareCode } from '@/lib/run-service';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(_request: Request, { params }: { params: { shareCode: string } }) {
+  const run = await getRunByShareCode(params.shareCode);
+
+  if (!run) {
+    return apiError(404, 'not_found', `Run ${params.shareCode.trim().toUpperCase()} was not found.`);
+  }
+
+  // Rescoring can rewrite a saved run's scores; `scoringVersion` tells clients which rules they got.
+  return apiJson<{ data: ApiRun }>({ data: serializeRun(run) }, { maxAgeSeconds: 60 });
+}
@@ -0,0 +1,21 @@
+import { createDraftEventStream } from '@/lib/draft-events';
+import { getDraftViewByWatchCode } from '@/lib/draft-service';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: Request, { params }: { params: { code: string } }) {
+  const stream = createDraftEventStream({
+    loadView: () => getDraftViewByWatchCode(params.code),
+    signal: request.signal
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
@@ -0,0 +1,127 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { startChallengeAction } from '@/app/actions';
+import { SubmitButton } from '@/components/submit-button';
+import { getRunChallengers } from '@/lib/challenge-service';
+import { getClockModeConfig } from '@/lib/clock-modes';
+import { getDraftEraConfig } from '@/lib/eras';
+import { getDraftFormatConfig } from '@/lib/formats';
+import { getRunByShareCode } from '@/lib/run-service';
+import { getScoringPresetConfig } from '@/lib/scoring-presets';
+
+export default async function ChallengePage({
+  params,
+  searchParams
+}: {
+  params: {
+    shareCode: string;
+  };
+  searchParams: {
+    error?: string;
+  };
+}) {
+  const run = await getRunByShareCode(params.shareCode);
+
+  if (!run) {
+    notFound();
+  }
+
+  const challengers = await getRunChallengers(run.shareCode);
+  const formatConfig = getDraftFormatConfig(run.format);
+  const drafter = run.userName ?? 'Anonymous';
+  const canChallenge = run.drawSequence.length >= formatConfig.totalDraws;
+
+  return (
+    <div className="space-y-4">
+      <section className="card p-6">
+        <p className="text-xs font-semibold uppercase tracking-wide text-court-700">Play This Draw</p>
+        <h1 className="text-2xl font-bold text-slate-900">
+          {drafter} scored {run.teamScore.toFixed(1)}. Can you beat it?
+        </h1>
+        <p className="mt-1 text-sm text-slate-600">
+          Draft from the same {formatConfig.totalDraws} franchises in the same order, under the same rules:{' '}
+          {formatConfig.label} format, {getDraftEraConfig(run.era).label} era,{' '}
+          {getScoringPresetConfig(run.scoringPreset).label} scoring, {getClockModeConfig(run.clockMode).label} clock.
+          Rerolls are off so both drafts see the same teams.
+        </p>
+
+        {searchParams.error ? (
+          <p className="mt-4 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+            {searchParams.error}
+          </p>
+        ) : null}
+
+        {canChallenge ? (
+          <form action={startChallengeAction} className="mt-4 flex flex-wrap items-end gap-2">
+            <input type="hidden" name="shareCode" value={run.shareCode} />
+            <div>
+              <label htmlFor="userName" className="mb-1 block text-sm font-medium text-slate-700">
+                Your Name (optional)
+              </label>
+              <input
+                id="userName"
+                name="userName"
+                className="input"
+                placeholder="e.g. Andrew"
+                autoComplete="off"
+                maxLength={32}
+              />
+            </div>
+            <div>
+              <label htmlFor="groupCode" className="mb-1 block text-sm font-medium text-slate-700">
+                Group Code (optional)
+              </label>
+              <input
+                id="groupCode"
+                name="groupCode"
+                className="input"
+                placeholder="e.g. FRIENDS"
+                defaultValue={run.groupCode ?? ''}
+                autoComplete="off"
+                maxLength={16}
+              />
+            </div>
+            <SubmitButton label="Play this draw" pendingLabel="Starting..." testId="start-challenge-button" />
+          </form>
+        ) : (
+          <p className="mt-4 text-sm text-slate-600">
+            This run was saved without its draws, so it cannot be challenged.
+          </p>
+        )}
+
+        <div className="mt-4 text-sm">
+          <Link href={`/results/${run.shareCode}`} className="font-medium text-court-700 hover:underline">
+            View {drafter}&apos;s lineup (spoils the draws)
+          </Link>
+        </div>
+      </section>
+
+      <section className="card overflow-hidden" data-testid="challengers">
+        <div className="border-b border-slate-200 px-4 py-3">
+          <h2 className="text-lg font-semibold text-slate-900">Challengers</h2>
+        </div>
+
+        {challengers.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-slate-600">Nobody has played this draw yet.</p>
+        ) : (
+          <ul className="divide-y divide-slate-100">
+            {challengers.map((challenger) => (
+              <li key={challenger.shareCode} className="flex items-center justify-between px-4 py-3 text-sm">
+                <Link href={`/results/${challenger.shareCode}`} className="font-medium text-court-700 hover:underline">
+                  {challenger.userName ?? 'Anonymous'}
+                </Link>
+                <span
+                  className={
+                    challenger.teamScore > run.teamScore ? 'font-semibold text-emerald-700' : 'text-slate-700'
+                  }
+                >
+                  {challenger.teamScore.toFixed(1)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
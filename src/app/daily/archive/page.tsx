@@ -0,0 +1,58 @@
+import Link from 'next/link';
+import { getTeamByAbbr } from '@/lib/data';
+import { getDailyArchive } from '@/lib/daily-service';
+import { getRunPickSummary, pluralize } from '@/lib/format';
+
+export default async function DailyArchivePage() {
+  const days = await getDailyArchive();
+
+  return (
+    <div className="space-y-4">
+      <section className="card p-6">
+        <h1 className="text-2xl font-bold text-slate-900">Daily Challenge Archive</h1>
+        <p className="mt-1 text-sm text-slate-600">
+          Past days&apos; draws and the lineup that won each one.
+        </p>
+        <Link href="/daily" className="button-primary mt-4">
+          Play today&apos;s challenge
+        </Link>
+      </section>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {days.map((day) => (
+          <section key={day.dailyDate} className="card p-5" data-testid={`daily-archive-${day.dailyDate}`}>
+            <div className="flex items-center justify-between gap-3">
+              <h2 className="text-lg font-semibold text-slate-900">{day.dailyDate}</h2>
+              <Link
+                href={`/daily?date=${day.dailyDate}`}
+                className="text-sm font-medium text-court-700 hover:underline"
+              >
+                {pluralize(day.entryCount, 'entry', 'entries')}
+              </Link>
+            </div>
+
+            <p className="mt-2 text-xs font-semibold uppercase tracking-wide text-slate-500">Draws</p>
+            <p className="text-sm text-slate-700">
+              {day.drawSequence.map((abbr) => getTeamByAbbr(abbr)?.name ?? abbr).join(' -> ')}
+            </p>
+
+            <p className="mt-3 text-xs font-semibold uppercase tracking-wide text-slate-500">Winning lineup</p>
+            {day.winner ? (
+              <div className="text-sm text-slate-700">
+                <p>
+                  <Link href={`/results/${day.winner.shareCode}`} className="font-semibold text-court-700 hover:underline">
+                    {day.winner.teamScore.toFixed(1)}
+                  </Link>{' '}
+                  by {day.winner.userName ?? 'Anonymous'}
+                </p>
+                <p className="mt-1 text-xs text-slate-600">{getRunPickSummary(day.winner.picks)}</p>
+              </div>
+            ) : (
+              <p className="text-sm text-slate-500">Nobody finished this day.</p>
+            )}
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+export default function DailyLoading() {
+  return (
+    <div className="card p-6">
+      <p className="text-sm text-slate-600">Loading daily challenge...</p>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import Link from 'next/link';
+import { startDailyAction } from '@/app/actions';
+import { SubmitButton } from '@/components/submit-button';
+import { getDailyDateKey, parseDailyDateKey } from '@/lib/daily';
+import { getDailyEntryForDevice } from '@/lib/daily-service';
+import { getRunPickSummary } from '@/lib/format';
+import { getDailyChallengeRuns } from '@/lib/run-service';
+import { getDeviceId } from '@/lib/session-cookie';
+
+export default async function DailyChallengePage({
+  searchParams
+}: {
+  searchParams: {
+    error?: string;
+    date?: string;
+  };
+}) {
+  const todayKey = getDailyDateKey();
+  const dailyDate = parseDailyDateKey(searchParams.date) ?? todayKey;
+  const isToday = dailyDate === todayKey;
+  const [runs, entry] = await Promise.all([
+    getDailyChallengeRuns(dailyDate),
+    isToday ? getDailyEntryForDevice(dailyDate, getDeviceId()) : Promise.resolve(null)
+  ]);
+
+  return (
+    <div className="space-y-4">
+      <section className="card p-6">
+        <p className="text-xs font-semibold uppercase tracking-wide text-court-700">Daily Challenge</p>
+        <h1 className="text-2xl font-bold text-slate-900">{dailyDate}</h1>
+        <p className="mt-1 text-sm text-slate-600">
+          {isToday
+            ? 'Everyone gets the same five franchises today (UTC). One attempt per player.'
+            : 'A past daily challenge. Every player drafted from the same five franchises.'}
+        </p>
+
+        {searchParams.error ? (
+          <p className="mt-4 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+            {searchParams.error}
+          </p>
+        ) : null}
+
+        {isToday ? (
+          entry?.status === 'COMPLETED' ? (
+            <div className="mt-4 flex flex-wrap items-center gap-3">
+              <p className="text-sm text-slate-700">
+                You scored <span className="font-semibold">{entry.teamScore?.toFixed(1) ?? '--'}</span> today.
+              </p>
+              {entry.shareCode ? (
+                <Link href={`/results/${entry.shareCode}`} className="button-secondary">
+                  View your lineup
+                </Link>
+              ) : null}
+            </div>
+          ) : (
+            <form action={startDailyAction} className="mt-4 flex flex-wrap items-end gap-2">
+              {entry ? null : (
+                <div>
+                  <label htmlFor="userName" className="mb-1 block text-sm font-medium text-slate-700">
+                    Your Name (optional)
+                  </label>
+                  <input
+                    id="userName"
+                    name="userName"
+                    className="input"
+                    placeholder="e.g. Andrew"
+                    autoComplete="off"
+                    maxLength={32}
+                  />
+                </div>
+              )}
+              <SubmitButton
+                label={entry ? "Resume today's draft" : "Play today's challenge"}
+                pendingLabel="Starting..."
+                testId="start-daily-button"
+              />
+            </form>
+          )
+        ) : (
+          <Link href="/daily" className="button-primary mt-4">
+            Play today&apos;s challenge
+          </Link>
+        )}
+
+        <div className="mt-4 text-sm">
+          <Link href="/daily/archive" className="font-medium text-court-700 hover:underline">
+            Past daily challenges
+          </Link>
+        </div>
+      </section>
+
+      <section className="card overflow-hidden">
+        <div className="border-b border-slate-200 px-4 py-3">
+          <h2 className="text-lg font-semibold text-slate-900">
+            {isToday ? "Today's Leaderboard" : `Leaderboard for ${dailyDate}`}
+          </h2>
+        </div>
+
+        {runs.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-slate-600">No finished runs for this day yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-slate-50 text-left text-xs uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="px-4 py-3">Rank</th>
+                  <th className="px-4 py-3">Score</th>
+                  <th className="px-4 py-3">Name</th>
+                  <th className="px-4 py-3">Lineup</th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map((run, index) => (
+                  <tr key={run.id} className="border-t border-slate-100 align-top">
+                    <td className="px-4 py-3 font-semibold text-slate-900">#{index + 1}</td>
+                    <td className="px-4 py-3 font-semibold text-slate-900">
+                      <Link href={`/results/${run.shareCode}`} className="text-court-700 hover:underline">
+                        {run.teamScore.toFixed(1)}
+                      </Link>
+                    </td>
+                    <td className="px-4 py-3 text-slate-700">{run.userName ?? 'Anonymous'}</td>
+                    <td className="px-4 py-3 text-slate-700">{getRunPickSummary(run.picks)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -1,9 +1,17 @@
 import Link from 'next/link';
 import { redirect } from 'next/navigation';
 import { resetGameAction } from '@/app/actions';
+import { CopyLinkButton } from '@/components/copy-link-button';
 import { DraftBoard } from '@/components/draft-board';
+import { DraftLiveUpdates } from '@/components/draft-live-updates';
+import { getClockCaption, getClockModeConfig } from '@/lib/clock-modes';
+import { REROLL_PENALTY_POINTS } from '@/lib/constants';
 import { getRosterByTeam, getTeamByAbbr } from '@/lib/data';
 import { getDraftViewByCookieToken } from '@/lib/draft-service';
+import { getDrawModeConfig } from '@/lib/draw-modes';
+import { getDraftEraConfig } from '@/lib/eras';
+import { buildPickAdvice } from '@/lib/pick-advisor';
+import { getScoringPresetConfig } from '@/lib/scoring-presets';
 import { getDraftSessionCookieToken } from '@/lib/session-cookie';
 
 export default async function DraftPage({
@@ -29,6 +37,10 @@ export default async function DraftPage({
     redirect(`/results/${draftView.runShareCode}`);
   }
 
+  if (draftView.room?.status === 'LOBBY') {
+    redirect(`/rooms/${draftView.room.code}`);
+  }
+
   if (!draftView.currentTeamAbbr) {
     return (
       <div className="card p-6">
@@ -44,19 +56,70 @@ export default async function DraftPage({
   }
 
   const currentTeam = getTeamByAbbr(draftView.currentTeamAbbr);
-  const roster = getRosterByTeam(draftView.currentTeamAbbr);
+  const roster = getRosterByTeam(draftView.currentTeamAbbr, draftView.era);
 
   if (!currentTeam) {
     redirect('/?error=Current team is invalid. Start a new game.');
   }
 
+  const chosenPlayersSet = new Set(draftView.chosenPlayers);
+  const takenPlayers = draftView.room
+    ? draftView.room.takenPlayers.filter((playerName) => !chosenPlayersSet.has(playerName))
+    : [];
+  const pickAdvice = draftView.coachAvailable && draftView.coachEnabled
+    ? buildPickAdvice({
+        teamAbbr: draftView.currentTeamAbbr,
+        lineup: draftView.lineup,
+        lineupSlots: draftView.lineupSlots,
+        format: draftView.format,
+        era: draftView.era,
+        preset: draftView.scoringPreset,
+        rerolls: draftView.rerolls.length,
+        futureTeams: draftView.drawSequence.slice(draftView.currentDrawIndex + 1, draftView.totalDraws),
+        unavailablePlayers: [...draftView.chosenPlayers, ...takenPlayers]
+      })
+    : null;
+
   return (
     <div className="space-y-4 pb-24 md:pb-0">
       <div className="flex items-center justify-between">
-        <h1 className="text-xl font-semibold text-slate-900">Draft Round</h1>
-        <Link href="/leaderboard" className="rounded-full border border-blue-200 bg-blue-50 px-3 py-1.5 text-sm font-semibold text-court-700 hover:bg-blue-100">
-          Leaderboard
-        </Link>
+        <div>
+          <h1 className="text-xl font-semibold text-slate-900">Draft Round</h1>
+          {draftView.era !== 'ALL_TIME' ? (
+            <p className="text-xs font-semibold uppercase tracking-wide text-court-700">
+              {getDraftEraConfig(draftView.era).label} era
+            </p>
+          ) : null}
+          {draftView.scoringPreset !== 'BALANCED' ? (
+            <p className="text-xs font-semibold uppercase tracking-wide text-court-700">
+              {getScoringPresetConfig(draftView.scoringPreset).label} scoring
+            </p>
+          ) : null}
+          {draftView.drawMode !== 'UNIFORM' ? (
+            <p className="text-xs font-semibold uppercase tracking-wide text-court-700">
+              {getDrawModeConfig(draftView.drawMode).label} draws
+            </p>
+          ) : null}
+          {draftView.clockMode !== 'STANDARD' ? (
+            <p className="text-xs font-semibold uppercase tracking-wide text-court-700" data-testid="clock-mode">
+              {getClockModeConfig(draftView.clockMode).label} clock
+            </p>
+          ) : null}
+          {draftView.challengeShareCode ? (
+            <p className="text-xs font-semibold uppercase tracking-wide text-court-700" data-testid="challenge-mode">
+              Challenge: same draws as run {draftView.challengeShareCode}
+            </p>
+          ) : null}
+          <DraftLiveUpdates url="/api/draft/events" />
+        </div>
+        <div className="flex items-center gap-2">
+          {draftView.watchCode ? (
+            <CopyLinkButton url={`/watch/${draftView.watchCode}`} label="Copy watch link" />
+          ) : null}
+          <Link href="/leaderboard" className="rounded-full border border-blue-200 bg-blue-50 px-3 py-1.5 text-sm font-semibold text-court-700 hover:bg-blue-100">
+            Leaderboard
+          </Link>
+        </div>
       </div>
 
       <section className="card p-4">
@@ -69,7 +132,11 @@ export default async function DraftPage({
             2) Choose open slot
           </span>
           <span className="chip-control" data-active="true">
-            3) Lock before 24s
+            {draftView.shotClockSeconds !== null
+              ? `3) Lock before ${draftView.shotClockSeconds}s`
+              : draftView.timeBankSeconds !== null
+                ? '3) Lock before the bank runs out'
+                : '3) Lock it in'}
           </span>
         </div>
       </section>
@@ -80,12 +147,21 @@ export default async function DraftPage({
         roster={roster}
         lineup={draftView.lineup}
         chosenPlayers={draftView.chosenPlayers}
+        takenPlayers={takenPlayers}
+        roomTurn={draftView.room}
         currentDrawIndex={draftView.currentDrawIndex}
+        lineupSlots={draftView.lineupSlots}
+        totalDraws={draftView.totalDraws}
         userName={draftView.userName}
         groupCode={draftView.groupCode}
         seed={draftView.seed}
         shotClockDeadlineAt={draftView.shotClockDeadlineAt}
-        shotClockSeconds={draftView.shotClockSeconds}
+        shotClockCaption={getClockCaption(draftView)}
+        coachEnabled={draftView.coachEnabled}
+        coachAvailable={draftView.coachAvailable}
+        rerollsRemaining={draftView.rerollsRemaining}
+        rerollPenaltyPoints={REROLL_PENALTY_POINTS}
+        pickAdvice={pickAdvice}
         errorMessage={searchParams.error ?? null}
       />
     </div>
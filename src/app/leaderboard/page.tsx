@@ -1,8 +1,59 @@
 import Image from 'next/image';
 import Link from 'next/link';
+import { getClockModeConfig, getClockModeOptions } from '@/lib/clock-modes';
 import { getTeamLogoUrl } from '@/lib/data';
+import { getDrawModeConfig, getDrawModeOptions } from '@/lib/draw-modes';
+import { getDraftEraConfig, getDraftEraOptions } from '@/lib/eras';
 import { formatDateTime } from '@/lib/format';
+import { getDraftFormatConfig, getDraftFormatOptions, ROSTER_SLOT_LABELS } from '@/lib/formats';
 import { getLeaderboardRuns } from '@/lib/run-service';
+import { getScoringPresetConfig, getScoringPresetOptions } from '@/lib/scoring-presets';
+import { LEADERBOARD_ASSIST_FILTERS, LEADERBOARD_SCORE_VERSIONS } from '@/lib/types';
+import type { LeaderboardAssistFilter, LeaderboardScoreVersion, RosterSlot } from '@/lib/types';
+
+const ASSIST_FILTER_LABELS: Record<LeaderboardAssistFilter, string> = {
+  all: 'All runs',
+  unassisted: 'Unassisted only',
+  assisted: 'Coach-assisted only'
+};
+
+const SCORE_VERSION_LABELS: Record<LeaderboardScoreVersion, string> = {
+  current: 'Current scoring',
+  original: 'As originally scored',
+  luck_adjusted: 'Luck-adjusted'
+};
+
+function getRankedScore(
+  run: { teamScore: number; originalTeamScore: number; luckAdjustedScore: number | null },
+  scoreVersion: LeaderboardScoreVersion
+): string {
+  if (scoreVersion === 'original') {
+    return run.originalTeamScore.toFixed(1);
+  }
+
+  if (scoreVersion === 'luck_adjusted') {
+    return run.luckAdjustedScore?.toFixed(1) ?? '-';
+  }
+
+  return run.teamScore.toFixed(1);
+}
+
+// Tab links keep every other filter on the page and only swap their own parameter.
+function buildLeaderboardHref(
+  searchParams: Record<string, string | undefined>,
+  overrides: Record<string, string | undefined>
+): string {
+  const query = new URLSearchParams();
+
+  for (const [key, value] of Object.entries({ ...searchParams, ...overrides })) {
+    if (value?.trim()) {
+      query.set(key, value);
+    }
+  }
+
+  const queryString = query.toString();
+  return queryString ? `/leaderboard?${queryString}` : '/leaderboard';
+}
 
 export default async function LeaderboardPage({
   searchParams
@@ -10,11 +61,37 @@ export default async function LeaderboardPage({
   searchParams: {
     groupCode?: string;
     timeframe?: string;
+    assist?: string;
+    era?: string;
+    scoringPreset?: string;
+    clockMode?: string;
+    format?: string;
+    drawMode?: string;
+    score?: string;
   };
 }) {
   const groupCode = searchParams.groupCode?.trim() ?? '';
   const timeframe = searchParams.timeframe === 'daily' ? 'daily' : 'all';
-  const runs = await getLeaderboardRuns(groupCode || null, timeframe);
+  const assist =
+    LEADERBOARD_ASSIST_FILTERS.find((filter) => filter === searchParams.assist) ?? 'all';
+  const eraConfig = getDraftEraConfig(searchParams.era);
+  const scoringPresetConfig = getScoringPresetConfig(searchParams.scoringPreset);
+  const clockModeConfig = getClockModeConfig(searchParams.clockMode);
+  const formatConfig = getDraftFormatConfig(searchParams.format);
+  const drawModeConfig = getDrawModeConfig(searchParams.drawMode);
+  const scoreVersion =
+    LEADERBOARD_SCORE_VERSIONS.find((version) => version === searchParams.score) ?? 'current';
+  const runs = await getLeaderboardRuns({
+    groupCode: groupCode || null,
+    timeframe,
+    assist,
+    era: eraConfig.era,
+    scoringPreset: scoringPresetConfig.preset,
+    clockMode: clockModeConfig.mode,
+    format: formatConfig.format,
+    drawMode: drawModeConfig.mode,
+    scoreVersion
+  });
 
   return (
     <div className="space-y-4">
@@ -26,7 +103,7 @@ export default async function LeaderboardPage({
 
         <div className="mt-4 inline-flex rounded-xl border border-slate-200 bg-slate-50 p-1">
           <Link
-            href={groupCode ? `/leaderboard?groupCode=${encodeURIComponent(groupCode)}` : '/leaderboard'}
+            href={buildLeaderboardHref(searchParams, { timeframe: undefined })}
             className={`rounded-lg px-3 py-1.5 text-sm font-semibold ${
               timeframe === 'all' ? 'bg-white text-court-700 shadow-sm' : 'text-slate-600'
             }`}
@@ -34,11 +111,7 @@ export default async function LeaderboardPage({
             All-time
           </Link>
           <Link
-            href={
-              groupCode
-                ? `/leaderboard?timeframe=daily&groupCode=${encodeURIComponent(groupCode)}`
-                : '/leaderboard?timeframe=daily'
-            }
+            href={buildLeaderboardHref(searchParams, { timeframe: 'daily' })}
             className={`rounded-lg px-3 py-1.5 text-sm font-semibold ${
               timeframe === 'daily' ? 'bg-white text-court-700 shadow-sm' : 'text-slate-600'
             }`}
@@ -62,6 +135,90 @@ export default async function LeaderboardPage({
               maxLength={16}
             />
           </div>
+          <div>
+            <label htmlFor="era" className="mb-1 block text-sm font-medium text-slate-700">
+              Era
+            </label>
+            <select id="era" name="era" className="input" defaultValue={eraConfig.era}>
+              {getDraftEraOptions().map((option) => (
+                <option key={option.era} value={option.era}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="scoringPreset" className="mb-1 block text-sm font-medium text-slate-700">
+              Scoring
+            </label>
+            <select id="scoringPreset" name="scoringPreset" className="input" defaultValue={scoringPresetConfig.preset}>
+              {getScoringPresetOptions().map((option) => (
+                <option key={option.preset} value={option.preset}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="clockMode" className="mb-1 block text-sm font-medium text-slate-700">
+              Clock
+            </label>
+            <select id="clockMode" name="clockMode" className="input" defaultValue={clockModeConfig.mode}>
+              {getClockModeOptions().map((option) => (
+                <option key={option.mode} value={option.mode}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="format" className="mb-1 block text-sm font-medium text-slate-700">
+              Format
+            </label>
+            <select id="format" name="format" className="input" defaultValue={formatConfig.format}>
+              {getDraftFormatOptions().map((option) => (
+                <option key={option.format} value={option.format}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="drawMode" className="mb-1 block text-sm font-medium text-slate-700">
+              Draws
+            </label>
+            <select id="drawMode" name="drawMode" className="input" defaultValue={drawModeConfig.mode}>
+              {getDrawModeOptions().map((option) => (
+                <option key={option.mode} value={option.mode}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="assist" className="mb-1 block text-sm font-medium text-slate-700">
+              Coach
+            </label>
+            <select id="assist" name="assist" className="input" defaultValue={assist}>
+              {LEADERBOARD_ASSIST_FILTERS.map((filter) => (
+                <option key={filter} value={filter}>
+                  {ASSIST_FILTER_LABELS[filter]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="score" className="mb-1 block text-sm font-medium text-slate-700">
+              Rank By
+            </label>
+            <select id="score" name="score" className="input" defaultValue={scoreVersion}>
+              {LEADERBOARD_SCORE_VERSIONS.map((version) => (
+                <option key={version} value={version}>
+                  {SCORE_VERSION_LABELS[version]}
+                </option>
+              ))}
+            </select>
+          </div>
           <button type="submit" className="button-primary">
             Apply
           </button>
@@ -79,6 +236,11 @@ export default async function LeaderboardPage({
               : timeframe === 'daily'
                 ? 'Daily Top Runs'
                 : 'All-time Top Runs'}
+            {eraConfig.era !== 'ALL_TIME' ? ` · ${eraConfig.label} era` : null}
+            {scoringPresetConfig.preset !== 'BALANCED' ? ` · ${scoringPresetConfig.label} scoring` : null}
+            {clockModeConfig.mode !== 'STANDARD' ? ` · ${clockModeConfig.label} clock` : null}
+            {formatConfig.format !== 'STANDARD' ? ` · ${formatConfig.label}` : null}
+            {drawModeConfig.mode !== 'UNIFORM' ? ` · ${drawModeConfig.label} draws` : null}
           </h2>
         </div>
 
@@ -102,8 +264,25 @@ export default async function LeaderboardPage({
                 {runs.map((run, index) => (
                   <tr key={run.id} className="border-t border-slate-100 align-top">
                     <td className="px-4 py-3 font-semibold text-slate-900">#{index + 1}</td>
-                    <td className="px-4 py-3 font-semibold text-slate-900">{run.teamScore.toFixed(1)}</td>
-                    <td className="px-4 py-3 text-slate-700">{run.userName ?? 'Anonymous'}</td>
+                    <td className="px-4 py-3 font-semibold text-slate-900">
+                      {getRankedScore(run, scoreVersion)}
+                      <span className="block text-[11px] font-medium text-slate-500">
+                        {getDraftFormatConfig(run.format).label}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-slate-700">
+                      {run.userName ?? 'Anonymous'}
+                      {run.coachAssisted ? (
+                        <span className="ml-1 rounded-full border border-amber-200 bg-amber-50 px-2 py-0.5 text-[10px] font-bold text-amber-700">
+                          Assisted
+                        </span>
+                      ) : null}
+                      {run.rerollCount > 0 ? (
+                        <span className="ml-1 rounded-full border border-slate-200 bg-slate-50 px-2 py-0.5 text-[10px] font-bold text-slate-600">
+                          Rerolled
+                        </span>
+                      ) : null}
+                    </td>
                     <td className="px-4 py-3">
                       <Link href={`/results/${run.shareCode}`} className="font-semibold text-court-700 hover:underline">
                         {run.shareCode}
@@ -117,7 +296,10 @@ export default async function LeaderboardPage({
 
                           return (
                             <li key={pick.id}>
-                              <span className="font-semibold">{pick.slot}</span>:{' '}
+                              <span className="font-semibold">
+                                {ROSTER_SLOT_LABELS[pick.slot as RosterSlot] ?? pick.slot}
+                              </span>
+                              :{' '}
                               <span className="inline-flex items-center gap-1">
                                 {teamLogoUrl ? (
                                   <Image
@@ -1,5 +1,11 @@
 import Link from 'next/link';
 import { startGameAction } from '@/app/actions';
+import { getClockModeOptions, parseClockMode } from '@/lib/clock-modes';
+import { getDrawModeOptions, parseDrawMode } from '@/lib/draw-modes';
+import { getDraftEraOptions, parseDraftEra } from '@/lib/eras';
+import { getDraftFormatOptions, parseDraftFormat } from '@/lib/formats';
+import { getScoringPresetOptions, parseScoringPreset } from '@/lib/scoring-presets';
+import { getTimeoutPolicyOptions, parseTimeoutPolicy } from '@/lib/timeout-policies';
 
 export default function HomePage({
   searchParams
@@ -9,12 +15,30 @@ export default function HomePage({
     userName?: string;
     groupCode?: string;
     seed?: string;
+    format?: string;
+    era?: string;
+    scoringPreset?: string;
+    drawMode?: string;
+    clockMode?: string;
+    timeoutPolicy?: string;
   };
 }) {
   const errorMessage = searchParams.error;
   const defaultUserName = searchParams.userName?.trim() ?? '';
   const defaultGroupCode = searchParams.groupCode?.trim() ?? '';
   const defaultSeed = searchParams.seed?.trim() ?? '';
+  const defaultFormat = parseDraftFormat(searchParams.format?.trim());
+  const formatOptions = getDraftFormatOptions();
+  const defaultEra = parseDraftEra(searchParams.era?.trim());
+  const eraOptions = getDraftEraOptions();
+  const defaultScoringPreset = parseScoringPreset(searchParams.scoringPreset?.trim());
+  const scoringPresetOptions = getScoringPresetOptions();
+  const defaultDrawMode = parseDrawMode(searchParams.drawMode?.trim());
+  const drawModeOptions = getDrawModeOptions();
+  const defaultClockMode = parseClockMode(searchParams.clockMode?.trim());
+  const clockModeOptions = getClockModeOptions();
+  const defaultTimeoutPolicy = parseTimeoutPolicy(searchParams.timeoutPolicy?.trim());
+  const timeoutPolicyOptions = getTimeoutPolicyOptions();
 
   return (
     <div className="grid gap-4 md:grid-cols-[1.2fr_1fr]">
@@ -90,6 +114,108 @@ export default function HomePage({
             />
           </div>
 
+          <div>
+            <label htmlFor="format" className="mb-1 block text-sm font-medium text-slate-700">
+              Roster Format
+            </label>
+            <select id="format" name="format" className="input" defaultValue={defaultFormat}>
+              {formatOptions.map((option) => (
+                <option key={option.format} value={option.format}>
+                  {option.label} ({option.totalDraws} draws)
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-slate-500">
+              Bench formats add extra draws. Bench slots accept any position and count for less than
+              starters.
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="era" className="mb-1 block text-sm font-medium text-slate-700">
+              Era
+            </label>
+            <select id="era" name="era" className="input" defaultValue={defaultEra}>
+              {eraOptions.map((option) => (
+                <option key={option.era} value={option.era}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-slate-500">
+              Era drafts only offer players whose years with the franchise overlap that era, and rank on
+              their own leaderboard.
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="scoringPreset" className="mb-1 block text-sm font-medium text-slate-700">
+              Scoring
+            </label>
+            <select id="scoringPreset" name="scoringPreset" className="input" defaultValue={defaultScoringPreset}>
+              {scoringPresetOptions.map((option) => (
+                <option key={option.preset} value={option.preset}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-slate-500">
+              Presets change how players and chemistry are weighted. Runs only rank against runs scored
+              with the same preset.
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="drawMode" className="mb-1 block text-sm font-medium text-slate-700">
+              Draws
+            </label>
+            <select id="drawMode" name="drawMode" className="input" defaultValue={defaultDrawMode}>
+              {drawModeOptions.map((option) => (
+                <option key={option.mode} value={option.mode}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-slate-500">
+              Balanced tiers draw one franchise from each strength tier, so nobody gets only the Lakers and
+              Celtics. Every run also gets a luck-adjusted score.
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="clockMode" className="mb-1 block text-sm font-medium text-slate-700">
+              Shot Clock
+            </label>
+            <select id="clockMode" name="clockMode" className="input" defaultValue={defaultClockMode}>
+              {clockModeOptions.map((option) => (
+                <option key={option.mode} value={option.mode}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-slate-500">
+              Blitz gives 10 seconds a draw, Study has no clock, and Time Bank shares 90 seconds across the
+              round. Runs only rank against runs played on the same clock.
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="timeoutPolicy" className="mb-1 block text-sm font-medium text-slate-700">
+              Shot Clock Violations
+            </label>
+            <select id="timeoutPolicy" name="timeoutPolicy" className="input" defaultValue={defaultTimeoutPolicy}>
+              {timeoutPolicyOptions.map((option) => (
+                <option key={option.policy} value={option.policy}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-slate-500">
+              Auto-pick drafts the franchise&apos;s weakest player who still fits instead of leaving a 0-point
+              empty slot.
+            </p>
+          </div>
+
           <button type="submit" className="button-primary w-full md:w-auto" data-testid="start-game-button">
             Start Game
           </button>
@@ -99,6 +225,14 @@ export default function HomePage({
           <Link href="/leaderboard" className="font-medium text-court-700 hover:underline">
             View leaderboard
           </Link>
+          <span className="mx-2 text-slate-300">|</span>
+          <Link href="/daily" className="font-medium text-court-700 hover:underline">
+            Play the daily challenge
+          </Link>
+          <span className="mx-2 text-slate-300">|</span>
+          <Link href="/rooms" className="font-medium text-court-700 hover:underline">
+            Draft against friends in a room
+          </Link>
         </div>
       </section>
 
@@ -0,0 +1,136 @@
+import { ImageResponse } from 'next/og';
+import { getTeamLogoUrl } from '@/lib/data';
+import { getDraftEraConfig } from '@/lib/eras';
+import { getDraftFormatConfig, ROSTER_SLOT_LABELS } from '@/lib/formats';
+import { getRunByShareCode } from '@/lib/run-service';
+import { getScoringPresetConfig } from '@/lib/scoring-presets';
+import type { RosterSlot } from '@/lib/types';
+
+export const runtime = 'nodejs';
+export const alt = 'NBA All-Time Draft lineup';
+export const size = {
+  width: 1200,
+  height: 630
+};
+export const contentType = 'image/png';
+
+export default async function ResultOpenGraphImage({ params }: { params: { shareCode: string } }) {
+  const run = await getRunByShareCode(params.shareCode);
+
+  if (!run) {
+    return new ImageResponse(
+      (
+        <div
+          style={{
+            display: 'flex',
+            width: '100%',
+            height: '100%',
+            alignItems: 'center',
+            justifyContent: 'center',
+            background: '#0f172a',
+            color: '#ffffff',
+            fontSize: 56,
+            fontWeight: 700
+          }}
+        >
+          NBA All-Time Draft
+        </div>
+      ),
+      size
+    );
+  }
+
+  const formatConfig = getDraftFormatConfig(run.format);
+  const eraConfig = getDraftEraConfig(run.era);
+  const scoringPresetConfig = getScoringPresetConfig(run.scoringPreset);
+  const modeLabel = [
+    formatConfig.label,
+    eraConfig.era !== 'ALL_TIME' ? eraConfig.label : null,
+    scoringPresetConfig.preset !== 'BALANCED' ? scoringPresetConfig.label : null
+  ]
+    .filter(Boolean)
+    .join(' · ');
+  const chemistryMultiplier = run.chemistryMultiplier > 0 ? run.chemistryMultiplier : 1;
+  // Deeper formats have up to eight picks; tighten rows so they still fit the card.
+  const rowHeight = run.picks.length > 5 ? 52 : 68;
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          display: 'flex',
+          width: '100%',
+          height: '100%',
+          padding: 48,
+          background: 'linear-gradient(135deg, #0f172a 0%, #1d4ed8 100%)',
+          color: '#ffffff',
+          fontFamily: 'sans-serif'
+        }}
+      >
+        <div style={{ display: 'flex', flexDirection: 'column', width: 380, justifyContent: 'space-between' }}>
+          <div style={{ display: 'flex', flexDirection: 'column' }}>
+            <div style={{ fontSize: 24, fontWeight: 700, letterSpacing: 4, color: '#93c5fd' }}>
+              NBA ALL-TIME DRAFT
+            </div>
+            <div style={{ marginTop: 12, fontSize: 36, fontWeight: 700 }}>{run.userName ?? 'Anonymous'}</div>
+            <div style={{ marginTop: 4, fontSize: 24, color: '#cbd5e1' }}>
+              {modeLabel}
+            </div>
+          </div>
+
+          <div style={{ display: 'flex', flexDirection: 'column' }}>
+            <div style={{ fontSize: 24, color: '#cbd5e1' }}>Team Score</div>
+            <div style={{ fontSize: 120, fontWeight: 800, lineHeight: 1 }}>{run.teamScore.toFixed(1)}</div>
+            <div style={{ marginTop: 12, fontSize: 28, color: '#fde68a' }}>
+              Chemistry x{chemistryMultiplier.toFixed(2)}
+            </div>
+          </div>
+        </div>
+
+        <div style={{ display: 'flex', flexDirection: 'column', flex: 1, justifyContent: 'center', gap: 10 }}>
+          {run.picks.map((pick) => {
+            const teamLogoUrl = getTeamLogoUrl(pick.teamAbbr);
+
+            return (
+              <div
+                key={pick.id}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  height: rowHeight,
+                  padding: '0 20px',
+                  borderRadius: 16,
+                  background: 'rgba(255, 255, 255, 0.12)'
+                }}
+              >
+                <div style={{ display: 'flex', width: 120, fontSize: 24, fontWeight: 700, color: '#93c5fd' }}>
+                  {ROSTER_SLOT_LABELS[pick.slot as RosterSlot] ?? pick.slot}
+                </div>
+                {teamLogoUrl ? (
+                  <div
+                    style={{
+                      display: 'flex',
+                      width: rowHeight - 16,
+                      height: rowHeight - 16,
+                      marginRight: 16,
+                      borderRadius: 8,
+                      backgroundColor: '#ffffff',
+                      backgroundImage: `url(${teamLogoUrl})`,
+                      backgroundSize: `${rowHeight - 24}px ${rowHeight - 24}px`,
+                      backgroundPosition: 'center',
+                      backgroundRepeat: 'no-repeat'
+                    }}
+                  />
+                ) : null}
+                <div style={{ display: 'flex', fontSize: 30, fontWeight: 600 }}>
+                  {pick.isPenalty ? 'Shot Clock Violation' : pick.playerName}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    ),
+    size
+  );
+}
@@ -1,16 +1,27 @@
+import type { Metadata } from 'next';
 import Image from 'next/image';
 import Link from 'next/link';
 import { headers } from 'next/headers';
 import { notFound } from 'next/navigation';
 import { resetGameWithPrefillAction } from '@/app/actions';
 import { ChemistryRadar } from '@/components/chemistry-radar';
+import { ARCHETYPE_LABELS, getArchetypeComboConfig } from '@/lib/archetypes';
+import { buildChallengeHeadToHead } from '@/lib/challenge';
 import { CopyLinkButton } from '@/components/copy-link-button';
+import { getClockModeConfig } from '@/lib/clock-modes';
 import { cn } from '@/lib/cn';
-import { getPlayerExplanationData, getTeamLogoUrl } from '@/lib/data';
-import { formatDateTime } from '@/lib/format';
-import { getRunBenchmarks, getRunByShareCode } from '@/lib/run-service';
-import { scoreLineup } from '@/lib/scoring';
-import type { ChemistryBreakdown, LineupPick } from '@/lib/types';
+import { getPlayerArchetypes, getPlayerExplanationData, getTeamByAbbr, getTeamLogoUrl } from '@/lib/data';
+import { getDrawModeConfig } from '@/lib/draw-modes';
+import { getDraftEraConfig } from '@/lib/eras';
+import { formatDateTime, pluralize } from '@/lib/format';
+import { getDraftFormatConfig, ROSTER_SLOT_LABELS } from '@/lib/formats';
+import { getRunBenchmarks, getRunByShareCode, getRunOptimalLineup, getRunPercentiles } from '@/lib/run-service';
+import { getPositionalFit, getPositionalFitPoints, getRerollPenalty, scoreLineup } from '@/lib/scoring';
+import { getScoringPresetConfig } from '@/lib/scoring-presets';
+import { safeParseJson } from '@/lib/serialization';
+import { findTeammatePairs } from '@/lib/teammates';
+import { getTimeoutPolicyConfig } from '@/lib/timeout-policies';
+import type { ChemistryBreakdown, DraftLogEntry, DrawReroll, LineupPick, PositionalFit, RosterSlot } from '@/lib/types';
 
 type ResultPick = {
   id: string;
@@ -24,6 +35,7 @@ type ResultPick = {
   epm: number;
   usedFallback: boolean;
   isPenalty: boolean;
+  autoDrafted: boolean;
   contribution: number;
 };
 
@@ -40,6 +52,13 @@ type PercentileBadgeStyle = {
   tier: string;
 };
 
+const POSITIONAL_FIT_LABELS: Record<PositionalFit, string> = {
+  PRIMARY: 'natural position',
+  SECONDARY: 'secondary position',
+  BENCH: 'bench role',
+  OUT_OF_POSITION: 'out of position'
+};
+
 const CHEMISTRY_EXPLANATIONS: Array<{
   key: keyof Pick<ChemistryBreakdown, 'roleCoverage' | 'complementarity' | 'usageBalance' | 'twoWayBalance' | 'culture'>;
   label: string;
@@ -253,6 +272,45 @@ function resolveBaseUrl(headerStore: Headers): string | null {
   return `${protocol}://${host}`;
 }
 
+export async function generateMetadata({
+  params
+}: {
+  params: {
+    shareCode: string;
+  };
+}): Promise<Metadata> {
+  const run = await getRunByShareCode(params.shareCode);
+
+  if (!run) {
+    return { title: 'Run not found | NBA All-Time Draft' };
+  }
+
+  const baseUrl = resolveBaseUrl(headers());
+  const drafter = run.userName ?? 'Anonymous';
+  const title = `${drafter} scored ${run.teamScore.toFixed(1)} | NBA All-Time Draft`;
+  const description = run.picks
+    .map((pick) => (pick.isPenalty ? 'Shot Clock Violation' : pick.playerName))
+    .join(', ');
+
+  // The sibling opengraph-image route supplies og:image; metadataBase makes its URL absolute.
+  return {
+    metadataBase: baseUrl ? new URL(baseUrl) : undefined,
+    title,
+    description,
+    openGraph: {
+      title,
+      description,
+      type: 'website',
+      url: `/results/${run.shareCode}`
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description
+    }
+  };
+}
+
 export default async function ResultsPage({
   params
 }: {
@@ -275,17 +333,81 @@ export default async function ResultsPage({
   const chemistryMultiplier = run.chemistryMultiplier > 0 ? run.chemistryMultiplier : 1;
   const chemistryScore =
     run.chemistryScore > 0 ? run.chemistryScore : Math.max(0, (chemistryMultiplier - 1) * 100);
-  const chemistryBreakdown = scoreLineup(
-    run.picks.map((pick) => ({
-      slot: pick.slot as LineupPick['slot'],
-      playerName: pick.playerName,
-      teamAbbr: pick.teamAbbr,
-      teamName: pick.teamName,
-      isPenalty: pick.isPenalty
-    }))
-  ).chemistry;
+  const formatConfig = getDraftFormatConfig(run.format);
+  const eraConfig = getDraftEraConfig(run.era);
+  const drawModeConfig = getDrawModeConfig(run.drawMode);
+  const clockModeConfig = getClockModeConfig(run.clockMode);
+  const timeoutPolicyConfig = getTimeoutPolicyConfig(run.timeoutPolicy);
+  const rerolls = safeParseJson<DrawReroll[]>(run.rerollsJson, []);
+  const draftLog = safeParseJson<DraftLogEntry[]>(run.draftLogJson, []);
+  const scoringPresetConfig = getScoringPresetConfig(run.scoringPreset);
+  const lineupPicks: LineupPick[] = run.picks.map((pick) => ({
+    slot: pick.slot as LineupPick['slot'],
+    playerName: pick.playerName,
+    teamAbbr: pick.teamAbbr,
+    teamName: pick.teamName,
+    isPenalty: pick.isPenalty
+  }));
+  // Runs store the breakdown they were scored with; only runs from before it was stored are recomputed.
+  const chemistryBreakdown =
+    safeParseJson<ChemistryBreakdown | null>(run.chemistryJson ?? '', null) ??
+    scoreLineup(lineupPicks, { format: formatConfig.format, preset: scoringPresetConfig.preset }).chemistry;
+  const positionalFits = run.picks.flatMap((pick, index) => {
+    if (pick.isPenalty) {
+      return [];
+    }
+
+    const fit = getPositionalFit({ pick: lineupPicks[index]!, usedFallback: pick.usedFallback });
+    return [
+      {
+        id: pick.id,
+        slot: pick.slot as RosterSlot,
+        playerName: pick.playerName,
+        fit,
+        points: getPositionalFitPoints(fit) * scoringPresetConfig.chemistryWeights.positionalFit
+      }
+    ];
+  });
+  // Breakdowns stored before positional fit, synergy and teammates existed do not carry them.
+  const positionalFitTotal = chemistryBreakdown.positionalFit ?? 0;
+  const synergyTotal = chemistryBreakdown.synergy ?? 0;
+  const teammatesTotal = chemistryBreakdown.teammates ?? 0;
+  const teammatePairs = findTeammatePairs(lineupPicks);
+  const combos = (chemistryBreakdown.combos ?? []).map(getArchetypeComboConfig);
+  const playerArchetypes = run.picks.flatMap((pick) => {
+    const archetypes = pick.isPenalty || pick.usedFallback ? [] : getPlayerArchetypes(pick.teamAbbr, pick.playerName);
+    return archetypes.length > 0 ? [{ id: pick.id, playerName: pick.playerName, archetypes }] : [];
+  });
 
   const benchmarks = await getRunBenchmarks(run.groupCode);
+  const optimalLineup = await getRunOptimalLineup(run);
+  const optimalLineupIsExact = optimalLineup?.exhaustive === true;
+  const percentiles = await getRunPercentiles(run);
+  const challengedRun = run.challengeShareCode ? await getRunByShareCode(run.challengeShareCode) : null;
+  const headToHead = challengedRun
+    ? buildChallengeHeadToHead({
+        drawSequence: run.drawSequence.slice(0, formatConfig.totalDraws),
+        challenger: run,
+        original: challengedRun
+      })
+    : null;
+  const challengedDrafter = challengedRun?.userName ?? 'Anonymous';
+  const percentileLines = [
+    { label: 'of runs', value: percentiles.percentileAll },
+    { label: `of runs in ${run.groupCode}`, value: percentiles.percentileGroup },
+    { label: 'of runs that day', value: percentiles.percentileDaily },
+    { label: 'of simulated drafts', value: percentiles.simulatedPercentile }
+  ].flatMap((line) => (line.value === null ? [] : [{ ...line, value: Math.round(line.value) }]));
+  // Percentiles rank against the same rules, so the leaderboard link opens the same population.
+  const leaderboardQuery = new URLSearchParams({
+    ...(run.groupCode ? { groupCode: run.groupCode } : {}),
+    era: eraConfig.era,
+    scoringPreset: scoringPresetConfig.preset,
+    clockMode: clockModeConfig.mode,
+    format: formatConfig.format,
+    drawMode: drawModeConfig.mode
+  });
+  const userPickKeys = new Set(run.picks.map((pick) => `${pick.slot}:${pick.playerName}`));
   const runCategoryAverages = computeRunCategoryAverages(run.picks as ResultPick[]);
   const deltas = {
     teamScore: roundToOneDecimal(run.teamScore - benchmarks.averages.teamScore),
@@ -304,6 +426,12 @@ export default async function ResultsPage({
   const prefillUserName = run.userName ?? '';
   const prefillGroupCode = run.groupCode ?? '';
   const prefillSeed = run.seed ?? '';
+  const prefillFormat = formatConfig.format;
+  const prefillEra = eraConfig.era;
+  const prefillScoringPreset = scoringPresetConfig.preset;
+  const prefillDrawMode = drawModeConfig.mode;
+  const prefillClockMode = clockModeConfig.mode;
+  const prefillTimeoutPolicy = timeoutPolicyConfig.policy;
 
   return (
     <div className="space-y-4 pb-28 md:pb-24">
@@ -315,6 +443,15 @@ export default async function ResultsPage({
               {run.teamScore.toFixed(1)}
             </h1>
             <p className="text-sm text-slate-600">Created {formatDateTime(run.createdAt)}</p>
+            {percentileLines.length > 0 ? (
+              <ul className="mt-2 space-y-0.5 text-sm text-slate-700" data-testid="run-percentiles">
+                {percentileLines.map((line) => (
+                  <li key={line.label}>
+                    Better than <span className="font-semibold text-slate-900">{line.value}%</span> {line.label}
+                  </li>
+                ))}
+              </ul>
+            ) : null}
           </div>
 
           <div className="space-y-2 text-sm text-slate-700">
@@ -336,7 +473,69 @@ export default async function ResultsPage({
                 Seed: <span className="font-semibold">{run.seed}</span>
               </p>
             ) : null}
+            <p>
+              Format: <span className="font-semibold">{formatConfig.label}</span>
+            </p>
+            <p>
+              Era: <span className="font-semibold">{eraConfig.label}</span>
+            </p>
+            <p>
+              Scoring: <span className="font-semibold">{scoringPresetConfig.label}</span>
+            </p>
+            <p>
+              Draws: <span className="font-semibold">{drawModeConfig.label}</span>
+            </p>
+            <p>
+              Clock: <span className="font-semibold">{clockModeConfig.label}</span>
+            </p>
+            <p>
+              Timeouts: <span className="font-semibold">{timeoutPolicyConfig.label}</span>
+            </p>
+            {run.luckAdjustedScore !== null && run.drawStrength !== null ? (
+              <p data-testid="luck-adjusted-score">
+                Luck-adjusted: <span className="font-semibold">{run.luckAdjustedScore.toFixed(1)}</span>{' '}
+                <span className="text-slate-500">(drawn franchises {run.drawStrength.toFixed(2)}x average strength)</span>
+              </p>
+            ) : null}
+            {run.rerollCount > 0 ? (
+              <p data-testid="rerolls">
+                Rerolls:{' '}
+                <span className="font-semibold">
+                  {run.rerollCount} (-{getRerollPenalty(run.rerollCount).toFixed(1)} pts)
+                </span>{' '}
+                <span className="text-slate-500">
+                  {rerolls
+                    .map((reroll) => `draw ${reroll.drawIndex + 1}: ${reroll.fromTeamAbbr} -> ${reroll.toTeamAbbr}`)
+                    .join(', ')}
+                </span>
+              </p>
+            ) : null}
+            {run.rescoredAt && run.originalTeamScore !== run.teamScore ? (
+              <p data-testid="original-score">
+                Originally scored:{' '}
+                <span className="font-semibold">
+                  {run.originalTeamScore.toFixed(1)}
+                  {run.originalScoringVersion > 0 ? ` (v${run.originalScoringVersion})` : ''}
+                </span>
+              </p>
+            ) : null}
+            {run.dailyDate ? (
+              <p>
+                Daily Challenge:{' '}
+                <Link href={`/daily?date=${run.dailyDate}`} className="font-semibold text-court-700 hover:underline">
+                  {run.dailyDate}
+                </Link>
+              </p>
+            ) : null}
+            {run.coachAssisted ? (
+              <p>
+                Coach: <span className="font-semibold">Assisted</span>
+              </p>
+            ) : null}
             <CopyLinkButton url={shareUrl} />
+            {run.drawSequence.length >= formatConfig.totalDraws ? (
+              <CopyLinkButton url={`/challenge/${run.shareCode}`} label="Copy challenge link" />
+            ) : null}
           </div>
         </div>
 
@@ -375,10 +574,17 @@ export default async function ResultsPage({
 
             return (
               <div key={pick.slot} className="rounded-lg border border-slate-200 bg-slate-50 p-3">
-                <p className="text-xs font-semibold text-court-700">{pick.slot}</p>
+                <p className="text-xs font-semibold text-court-700">
+                  {ROSTER_SLOT_LABELS[pick.slot as RosterSlot] ?? pick.slot}
+                </p>
                 <p className="text-sm font-semibold text-slate-900">
                   {pick.isPenalty ? 'Shot Clock Violation' : pick.playerName}
                 </p>
+                {pick.autoDrafted ? (
+                  <p className="text-xs font-semibold text-amber-700" data-testid={`auto-drafted-${pick.slot}`}>
+                    Auto-drafted when the shot clock expired
+                  </p>
+                ) : null}
                 <div className="mt-1 flex items-center gap-1 text-xs text-slate-600">
                   {teamLogoUrl ? (
                     <Image
@@ -465,6 +671,194 @@ export default async function ResultsPage({
         </div>
       </section>
 
+      {headToHead && challengedRun ? (
+        <section className="card p-4" data-testid="challenge-head-to-head">
+          <div className="flex flex-wrap items-end justify-between gap-3">
+            <div>
+              <h2 className="text-lg font-semibold text-slate-900">Head-to-head vs {challengedDrafter}</h2>
+              <p className="mt-1 text-xs text-slate-500">Same draws as run {challengedRun.shareCode}, pick for pick.</p>
+            </div>
+            <p className="text-sm text-slate-700">
+              You <span className="font-bold text-slate-900">{run.teamScore.toFixed(1)}</span> vs{' '}
+              <span className="font-bold text-slate-900">{challengedRun.teamScore.toFixed(1)}</span>
+            </p>
+          </div>
+
+          <p
+            className={cn(
+              'mt-3 rounded-lg border px-3 py-2 text-sm',
+              headToHead.winner === 'challenger'
+                ? 'border-emerald-200 bg-emerald-50 text-emerald-800'
+                : 'border-slate-200 bg-slate-50 text-slate-700'
+            )}
+          >
+            {headToHead.winner === 'challenger'
+              ? `You beat ${challengedDrafter} by ${headToHead.margin.toFixed(1)}.`
+              : headToHead.winner === 'original'
+                ? `${challengedDrafter} wins by ${Math.abs(headToHead.margin).toFixed(1)}.`
+                : `Dead even with ${challengedDrafter}.`}
+          </p>
+
+          <div className="mt-4 overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-slate-50 text-left text-xs uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="px-3 py-2">Draw</th>
+                  <th className="px-3 py-2">You</th>
+                  <th className="px-3 py-2">{challengedDrafter}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {headToHead.rows.map((row, index) => (
+                  <tr key={`${row.teamAbbr}-${index}`} className="border-t border-slate-100">
+                    <td className="px-3 py-2 font-semibold text-slate-900">
+                      {index + 1}. {row.teamAbbr}
+                    </td>
+                    {[row.challenger, row.original].map((pick, side) => (
+                      <td key={side} className="px-3 py-2 text-slate-700">
+                        {pick ? (
+                          <>
+                            {pick.isPenalty ? 'Shot Clock Violation' : pick.playerName}
+                            <span className="ml-1 text-xs text-slate-500">
+                              ({ROSTER_SLOT_LABELS[pick.slot as RosterSlot] ?? pick.slot},{' '}
+                              {pick.contribution.toFixed(1)})
+                            </span>
+                          </>
+                        ) : (
+                          '--'
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <Link href={`/challenge/${challengedRun.shareCode}`} className="button-secondary mt-4">
+            See every challenger
+          </Link>
+        </section>
+      ) : null}
+
+      {optimalLineup ? (
+        <section className="card p-4" data-testid="optimal-lineup">
+          <div className="flex flex-wrap items-end justify-between gap-3">
+            <div>
+              <h2 className="text-lg font-semibold text-slate-900">
+                {optimalLineupIsExact ? 'Best possible lineup for your draws' : 'Best lineup found for your draws'}
+              </h2>
+              <p className="mt-1 text-xs text-slate-500">
+                {optimalLineupIsExact
+                  ? 'Every legal player-to-slot assignment from the same franchises, scored the same way.'
+                  : 'The search over this deep format stopped early, so an even better lineup may exist.'}
+              </p>
+            </div>
+            <p className="text-sm text-slate-700">
+              Your score <span className="font-bold text-slate-900">{run.teamScore.toFixed(1)}</span> vs optimal{' '}
+              <span className="font-bold text-slate-900">{optimalLineup.teamScore.toFixed(1)}</span>
+              {optimalLineup.teamScore > 0 ? (
+                <span className="ml-1 text-xs text-slate-500">
+                  ({Math.min(100, Math.round((run.teamScore / optimalLineup.teamScore) * 100))}% of optimal)
+                </span>
+              ) : null}
+            </p>
+          </div>
+
+          {run.teamScore >= optimalLineup.teamScore ? (
+            <p className="mt-3 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-800">
+              {optimalLineupIsExact
+                ? 'You drafted the best lineup these draws allowed.'
+                : 'You matched or beat the best lineup the search found.'}
+            </p>
+          ) : null}
+
+          <div className="mt-4 grid gap-2 sm:grid-cols-2 lg:grid-cols-5">
+            {optimalLineup.picks.map((pick) => {
+              const teamLogoUrl = getTeamLogoUrl(pick.teamAbbr);
+              const matchesUserPick = userPickKeys.has(`${pick.slot}:${pick.playerName}`);
+
+              return (
+                <div
+                  key={pick.slot}
+                  className={cn(
+                    'rounded-lg border p-3',
+                    matchesUserPick ? 'border-emerald-200 bg-emerald-50' : 'border-slate-200 bg-slate-50'
+                  )}
+                >
+                  <p className="text-xs font-semibold text-court-700">{ROSTER_SLOT_LABELS[pick.slot] ?? pick.slot}</p>
+                  <p className="text-sm font-semibold text-slate-900">
+                    {pick.isPenalty ? 'Shot Clock Violation' : pick.playerName}
+                  </p>
+                  <div className="mt-1 flex items-center gap-1 text-xs text-slate-600">
+                    {teamLogoUrl ? (
+                      <Image
+                        src={teamLogoUrl}
+                        alt={`${pick.teamAbbr} logo`}
+                        width={24}
+                        height={24}
+                        className="h-6 w-6 rounded-sm border border-slate-200 bg-white p-[2px]"
+                      />
+                    ) : null}
+                    <span>{pick.teamAbbr}</span>
+                  </div>
+                  {matchesUserPick ? (
+                    <p className="mt-1 text-[10px] font-bold uppercase tracking-wide text-emerald-700">Your pick</p>
+                  ) : null}
+                </div>
+              );
+            })}
+          </div>
+
+          <p className="mt-3 text-xs text-slate-500">
+            Optimal base {optimalLineup.baseTeamScore.toFixed(1)} x chemistry{' '}
+            {optimalLineup.chemistry.multiplier.toFixed(2)}
+            {optimalLineup.rerollPenalty > 0
+              ? ` - ${optimalLineup.rerollPenalty.toFixed(1)} reroll penalty, the same one your score carries`
+              : ''}
+          </p>
+        </section>
+      ) : null}
+
+      {draftLog.length > 0 ? (
+        <section className="card p-4" data-testid="draft-timeline">
+          <h2 className="text-lg font-semibold text-slate-900">Draft timeline</h2>
+          <p className="mt-1 text-xs text-slate-500">Every draw in the order it was played, with time on the clock.</p>
+          <ol className="mt-3 space-y-2">
+            {draftLog.map((entry) => {
+              const reroll = rerolls.find((item) => item.drawIndex === entry.drawIndex);
+
+              return (
+                <li
+                  key={entry.drawIndex}
+                  className="flex flex-wrap items-center gap-x-2 gap-y-1 rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-sm"
+                >
+                  <span className="font-semibold text-court-700">Draw {entry.drawIndex + 1}</span>
+                  <span className="text-slate-700">
+                    {entry.teamAbbr} · {pluralize(entry.options.length, 'option')}
+                  </span>
+                  <span className="font-semibold text-slate-900">
+                    {entry.isPenalty ? 'Shot Clock Violation' : entry.playerName} →{' '}
+                    {ROSTER_SLOT_LABELS[entry.slot] ?? entry.slot}
+                  </span>
+                  <span className="text-xs text-slate-500">{(entry.elapsedMs / 1000).toFixed(1)}s</span>
+                  {reroll ? (
+                    <span className="rounded bg-sky-100 px-1.5 py-0.5 text-[10px] uppercase text-sky-700">
+                      rerolled from {reroll.fromTeamAbbr}
+                    </span>
+                  ) : null}
+                  {entry.isAutoDrafted ? (
+                    <span className="rounded bg-amber-100 px-1.5 py-0.5 text-[10px] uppercase text-amber-700">
+                      auto-picked
+                    </span>
+                  ) : null}
+                </li>
+              );
+            })}
+          </ol>
+        </section>
+      ) : null}
+
       <section className="card overflow-hidden">
         <div className="border-b border-slate-200 px-4 py-3">
           <h2 className="text-lg font-semibold text-slate-900">Per-player contributions</h2>
@@ -488,7 +882,9 @@ export default async function ResultsPage({
             <tbody>
               {run.picks.map((pick) => (
                 <tr key={pick.id} className="border-t border-slate-100">
-                  <td className="px-4 py-3 font-semibold text-slate-900">{pick.slot}</td>
+                  <td className="px-4 py-3 font-semibold text-slate-900">
+                    {ROSTER_SLOT_LABELS[pick.slot as RosterSlot] ?? pick.slot}
+                  </td>
                   <td className="px-4 py-3 text-slate-800">
                     {pick.isPenalty ? 'Shot Clock Violation' : pick.playerName}
                     <span className="ml-1 text-xs text-slate-500">({pick.teamAbbr})</span>
@@ -511,6 +907,22 @@ export default async function ResultsPage({
       </section>
 
       <section className="card space-y-4 p-4">
+        {teammatePairs.length > 0 ? (
+          <div className="rounded-lg border border-emerald-200 bg-emerald-50 p-3" data-testid="real-teammates">
+            <p className="text-sm font-semibold text-emerald-900">
+              Real teammates: {formatSignedDelta(teammatesTotal)} chemistry
+            </p>
+            <ul className="mt-2 space-y-1 text-xs text-emerald-900/90">
+              {teammatePairs.map((pair) => (
+                <li key={pair.playerNames.join('|')}>
+                  {pair.playerNames[0]} and {pair.playerNames[1]} shared {pair.seasons}{' '}
+                  {pair.seasons === 1 ? 'season' : 'seasons'} with the {getTeamByAbbr(pair.teamAbbr)?.name ?? pair.teamAbbr}.
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : null}
+
         <div className="rounded-lg border border-slate-200 bg-slate-50 p-3 text-xs text-slate-700">
           <p className="font-semibold text-slate-900">Chemistry breakdown</p>
           <p className="mt-1 text-slate-600">Tap each item for a simple explanation.</p>
@@ -535,6 +947,53 @@ export default async function ResultsPage({
               ))}
             </div>
           </div>
+          <details className="mt-3 rounded-lg border border-slate-200 bg-white p-2" data-testid="positional-fit">
+            <summary className="cursor-pointer font-semibold text-slate-900">
+              Positional fit: {formatSignedDelta(positionalFitTotal)}
+            </summary>
+            <p className="mt-1 text-[11px] text-slate-600">
+              Players at their primary position add chemistry. Secondary positions and bench roles are neutral, and
+              players out of position cost chemistry.
+            </p>
+            <ul className="mt-2 space-y-1 text-[11px] text-slate-700">
+              {positionalFits.map((item) => (
+                <li key={item.id}>
+                  <span className="font-semibold">{ROSTER_SLOT_LABELS[item.slot] ?? item.slot}</span> {item.playerName}:{' '}
+                  {item.fit ? POSITIONAL_FIT_LABELS[item.fit] : 'no position data'} ({formatSignedDelta(item.points)})
+                </li>
+              ))}
+            </ul>
+          </details>
+          <details className="mt-3 rounded-lg border border-slate-200 bg-white p-2" data-testid="archetype-synergy">
+            <summary className="cursor-pointer font-semibold text-slate-900">
+              Synergy: {formatSignedDelta(synergyTotal)}
+            </summary>
+            <p className="mt-1 text-[11px] text-slate-600">
+              Players are tagged with archetypes from their franchise numbers. Known-good pairings of archetypes on
+              two different players add chemistry.
+            </p>
+            {combos.length > 0 ? (
+              <ul className="mt-2 space-y-1 text-[11px] text-slate-700">
+                {combos.map((combo) => (
+                  <li key={combo.combo}>
+                    <span className="font-semibold">{combo.label}</span> (
+                    {formatSignedDelta(combo.points * scoringPresetConfig.chemistryWeights.synergy)}): {combo.description}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="mt-2 text-[11px] text-slate-700">No archetype combos in this lineup.</p>
+            )}
+            {playerArchetypes.length > 0 ? (
+              <ul className="mt-2 space-y-1 border-t border-slate-100 pt-2 text-[11px] text-slate-600">
+                {playerArchetypes.map((item) => (
+                  <li key={item.id}>
+                    {item.playerName}: {item.archetypes.map((archetype) => ARCHETYPE_LABELS[archetype]).join(', ')}
+                  </li>
+                ))}
+              </ul>
+            ) : null}
+          </details>
         </div>
 
         <div className="rounded-lg border border-indigo-200 bg-indigo-50 p-3">
@@ -548,15 +1007,17 @@ export default async function ResultsPage({
       </section>
 
       <div className="flex flex-wrap items-center gap-3">
-        {run.groupCode ? (
-          <Link href={`/leaderboard?groupCode=${encodeURIComponent(run.groupCode)}`} className="button-secondary">
-            View group leaderboard
-          </Link>
-        ) : (
-          <Link href="/leaderboard" className="button-secondary">
-            View leaderboard
+        <Link href={`/results/${run.shareCode}/replay`} className="button-secondary">
+          Replay draft
+        </Link>
+        {run.roomCode ? (
+          <Link href={`/rooms/${run.roomCode}/results`} className="button-secondary">
+            View room head-to-head
           </Link>
-        )}
+        ) : null}
+        <Link href={`/leaderboard?${leaderboardQuery.toString()}`} className="button-secondary">
+          {run.groupCode ? 'View group leaderboard' : 'View leaderboard'}
+        </Link>
       </div>
 
       <div className="fixed inset-x-0 bottom-0 z-40 border-t border-slate-200 bg-white/95 px-3 py-2 backdrop-blur md:px-6">
@@ -565,6 +1026,12 @@ export default async function ResultsPage({
             <input type="hidden" name="userName" value={prefillUserName} />
             <input type="hidden" name="groupCode" value={prefillGroupCode} />
             <input type="hidden" name="seed" value={prefillSeed} />
+            <input type="hidden" name="format" value={prefillFormat} />
+            <input type="hidden" name="era" value={prefillEra} />
+            <input type="hidden" name="scoringPreset" value={prefillScoringPreset} />
+            <input type="hidden" name="drawMode" value={prefillDrawMode} />
+            <input type="hidden" name="clockMode" value={prefillClockMode} />
+            <input type="hidden" name="timeoutPolicy" value={prefillTimeoutPolicy} />
             <button type="submit" className="button-primary w-full">
               Play again
             </button>
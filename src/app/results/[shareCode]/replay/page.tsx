@@ -0,0 +1,240 @@
+import type { Metadata } from 'next';
+import Image from 'next/image';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { LineupSlotList } from '@/components/lineup-slot-list';
+import { cn } from '@/lib/cn';
+import { getTeamLogoUrl } from '@/lib/data';
+import { getDraftFormatConfig, ROSTER_SLOT_LABELS } from '@/lib/formats';
+import { buildRunReplay } from '@/lib/replay';
+import { getRunByShareCode } from '@/lib/run-service';
+import { safeParseJson } from '@/lib/serialization';
+import type { DraftLogEntry, DrawReroll, LineupPick } from '@/lib/types';
+
+export async function generateMetadata({ params }: { params: { shareCode: string } }): Promise<Metadata> {
+  const run = await getRunByShareCode(params.shareCode);
+  if (!run) {
+    return { title: 'Run not found | NBA All-Time Draft' };
+  }
+
+  return { title: `Replay ${run.shareCode} | NBA All-Time Draft` };
+}
+
+function formatDelta(value: number): string {
+  const rounded = Math.round(value * 10) / 10;
+  return `${rounded > 0 ? '+' : ''}${rounded.toFixed(1)}`;
+}
+
+export default async function ReplayPage({
+  params,
+  searchParams
+}: {
+  params: {
+    shareCode: string;
+  };
+  searchParams: {
+    step?: string;
+  };
+}) {
+  const run = await getRunByShareCode(params.shareCode);
+
+  if (!run) {
+    notFound();
+  }
+
+  const picks: LineupPick[] = run.picks.map((pick) => ({
+    slot: pick.slot as LineupPick['slot'],
+    playerName: pick.playerName,
+    teamAbbr: pick.teamAbbr,
+    teamName: pick.teamName,
+    isPenalty: pick.isPenalty,
+    isAutoDrafted: pick.autoDrafted
+  }));
+  const steps = buildRunReplay({
+    format: run.format,
+    era: run.era,
+    scoringPreset: run.scoringPreset,
+    drawSequence: run.drawSequence,
+    draftLog: safeParseJson<DraftLogEntry[]>(run.draftLogJson, []),
+    picks,
+    rerollCount: run.rerollCount,
+    rerolls: safeParseJson<DrawReroll[]>(run.rerollsJson, [])
+  });
+  const resultsPath = `/results/${run.shareCode}`;
+
+  if (steps.length === 0) {
+    return (
+      <div className="card p-6">
+        <h1 className="text-xl font-semibold text-slate-900">No replay for this run</h1>
+        <p className="mt-2 text-sm text-slate-600">This run was saved without its draw sequence.</p>
+        <Link href={resultsPath} className="button-secondary mt-4">
+          Back to results
+        </Link>
+      </div>
+    );
+  }
+
+  const requestedStep = Number.parseInt(searchParams.step ?? '1', 10);
+  const stepNumber = Number.isInteger(requestedStep) ? Math.min(Math.max(requestedStep, 1), steps.length) : 1;
+  const step = steps[stepNumber - 1]!;
+  const previous = stepNumber > 1 ? steps[stepNumber - 2]! : null;
+  const teamLogoUrl = getTeamLogoUrl(step.teamAbbr);
+  const stepPath = (value: number) => `${resultsPath}/replay?step=${value}`;
+
+  return (
+    <div className="space-y-4">
+      <section className="card p-6" data-testid="replay-reveal">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            {teamLogoUrl ? (
+              <Image
+                src={teamLogoUrl}
+                alt={`${step.teamAbbr} logo`}
+                width={56}
+                height={56}
+                className="h-14 w-14 rounded-md border border-slate-200 bg-white p-1"
+              />
+            ) : null}
+            <div>
+              <p className="text-xs font-semibold uppercase tracking-wide text-court-700">
+                Draw {stepNumber} of {steps.length}
+              </p>
+              <h1 className="text-2xl font-bold text-slate-900">{step.teamName}</h1>
+              <p className="text-sm text-slate-600">
+                {run.userName ?? 'Anonymous'} · {getDraftFormatConfig(run.format).label} · Run {run.shareCode}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            {previous ? (
+              <Link href={stepPath(stepNumber - 1)} className="button-secondary" data-testid="replay-previous">
+                Previous
+              </Link>
+            ) : null}
+            {stepNumber < steps.length ? (
+              <Link href={stepPath(stepNumber + 1)} className="button-primary" data-testid="replay-next">
+                Next draw
+              </Link>
+            ) : (
+              <Link href={resultsPath} className="button-primary">
+                Final results
+              </Link>
+            )}
+          </div>
+        </div>
+
+        <ol className="mt-4 flex flex-wrap gap-1.5">
+          {steps.map((item, index) => (
+            <li key={item.drawIndex}>
+              <Link
+                href={stepPath(index + 1)}
+                className={cn(
+                  'rounded-full border px-2.5 py-1 text-xs font-semibold',
+                  index + 1 === stepNumber
+                    ? 'border-court-700 bg-court-700 text-white'
+                    : 'border-slate-300 bg-white text-slate-700 hover:border-court-700'
+                )}
+              >
+                {index + 1}. {item.teamAbbr}
+              </Link>
+            </li>
+          ))}
+        </ol>
+      </section>
+
+      <div className="grid gap-4 lg:grid-cols-[3fr_2fr]">
+        <section className="card p-4" data-testid="replay-roster">
+          <h2 className="text-lg font-semibold text-slate-900">Roster on the board</h2>
+          <ul className="mt-3 grid gap-2 sm:grid-cols-2">
+            {step.roster.map((player) => {
+              const isPicked = !step.pick?.isPenalty && step.pick?.playerName === player.name;
+
+              return (
+                <li
+                  key={player.name}
+                  className={cn(
+                    'rounded-lg border px-3 py-2 text-sm',
+                    isPicked
+                      ? 'border-emerald-300 bg-emerald-50'
+                      : player.isAvailable
+                        ? 'border-slate-200 bg-white'
+                        : 'border-slate-200 bg-slate-50 text-slate-400'
+                  )}
+                >
+                  <p className={cn('font-semibold', player.isAvailable ? 'text-slate-900' : 'text-slate-400')}>
+                    {player.name}
+                  </p>
+                  <p className="text-xs">
+                    {player.yearsWithTeam}
+                    {player.isAvailable
+                      ? ` · ${player.openSlots.map((slot) => ROSTER_SLOT_LABELS[slot] ?? slot).join(', ')}`
+                      : ' · unavailable'}
+                  </p>
+                  {isPicked ? (
+                    <p className="mt-1 text-[10px] font-bold uppercase tracking-wide text-emerald-700">Picked</p>
+                  ) : null}
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+
+        <div className="space-y-4">
+          <section className="card p-4" data-testid="replay-pick">
+            <h2 className="text-lg font-semibold text-slate-900">The pick</h2>
+            {step.pick ? (
+              <p className="mt-2 text-sm text-slate-700">
+                <span className="font-semibold text-slate-900">
+                  {step.pick.isPenalty ? 'Shot Clock Violation' : step.pick.playerName}
+                </span>{' '}
+                → {ROSTER_SLOT_LABELS[step.pick.slot] ?? step.pick.slot}
+                {step.pick.isAutoDrafted ? (
+                  <span className="ml-2 rounded bg-amber-100 px-1.5 py-0.5 text-[10px] uppercase text-amber-700">
+                    auto-picked
+                  </span>
+                ) : null}
+              </p>
+            ) : (
+              <p className="mt-2 text-sm text-slate-600">No pick was recorded for this draw.</p>
+            )}
+            {step.elapsedMs !== null ? (
+              <p className="mt-1 text-xs text-slate-500">Decided in {(step.elapsedMs / 1000).toFixed(1)}s</p>
+            ) : null}
+
+            <dl className="mt-4 grid grid-cols-2 gap-2 text-sm" data-testid="replay-score">
+              {[
+                { label: 'Base score', value: step.baseTeamScore, before: previous?.baseTeamScore ?? 0 },
+                { label: 'Chemistry', value: step.chemistryScore, before: previous?.chemistryScore ?? 0 },
+                { label: 'Team score', value: step.teamScore, before: previous?.teamScore ?? 0 }
+              ].map((item) => (
+                <div key={item.label} className="rounded-lg border border-slate-200 bg-slate-50 px-3 py-2">
+                  <dt className="text-xs text-slate-500">{item.label}</dt>
+                  <dd className="font-bold text-slate-900">
+                    {item.value.toFixed(1)}
+                    <span className="ml-1 text-xs font-normal text-slate-500">
+                      {formatDelta(item.value - item.before)}
+                    </span>
+                  </dd>
+                </div>
+              ))}
+              <div className="rounded-lg border border-slate-200 bg-slate-50 px-3 py-2">
+                <dt className="text-xs text-slate-500">Multiplier</dt>
+                <dd className="font-bold text-slate-900">x{step.chemistryMultiplier.toFixed(2)}</dd>
+              </div>
+            </dl>
+          </section>
+
+          <section className="card p-4">
+            <h2 className="mb-3 text-lg font-semibold text-slate-900">Lineup after the pick</h2>
+            <LineupSlotList lineupSlots={getDraftFormatConfig(run.format).slots} lineup={step.lineup} />
+          </section>
+        </div>
+      </div>
+
+      <p className="text-xs text-slate-500">
+        Running scores use the current scoring rules and take off each reroll penalty from the draw it was spent on.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+import Link from 'next/link';
+
+export default function RoomNotFoundPage() {
+  return (
+    <div className="card p-6">
+      <h1 className="text-xl font-semibold text-slate-900">Room not found</h1>
+      <p className="mt-2 text-sm text-slate-600">This room code does not match any draft room.</p>
+      <Link href="/rooms" className="button-primary mt-4">
+        Create or join a room
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { startRoomAction } from '@/app/actions';
+import { AutoRefresh } from '@/components/auto-refresh';
+import { CopyLinkButton } from '@/components/copy-link-button';
+import { SubmitButton } from '@/components/submit-button';
+import { cn } from '@/lib/cn';
+import { ROOM_MAX_PLAYERS, ROOM_MIN_PLAYERS } from '@/lib/constants';
+import { getTeamByAbbr } from '@/lib/data';
+import { getDraftFormatConfig } from '@/lib/formats';
+import { getDraftRoomView } from '@/lib/room-service';
+import { getDraftSessionCookieToken } from '@/lib/session-cookie';
+
+const ROOM_STATUS_LABELS = {
+  LOBBY: 'Waiting in lobby',
+  DRAFTING: 'Drafting',
+  COMPLETED: 'Complete'
+} as const;
+
+export default async function RoomPage({
+  params,
+  searchParams
+}: {
+  params: {
+    code: string;
+  };
+  searchParams: {
+    error?: string;
+  };
+}) {
+  const room = await getDraftRoomView(params.code, getDraftSessionCookieToken());
+
+  if (!room) {
+    notFound();
+  }
+
+  const formatConfig = getDraftFormatConfig(room.format);
+  const currentTeam = room.currentTeamAbbr ? getTeamByAbbr(room.currentTeamAbbr) : null;
+  const isHost = room.viewerSeat === 0;
+  const isMember = room.viewerSeat !== null;
+  const canStart = room.participants.length >= ROOM_MIN_PLAYERS;
+
+  return (
+    <div className="space-y-4">
+      {room.status !== 'COMPLETED' ? <AutoRefresh /> : null}
+
+      <section className="card p-6">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-wide text-court-700">Draft Room</p>
+            <h1 className="text-2xl font-bold tracking-widest text-slate-900" data-testid="room-code">
+              {room.code}
+            </h1>
+            <p className="mt-1 text-sm text-slate-600">
+              {ROOM_STATUS_LABELS[room.status]} · {formatConfig.label} ({formatConfig.totalDraws} draws)
+            </p>
+            {room.groupCode ? <p className="text-sm text-slate-600">Group: {room.groupCode}</p> : null}
+            <p className="text-sm text-slate-600">Seed: {room.seed ?? 'random'}</p>
+          </div>
+
+          {room.status === 'LOBBY' ? <CopyLinkButton url={`/rooms?code=${room.code}`} /> : null}
+        </div>
+
+        {searchParams.error ? (
+          <p className="mt-4 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+            {searchParams.error}
+          </p>
+        ) : null}
+
+        {room.status === 'DRAFTING' ? (
+          <p className="mt-4 text-sm text-slate-700">
+            Draw {room.currentDrawIndex + 1}/{formatConfig.totalDraws}: {currentTeam?.name ?? 'Unknown team'}
+          </p>
+        ) : null}
+
+        <div className="mt-4 flex flex-wrap gap-3">
+          {room.status === 'LOBBY' && isHost ? (
+            <form action={startRoomAction}>
+              <input type="hidden" name="roomCode" value={room.code} />
+              <SubmitButton
+                label={canStart ? 'Start draft' : `Waiting for ${ROOM_MIN_PLAYERS}+ drafters`}
+                pendingLabel="Starting..."
+                testId="start-room-button"
+              />
+            </form>
+          ) : null}
+          {room.status === 'LOBBY' && isMember && !isHost ? (
+            <p className="text-sm text-slate-600">Waiting for the host to start the draft...</p>
+          ) : null}
+          {room.status === 'LOBBY' && !isMember ? (
+            <Link href={`/rooms?code=${room.code}`} className="button-primary">
+              Join this room
+            </Link>
+          ) : null}
+          {room.status === 'DRAFTING' && isMember ? (
+            <Link href="/draft" className="button-primary">
+              Go to your draft
+            </Link>
+          ) : null}
+          {room.status !== 'LOBBY' ? (
+            <Link href={`/rooms/${room.code}/results`} className="button-secondary">
+              Head-to-head results
+            </Link>
+          ) : null}
+        </div>
+      </section>
+
+      <section className="card p-6">
+        <h2 className="text-lg font-semibold text-slate-900">
+          Drafters ({room.participants.length}/{ROOM_MAX_PLAYERS})
+        </h2>
+        <ul className="mt-3 space-y-2">
+          {room.participants.map((participant) => (
+            <li
+              key={participant.seat}
+              className={cn(
+                'flex items-center justify-between rounded-xl border px-3 py-2 text-sm',
+                room.onTheClockSeat === participant.seat
+                  ? 'border-court-700 bg-court-50'
+                  : 'border-slate-200 bg-white'
+              )}
+            >
+              <span className="font-semibold text-slate-900">
+                {participant.name}
+                {participant.seat === 0 ? <span className="ml-2 text-xs text-slate-500">(host)</span> : null}
+                {participant.seat === room.viewerSeat ? (
+                  <span className="ml-2 text-xs text-court-700">(you)</span>
+                ) : null}
+              </span>
+              <span className="text-xs text-slate-600">
+                {room.onTheClockSeat === participant.seat
+                  ? 'On the clock'
+                  : `${Object.keys(participant.lineup).length}/${formatConfig.slots.length} picks`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </section>
+    </div>
+  );
+}
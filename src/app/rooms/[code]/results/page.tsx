@@ -0,0 +1,97 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { AutoRefresh } from '@/components/auto-refresh';
+import { cn } from '@/lib/cn';
+import { getDraftFormatConfig, ROSTER_SLOT_LABELS } from '@/lib/formats';
+import { getDraftRoomView } from '@/lib/room-service';
+import { getDraftSessionCookieToken } from '@/lib/session-cookie';
+
+export default async function RoomResultsPage({
+  params
+}: {
+  params: {
+    code: string;
+  };
+}) {
+  const room = await getDraftRoomView(params.code, getDraftSessionCookieToken());
+
+  if (!room) {
+    notFound();
+  }
+
+  const formatConfig = getDraftFormatConfig(room.format);
+  // Unfinished drafters (no score yet) sort last, in seat order.
+  const standings = [...room.participants].sort(
+    (a, b) => (b.teamScore ?? -1) - (a.teamScore ?? -1) || a.seat - b.seat
+  );
+
+  return (
+    <div className="space-y-4">
+      {room.status !== 'COMPLETED' ? <AutoRefresh /> : null}
+
+      <section className="card p-6">
+        <p className="text-xs font-semibold uppercase tracking-wide text-court-700">Room {room.code}</p>
+        <h1 className="text-2xl font-bold text-slate-900">Head-to-Head</h1>
+        <p className="mt-1 text-sm text-slate-600">
+          {formatConfig.label} · same draws, no shared players.
+          {room.status !== 'COMPLETED' ? ' Scores appear as each drafter finishes.' : null}
+        </p>
+      </section>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {standings.map((participant, index) => (
+          <section
+            key={participant.seat}
+            className={cn(
+              'card p-5',
+              participant.seat === room.viewerSeat && 'ring-2 ring-court-300'
+            )}
+            data-testid={`room-standing-${index}`}
+          >
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-lg font-semibold text-slate-900">
+                {participant.teamScore !== null ? `#${index + 1} ` : null}
+                {participant.name}
+              </p>
+              <p className="text-xl font-bold text-court-700">
+                {participant.teamScore !== null ? participant.teamScore.toFixed(1) : '--'}
+              </p>
+            </div>
+
+            <ul className="mt-3 space-y-1 text-sm">
+              {formatConfig.slots.map((slot) => {
+                const pick = participant.lineup[slot];
+
+                return (
+                  <li key={slot} className="flex justify-between gap-2">
+                    <span className="font-semibold text-slate-700">{ROSTER_SLOT_LABELS[slot]}</span>
+                    <span className="truncate text-slate-600">
+                      {pick
+                        ? pick.isPenalty
+                          ? 'Shot Clock Violation (0 pts)'
+                          : `${pick.playerName} (${pick.teamAbbr})`
+                        : 'Open'}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+
+            {participant.shareCode ? (
+              <Link
+                href={`/results/${participant.shareCode}`}
+                className="mt-3 inline-block text-sm font-medium text-court-700 hover:underline"
+              >
+                Full breakdown
+              </Link>
+            ) : null}
+          </section>
+        ))}
+      </div>
+
+      <Link href={`/rooms/${room.code}`} className="button-secondary">
+        Back to room
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import { createRoomAction, joinRoomAction } from '@/app/actions';
+import { SubmitButton } from '@/components/submit-button';
+import { ROOM_CODE_LENGTH, ROOM_MAX_PLAYERS } from '@/lib/constants';
+import { getDrawModeOptions } from '@/lib/draw-modes';
+import { getDraftEraOptions } from '@/lib/eras';
+import { getDraftFormatOptions } from '@/lib/formats';
+import { getScoringPresetOptions } from '@/lib/scoring-presets';
+import { getTimeoutPolicyOptions } from '@/lib/timeout-policies';
+
+export default function RoomsPage({
+  searchParams
+}: {
+  searchParams: {
+    error?: string;
+    code?: string;
+  };
+}) {
+  const errorMessage = searchParams.error;
+  const defaultRoomCode = searchParams.code?.trim().toUpperCase() ?? '';
+  const formatOptions = getDraftFormatOptions();
+  const eraOptions = getDraftEraOptions();
+  const scoringPresetOptions = getScoringPresetOptions();
+  const drawModeOptions = getDrawModeOptions();
+  const timeoutPolicyOptions = getTimeoutPolicyOptions();
+
+  return (
+    <div className="space-y-4">
+      <section className="card p-6">
+        <h1 className="text-2xl font-bold text-slate-900">Draft Rooms</h1>
+        <p className="mt-2 text-sm leading-6 text-slate-600">
+          Draft against up to {ROOM_MAX_PLAYERS} friends from the same draws. Every draw, each drafter
+          takes one player from the shared franchise in snake order, and nobody can take a player
+          someone else already drafted.
+        </p>
+
+        {errorMessage ? (
+          <p className="mt-4 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">{errorMessage}</p>
+        ) : null}
+      </section>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <section className="card p-6">
+          <h2 className="text-lg font-semibold text-slate-900">Create a room</h2>
+          <form action={createRoomAction} className="mt-4 space-y-4">
+            <div>
+              <label htmlFor="create-userName" className="mb-1 block text-sm font-medium text-slate-700">
+                Your Name (optional)
+              </label>
+              <input
+                id="create-userName"
+                name="userName"
+                className="input"
+                placeholder="e.g. Andrew"
+                autoComplete="off"
+                maxLength={32}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="create-groupCode" className="mb-1 block text-sm font-medium text-slate-700">
+                Group Code (optional)
+              </label>
+              <input
+                id="create-groupCode"
+                name="groupCode"
+                className="input"
+                placeholder="e.g. FRIENDS"
+                autoComplete="off"
+                maxLength={16}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="create-seed" className="mb-1 block text-sm font-medium text-slate-700">
+                Seed (optional)
+              </label>
+              <input
+                id="create-seed"
+                name="seed"
+                className="input"
+                placeholder="Use same seed to replay exact team draws"
+                autoComplete="off"
+                maxLength={64}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="create-format" className="mb-1 block text-sm font-medium text-slate-700">
+                Roster Format
+              </label>
+              <select id="create-format" name="format" className="input" defaultValue={formatOptions[0]?.format}>
+                {formatOptions.map((option) => (
+                  <option key={option.format} value={option.format}>
+                    {option.label} ({option.totalDraws} draws)
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="create-era" className="mb-1 block text-sm font-medium text-slate-700">
+                Era
+              </label>
+              <select id="create-era" name="era" className="input" defaultValue={eraOptions[0]?.era}>
+                {eraOptions.map((option) => (
+                  <option key={option.era} value={option.era}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="create-scoring-preset" className="mb-1 block text-sm font-medium text-slate-700">
+                Scoring
+              </label>
+              <select
+                id="create-scoring-preset"
+                name="scoringPreset"
+                className="input"
+                defaultValue={scoringPresetOptions[0]?.preset}
+              >
+                {scoringPresetOptions.map((option) => (
+                  <option key={option.preset} value={option.preset}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="create-draw-mode" className="mb-1 block text-sm font-medium text-slate-700">
+                Draws
+              </label>
+              <select id="create-draw-mode" name="drawMode" className="input" defaultValue={drawModeOptions[0]?.mode}>
+                {drawModeOptions.map((option) => (
+                  <option key={option.mode} value={option.mode}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="create-timeout-policy" className="mb-1 block text-sm font-medium text-slate-700">
+                Shot Clock Violations
+              </label>
+              <select
+                id="create-timeout-policy"
+                name="timeoutPolicy"
+                className="input"
+                defaultValue={timeoutPolicyOptions[0]?.policy}
+              >
+                {timeoutPolicyOptions.map((option) => (
+                  <option key={option.policy} value={option.policy}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <SubmitButton label="Create room" pendingLabel="Creating..." testId="create-room-button" />
+          </form>
+        </section>
+
+        <section className="card p-6">
+          <h2 className="text-lg font-semibold text-slate-900">Join a room</h2>
+          <form action={joinRoomAction} className="mt-4 space-y-4">
+            <div>
+              <label htmlFor="join-roomCode" className="mb-1 block text-sm font-medium text-slate-700">
+                Room Code
+              </label>
+              <input
+                id="join-roomCode"
+                name="roomCode"
+                className="input uppercase"
+                placeholder="e.g. K7QXM"
+                defaultValue={defaultRoomCode}
+                autoComplete="off"
+                maxLength={ROOM_CODE_LENGTH + 4}
+                required
+              />
+            </div>
+
+            <div>
+              <label htmlFor="join-userName" className="mb-1 block text-sm font-medium text-slate-700">
+                Your Name (optional)
+              </label>
+              <input
+                id="join-userName"
+                name="userName"
+                className="input"
+                placeholder="e.g. Andrew"
+                autoComplete="off"
+                maxLength={32}
+              />
+            </div>
+
+            <SubmitButton label="Join room" pendingLabel="Joining..." testId="join-room-button" />
+          </form>
+        </section>
+      </div>
+    </div>
+  );
+}
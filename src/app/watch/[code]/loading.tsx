@@ -0,0 +1,7 @@
+export default function WatchLoading() {
+  return (
+    <div className="card p-6">
+      <p className="text-sm text-slate-600">Loading live draft...</p>
+    </div>
+  );
+}
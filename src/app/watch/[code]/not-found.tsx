@@ -0,0 +1,13 @@
+import Link from 'next/link';
+
+export default function WatchNotFoundPage() {
+  return (
+    <div className="card p-6">
+      <h1 className="text-xl font-semibold text-slate-900">Draft not found</h1>
+      <p className="mt-2 text-sm text-slate-600">This watch code does not match any draft.</p>
+      <Link href="/" className="button-primary mt-4">
+        Start your own game
+      </Link>
+    </div>
+  );
+}
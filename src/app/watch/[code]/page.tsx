@@ -0,0 +1,64 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { DraftLiveUpdates } from '@/components/draft-live-updates';
+import { WatchBoard } from '@/components/watch-board';
+import { getClockCaption } from '@/lib/clock-modes';
+import { getTeamByAbbr } from '@/lib/data';
+import { getDraftViewByWatchCode } from '@/lib/draft-service';
+import type { Team } from '@/lib/types';
+
+export default async function WatchPage({
+  params
+}: {
+  params: {
+    code: string;
+  };
+}) {
+  const draftView = await getDraftViewByWatchCode(params.code);
+
+  if (!draftView || !draftView.watchCode) {
+    notFound();
+  }
+
+  const currentTeam = draftView.currentTeamAbbr ? getTeamByAbbr(draftView.currentTeamAbbr) : null;
+  const remainingTeams = draftView.remainingTeams
+    .map((abbr) => getTeamByAbbr(abbr))
+    .filter((team): team is Team => Boolean(team));
+  const isComplete = draftView.status === 'COMPLETED';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-semibold text-slate-900">
+            Watching {draftView.userName ?? 'an anonymous drafter'}
+          </h1>
+          {isComplete ? (
+            <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Final</p>
+          ) : (
+            <DraftLiveUpdates url={`/api/watch/${draftView.watchCode}/events`} />
+          )}
+        </div>
+        {isComplete && draftView.runShareCode ? (
+          <Link href={`/results/${draftView.runShareCode}`} className="button-primary">
+            View results
+          </Link>
+        ) : null}
+      </div>
+
+      <WatchBoard
+        key={`${draftView.currentDrawIndex}-${draftView.shotClockDeadlineAt ?? 'done'}`}
+        drafterName={draftView.userName ?? 'Anonymous'}
+        currentTeam={isComplete ? null : currentTeam}
+        remainingTeams={isComplete ? [] : remainingTeams}
+        lineup={draftView.lineup}
+        lineupSlots={draftView.lineupSlots}
+        currentDrawIndex={draftView.currentDrawIndex}
+        totalDraws={draftView.totalDraws}
+        shotClockDeadlineAt={draftView.shotClockDeadlineAt}
+        shotClockCaption={getClockCaption(draftView)}
+        onTheClockName={draftView.room?.onTheClockName ?? null}
+      />
+    </div>
+  );
+}
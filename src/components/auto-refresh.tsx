@@ -0,0 +1,19 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+
+type AutoRefreshProps = {
+  intervalMs?: number;
+};
+
+export function AutoRefresh({ intervalMs = 3000 }: AutoRefreshProps) {
+  const router = useRouter();
+
+  useEffect(() => {
+    const intervalId = window.setInterval(() => router.refresh(), intervalMs);
+    return () => window.clearInterval(intervalId);
+  }, [intervalMs, router]);
+
+  return null;
+}
@@ -4,6 +4,7 @@ import { useState } from 'react';
 
 type CopyLinkButtonProps = {
   url: string;
+  label?: string;
 };
 
 function normalizeCopyUrl(rawUrl: string): string {
@@ -32,7 +33,7 @@ function normalizeCopyUrl(rawUrl: string): string {
   }
 }
 
-export function CopyLinkButton({ url }: CopyLinkButtonProps) {
+export function CopyLinkButton({ url, label = 'Copy share link' }: CopyLinkButtonProps) {
   const [copied, setCopied] = useState(false);
 
   async function onCopy() {
@@ -47,7 +48,7 @@ export function CopyLinkButton({ url }: CopyLinkButtonProps) {
 
   return (
     <button type="button" onClick={onCopy} className="button-secondary">
-      {copied ? 'Copied!' : 'Copy share link'}
+      {copied ? 'Copied!' : label}
     </button>
   );
 }
@@ -3,36 +3,48 @@
 import { type FormEvent, useEffect, useMemo, useRef, useState } from 'react';
 import Image from 'next/image';
 import { useRouter } from 'next/navigation';
-import { submitPickAction } from '@/app/actions';
-import { TOTAL_DRAWS } from '@/lib/constants';
+import { rerollDrawAction, submitPickAction, toggleCoachAction } from '@/app/actions';
 import { getTeamLogoUrl } from '@/lib/data';
 import { cn } from '@/lib/cn';
-import { LINEUP_SLOTS } from '@/lib/types';
-import type { LineupSlot, LineupState, RosterPlayer, Team } from '@/lib/types';
+import { getSecondsRemaining } from '@/lib/format';
+import { getEligibleRosterSlots, ROSTER_SLOT_LABELS } from '@/lib/formats';
+import type { PickAdvice } from '@/lib/pick-advisor';
+import type { LineupState, RosterPlayer, RosterSlot, Team } from '@/lib/types';
 
 type MobilePanel = 'players' | 'lineup';
 
+type RoomTurnProps = {
+  code: string;
+  isMyTurn: boolean;
+  onTheClockName: string | null;
+  turnOrderNames: string[];
+};
+
 type DraftBoardProps = {
   currentTeam: Team;
   roster: RosterPlayer[];
   lineup: LineupState;
   chosenPlayers: string[];
+  takenPlayers?: string[];
+  roomTurn?: RoomTurnProps | null;
   currentDrawIndex: number;
+  lineupSlots: RosterSlot[];
+  totalDraws: number;
   userName: string | null;
   groupCode: string | null;
   seed: string | null;
   shotClockDeadlineAt: string | null;
-  shotClockSeconds: number;
+  shotClockCaption: string;
+  coachEnabled?: boolean;
+  coachAvailable?: boolean;
+  rerollsRemaining?: number;
+  rerollPenaltyPoints?: number;
+  pickAdvice?: PickAdvice[] | null;
   errorMessage: string | null;
 };
 
-function getSecondsRemaining(deadline: string | null): number {
-  if (!deadline) {
-    return 0;
-  }
-
-  const remainingMs = new Date(deadline).getTime() - Date.now();
-  return Math.max(0, Math.ceil(remainingMs / 1000));
+function formatSigned(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(1)}`;
 }
 
 export function DraftBoard({
@@ -40,19 +52,28 @@ export function DraftBoard({
   roster,
   lineup,
   chosenPlayers,
+  takenPlayers = [],
+  roomTurn = null,
   currentDrawIndex,
+  lineupSlots,
+  totalDraws,
   userName,
   groupCode,
   seed,
   shotClockDeadlineAt,
-  shotClockSeconds,
+  shotClockCaption,
+  coachEnabled = false,
+  coachAvailable = true,
+  rerollsRemaining = 0,
+  rerollPenaltyPoints = 0,
+  pickAdvice = null,
   errorMessage
 }: DraftBoardProps) {
   const router = useRouter();
   const teamLogoUrl = getTeamLogoUrl(currentTeam.abbr);
 
   const [selectedPlayer, setSelectedPlayer] = useState<string | null>(null);
-  const [selectedSlot, setSelectedSlot] = useState<LineupSlot | null>(null);
+  const [selectedSlot, setSelectedSlot] = useState<RosterSlot | null>(null);
   const [mobilePanel, setMobilePanel] = useState<MobilePanel>('players');
   const [isConfirmOpen, setIsConfirmOpen] = useState(false);
   const [isSubmittingPick, setIsSubmittingPick] = useState(false);
@@ -61,6 +82,9 @@ export function DraftBoard({
     getSecondsRemaining(shotClockDeadlineAt)
   );
   const timeoutHandledRef = useRef(false);
+  // Untimed drafts have no deadline to count down to.
+  const isTimed = shotClockDeadlineAt !== null;
+  const clockDisplay = isTimed ? String(secondsRemaining).padStart(2, '0') : '--';
 
   const selectedPlayerProfile = useMemo(
     () => roster.find((player) => player.name === selectedPlayer) ?? null,
@@ -68,17 +92,29 @@ export function DraftBoard({
   );
 
   const selectedPlayerEligibleSlots = useMemo(
-    () => selectedPlayerProfile?.eligibleSlots ?? [],
-    [selectedPlayerProfile]
+    () =>
+      selectedPlayerProfile
+        ? getEligibleRosterSlots(selectedPlayerProfile.eligibleSlots, lineupSlots)
+        : [],
+    [lineupSlots, selectedPlayerProfile]
+  );
+  const adviceByPlayer = useMemo(
+    () => new Map((pickAdvice ?? []).map((advice) => [advice.playerName, advice])),
+    [pickAdvice]
   );
   const chosenPlayersSet = useMemo(() => new Set(chosenPlayers), [chosenPlayers]);
-  const openSlots = LINEUP_SLOTS.filter((slot) => !lineup[slot]);
+  const takenPlayersSet = useMemo(() => new Set(takenPlayers), [takenPlayers]);
+  const isWaitingForTurn = Boolean(roomTurn && !roomTurn.isMyTurn);
+  const openSlots = lineupSlots.filter((slot) => !lineup[slot]);
   const rankedRoster = useMemo(() => {
     return [...roster]
       .map((player) => {
         const alreadySelected = chosenPlayersSet.has(player.name);
-        const hasOpenEligibleSlot = player.eligibleSlots.some((slot) => openSlots.includes(slot));
-        const isPlayable = !alreadySelected && hasOpenEligibleSlot;
+        const takenByOther = !alreadySelected && takenPlayersSet.has(player.name);
+        const hasOpenEligibleSlot = getEligibleRosterSlots(player.eligibleSlots, lineupSlots).some(
+          (slot) => openSlots.includes(slot)
+        );
+        const isPlayable = !alreadySelected && !takenByOther && hasOpenEligibleSlot;
 
         return {
           player,
@@ -87,9 +123,11 @@ export function DraftBoard({
           isPlayable,
           disabledReason: alreadySelected
             ? 'Already selected earlier in this round'
-            : hasOpenEligibleSlot
-              ? null
-              : 'No open eligible slots'
+            : takenByOther
+              ? 'Taken by another drafter'
+              : hasOpenEligibleSlot
+                ? null
+                : 'No open eligible slots'
         };
       })
       .sort((a, b) => {
@@ -103,23 +141,25 @@ export function DraftBoard({
 
         return a.player.name.localeCompare(b.player.name);
       });
-  }, [chosenPlayersSet, openSlots, roster]);
+  }, [chosenPlayersSet, lineupSlots, openSlots, roster, takenPlayersSet]);
   const playableCount = rankedRoster.reduce((count, item) => count + (item.isPlayable ? 1 : 0), 0);
   const selectedPlayerIsPlayable = selectedPlayer
     ? !chosenPlayersSet.has(selectedPlayer) &&
+      !takenPlayersSet.has(selectedPlayer) &&
       selectedPlayerEligibleSlots.some((slot) => openSlots.includes(slot))
     : false;
   const lineupComplete = openSlots.length === 0;
-  const progressPercent = ((currentDrawIndex + 1) / TOTAL_DRAWS) * 100;
+  const progressPercent = ((currentDrawIndex + 1) / totalDraws) * 100;
   const canConfirm = Boolean(
-    selectedPlayer &&
+    !isWaitingForTurn &&
+      selectedPlayer &&
       selectedSlot &&
       openSlots.includes(selectedSlot) &&
       selectedPlayerEligibleSlots.includes(selectedSlot)
   );
   const selectedSummary = selectedPlayer
     ? selectedSlot
-      ? `${selectedPlayer} -> ${selectedSlot}`
+      ? `${selectedPlayer} -> ${ROSTER_SLOT_LABELS[selectedSlot]}`
       : `${selectedPlayer} selected`
     : 'Choose player + slot';
 
@@ -153,6 +193,10 @@ export function DraftBoard({
   }, [shotClockDeadlineAt, currentDrawIndex]);
 
   useEffect(() => {
+    if (!shotClockDeadlineAt) {
+      return;
+    }
+
     const intervalId = window.setInterval(() => {
       const remaining = getSecondsRemaining(shotClockDeadlineAt);
       setSecondsRemaining(remaining);
@@ -217,8 +261,20 @@ export function DraftBoard({
               <p className="text-xs font-semibold uppercase tracking-wide text-court-700">Current Team</p>
               <p className="text-xl font-bold text-slate-900">{currentTeam.name}</p>
               <p className="text-sm text-slate-600" data-testid="draw-progress">
-                Draw {currentDrawIndex + 1}/{TOTAL_DRAWS}
+                Draw {currentDrawIndex + 1}/{totalDraws}
               </p>
+              {rerollsRemaining > 0 && !lineupComplete ? (
+                <form action={rerollDrawAction} className="mt-1">
+                  <button
+                    type="submit"
+                    className="chip-control"
+                    data-testid="reroll-button"
+                    title={`Swap this franchise for one not yet drawn. Costs ${rerollPenaltyPoints} points off your final score.`}
+                  >
+                    Reroll (-{rerollPenaltyPoints} pts, {rerollsRemaining} left)
+                  </button>
+                </form>
+              ) : null}
             </div>
           </div>
 
@@ -226,20 +282,20 @@ export function DraftBoard({
             <p className="shot-clock-label">SHOT CLOCK</p>
             <div className="shot-clock-display">
               <p
-                className={cn('shot-clock-value', secondsRemaining <= 5 && 'animate-pulse')}
+                className={cn('shot-clock-value', isTimed && secondsRemaining <= 5 && 'animate-pulse')}
                 data-testid="shot-clock-desktop"
               >
-                {String(secondsRemaining).padStart(2, '0')}
+                {clockDisplay}
               </p>
             </div>
-            <p className="shot-clock-caption">{shotClockSeconds}s per draw</p>
+            <p className="shot-clock-caption">{shotClockCaption}</p>
           </div>
 
           <div className="text-sm text-slate-600">
             {userName ? <p>You: {userName}</p> : null}
             {groupCode ? <p>Group: {groupCode}</p> : null}
             {seed ? <p>Seed: {seed}</p> : <p>Seed: random</p>}
-            <p>Open Slots: {openSlots.join(', ') || 'None'}</p>
+            <p>Open Slots: {openSlots.map((slot) => ROSTER_SLOT_LABELS[slot]).join(', ') || 'None'}</p>
           </div>
         </div>
 
@@ -252,6 +308,25 @@ export function DraftBoard({
         <p className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">{errorMessage}</p>
       ) : null}
 
+      {roomTurn ? (
+        <section
+          className={cn(
+            'rounded-lg border px-3 py-2 text-sm',
+            roomTurn.isMyTurn
+              ? 'border-emerald-200 bg-emerald-50 text-emerald-800'
+              : 'border-amber-200 bg-amber-50 text-amber-800'
+          )}
+          data-testid="room-turn"
+        >
+          <p className="font-semibold">
+            {roomTurn.isMyTurn
+              ? `Room ${roomTurn.code}: you are on the clock.`
+              : `Room ${roomTurn.code}: waiting for ${roomTurn.onTheClockName ?? 'the next drafter'}.`}
+          </p>
+          <p className="mt-0.5 text-xs">Snake order this draw: {roomTurn.turnOrderNames.join(' -> ')}</p>
+        </section>
+      ) : null}
+
       <section className="sticky-draft-banner card sticky top-[60px] z-10 p-3 md:hidden">
         <div className="flex items-center gap-2">
           {teamLogoUrl ? (
@@ -269,14 +344,14 @@ export function DraftBoard({
           </div>
           <div className="ml-auto flex items-center gap-2">
             <p className="text-xs font-semibold text-slate-600">
-              Draw {currentDrawIndex + 1}/{TOTAL_DRAWS}
+              Draw {currentDrawIndex + 1}/{totalDraws}
             </p>
             <p
-              className={cn('mini-shot-clock', secondsRemaining <= 5 && 'urgent')}
+              className={cn('mini-shot-clock', isTimed && secondsRemaining <= 5 && 'urgent')}
               data-testid="shot-clock"
-              aria-label={`Shot clock ${secondsRemaining} seconds remaining`}
+              aria-label={isTimed ? `Shot clock ${secondsRemaining} seconds remaining` : 'No shot clock'}
             >
-              {String(secondsRemaining).padStart(2, '0')}
+              {clockDisplay}
             </p>
           </div>
         </div>
@@ -310,12 +385,35 @@ export function DraftBoard({
             </p>
           </div>
 
+          {coachAvailable ? (
+            <div
+              className="mb-3 flex flex-wrap items-center justify-between gap-2 rounded-lg border border-slate-200 bg-slate-50 px-3 py-2"
+              data-testid="coach-panel"
+            >
+              <div className="text-xs text-slate-600">
+                <p className="font-semibold text-slate-900">Coach {coachEnabled ? 'on' : 'off'}</p>
+                <p>
+                  {coachEnabled
+                    ? 'Projected contribution, chemistry change and expected final score, after reroll penalties, per player.'
+                    : 'Turning the coach on marks this run as assisted on leaderboards.'}
+                </p>
+              </div>
+              <form action={toggleCoachAction}>
+                <input type="hidden" name="enabled" value={coachEnabled ? 'off' : 'on'} />
+                <button type="submit" className="chip-control" data-active={coachEnabled} data-testid="coach-toggle">
+                  {coachEnabled ? 'Hide coach' : 'Show coach'}
+                </button>
+              </form>
+            </div>
+          ) : null}
+
           {rankedRoster.length === 0 ? (
             <p className="text-sm text-slate-500">No players available for this team.</p>
           ) : (
             <ul className="grid gap-2 sm:grid-cols-2">
               {rankedRoster.map(({ player, isPlayable, alreadySelected, disabledReason }, index) => {
                 const isSelected = selectedPlayer === player.name;
+                const advice = isPlayable ? adviceByPlayer.get(player.name) : undefined;
 
                 return (
                   <li
@@ -332,7 +430,7 @@ export function DraftBoard({
                         isSelected && isPlayable
                           ? 'selected-emphasis border-court-700 bg-court-50 text-court-900'
                           : !isPlayable
-                            ? alreadySelected
+                            ? alreadySelected || takenPlayersSet.has(player.name)
                               ? 'cursor-not-allowed border-rose-200 bg-rose-50 text-rose-700'
                               : 'cursor-not-allowed border-slate-200 bg-slate-100 text-slate-400'
                             : 'border-slate-200 bg-white text-slate-700 hover:border-slate-300',
@@ -365,6 +463,13 @@ export function DraftBoard({
                           );
                         })}
                       </div>
+                      {advice ? (
+                        <p className="mt-1 text-[11px] text-court-700" data-testid="coach-advice">
+                          <span className="font-semibold">{advice.contribution.toFixed(1)} pts</span>
+                          {' · '}Chem {formatSigned(advice.chemistryDelta)}
+                          {' · '}Final ~{advice.projectedTeamScore.toFixed(1)} at {ROSTER_SLOT_LABELS[advice.slot]}
+                        </p>
+                      ) : null}
                       {disabledReason ? (
                         <p
                           className={cn(
@@ -388,7 +493,7 @@ export function DraftBoard({
           <p className="mt-1 text-sm text-slate-600">Select an open slot allowed by the player position.</p>
 
           <div className="mt-4 space-y-2">
-            {LINEUP_SLOTS.map((slot) => {
+            {lineupSlots.map((slot) => {
               const pick = lineup[slot];
               const isSelected = selectedSlot === slot;
               const isOpen = !pick;
@@ -398,7 +503,9 @@ export function DraftBoard({
               const statusText = pick
                 ? pick.isPenalty
                   ? 'LOCKED (0 pts)'
-                  : 'LOCKED'
+                  : pick.isAutoDrafted
+                    ? 'AUTO-PICKED'
+                    : 'LOCKED'
                 : isEligibleForSelectedPlayer
                   ? 'OPEN'
                   : 'INELIGIBLE';
@@ -423,7 +530,7 @@ export function DraftBoard({
                   data-slot-open={isOpen ? 'true' : 'false'}
                   data-slot-eligible={isEligibleForSelectedPlayer ? 'true' : 'false'}
                 >
-                  <span className="font-semibold text-slate-900">{slot}</span>
+                  <span className="font-semibold text-slate-900">{ROSTER_SLOT_LABELS[slot]}</span>
                   <span className="mr-2 rounded-full border border-current px-2 py-0.5 text-[10px] font-bold tracking-wide">
                     {statusText}
                   </span>
@@ -444,8 +551,11 @@ export function DraftBoard({
           <div className="mt-4 rounded-lg bg-slate-50 p-3 text-sm text-slate-700">
             <p>Selected player: {selectedPlayer ?? 'None'}</p>
             <p>Franchise years: {selectedPlayerProfile?.yearsWithTeam ?? 'None'}</p>
-            <p>Eligible slots: {selectedPlayerEligibleSlots.join(', ') || 'None'}</p>
-            <p>Selected slot: {selectedSlot ?? 'None'}</p>
+            <p>
+              Eligible slots:{' '}
+              {selectedPlayerEligibleSlots.map((slot) => ROSTER_SLOT_LABELS[slot]).join(', ') || 'None'}
+            </p>
+            <p>Selected slot: {selectedSlot ? ROSTER_SLOT_LABELS[selectedSlot] : 'None'}</p>
           </div>
 
           <button
@@ -481,7 +591,7 @@ export function DraftBoard({
             <h3 className="text-lg font-semibold text-slate-900">Confirm Pick</h3>
             <p className="mt-2 text-sm text-slate-600">
               Assign <span className="font-semibold">{selectedPlayer}</span> to{' '}
-              <span className="font-semibold">{selectedSlot}</span>?
+              <span className="font-semibold">{selectedSlot ? ROSTER_SLOT_LABELS[selectedSlot] : null}</span>?
             </p>
 
             <form
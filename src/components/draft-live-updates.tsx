@@ -0,0 +1,48 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import type { DraftEventType } from '@/lib/draft-events';
+
+type DraftLiveUpdatesProps = {
+  url: string;
+};
+
+type ConnectionState = 'connecting' | 'live' | 'offline';
+
+const REFRESH_EVENTS: DraftEventType[] = ['pick', 'penalty', 'draw', 'turn'];
+
+/**
+ * Subscribes to a draft event stream and re-renders the page on every change, so other
+ * tabs and viewers pick up picks and shot-clock penalties without reloading.
+ */
+export function DraftLiveUpdates({ url }: DraftLiveUpdatesProps) {
+  const router = useRouter();
+  const [connection, setConnection] = useState<ConnectionState>('connecting');
+
+  useEffect(() => {
+    const source = new EventSource(url);
+    const handleChange = () => router.refresh();
+
+    source.addEventListener('ready', () => setConnection('live'));
+    source.addEventListener('missing', () => source.close());
+    // The server ends the stream once the round is over; close so the browser does not reconnect.
+    source.addEventListener('complete', () => {
+      source.close();
+      router.refresh();
+    });
+    source.onerror = () => setConnection(source.readyState === EventSource.CLOSED ? 'offline' : 'connecting');
+
+    for (const eventType of REFRESH_EVENTS) {
+      source.addEventListener(eventType, handleChange);
+    }
+
+    return () => source.close();
+  }, [router, url]);
+
+  return (
+    <p className="text-xs font-semibold uppercase tracking-wide text-slate-500" data-testid="live-status">
+      {connection === 'live' ? 'Live' : connection === 'connecting' ? 'Connecting...' : 'Offline'}
+    </p>
+  );
+}
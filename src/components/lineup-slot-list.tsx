@@ -0,0 +1,45 @@
+import { cn } from '@/lib/cn';
+import { ROSTER_SLOT_LABELS } from '@/lib/formats';
+import type { LineupState, RosterSlot } from '@/lib/types';
+
+type LineupSlotListProps = {
+  lineupSlots: RosterSlot[];
+  lineup: LineupState;
+};
+
+/** Read-only version of the draft board's slot column. */
+export function LineupSlotList({ lineupSlots, lineup }: LineupSlotListProps) {
+  return (
+    <div className="space-y-2">
+      {lineupSlots.map((slot) => {
+        const pick = lineup[slot];
+
+        return (
+          <div
+            key={slot}
+            className={cn(
+              'flex min-h-[3.25rem] w-full items-center justify-between rounded-xl border px-3 py-2.5 text-left',
+              pick
+                ? 'border-slate-300 bg-slate-100 text-slate-600'
+                : 'border-emerald-400 bg-emerald-50 text-emerald-900'
+            )}
+            data-testid={`slot-${slot}`}
+            data-slot-open={pick ? 'false' : 'true'}
+          >
+            <span className="font-semibold text-slate-900">{ROSTER_SLOT_LABELS[slot]}</span>
+            <span className="mr-2 rounded-full border border-current px-2 py-0.5 text-[10px] font-bold tracking-wide">
+              {pick ? (pick.isPenalty ? 'LOCKED (0 pts)' : pick.isAutoDrafted ? 'AUTO-PICKED' : 'LOCKED') : 'OPEN'}
+            </span>
+            <span className="truncate text-xs sm:text-sm">
+              {pick
+                ? pick.isPenalty
+                  ? 'Shot Clock Violation (0 pts)'
+                  : `${pick.playerName} (${pick.teamAbbr})`
+                : 'Open'}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
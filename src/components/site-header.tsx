@@ -11,6 +11,12 @@ export function SiteHeader() {
           <Link href="/" className="rounded-full px-3 py-1.5 hover:bg-slate-100">
             Home
           </Link>
+          <Link href="/daily" className="rounded-full px-3 py-1.5 hover:bg-slate-100">
+            Daily
+          </Link>
+          <Link href="/rooms" className="rounded-full px-3 py-1.5 hover:bg-slate-100">
+            Rooms
+          </Link>
           <Link href="/leaderboard" className="rounded-full px-3 py-1.5 hover:bg-slate-100">
             Leaderboard
           </Link>
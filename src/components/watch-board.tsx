@@ -0,0 +1,129 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { LineupSlotList } from '@/components/lineup-slot-list';
+import { cn } from '@/lib/cn';
+import { getTeamLogoUrl } from '@/lib/data';
+import { getSecondsRemaining } from '@/lib/format';
+import type { LineupState, RosterSlot, Team } from '@/lib/types';
+
+type WatchBoardProps = {
+  drafterName: string;
+  currentTeam: Team | null;
+  remainingTeams: Team[];
+  lineup: LineupState;
+  lineupSlots: RosterSlot[];
+  currentDrawIndex: number;
+  totalDraws: number;
+  shotClockDeadlineAt: string | null;
+  shotClockCaption: string;
+  onTheClockName: string | null;
+};
+
+export function WatchBoard({
+  drafterName,
+  currentTeam,
+  remainingTeams,
+  lineup,
+  lineupSlots,
+  currentDrawIndex,
+  totalDraws,
+  shotClockDeadlineAt,
+  shotClockCaption,
+  onTheClockName
+}: WatchBoardProps) {
+  const teamLogoUrl = currentTeam ? getTeamLogoUrl(currentTeam.abbr) : null;
+  const [secondsRemaining, setSecondsRemaining] = useState(() =>
+    getSecondsRemaining(shotClockDeadlineAt)
+  );
+  const progressPercent = (Math.min(currentDrawIndex + 1, totalDraws) / totalDraws) * 100;
+  const isTimed = shotClockDeadlineAt !== null;
+
+  useEffect(() => {
+    setSecondsRemaining(getSecondsRemaining(shotClockDeadlineAt));
+
+    const intervalId = window.setInterval(() => {
+      setSecondsRemaining(getSecondsRemaining(shotClockDeadlineAt));
+    }, 250);
+
+    return () => window.clearInterval(intervalId);
+  }, [shotClockDeadlineAt]);
+
+  return (
+    <>
+      <section className="card fade-up p-5">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            {teamLogoUrl && currentTeam ? (
+              <Image
+                src={teamLogoUrl}
+                alt={`${currentTeam.name} logo`}
+                width={96}
+                height={96}
+                className="h-24 w-24 rounded-md border border-slate-200 bg-white p-2"
+              />
+            ) : null}
+
+            <div>
+              <p className="text-xs font-semibold uppercase tracking-wide text-court-700">Current Team</p>
+              <p className="text-xl font-bold text-slate-900">{currentTeam?.name ?? 'Round complete'}</p>
+              <p className="text-sm text-slate-600" data-testid="draw-progress">
+                Draw {Math.min(currentDrawIndex + 1, totalDraws)}/{totalDraws}
+              </p>
+            </div>
+          </div>
+
+          <div className="shot-clock-shell">
+            <p className="shot-clock-label">SHOT CLOCK</p>
+            <div className="shot-clock-display">
+              <p
+                className={cn('shot-clock-value', isTimed && secondsRemaining <= 5 && 'animate-pulse')}
+                data-testid="shot-clock"
+              >
+                {isTimed ? String(secondsRemaining).padStart(2, '0') : '--'}
+              </p>
+            </div>
+            <p className="shot-clock-caption">{shotClockCaption}</p>
+          </div>
+
+          <div className="text-sm text-slate-600">
+            <p>Drafter: {drafterName}</p>
+            {onTheClockName ? <p>On the clock: {onTheClockName}</p> : null}
+          </div>
+        </div>
+
+        <div className="mt-4 h-2 w-full overflow-hidden rounded-full bg-slate-200">
+          <div className="h-full rounded-full bg-court-700" style={{ width: `${progressPercent}%` }} />
+        </div>
+      </section>
+
+      <div className="grid gap-4 md:grid-cols-[1.3fr_1fr]">
+        <section className="card p-5">
+          <h2 className="text-lg font-semibold text-slate-900">Lineup Slots</h2>
+          <div className="mt-4">
+            <LineupSlotList lineupSlots={lineupSlots} lineup={lineup} />
+          </div>
+        </section>
+
+        <section className="card p-5">
+          <h2 className="text-lg font-semibold text-slate-900">Remaining Draws</h2>
+          {remainingTeams.length === 0 ? (
+            <p className="mt-2 text-sm text-slate-500">No draws left.</p>
+          ) : (
+            <ol className="mt-3 space-y-2 text-sm text-slate-700">
+              {remainingTeams.map((team, index) => (
+                <li key={team.abbr} className="flex items-center justify-between rounded-lg border border-slate-200 px-3 py-2">
+                  <span className="font-semibold">{team.name}</span>
+                  <span className="text-xs text-slate-500">
+                    {index === 0 ? 'Now' : `Draw ${currentDrawIndex + index + 1}`}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </section>
+      </div>
+    </>
+  );
+}
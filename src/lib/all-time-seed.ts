@@ -1,9 +1,11 @@
-import type { AwardBreakdown, BoxTotals, LineupSlot } from '@/lib/types';
+import type { AwardBreakdown, BoxTotals, CareerStint, LineupSlot, PlayerArchetype } from '@/lib/types';
 
 export type AllTimeSeedPlayer = {
   name: string;
   years: string;
   positions: LineupSlot[];
+  archetypes?: PlayerArchetype[];
+  careerStints?: CareerStint[];
   careerYears?: number;
   championships?: number;
   categoryRaw?: {
@@ -19,513 +21,513 @@ export type AllTimeSeedPlayer = {
 // Auto-generated by scripts/sync-all-time-data.ts
 export const ALL_TIME_TEAM_SEED: Record<string, AllTimeSeedPlayer[]> = {
   ATL: [
-    { name: 'Bob Pettit', years: '1954-1965', positions: ['SF', 'PF'], careerYears: 12, championships: 1, categoryRaw: { playerAccolades: 196, teamAccolades: 64.35, stats: 39971.631, advanced: 3778.157 }, accolades: { mvp: 3, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 10, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 11, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 792, pts: 20880, reb: 12849, ast: 2369, stl: 0, blk: 0, tov: 0 } },
+    { name: 'Bob Pettit', years: '1954-1965', positions: ['SF', 'PF'], archetypes: ['POST_SCORER'], careerYears: 12, championships: 1, categoryRaw: { playerAccolades: 196, teamAccolades: 64.35, stats: 39971.631, advanced: 3778.157 }, accolades: { mvp: 3, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 10, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 11, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 792, pts: 20880, reb: 12849, ast: 2369, stl: 0, blk: 0, tov: 0 } },
     { name: 'Cliff Hagan', years: '1956-1966', positions: ['SF', 'PF'], careerYears: 11, championships: 1, categoryRaw: { playerAccolades: 22, teamAccolades: 63.5, stats: 25772.428, advanced: 2683.66 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 745, pts: 13447, reb: 5116, ast: 2242, stl: 0, blk: 0, tov: 0 } },
-    { name: 'Dominique Wilkins', years: '1982-1994', positions: ['SF', 'PF'], careerYears: 17, categoryRaw: { playerAccolades: 59, teamAccolades: 41.2, stats: 34121.369, advanced: 2828.285 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 4, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 9, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 882, pts: 23292, reb: 6119, ast: 2321, stl: 1245, blk: 588, tov: 2286 } },
-    { name: 'Lou Hudson', years: '1966-1977', positions: ['SF', 'PF'], careerYears: 13, categoryRaw: { playerAccolades: 18, teamAccolades: 40.35, stats: 26655.849, advanced: 2518.233 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 730, pts: 16049, reb: 3598, ast: 2098, stl: 364, blk: 67, tov: 0 } },
-    { name: 'Trae Young', years: '2018-2026', positions: ['PG', 'SG'], careerYears: 9, categoryRaw: { playerAccolades: 12, teamAccolades: 37.8, stats: 25352.227, advanced: 2769.451 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 493, pts: 12413, reb: 1702, ast: 4837, stl: 515, blk: 75, tov: 2077 } },
+    { name: 'Dominique Wilkins', years: '1982-1994', positions: ['SF', 'PF'], archetypes: ['SLASHER'], careerYears: 17, categoryRaw: { playerAccolades: 59, teamAccolades: 41.2, stats: 34121.369, advanced: 2828.285 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 4, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 9, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 882, pts: 23292, reb: 6119, ast: 2321, stl: 1245, blk: 588, tov: 2286 } },
+    { name: 'Lou Hudson', years: '1966-1977', positions: ['SF', 'PF'], archetypes: ['SLASHER'], careerYears: 13, categoryRaw: { playerAccolades: 18, teamAccolades: 40.35, stats: 26655.849, advanced: 2518.233 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 730, pts: 16049, reb: 3598, ast: 2098, stl: 364, blk: 67, tov: 0 } },
+    { name: 'Trae Young', years: '2018-2026', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL', 'SLASHER'], careerYears: 9, categoryRaw: { playerAccolades: 12, teamAccolades: 37.8, stats: 25352.227, advanced: 2769.451 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 493, pts: 12413, reb: 1702, ast: 4837, stl: 515, blk: 75, tov: 2077 } },
     { name: 'Bill Bridges', years: '1962-1972', positions: ['SF', 'PF'], careerYears: 13, categoryRaw: { playerAccolades: 12, teamAccolades: 39.5, stats: 24121.664, advanced: 2380 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 2, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 683, pts: 8685, reb: 8656, ast: 1997, stl: 0, blk: 0, tov: 0 } },
     { name: 'Kevin Willis', years: '1984-1988, 1989-1995, 2004-2005', positions: ['SF', 'PF', 'C'], careerYears: 23, categoryRaw: { playerAccolades: 6, teamAccolades: 40.35, stats: 25174.808, advanced: 2567.417 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 753, pts: 10582, reb: 7332, ast: 827, stl: 581, blk: 426, tov: 1509 } },
-    { name: 'Josh Smith', years: '2004-2013', positions: ['SF', 'PF'], careerYears: 14, categoryRaw: { playerAccolades: 3, teamAccolades: 38.65, stats: 25590.931, advanced: 2488.196 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 1, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 676, pts: 10371, reb: 5407, ast: 2170, stl: 857, blk: 1440, tov: 1715 } },
-    { name: 'John Drew', years: '1974-1982', positions: ['SF', 'PF'], careerYears: 11, categoryRaw: { playerAccolades: 4, teamAccolades: 37.8, stats: 24097.621, advanced: 2509.224 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 595, pts: 12621, reb: 4433, ast: 957, stl: 859, blk: 182, tov: 1033 } },
-    { name: 'Dikembe Mutombo', years: '1996-2001', positions: ['C'], careerYears: 18, categoryRaw: { playerAccolades: 91, teamAccolades: 35.25, stats: 17732.924, advanced: 2455.416 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 4, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 2, allDefFirst: 3, allDefSecond: 3, allStar: 8, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 343, pts: 4095, reb: 4321, ast: 408, stl: 146, blk: 1094, tov: 714 } },
-    { name: 'Mookie Blaylock', years: '1992-1999', positions: ['PG', 'SG'], careerYears: 13, categoryRaw: { playerAccolades: 22, teamAccolades: 36.95, stats: 22113.751, advanced: 2438.4 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 2, allDefSecond: 4, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 518, pts: 7743, reb: 2407, ast: 3764, stl: 1321, blk: 160, tov: 1289 } },
-    { name: 'Dan Roundfield', years: '1978-1984', positions: ['SF', 'PF'], careerYears: 11, categoryRaw: { playerAccolades: 30, teamAccolades: 36.1, stats: 20878.36, advanced: 2471.156 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 3, allDefSecond: 2, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 435, pts: 7644, reb: 4658, ast: 1047, stl: 449, blk: 716, tov: 1253 } },
+    { name: 'Josh Smith', years: '2004-2013', positions: ['SF', 'PF'], archetypes: ['RIM_PROTECTOR'], careerYears: 14, categoryRaw: { playerAccolades: 3, teamAccolades: 38.65, stats: 25590.931, advanced: 2488.196 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 1, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 676, pts: 10371, reb: 5407, ast: 2170, stl: 857, blk: 1440, tov: 1715 } },
+    { name: 'John Drew', years: '1974-1982', positions: ['SF', 'PF'], archetypes: ['STRETCH_BIG'], careerYears: 11, categoryRaw: { playerAccolades: 4, teamAccolades: 37.8, stats: 24097.621, advanced: 2509.224 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 595, pts: 12621, reb: 4433, ast: 957, stl: 859, blk: 182, tov: 1033 } },
+    { name: 'Dikembe Mutombo', years: '1996-2001', positions: ['C'], archetypes: ['RIM_PROTECTOR'], careerYears: 18, categoryRaw: { playerAccolades: 91, teamAccolades: 35.25, stats: 17732.924, advanced: 2455.416 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 4, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 2, allDefFirst: 3, allDefSecond: 3, allStar: 8, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 343, pts: 4095, reb: 4321, ast: 408, stl: 146, blk: 1094, tov: 714 } },
+    { name: 'Mookie Blaylock', years: '1992-1999', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 13, categoryRaw: { playerAccolades: 22, teamAccolades: 36.95, stats: 22113.751, advanced: 2438.4 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 2, allDefSecond: 4, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 518, pts: 7743, reb: 2407, ast: 3764, stl: 1321, blk: 160, tov: 1289 } },
+    { name: 'Dan Roundfield', years: '1978-1984', positions: ['SF', 'PF'], archetypes: ['RIM_PROTECTOR'], careerYears: 11, categoryRaw: { playerAccolades: 30, teamAccolades: 36.1, stats: 20878.36, advanced: 2471.156 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 3, allDefSecond: 2, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 435, pts: 7644, reb: 4658, ast: 1047, stl: 449, blk: 716, tov: 1253 } },
     { name: 'Al Horford', years: '2007-2016', positions: ['SF', 'PF', 'C'], careerYears: 19, categoryRaw: { playerAccolades: 17, teamAccolades: 38.65, stats: 21569.064, advanced: 2274.906 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 1, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 578, pts: 8288, reb: 5144, ast: 1589, stl: 482, blk: 697, tov: 915 } },
     { name: 'Lenny Wilkens', years: '1960-1968', positions: ['PG', 'SG'], careerYears: 15, categoryRaw: { playerAccolades: 18, teamAccolades: 37.8, stats: 20401.029, advanced: 2222.299 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 9, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 555, pts: 8591, reb: 2741, ast: 3049, stl: 0, blk: 0, tov: 0 } },
     { name: 'Zelmo Beaty', years: '1962-1969', positions: ['C'], careerYears: 13, categoryRaw: { playerAccolades: 4, teamAccolades: 36.95, stats: 20934.314, advanced: 2380.363 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 501, pts: 8727, reb: 5622, ast: 765, stl: 0, blk: 0, tov: 0 } },
   ],
   BOS: [
-    { name: 'Bill Russell', years: '1956-1969', positions: ['C'], careerYears: 14, championships: 11, categoryRaw: { playerAccolades: 319, teamAccolades: 306.05, stats: 42534.543, advanced: 4617.08 }, accolades: { mvp: 9, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 3, allNbaSecond: 8, allNbaThird: 0, allDefFirst: 1, allDefSecond: 0, allStar: 12, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 963, pts: 14522, reb: 21620, ast: 4100, stl: 0, blk: 0, tov: 0 } },
-    { name: 'Larry Bird', years: '1979-1992', positions: ['SF', 'PF'], careerYears: 14, championships: 3, categoryRaw: { playerAccolades: 284, teamAccolades: 114.05, stats: 41038.649, advanced: 3982.218 }, accolades: { mvp: 5, finalsMvp: 2, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 9, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 3, allStar: 12, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 897, pts: 21791, reb: 8974, ast: 5695, stl: 1556, blk: 755, tov: 2816 } },
-    { name: 'John Havlicek', years: '1962-1978', positions: ['SF', 'PF'], careerYears: 17, championships: 8, categoryRaw: { playerAccolades: 149, teamAccolades: 236.6, stats: 41276.464, advanced: 3768.726 }, accolades: { mvp: 0, finalsMvp: 1, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 4, allNbaSecond: 7, allNbaThird: 0, allDefFirst: 5, allDefSecond: 3, allStar: 13, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 1270, pts: 26395, reb: 8007, ast: 6114, stl: 476, blk: 117, tov: 204 } },
-    { name: 'Bob Cousy', years: '1950-1963', positions: ['PG', 'SG'], careerYears: 20, championships: 6, categoryRaw: { playerAccolades: 152, teamAccolades: 186.05, stats: 30871.467, advanced: 3169.569 }, accolades: { mvp: 1, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 10, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 13, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 917, pts: 16955, reb: 4781, ast: 6945, stl: 0, blk: 0, tov: 0 } },
+    { name: 'Bill Russell', years: '1956-1969', positions: ['C'], archetypes: ['RIM_PROTECTOR'], careerYears: 14, championships: 11, categoryRaw: { playerAccolades: 319, teamAccolades: 306.05, stats: 42534.543, advanced: 4617.08 }, accolades: { mvp: 9, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 3, allNbaSecond: 8, allNbaThird: 0, allDefFirst: 1, allDefSecond: 0, allStar: 12, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 963, pts: 14522, reb: 21620, ast: 4100, stl: 0, blk: 0, tov: 0 } },
+    { name: 'Larry Bird', years: '1979-1992', positions: ['SF', 'PF'], archetypes: ['POST_SCORER'], careerYears: 14, championships: 3, categoryRaw: { playerAccolades: 284, teamAccolades: 114.05, stats: 41038.649, advanced: 3982.218 }, accolades: { mvp: 5, finalsMvp: 2, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 9, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 3, allStar: 12, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 897, pts: 21791, reb: 8974, ast: 5695, stl: 1556, blk: 755, tov: 2816 } },
+    { name: 'John Havlicek', years: '1962-1978', positions: ['SF', 'PF'], archetypes: ['SLASHER', 'THREE_AND_D_WING'], careerYears: 17, championships: 8, categoryRaw: { playerAccolades: 149, teamAccolades: 236.6, stats: 41276.464, advanced: 3768.726 }, accolades: { mvp: 0, finalsMvp: 1, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 4, allNbaSecond: 7, allNbaThird: 0, allDefFirst: 5, allDefSecond: 3, allStar: 13, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 1270, pts: 26395, reb: 8007, ast: 6114, stl: 476, blk: 117, tov: 204 } },
+    { name: 'Bob Cousy', years: '1950-1963', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 20, championships: 6, categoryRaw: { playerAccolades: 152, teamAccolades: 186.05, stats: 30871.467, advanced: 3169.569 }, accolades: { mvp: 1, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 10, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 13, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 917, pts: 16955, reb: 4781, ast: 6945, stl: 0, blk: 0, tov: 0 } },
     { name: 'Sam Jones', years: '1957-1969', positions: ['PG', 'SG'], careerYears: 13, championships: 10, categoryRaw: { playerAccolades: 28, teamAccolades: 281.2, stats: 24138.197, advanced: 2984.179 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 3, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 871, pts: 15411, reb: 4305, ast: 2209, stl: 0, blk: 0, tov: 0 } },
-    { name: 'Tom Heinsohn', years: '1956-1965', positions: ['SF', 'PF'], careerYears: 10, championships: 8, categoryRaw: { playerAccolades: 42, teamAccolades: 230.65, stats: 23071.588, advanced: 2967.757 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 4, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 654, pts: 12194, reb: 5749, ast: 1318, stl: 0, blk: 0, tov: 0 } },
-    { name: 'Dave Cowens', years: '1970-1980', positions: ['C'], careerYears: 13, championships: 2, categoryRaw: { playerAccolades: 80, teamAccolades: 87.5, stats: 33122.648, advanced: 3314.866 }, accolades: { mvp: 1, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 3, allNbaThird: 0, allDefFirst: 1, allDefSecond: 2, allStar: 8, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 726, pts: 13192, reb: 10170, ast: 2828, stl: 569, blk: 473, tov: 499 } },
-    { name: 'Kevin McHale', years: '1980-1993', positions: ['SF', 'PF'], careerYears: 14, championships: 3, categoryRaw: { playerAccolades: 52, teamAccolades: 114.05, stats: 30794.496, advanced: 2835.931 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 2, mip: 0, allNbaFirst: 1, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 3, allDefSecond: 3, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 971, pts: 17335, reb: 7122, ast: 1670, stl: 344, blk: 1690, tov: 1893 } },
-    { name: 'Paul Pierce', years: '1998-2013', positions: ['SF', 'PF'], careerYears: 19, championships: 1, categoryRaw: { playerAccolades: 54, teamAccolades: 67.75, stats: 35927.339, advanced: 2805.955 }, accolades: { mvp: 0, finalsMvp: 1, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 3, allDefFirst: 0, allDefSecond: 0, allStar: 10, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 1102, pts: 24021, reb: 6651, ast: 4305, stl: 1583, blk: 668, tov: 3213 } },
+    { name: 'Tom Heinsohn', years: '1956-1965', positions: ['SF', 'PF'], archetypes: ['POST_SCORER'], careerYears: 10, championships: 8, categoryRaw: { playerAccolades: 42, teamAccolades: 230.65, stats: 23071.588, advanced: 2967.757 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 4, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 654, pts: 12194, reb: 5749, ast: 1318, stl: 0, blk: 0, tov: 0 } },
+    { name: 'Dave Cowens', years: '1970-1980', positions: ['C'], archetypes: ['POST_SCORER'], careerYears: 13, championships: 2, categoryRaw: { playerAccolades: 80, teamAccolades: 87.5, stats: 33122.648, advanced: 3314.866 }, accolades: { mvp: 1, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 3, allNbaThird: 0, allDefFirst: 1, allDefSecond: 2, allStar: 8, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 726, pts: 13192, reb: 10170, ast: 2828, stl: 569, blk: 473, tov: 499 } },
+    { name: 'Kevin McHale', years: '1980-1993', positions: ['SF', 'PF'], archetypes: ['RIM_PROTECTOR'], careerYears: 14, championships: 3, categoryRaw: { playerAccolades: 52, teamAccolades: 114.05, stats: 30794.496, advanced: 2835.931 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 2, mip: 0, allNbaFirst: 1, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 3, allDefSecond: 3, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 971, pts: 17335, reb: 7122, ast: 1670, stl: 344, blk: 1690, tov: 1893 } },
+    { name: 'Paul Pierce', years: '1998-2013', positions: ['SF', 'PF'], archetypes: ['SLASHER', 'THREE_AND_D_WING'], careerYears: 19, championships: 1, categoryRaw: { playerAccolades: 54, teamAccolades: 67.75, stats: 35927.339, advanced: 2805.955 }, accolades: { mvp: 0, finalsMvp: 1, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 3, allDefFirst: 0, allDefSecond: 0, allStar: 10, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 1102, pts: 24021, reb: 6651, ast: 4305, stl: 1583, blk: 668, tov: 3213 } },
     { name: 'Robert Parish', years: '1980-1994', positions: ['C'], careerYears: 21, championships: 3, categoryRaw: { playerAccolades: 28, teamAccolades: 114.9, stats: 33488.059, advanced: 2740 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 9, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 1106, pts: 18245, reb: 11051, ast: 1679, stl: 873, blk: 1703, tov: 2380 } },
-    { name: 'Jayson Tatum', years: '2017-2025', positions: ['PG', 'SG', 'SF', 'PF'], careerYears: 9, championships: 1, categoryRaw: { playerAccolades: 52, teamAccolades: 61.8, stats: 27355.374, advanced: 3000.332 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 4, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 585, pts: 13784, reb: 4293, ast: 2243, stl: 639, blk: 384, tov: 1389 } },
+    { name: 'Jayson Tatum', years: '2017-2025', positions: ['PG', 'SG', 'SF', 'PF'], archetypes: ['SLASHER'], careerYears: 9, championships: 1, categoryRaw: { playerAccolades: 52, teamAccolades: 61.8, stats: 27355.374, advanced: 3000.332 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 4, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 585, pts: 13784, reb: 4293, ast: 2243, stl: 639, blk: 384, tov: 1389 } },
     { name: 'Bill Sharman', years: '1951-1961', positions: ['PG', 'SG'], careerYears: 11, championships: 4, categoryRaw: { playerAccolades: 70, teamAccolades: 135.5, stats: 19987.756, advanced: 2413.514 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 4, allNbaSecond: 3, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 8, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 680, pts: 12287, reb: 2683, ast: 2062, stl: 0, blk: 0, tov: 0 } },
     { name: 'Thomas Sanders', years: '1960-1973', positions: ['SF', 'PF'], careerYears: 13, championships: 8, categoryRaw: { playerAccolades: 3, teamAccolades: 234.05, stats: 16926.908, advanced: 2209.057 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 1, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 916, pts: 8766, reb: 5798, ast: 1026, stl: 0, blk: 0, tov: 0 } },
     { name: 'Jojo White', years: '1969-1979', positions: ['PG', 'SG'], careerYears: 12, championships: 2, categoryRaw: { playerAccolades: 42, teamAccolades: 87.5, stats: 24798.248, advanced: 2551.718 }, accolades: { mvp: 0, finalsMvp: 1, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 717, pts: 13188, reb: 3071, ast: 3686, stl: 561, blk: 95, tov: 259 } },
     { name: 'Jaylen Brown', years: '2016-2026', positions: ['PG', 'SG', 'SF', 'PF'], careerYears: 10, championships: 1, categoryRaw: { playerAccolades: 32, teamAccolades: 63.5, stats: 24313.847, advanced: 2664.514 }, accolades: { mvp: 0, finalsMvp: 1, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 653, pts: 12894, reb: 3559, ast: 1831, stl: 661, blk: 248, tov: 1455 } },
   ],
   BKN: [
-    { name: 'Jason Kidd', years: '2001-2008', positions: ['PG', 'SG'], careerYears: 19, categoryRaw: { playerAccolades: 108, teamAccolades: 36.95, stats: 23287.653, advanced: 2633.724 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 5, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 4, allDefSecond: 5, allStar: 10, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 506, pts: 7373, reb: 3662, ast: 4620, stl: 950, blk: 135, tov: 1553 } },
+    { name: 'Jason Kidd', years: '2001-2008', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 19, categoryRaw: { playerAccolades: 108, teamAccolades: 36.95, stats: 23287.653, advanced: 2633.724 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 5, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 4, allDefSecond: 5, allStar: 10, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 506, pts: 7373, reb: 3662, ast: 4620, stl: 950, blk: 135, tov: 1553 } },
     { name: 'Buck Williams', years: '1981-1989', positions: ['SF', 'PF'], careerYears: 17, categoryRaw: { playerAccolades: 32, teamAccolades: 37.8, stats: 23730.456, advanced: 2362.91 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 2, allDefSecond: 2, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 635, pts: 10440, reb: 7576, ast: 976, stl: 599, blk: 696, tov: 1811 } },
-    { name: 'Brook Lopez', years: '2008-2017', positions: ['C'], careerYears: 18, categoryRaw: { playerAccolades: 9, teamAccolades: 38.65, stats: 21128.588, advanced: 2231.921 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 1, allDefSecond: 1, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 562, pts: 10444, reb: 4005, ast: 866, stl: 328, blk: 972, tov: 1155 } },
-    { name: 'Vince Carter', years: '2004-2009', positions: ['PG', 'SG', 'SF', 'PF'], careerYears: 22, categoryRaw: { playerAccolades: 38, teamAccolades: 35.25, stats: 20818.512, advanced: 2545.857 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 8, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 374, pts: 8834, reb: 2152, ast: 1762, stl: 435, blk: 187, tov: 923 } },
-    { name: 'Derrick Coleman', years: '1990-1995', positions: ['SF', 'PF'], careerYears: 15, categoryRaw: { playerAccolades: 22, teamAccolades: 35.25, stats: 20482.626, advanced: 2603.734 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 348, pts: 6930, reb: 3690, ast: 1093, stl: 320, blk: 559, tov: 1088 } },
-    { name: 'Nic Claxton', years: '2019-2026', positions: ['C'], careerYears: 7, categoryRaw: { playerAccolades: 0, teamAccolades: 36.95, stats: 15328.181, advanced: 2043.907 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 361, pts: 3840, reb: 2762, ast: 733, stl: 257, blk: 597, tov: 411 } },
+    { name: 'Brook Lopez', years: '2008-2017', positions: ['C'], archetypes: ['RIM_PROTECTOR'], careerYears: 18, categoryRaw: { playerAccolades: 9, teamAccolades: 38.65, stats: 21128.588, advanced: 2231.921 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 1, allDefSecond: 1, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 562, pts: 10444, reb: 4005, ast: 866, stl: 328, blk: 972, tov: 1155 } },
+    { name: 'Vince Carter', years: '2004-2009', positions: ['PG', 'SG', 'SF', 'PF'], archetypes: ['SLASHER'], careerYears: 22, categoryRaw: { playerAccolades: 38, teamAccolades: 35.25, stats: 20818.512, advanced: 2545.857 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 8, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 374, pts: 8834, reb: 2152, ast: 1762, stl: 435, blk: 187, tov: 923 } },
+    { name: 'Derrick Coleman', years: '1990-1995', positions: ['SF', 'PF'], archetypes: ['RIM_PROTECTOR', 'POST_SCORER'], careerYears: 15, categoryRaw: { playerAccolades: 22, teamAccolades: 35.25, stats: 20482.626, advanced: 2603.734 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 348, pts: 6930, reb: 3690, ast: 1093, stl: 320, blk: 559, tov: 1088 } },
+    { name: 'Nic Claxton', years: '2019-2026', positions: ['C'], archetypes: ['RIM_PROTECTOR'], careerYears: 7, categoryRaw: { playerAccolades: 0, teamAccolades: 36.95, stats: 15328.181, advanced: 2043.907 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 361, pts: 3840, reb: 2762, ast: 733, stl: 257, blk: 597, tov: 411 } },
     { name: 'Mike Gminski', years: '1980-1988', positions: ['C'], careerYears: 14, categoryRaw: { playerAccolades: 0, teamAccolades: 37.8, stats: 16853.596, advanced: 2003.35 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 550, pts: 6415, reb: 3671, ast: 711, stl: 317, blk: 599, tov: 918 } },
     { name: 'Richard Jefferson', years: '2001-2008', positions: ['SF', 'PF'], careerYears: 17, categoryRaw: { playerAccolades: 0, teamAccolades: 36.95, stats: 18461.057, advanced: 2143.279 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 489, pts: 8507, reb: 2627, ast: 1486, stl: 438, blk: 183, tov: 1086 } },
-    { name: 'Kerry Kittles', years: '1996-2000, 2001-2004', positions: ['PG', 'SG'], careerYears: 9, categoryRaw: { playerAccolades: 0, teamAccolades: 36.95, stats: 16222.025, advanced: 1851.004 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 496, pts: 7096, reb: 1951, ast: 1275, stl: 803, blk: 218, tov: 614 } },
+    { name: 'Kerry Kittles', years: '1996-2000, 2001-2004', positions: ['PG', 'SG'], archetypes: ['THREE_AND_D_WING'], careerYears: 9, categoryRaw: { playerAccolades: 0, teamAccolades: 36.95, stats: 16222.025, advanced: 1851.004 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 496, pts: 7096, reb: 1951, ast: 1275, stl: 803, blk: 218, tov: 614 } },
     { name: 'Spencer Dinwiddie', years: '2016-2021, 2022-2024', positions: ['PG', 'SG'], careerYears: 11, categoryRaw: { playerAccolades: 0, teamAccolades: 36.95, stats: 15504.233, advanced: 2059.691 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 348, pts: 4953, reb: 1088, ast: 1985, stl: 260, blk: 102, tov: 642 } },
     { name: 'Jayson Williams', years: '1992-1999', positions: ['SF', 'PF'], careerYears: 9, categoryRaw: { playerAccolades: 2, teamAccolades: 36.95, stats: 14090.602, advanced: 2015.457 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 373, pts: 3084, reb: 3328, ast: 259, stl: 175, blk: 275, tov: 431 } },
-    { name: 'Chris Morris', years: '1988-1995', positions: ['SF', 'PF'], careerYears: 11, categoryRaw: { playerAccolades: 0, teamAccolades: 36.95, stats: 16569.498, advanced: 1856.752 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 510, pts: 6762, reb: 2918, ast: 1015, stl: 784, blk: 468, tov: 1001 } },
+    { name: 'Chris Morris', years: '1988-1995', positions: ['SF', 'PF'], archetypes: ['THREE_AND_D_WING'], careerYears: 11, categoryRaw: { playerAccolades: 0, teamAccolades: 36.95, stats: 16569.498, advanced: 1856.752 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 510, pts: 6762, reb: 2918, ast: 1015, stl: 784, blk: 468, tov: 1001 } },
     { name: 'Otis Birdsong', years: '1981-1988', positions: ['PG', 'SG'], careerYears: 12, categoryRaw: { playerAccolades: 14, teamAccolades: 36.95, stats: 14378.701, advanced: 1876.64 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 375, pts: 5968, reb: 941, ast: 1361, stl: 427, blk: 73, tov: 782 } },
-    { name: 'Deron Williams', years: '2010-2015', positions: ['PG', 'SG'], careerYears: 12, categoryRaw: { playerAccolades: 18, teamAccolades: 35.25, stats: 16280.118, advanced: 2326.128 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 277, pts: 4609, reb: 875, ast: 2078, stl: 314, blk: 83, tov: 777 } },
-    { name: 'Kenny Anderson', years: '1991-1996', positions: ['PG', 'SG'], careerYears: 14, categoryRaw: { playerAccolades: 2, teamAccolades: 35.25, stats: 16885.454, advanced: 2318.352 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 304, pts: 4655, reb: 1026, ast: 2363, stl: 476, blk: 57, tov: 799 } },
+    { name: 'Deron Williams', years: '2010-2015', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 12, categoryRaw: { playerAccolades: 18, teamAccolades: 35.25, stats: 16280.118, advanced: 2326.128 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 277, pts: 4609, reb: 875, ast: 2078, stl: 314, blk: 83, tov: 777 } },
+    { name: 'Kenny Anderson', years: '1991-1996', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 14, categoryRaw: { playerAccolades: 2, teamAccolades: 35.25, stats: 16885.454, advanced: 2318.352 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 304, pts: 4655, reb: 1026, ast: 2363, stl: 476, blk: 57, tov: 799 } },
   ],
   CHA: [
-    { name: 'Kemba Walker', years: '2011-2019', positions: ['PG', 'SG'], careerYears: 12, categoryRaw: { playerAccolades: 12, teamAccolades: 37.8, stats: 23608.513, advanced: 2386.206 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 605, pts: 12009, reb: 2317, ast: 3308, stl: 799, blk: 233, tov: 1317 } },
-    { name: 'LaMelo Ball', years: '2020-2026', positions: ['PG', 'SG'], careerYears: 6, categoryRaw: { playerAccolades: 8, teamAccolades: 36.1, stats: 18853.41, advanced: 2617.141 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 278, pts: 5755, reb: 1604, ast: 2055, stl: 391, blk: 86, tov: 908 } },
-    { name: 'Muggsy Bogues', years: '1988-1998', positions: ['PG', 'SG'], careerYears: 14, categoryRaw: { playerAccolades: 0, teamAccolades: 39.5, stats: 19518.948, advanced: 2021.516 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 632, pts: 5531, reb: 1840, ast: 5557, stl: 1067, blk: 28, tov: 1118 } },
-    { name: 'Larry Johnson', years: '1991-1996', positions: ['SF', 'PF'], careerYears: 10, categoryRaw: { playerAccolades: 22, teamAccolades: 35.25, stats: 19718.388, advanced: 2438.2 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 377, pts: 7405, reb: 3479, ast: 1553, stl: 296, blk: 163, tov: 892 } },
+    { name: 'Kemba Walker', years: '2011-2019', positions: ['PG', 'SG'], archetypes: ['THREE_AND_D_WING'], careerYears: 12, categoryRaw: { playerAccolades: 12, teamAccolades: 37.8, stats: 23608.513, advanced: 2386.206 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 605, pts: 12009, reb: 2317, ast: 3308, stl: 799, blk: 233, tov: 1317 } },
+    { name: 'LaMelo Ball', years: '2020-2026', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL', 'SLASHER'], careerYears: 6, categoryRaw: { playerAccolades: 8, teamAccolades: 36.1, stats: 18853.41, advanced: 2617.141 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 278, pts: 5755, reb: 1604, ast: 2055, stl: 391, blk: 86, tov: 908 } },
+    { name: 'Muggsy Bogues', years: '1988-1998', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 14, categoryRaw: { playerAccolades: 0, teamAccolades: 39.5, stats: 19518.948, advanced: 2021.516 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 632, pts: 5531, reb: 1840, ast: 5557, stl: 1067, blk: 28, tov: 1118 } },
+    { name: 'Larry Johnson', years: '1991-1996', positions: ['SF', 'PF'], archetypes: ['POST_SCORER'], careerYears: 10, categoryRaw: { playerAccolades: 22, teamAccolades: 35.25, stats: 19718.388, advanced: 2438.2 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 377, pts: 7405, reb: 3479, ast: 1553, stl: 296, blk: 163, tov: 892 } },
     { name: 'Miles Bridges', years: '2018-2022, 2023-2026', positions: ['SF', 'PF'], careerYears: 8, categoryRaw: { playerAccolades: 0, teamAccolades: 36.95, stats: 18626.178, advanced: 2268.607 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 477, pts: 7605, reb: 2949, ast: 1319, stl: 349, blk: 320, tov: 753 } },
-    { name: 'Alonzo Mourning', years: '1992-1995', positions: ['C'], careerYears: 16, categoryRaw: { playerAccolades: 57, teamAccolades: 33.55, stats: 17014.924, advanced: 2624.007 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 2, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 2, allDefSecond: 0, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 215, pts: 4569, reb: 2176, ast: 273, stl: 103, blk: 684, tov: 676 } },
+    { name: 'Alonzo Mourning', years: '1992-1995', positions: ['C'], archetypes: ['RIM_PROTECTOR', 'POST_SCORER'], careerYears: 16, categoryRaw: { playerAccolades: 57, teamAccolades: 33.55, stats: 17014.924, advanced: 2624.007 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 2, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 2, allDefSecond: 0, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 215, pts: 4569, reb: 2176, ast: 273, stl: 103, blk: 684, tov: 676 } },
     { name: 'Gerald Wallace', years: '2004-2011', positions: ['SF', 'PF'], careerYears: 14, categoryRaw: { playerAccolades: 6, teamAccolades: 36.95, stats: 19661.066, advanced: 2305.761 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 1, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 454, pts: 7437, reb: 3398, ast: 1100, stl: 827, blk: 531, tov: 1024 } },
     { name: 'Dell Curry', years: '1988-1998', positions: ['PG', 'SG', 'SF', 'PF'], careerYears: 16, categoryRaw: { playerAccolades: 4, teamAccolades: 39.5, stats: 16578.216, advanced: 1684.223 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 1, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 701, pts: 9839, reb: 2022, ast: 1429, stl: 747, blk: 186, tov: 982 } },
-    { name: 'Emeka Okafor', years: '2004-2009', positions: ['C'], careerYears: 14, categoryRaw: { playerAccolades: 12, teamAccolades: 35.25, stats: 16562.012, advanced: 2151.379 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 330, pts: 4630, reb: 3516, ast: 298, stl: 251, blk: 621, tov: 597 } },
-    { name: 'Terry Rozier', years: '2019-2024', positions: ['PG', 'SG'], careerYears: 11, categoryRaw: { playerAccolades: 0, teamAccolades: 35.25, stats: 16765.058, advanced: 2246.971 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 298, pts: 5974, reb: 1269, ast: 1395, stl: 347, blk: 89, tov: 564 } },
+    { name: 'Emeka Okafor', years: '2004-2009', positions: ['C'], archetypes: ['RIM_PROTECTOR'], careerYears: 14, categoryRaw: { playerAccolades: 12, teamAccolades: 35.25, stats: 16562.012, advanced: 2151.379 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 330, pts: 4630, reb: 3516, ast: 298, stl: 251, blk: 621, tov: 597 } },
+    { name: 'Terry Rozier', years: '2019-2024', positions: ['PG', 'SG'], archetypes: ['SLASHER'], careerYears: 11, categoryRaw: { playerAccolades: 0, teamAccolades: 35.25, stats: 16765.058, advanced: 2246.971 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 298, pts: 5974, reb: 1269, ast: 1395, stl: 347, blk: 89, tov: 564 } },
     { name: 'Michael Kidd-Gilchrist', years: '2012-2020', positions: ['SF', 'PF'], careerYears: 8, categoryRaw: { playerAccolades: 0, teamAccolades: 37.8, stats: 11758.929, advanced: 1571.867 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 433, pts: 3738, reb: 2388, ast: 511, stl: 294, blk: 301, tov: 391 } },
     { name: 'Cody Zeller', years: '2013-2021', positions: ['SF', 'PF', 'C'], careerYears: 11, categoryRaw: { playerAccolades: 0, teamAccolades: 37.8, stats: 12455.119, advanced: 1584.381 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 467, pts: 4062, reb: 2824, ast: 669, stl: 312, blk: 315, tov: 503 } },
     { name: 'Anthony Mason', years: '1996-1998, 1999-2000', positions: ['SF', 'PF'], careerYears: 14, categoryRaw: { playerAccolades: 13, teamAccolades: 33.55, stats: 15350.202, advanced: 2130.885 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 1, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 1, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 236, pts: 3173, reb: 2354, ast: 1123, stl: 218, blk: 80, tov: 471 } },
-    { name: 'Glen Rice', years: '1995-1998', positions: ['PG', 'SG', 'SF', 'PF'], careerYears: 15, categoryRaw: { playerAccolades: 16, teamAccolades: 33.55, stats: 14572.569, advanced: 2106.167 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 240, pts: 5651, reb: 1049, ast: 574, stl: 240, blk: 67, tov: 522 } },
-    { name: 'Raymond Felton', years: '2005-2010', positions: ['PG', 'SG'], careerYears: 14, categoryRaw: { playerAccolades: 0, teamAccolades: 35.25, stats: 15269.974, advanced: 1909.274 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 399, pts: 5311, reb: 1366, ast: 2573, stl: 565, blk: 82, tov: 1021 } },
+    { name: 'Glen Rice', years: '1995-1998', positions: ['PG', 'SG', 'SF', 'PF'], archetypes: ['SLASHER'], careerYears: 15, categoryRaw: { playerAccolades: 16, teamAccolades: 33.55, stats: 14572.569, advanced: 2106.167 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 240, pts: 5651, reb: 1049, ast: 574, stl: 240, blk: 67, tov: 522 } },
+    { name: 'Raymond Felton', years: '2005-2010', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 14, categoryRaw: { playerAccolades: 0, teamAccolades: 35.25, stats: 15269.974, advanced: 1909.274 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 399, pts: 5311, reb: 1366, ast: 2573, stl: 565, blk: 82, tov: 1021 } },
   ],
   CHI: [
-    { name: 'Michael Jordan', years: '1984-1993, 1994-1998', positions: ['PG', 'SG'], careerYears: 19, championships: 6, categoryRaw: { playerAccolades: 566, teamAccolades: 186.05, stats: 45258.235, advanced: 5104.766 }, accolades: { mvp: 12, finalsMvp: 6, dpoy: 1, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 10, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 9, allDefSecond: 0, allStar: 14, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 930, pts: 29277, reb: 5836, ast: 5012, stl: 2306, blk: 828, tov: 2589 } },
-    { name: 'Scottie Pippen', years: '1987-1998, 2003-2004', positions: ['PG', 'SG', 'SF', 'PF'], careerYears: 17, championships: 6, categoryRaw: { playerAccolades: 99, teamAccolades: 185.2, stats: 32111.277, advanced: 3426.062 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 3, allNbaSecond: 2, allNbaThird: 2, allDefFirst: 8, allDefSecond: 2, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 856, pts: 15123, reb: 5726, ast: 4494, stl: 1792, blk: 774, tov: 2401 } },
+    { name: 'Michael Jordan', years: '1984-1993, 1994-1998', positions: ['PG', 'SG'], archetypes: ['SLASHER'], careerYears: 19, championships: 6, categoryRaw: { playerAccolades: 566, teamAccolades: 186.05, stats: 45258.235, advanced: 5104.766 }, accolades: { mvp: 12, finalsMvp: 6, dpoy: 1, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 10, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 9, allDefSecond: 0, allStar: 14, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 930, pts: 29277, reb: 5836, ast: 5012, stl: 2306, blk: 828, tov: 2589 } },
+    { name: 'Scottie Pippen', years: '1987-1998, 2003-2004', positions: ['PG', 'SG', 'SF', 'PF'], archetypes: ['THREE_AND_D_WING'], careerYears: 17, championships: 6, categoryRaw: { playerAccolades: 99, teamAccolades: 185.2, stats: 32111.277, advanced: 3426.062 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 3, allNbaSecond: 2, allNbaThird: 2, allDefFirst: 8, allDefSecond: 2, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 856, pts: 15123, reb: 5726, ast: 4494, stl: 1792, blk: 774, tov: 2401 } },
     { name: 'Horace Grant', years: '1987-1994', positions: ['C'], careerYears: 17, championships: 3, categoryRaw: { playerAccolades: 14, teamAccolades: 108.95, stats: 20175.768, advanced: 2483.967 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 4, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 546, pts: 6866, reb: 4721, ast: 1316, stl: 587, blk: 579, tov: 733 } },
     { name: 'Toni Kukoc', years: '1993-2000', positions: ['SF', 'PF'], careerYears: 13, championships: 3, categoryRaw: { playerAccolades: 4, teamAccolades: 108.95, stats: 17062.75, advanced: 2369.484 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 1, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 436, pts: 6148, reb: 2088, ast: 1840, stl: 476, blk: 173, tov: 887 } },
-    { name: 'Bob Love', years: '1968-1977', positions: ['SF', 'PF'], careerYears: 11, categoryRaw: { playerAccolades: 27, teamAccolades: 38.65, stats: 22356.947, advanced: 2325.002 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 3, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 592, pts: 12623, reb: 3998, ast: 991, stl: 218, blk: 52, tov: 0 } },
-    { name: 'Artis Gilmore', years: '1976-1982, 1987-1988', positions: ['C'], careerYears: 17, categoryRaw: { playerAccolades: 15, teamAccolades: 36.95, stats: 24400.834, advanced: 2789.059 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 1, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 482, pts: 9288, reb: 5342, ast: 1186, stl: 266, blk: 1029, tov: 1300 } },
-    { name: 'Jerry Sloan', years: '1966-1976', positions: ['PG', 'SG'], careerYears: 12, categoryRaw: { playerAccolades: 26, teamAccolades: 39.5, stats: 21511.996, advanced: 2097.546 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 4, allDefSecond: 2, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 696, pts: 10233, reb: 5385, ast: 1815, stl: 381, blk: 32, tov: 0 } },
-    { name: 'Joakim Noah', years: '2007-2016', positions: ['SF', 'PF', 'C'], careerYears: 13, categoryRaw: { playerAccolades: 34, teamAccolades: 38.65, stats: 20263.803, advanced: 2297.391 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 1, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 2, allDefSecond: 1, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 572, pts: 5325, reb: 5387, ast: 1704, stl: 481, blk: 803, tov: 1015 } },
-    { name: 'Norm Van Lier', years: '1971-1978', positions: ['PG', 'SG'], careerYears: 10, categoryRaw: { playerAccolades: 39, teamAccolades: 36.95, stats: 19976.603, advanced: 2267.498 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 3, allDefSecond: 5, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 535, pts: 6505, reb: 2506, ast: 3676, stl: 724, blk: 68, tov: 200 } },
-    { name: 'Derrick Rose', years: '2008-2012, 2013-2016', positions: ['PG', 'SG'], careerYears: 16, categoryRaw: { playerAccolades: 45, teamAccolades: 36.95, stats: 19427.429, advanced: 2422.907 }, accolades: { mvp: 1, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 406, pts: 8001, reb: 1489, ast: 2516, stl: 328, blk: 155, tov: 1186 } },
-    { name: 'Jimmy Butler III', years: '2011-2017', positions: ['SF', 'PF'], careerYears: 15, categoryRaw: { playerAccolades: 53, teamAccolades: 36.1, stats: 18753.118, advanced: 2482.401 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 4, allDefFirst: 0, allDefSecond: 5, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 399, pts: 6208, reb: 1921, ast: 1254, stl: 583, blk: 183, tov: 562 } },
-    { name: 'Zach LaVine', years: '2017-2025', positions: ['PG', 'SG'], careerYears: 12, categoryRaw: { playerAccolades: 4, teamAccolades: 37.8, stats: 20102.71, advanced: 2380.819 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 416, pts: 10056, reb: 1950, ast: 1808, stl: 388, blk: 144, tov: 1205 } },
+    { name: 'Bob Love', years: '1968-1977', positions: ['SF', 'PF'], archetypes: ['SLASHER', 'THREE_AND_D_WING'], careerYears: 11, categoryRaw: { playerAccolades: 27, teamAccolades: 38.65, stats: 22356.947, advanced: 2325.002 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 3, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 592, pts: 12623, reb: 3998, ast: 991, stl: 218, blk: 52, tov: 0 } },
+    { name: 'Artis Gilmore', years: '1976-1982, 1987-1988', positions: ['C'], archetypes: ['RIM_PROTECTOR', 'POST_SCORER'], careerYears: 17, categoryRaw: { playerAccolades: 15, teamAccolades: 36.95, stats: 24400.834, advanced: 2789.059 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 1, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 482, pts: 9288, reb: 5342, ast: 1186, stl: 266, blk: 1029, tov: 1300 } },
+    { name: 'Jerry Sloan', years: '1966-1976', positions: ['PG', 'SG'], archetypes: ['THREE_AND_D_WING'], careerYears: 12, categoryRaw: { playerAccolades: 26, teamAccolades: 39.5, stats: 21511.996, advanced: 2097.546 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 4, allDefSecond: 2, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 696, pts: 10233, reb: 5385, ast: 1815, stl: 381, blk: 32, tov: 0 } },
+    { name: 'Joakim Noah', years: '2007-2016', positions: ['SF', 'PF', 'C'], archetypes: ['RIM_PROTECTOR'], careerYears: 13, categoryRaw: { playerAccolades: 34, teamAccolades: 38.65, stats: 20263.803, advanced: 2297.391 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 1, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 2, allDefSecond: 1, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 572, pts: 5325, reb: 5387, ast: 1704, stl: 481, blk: 803, tov: 1015 } },
+    { name: 'Norm Van Lier', years: '1971-1978', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 10, categoryRaw: { playerAccolades: 39, teamAccolades: 36.95, stats: 19976.603, advanced: 2267.498 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 3, allDefSecond: 5, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 535, pts: 6505, reb: 2506, ast: 3676, stl: 724, blk: 68, tov: 200 } },
+    { name: 'Derrick Rose', years: '2008-2012, 2013-2016', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 16, categoryRaw: { playerAccolades: 45, teamAccolades: 36.95, stats: 19427.429, advanced: 2422.907 }, accolades: { mvp: 1, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 406, pts: 8001, reb: 1489, ast: 2516, stl: 328, blk: 155, tov: 1186 } },
+    { name: 'Jimmy Butler III', years: '2011-2017', positions: ['SF', 'PF'], archetypes: ['THREE_AND_D_WING'], careerYears: 15, categoryRaw: { playerAccolades: 53, teamAccolades: 36.1, stats: 18753.118, advanced: 2482.401 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 4, allDefFirst: 0, allDefSecond: 5, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 399, pts: 6208, reb: 1921, ast: 1254, stl: 583, blk: 183, tov: 562 } },
+    { name: 'Zach LaVine', years: '2017-2025', positions: ['PG', 'SG'], archetypes: ['SLASHER'], careerYears: 12, categoryRaw: { playerAccolades: 4, teamAccolades: 37.8, stats: 20102.71, advanced: 2380.819 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 416, pts: 10056, reb: 1950, ast: 1808, stl: 388, blk: 144, tov: 1205 } },
     { name: 'Luol Deng', years: '2004-2014', positions: ['SF', 'PF'], careerYears: 15, categoryRaw: { playerAccolades: 7, teamAccolades: 39.5, stats: 20411.477, advanced: 2079.976 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 1, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 637, pts: 10286, reb: 4078, ast: 1572, stl: 639, blk: 360, tov: 1157 } },
-    { name: 'Nikola Vučević', years: '2020-2026', positions: ['C'], careerYears: 15, categoryRaw: { playerAccolades: 4, teamAccolades: 36.1, stats: 20473.082, advanced: 2469.895 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 378, pts: 6823, reb: 3974, ast: 1294, stl: 296, blk: 291, tov: 626 } },
+    { name: 'Nikola Vučević', years: '2020-2026', positions: ['C'], archetypes: ['POST_SCORER'], careerYears: 15, categoryRaw: { playerAccolades: 4, teamAccolades: 36.1, stats: 20473.082, advanced: 2469.895 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 378, pts: 6823, reb: 3974, ast: 1294, stl: 296, blk: 291, tov: 626 } },
     { name: 'Kirk Hinrich', years: '2003-2010, 2012-2016', positions: ['PG', 'SG'], careerYears: 13, categoryRaw: { playerAccolades: 3, teamAccolades: 40.35, stats: 19633.967, advanced: 2004.149 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 1, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 748, pts: 8536, reb: 2281, ast: 3811, stl: 857, blk: 214, tov: 1435 } },
   ],
   CLE: [
-    { name: 'LeBron James', years: '2003-2010, 2014-2018', positions: ['SF', 'PF'], careerYears: 23, championships: 1, categoryRaw: { playerAccolades: 444, teamAccolades: 64.35, stats: 39691.222, advanced: 4078.363 }, accolades: { mvp: 6, finalsMvp: 4, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 13, allNbaSecond: 4, allNbaThird: 4, allDefFirst: 5, allDefSecond: 1, allStar: 22, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 849, pts: 23119, reb: 6190, ast: 6228, stl: 1376, blk: 695, tov: 2973 } },
+    { name: 'LeBron James', years: '2003-2010, 2014-2018', positions: ['SF', 'PF'], archetypes: ['STRETCH_BIG'], careerYears: 23, championships: 1, categoryRaw: { playerAccolades: 444, teamAccolades: 64.35, stats: 39691.222, advanced: 4078.363 }, accolades: { mvp: 6, finalsMvp: 4, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 13, allNbaSecond: 4, allNbaThird: 4, allDefFirst: 5, allDefSecond: 1, allStar: 22, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 849, pts: 23119, reb: 6190, ast: 6228, stl: 1376, blk: 695, tov: 2973 } },
     { name: 'Tristan Thompson', years: '2011-2020, 2023-2025', positions: ['SF', 'PF', 'C'], careerYears: 14, championships: 1, categoryRaw: { playerAccolades: 0, teamAccolades: 64.35, stats: 16983.928, advanced: 1883.846 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 708, pts: 6069, reb: 5701, ast: 699, stl: 331, blk: 472, tov: 761 } },
     { name: 'Kevin Love', years: '2014-2023', positions: ['SF', 'PF', 'C'], careerYears: 18, championships: 1, categoryRaw: { playerAccolades: 26, teamAccolades: 62.65, stats: 18858.743, advanced: 2246.196 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 489, pts: 7663, reb: 4493, ast: 1097, stl: 293, blk: 176, tov: 841 } },
-    { name: 'Kyrie Irving', years: '2011-2017', positions: ['PG', 'SG'], careerYears: 15, championships: 1, categoryRaw: { playerAccolades: 38, teamAccolades: 60.1, stats: 18757.244, advanced: 2415.299 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 9, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 381, pts: 8232, reb: 1290, ast: 2115, stl: 504, blk: 126, tov: 1031 } },
-    { name: 'Brad Daugherty', years: '1986-1994', positions: ['C'], careerYears: 9, categoryRaw: { playerAccolades: 14, teamAccolades: 37.8, stats: 23526.72, advanced: 2526.007 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 548, pts: 10389, reb: 5227, ast: 2028, stl: 422, blk: 397, tov: 1511 } },
-    { name: 'Mark Price', years: '1986-1995', positions: ['PG', 'SG'], careerYears: 12, categoryRaw: { playerAccolades: 29, teamAccolades: 38.65, stats: 21569.098, advanced: 2381.473 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 0, allNbaThird: 3, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 582, pts: 9543, reb: 1533, ast: 4206, stl: 734, blk: 68, tov: 1457 } },
-    { name: 'Zydrunas Ilgauskas', years: '1997-1999, 2000-2010', positions: ['C'], careerYears: 14, categoryRaw: { playerAccolades: 4, teamAccolades: 41.2, stats: 22071.261, advanced: 2073.194 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 771, pts: 10616, reb: 5904, ast: 929, stl: 398, blk: 1269, tov: 1457 } },
-    { name: 'Larry Nance', years: '1987-1994', positions: ['SF', 'PF'], careerYears: 13, categoryRaw: { playerAccolades: 16, teamAccolades: 36.95, stats: 20953.35, advanced: 2471.645 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 1, allDefSecond: 2, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 433, pts: 7257, reb: 3561, ast: 1145, stl: 356, blk: 1087, tov: 639 } },
+    { name: 'Kyrie Irving', years: '2011-2017', positions: ['PG', 'SG'], archetypes: ['SLASHER', 'THREE_AND_D_WING'], careerYears: 15, championships: 1, categoryRaw: { playerAccolades: 38, teamAccolades: 60.1, stats: 18757.244, advanced: 2415.299 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 9, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 381, pts: 8232, reb: 1290, ast: 2115, stl: 504, blk: 126, tov: 1031 } },
+    { name: 'Brad Daugherty', years: '1986-1994', positions: ['C'], archetypes: ['POST_SCORER'], careerYears: 9, categoryRaw: { playerAccolades: 14, teamAccolades: 37.8, stats: 23526.72, advanced: 2526.007 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 548, pts: 10389, reb: 5227, ast: 2028, stl: 422, blk: 397, tov: 1511 } },
+    { name: 'Mark Price', years: '1986-1995', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 12, categoryRaw: { playerAccolades: 29, teamAccolades: 38.65, stats: 21569.098, advanced: 2381.473 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 0, allNbaThird: 3, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 582, pts: 9543, reb: 1533, ast: 4206, stl: 734, blk: 68, tov: 1457 } },
+    { name: 'Zydrunas Ilgauskas', years: '1997-1999, 2000-2010', positions: ['C'], archetypes: ['RIM_PROTECTOR'], careerYears: 14, categoryRaw: { playerAccolades: 4, teamAccolades: 41.2, stats: 22071.261, advanced: 2073.194 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 771, pts: 10616, reb: 5904, ast: 929, stl: 398, blk: 1269, tov: 1457 } },
+    { name: 'Larry Nance', years: '1987-1994', positions: ['SF', 'PF'], archetypes: ['RIM_PROTECTOR'], careerYears: 13, categoryRaw: { playerAccolades: 16, teamAccolades: 36.95, stats: 20953.35, advanced: 2471.645 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 1, allDefSecond: 2, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 433, pts: 7257, reb: 3561, ast: 1145, stl: 356, blk: 1087, tov: 639 } },
     { name: 'Anderson Varejao', years: '2004-2016, 2020-2021', positions: ['SF', 'PF'], careerYears: 17, categoryRaw: { playerAccolades: 3, teamAccolades: 42.05, stats: 17882.229, advanced: 2057.166 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 1, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 596, pts: 4498, reb: 4454, ast: 712, stl: 529, blk: 399, tov: 579 } },
-    { name: 'Evan Mobley', years: '2021-2026', positions: ['C'], careerYears: 5, categoryRaw: { playerAccolades: 26, teamAccolades: 35.25, stats: 17472.902, advanced: 2382.921 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 1, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 2, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 312, pts: 5174, reb: 2785, ast: 956, stl: 260, blk: 502, tov: 604 } },
-    { name: 'Hot Rod Williams', years: '1986-1995', positions: ['C'], careerYears: 13, categoryRaw: { playerAccolades: 0, teamAccolades: 38.65, stats: 21201.434, advanced: 2094.122 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 661, pts: 8504, reb: 4669, ast: 1366, stl: 587, blk: 1200, tov: 1038 } },
+    { name: 'Evan Mobley', years: '2021-2026', positions: ['C'], archetypes: ['RIM_PROTECTOR'], careerYears: 5, categoryRaw: { playerAccolades: 26, teamAccolades: 35.25, stats: 17472.902, advanced: 2382.921 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 1, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 2, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 312, pts: 5174, reb: 2785, ast: 956, stl: 260, blk: 502, tov: 604 } },
+    { name: 'Hot Rod Williams', years: '1986-1995', positions: ['C'], archetypes: ['RIM_PROTECTOR'], careerYears: 13, categoryRaw: { playerAccolades: 0, teamAccolades: 38.65, stats: 21201.434, advanced: 2094.122 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 661, pts: 8504, reb: 4669, ast: 1366, stl: 587, blk: 1200, tov: 1038 } },
     { name: 'Austin Carr', years: '1971-1980', positions: ['PG', 'SG'], careerYears: 10, categoryRaw: { playerAccolades: 2, teamAccolades: 38.65, stats: 19129.571, advanced: 2045.734 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 635, pts: 10265, reb: 1929, ast: 1820, stl: 418, blk: 64, tov: 429 } },
-    { name: 'Darius Garland', years: '2019-2026', positions: ['PG', 'SG'], careerYears: 8, categoryRaw: { playerAccolades: 4, teamAccolades: 36.95, stats: 18327.868, advanced: 2273.645 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 408, pts: 7671, reb: 1078, ast: 2738, stl: 468, blk: 47, tov: 1200 } },
-    { name: 'Donovan Mitchell', years: '2022-2026', positions: ['PG', 'SG'], careerYears: 9, categoryRaw: { playerAccolades: 29, teamAccolades: 34.4, stats: 18795.208, advanced: 2680.814 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 247, pts: 6613, reb: 1126, ast: 1299, stl: 376, blk: 89, tov: 647 } },
+    { name: 'Darius Garland', years: '2019-2026', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 8, categoryRaw: { playerAccolades: 4, teamAccolades: 36.95, stats: 18327.868, advanced: 2273.645 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 408, pts: 7671, reb: 1078, ast: 2738, stl: 468, blk: 47, tov: 1200 } },
+    { name: 'Donovan Mitchell', years: '2022-2026', positions: ['PG', 'SG'], archetypes: ['SLASHER'], careerYears: 9, categoryRaw: { playerAccolades: 29, teamAccolades: 34.4, stats: 18795.208, advanced: 2680.814 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 247, pts: 6613, reb: 1126, ast: 1299, stl: 376, blk: 89, tov: 647 } },
     { name: 'Bingo Smith', years: '1970-1980', positions: ['SF', 'PF'], careerYears: 11, categoryRaw: { playerAccolades: 0, teamAccolades: 39.5, stats: 18014.387, advanced: 1826.154 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 720, pts: 9513, reb: 3057, ast: 1566, stl: 372, blk: 152, tov: 165 } },
   ],
   DAL: [
-    { name: 'Dirk Nowitzki', years: '1998-2019', positions: ['SF', 'PF'], careerYears: 21, championships: 1, categoryRaw: { playerAccolades: 170, teamAccolades: 72.85, stats: 44710.589, advanced: 3125.083 }, accolades: { mvp: 2, finalsMvp: 1, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 4, allNbaSecond: 5, allNbaThird: 3, allDefFirst: 0, allDefSecond: 0, allStar: 14, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 1522, pts: 31560, reb: 11489, ast: 3651, stl: 1210, blk: 1281, tov: 2494 } },
-    { name: 'Luka Dončić', years: '2018-2025', positions: ['PG', 'SG', 'SF', 'PF'], careerYears: 8, categoryRaw: { playerAccolades: 63, teamAccolades: 36.95, stats: 29381.487, advanced: 3420.394 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 5, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 422, pts: 12089, reb: 3655, ast: 3489, stl: 511, blk: 191, tov: 1673 } },
-    { name: 'Jason Kidd', years: '1994-1997, 2007-2012', positions: ['PG', 'SG'], careerYears: 19, championships: 1, categoryRaw: { playerAccolades: 108, teamAccolades: 61.8, stats: 20687.354, advanced: 2512.945 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 5, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 4, allDefSecond: 5, allStar: 10, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 500, pts: 5258, reb: 2755, ast: 4211, stl: 954, blk: 182, tov: 1375 } },
-    { name: 'Mark Aguirre', years: '1981-1989', positions: ['SF', 'PF'], careerYears: 13, championships: 1, categoryRaw: { playerAccolades: 6, teamAccolades: 61.8, stats: 24069.15, advanced: 2529.572 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 566, pts: 13930, reb: 3244, ast: 2163, stl: 502, blk: 224, tov: 1746 } },
-    { name: 'Steve Nash', years: '1998-2004', positions: ['PG', 'SG'], careerYears: 18, categoryRaw: { playerAccolades: 135, teamAccolades: 36.1, stats: 15931.078, advanced: 2227.162 }, accolades: { mvp: 3, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 3, allNbaSecond: 2, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 8, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 408, pts: 5937, reb: 1178, ast: 2919, stl: 351, blk: 28, tov: 1020 } },
-    { name: 'Derek Harper', years: '1983-1994, 1996-1997', positions: ['PG', 'SG'], careerYears: 16, categoryRaw: { playerAccolades: 6, teamAccolades: 41.2, stats: 25294.153, advanced: 2287.495 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 2, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 872, pts: 12597, reb: 2232, ast: 5111, stl: 1551, blk: 271, tov: 1771 } },
+    { name: 'Dirk Nowitzki', years: '1998-2019', positions: ['SF', 'PF'], archetypes: ['STRETCH_BIG'], careerYears: 21, championships: 1, categoryRaw: { playerAccolades: 170, teamAccolades: 72.85, stats: 44710.589, advanced: 3125.083 }, accolades: { mvp: 2, finalsMvp: 1, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 4, allNbaSecond: 5, allNbaThird: 3, allDefFirst: 0, allDefSecond: 0, allStar: 14, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 1522, pts: 31560, reb: 11489, ast: 3651, stl: 1210, blk: 1281, tov: 2494 } },
+    { name: 'Luka Dončić', years: '2018-2025', positions: ['PG', 'SG', 'SF', 'PF'], archetypes: ['FLOOR_GENERAL', 'SLASHER'], careerYears: 8, categoryRaw: { playerAccolades: 63, teamAccolades: 36.95, stats: 29381.487, advanced: 3420.394 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 5, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 422, pts: 12089, reb: 3655, ast: 3489, stl: 511, blk: 191, tov: 1673 } },
+    { name: 'Jason Kidd', years: '1994-1997, 2007-2012', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 19, championships: 1, categoryRaw: { playerAccolades: 108, teamAccolades: 61.8, stats: 20687.354, advanced: 2512.945 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 5, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 4, allDefSecond: 5, allStar: 10, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 500, pts: 5258, reb: 2755, ast: 4211, stl: 954, blk: 182, tov: 1375 } },
+    { name: 'Mark Aguirre', years: '1981-1989', positions: ['SF', 'PF'], archetypes: ['SLASHER'], careerYears: 13, championships: 1, categoryRaw: { playerAccolades: 6, teamAccolades: 61.8, stats: 24069.15, advanced: 2529.572 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 566, pts: 13930, reb: 3244, ast: 2163, stl: 502, blk: 224, tov: 1746 } },
+    { name: 'Steve Nash', years: '1998-2004', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 18, categoryRaw: { playerAccolades: 135, teamAccolades: 36.1, stats: 15931.078, advanced: 2227.162 }, accolades: { mvp: 3, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 3, allNbaSecond: 2, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 8, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 408, pts: 5937, reb: 1178, ast: 2919, stl: 351, blk: 28, tov: 1020 } },
+    { name: 'Derek Harper', years: '1983-1994, 1996-1997', positions: ['PG', 'SG'], archetypes: ['THREE_AND_D_WING'], careerYears: 16, categoryRaw: { playerAccolades: 6, teamAccolades: 41.2, stats: 25294.153, advanced: 2287.495 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 2, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 872, pts: 12597, reb: 2232, ast: 5111, stl: 1551, blk: 271, tov: 1771 } },
     { name: 'Jason Terry', years: '2004-2012', positions: ['PG', 'SG'], careerYears: 19, championships: 1, categoryRaw: { playerAccolades: 4, teamAccolades: 61.8, stats: 17967.4, advanced: 1927.906 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 1, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 619, pts: 9953, reb: 1404, ast: 2524, stl: 735, blk: 138, tov: 1048 } },
     { name: 'J.J. Barea', years: '2006-2011, 2014-2020', positions: ['PG', 'SG'], careerYears: 14, championships: 1, categoryRaw: { playerAccolades: 0, teamAccolades: 64.35, stats: 12627.673, advanced: 1565.441 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 637, pts: 5458, reb: 1273, ast: 2441, stl: 252, blk: 24, tov: 891 } },
     { name: 'Rolando Blackman', years: '1981-1992', positions: ['PG', 'SG'], careerYears: 13, categoryRaw: { playerAccolades: 8, teamAccolades: 40.35, stats: 23909.013, advanced: 2025.026 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 865, pts: 16643, reb: 3083, ast: 2748, stl: 668, blk: 258, tov: 1720 } },
     { name: 'Michael Finley', years: '1996-2005', positions: ['PG', 'SG', 'SF', 'PF'], careerYears: 15, categoryRaw: { playerAccolades: 4, teamAccolades: 38.65, stats: 23424.662, advanced: 2355.6 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 626, pts: 12389, reb: 3245, ast: 2393, stl: 748, blk: 232, tov: 1206 } },
     { name: 'Shawn Marion', years: '2009-2014', positions: ['PG', 'SG', 'SF', 'PF'], careerYears: 16, championships: 1, categoryRaw: { playerAccolades: 16, teamAccolades: 59.25, stats: 13111.501, advanced: 1787.873 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 361, pts: 4170, reb: 2515, ast: 636, stl: 369, blk: 231, tov: 525 } },
     { name: 'Roy Tarpley', years: '1986-1991, 1994-1995', positions: ['SF', 'PF'], careerYears: 9, categoryRaw: { playerAccolades: 4, teamAccolades: 36.1, stats: 16723.488, advanced: 2464.08 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 1, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 280, pts: 3533, reb: 2803, ast: 292, stl: 317, blk: 329, tov: 557 } },
-    { name: 'Shawn Bradley', years: '1996-2005', positions: ['C'], careerYears: 12, categoryRaw: { playerAccolades: 3, teamAccolades: 38.65, stats: 16038.498, advanced: 1966.325 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 1, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 582, pts: 4047, reb: 3340, ast: 339, stl: 361, blk: 1250, tov: 526 } },
+    { name: 'Shawn Bradley', years: '1996-2005', positions: ['C'], archetypes: ['RIM_PROTECTOR'], careerYears: 12, categoryRaw: { playerAccolades: 3, teamAccolades: 38.65, stats: 16038.498, advanced: 1966.325 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 1, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 582, pts: 4047, reb: 3340, ast: 339, stl: 361, blk: 1250, tov: 526 } },
     { name: 'Brad Davis', years: '1980-1992', positions: ['PG', 'SG'], careerYears: 15, categoryRaw: { playerAccolades: 0, teamAccolades: 41.2, stats: 17357.282, advanced: 1678.39 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 883, pts: 7623, reb: 1669, ast: 4524, stl: 712, blk: 141, tov: 1311 } },
     { name: 'Josh Howard', years: '2003-2010', positions: ['PG', 'SG', 'SF', 'PF'], careerYears: 10, categoryRaw: { playerAccolades: 0, teamAccolades: 36.95, stats: 16256.491, advanced: 2000.283 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 431, pts: 6614, reb: 2605, ast: 735, stl: 472, blk: 256, tov: 637 } },
   ],
   DEN: [
-    { name: 'Nikola Jokić', years: '2015-2026', positions: ['C'], careerYears: 12, championships: 1, categoryRaw: { playerAccolades: 161, teamAccolades: 64.35, stats: 39688.489, advanced: 3943.386 }, accolades: { mvp: 3, finalsMvp: 1, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 5, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 8, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 786, pts: 17383, reb: 8647, ast: 5813, stl: 1006, blk: 566, tov: 2328 } },
+    { name: 'Nikola Jokić', years: '2015-2026', positions: ['C'], archetypes: ['POST_SCORER'], careerYears: 12, championships: 1, categoryRaw: { playerAccolades: 161, teamAccolades: 64.35, stats: 39688.489, advanced: 3943.386 }, accolades: { mvp: 3, finalsMvp: 1, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 5, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 8, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 786, pts: 17383, reb: 8647, ast: 5813, stl: 1006, blk: 566, tov: 2328 } },
     { name: 'Jamal Murray', years: '2016-2021, 2022-2026', positions: ['PG', 'SG'], careerYears: 11, championships: 1, categoryRaw: { playerAccolades: 2, teamAccolades: 62.65, stats: 22852.238, advanced: 2520.662 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 588, pts: 10954, reb: 2251, ast: 2903, stl: 593, blk: 217, tov: 1207 } },
-    { name: 'Alex English', years: '1979-1990', positions: ['SF', 'PF'], careerYears: 15, categoryRaw: { playerAccolades: 34, teamAccolades: 40.35, stats: 33232.076, advanced: 2794.299 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 3, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 8, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 837, pts: 21645, reb: 4686, ast: 3679, stl: 854, blk: 624, tov: 2263 } },
-    { name: 'Carmelo Anthony', years: '2003-2011', positions: ['SF', 'PF'], careerYears: 19, categoryRaw: { playerAccolades: 48, teamAccolades: 37.8, stats: 24258.972, advanced: 2588.468 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 4, allDefFirst: 0, allDefSecond: 0, allStar: 10, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 564, pts: 13970, reb: 3566, ast: 1729, stl: 634, blk: 260, tov: 1726 } },
-    { name: 'Dikembe Mutombo', years: '1991-1996', positions: ['C'], careerYears: 18, categoryRaw: { playerAccolades: 91, teamAccolades: 35.25, stats: 20007.803, advanced: 2591.192 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 4, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 2, allDefFirst: 3, allDefSecond: 3, allStar: 8, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 391, pts: 5054, reb: 4811, ast: 651, stl: 223, blk: 1486, tov: 1016 } },
-    { name: 'Lafayette Lever', years: '1984-1990', positions: ['PG', 'SG'], careerYears: 12, categoryRaw: { playerAccolades: 13, teamAccolades: 36.1, stats: 25203.768, advanced: 2855.31 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 1, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 474, pts: 8081, reb: 3621, ast: 3566, stl: 1167, blk: 133, tov: 1075 } },
-    { name: 'Dan Issel', years: '1976-1985', positions: ['C'], careerYears: 15, categoryRaw: { playerAccolades: 2, teamAccolades: 38.65, stats: 26358.902, advanced: 2475.372 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 718, pts: 14659, reb: 5707, ast: 1804, stl: 698, blk: 396, tov: 1281 } },
-    { name: 'David Thompson', years: '1976-1982', positions: ['PG', 'SG'], careerYears: 9, categoryRaw: { playerAccolades: 26, teamAccolades: 36.1, stats: 20488.971, advanced: 2496.131 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 2, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 415, pts: 9834, reb: 1607, ast: 1396, stl: 402, blk: 361, tov: 939 } },
-    { name: 'Marcus Camby', years: '2002-2008', positions: ['SF', 'PF', 'C'], careerYears: 17, categoryRaw: { playerAccolades: 24, teamAccolades: 36.1, stats: 19329.506, advanced: 2530.862 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 1, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 2, allDefSecond: 2, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 372, pts: 3748, reb: 4117, ast: 928, stl: 418, blk: 1126, tov: 560 } },
-    { name: 'Antonio McDyess', years: '1995-1997, 1998-2002', positions: ['SF', 'PF', 'C'], careerYears: 16, categoryRaw: { playerAccolades: 6, teamAccolades: 36.1, stats: 19370.335, advanced: 2472.015 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 361, pts: 6555, reb: 3231, ast: 586, stl: 311, blk: 604, tov: 903 } },
+    { name: 'Alex English', years: '1979-1990', positions: ['SF', 'PF'], archetypes: ['SLASHER'], careerYears: 15, categoryRaw: { playerAccolades: 34, teamAccolades: 40.35, stats: 33232.076, advanced: 2794.299 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 3, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 8, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 837, pts: 21645, reb: 4686, ast: 3679, stl: 854, blk: 624, tov: 2263 } },
+    { name: 'Carmelo Anthony', years: '2003-2011', positions: ['SF', 'PF'], archetypes: ['SLASHER'], careerYears: 19, categoryRaw: { playerAccolades: 48, teamAccolades: 37.8, stats: 24258.972, advanced: 2588.468 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 4, allDefFirst: 0, allDefSecond: 0, allStar: 10, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 564, pts: 13970, reb: 3566, ast: 1729, stl: 634, blk: 260, tov: 1726 } },
+    { name: 'Dikembe Mutombo', years: '1991-1996', positions: ['C'], archetypes: ['RIM_PROTECTOR'], careerYears: 18, categoryRaw: { playerAccolades: 91, teamAccolades: 35.25, stats: 20007.803, advanced: 2591.192 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 4, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 2, allDefFirst: 3, allDefSecond: 3, allStar: 8, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 391, pts: 5054, reb: 4811, ast: 651, stl: 223, blk: 1486, tov: 1016 } },
+    { name: 'Lafayette Lever', years: '1984-1990', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 12, categoryRaw: { playerAccolades: 13, teamAccolades: 36.1, stats: 25203.768, advanced: 2855.31 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 1, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 474, pts: 8081, reb: 3621, ast: 3566, stl: 1167, blk: 133, tov: 1075 } },
+    { name: 'Dan Issel', years: '1976-1985', positions: ['C'], archetypes: ['STRETCH_BIG'], careerYears: 15, categoryRaw: { playerAccolades: 2, teamAccolades: 38.65, stats: 26358.902, advanced: 2475.372 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 718, pts: 14659, reb: 5707, ast: 1804, stl: 698, blk: 396, tov: 1281 } },
+    { name: 'David Thompson', years: '1976-1982', positions: ['PG', 'SG'], archetypes: ['SLASHER'], careerYears: 9, categoryRaw: { playerAccolades: 26, teamAccolades: 36.1, stats: 20488.971, advanced: 2496.131 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 2, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 415, pts: 9834, reb: 1607, ast: 1396, stl: 402, blk: 361, tov: 939 } },
+    { name: 'Marcus Camby', years: '2002-2008', positions: ['SF', 'PF', 'C'], archetypes: ['RIM_PROTECTOR'], careerYears: 17, categoryRaw: { playerAccolades: 24, teamAccolades: 36.1, stats: 19329.506, advanced: 2530.862 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 1, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 2, allDefSecond: 2, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 372, pts: 3748, reb: 4117, ast: 928, stl: 418, blk: 1126, tov: 560 } },
+    { name: 'Antonio McDyess', years: '1995-1997, 1998-2002', positions: ['SF', 'PF', 'C'], archetypes: ['RIM_PROTECTOR', 'POST_SCORER'], careerYears: 16, categoryRaw: { playerAccolades: 6, teamAccolades: 36.1, stats: 19370.335, advanced: 2472.015 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 361, pts: 6555, reb: 3231, ast: 586, stl: 311, blk: 604, tov: 903 } },
     { name: 'Nene', years: '2002-2012', positions: ['SF', 'PF', 'C'], careerYears: 17, categoryRaw: { playerAccolades: 0, teamAccolades: 39.5, stats: 17473.212, advanced: 1950.669 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 555, pts: 6868, reb: 3859, ast: 1014, stl: 694, blk: 508, tov: 1091 } },
-    { name: 'Michael Adams', years: '1987-1991', positions: ['PG', 'SG'], careerYears: 11, categoryRaw: { playerAccolades: 2, teamAccolades: 34.4, stats: 19100.58, advanced: 2370.003 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 304, pts: 5534, reb: 987, ast: 2181, stl: 602, blk: 36, tov: 705 } },
-    { name: 'Ty Lawson', years: '2009-2015', positions: ['PG', 'SG'], careerYears: 9, categoryRaw: { playerAccolades: 0, teamAccolades: 36.1, stats: 16944.757, advanced: 2127.556 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 416, pts: 5923, reb: 1207, ast: 2745, stl: 509, blk: 39, tov: 935 } },
+    { name: 'Michael Adams', years: '1987-1991', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 11, categoryRaw: { playerAccolades: 2, teamAccolades: 34.4, stats: 19100.58, advanced: 2370.003 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 304, pts: 5534, reb: 987, ast: 2181, stl: 602, blk: 36, tov: 705 } },
+    { name: 'Ty Lawson', years: '2009-2015', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 9, categoryRaw: { playerAccolades: 0, teamAccolades: 36.1, stats: 16944.757, advanced: 2127.556 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 416, pts: 5923, reb: 1207, ast: 2745, stl: 509, blk: 39, tov: 935 } },
     { name: 'Will Barton', years: '2014-2022', positions: ['PG', 'SG'], careerYears: 11, categoryRaw: { playerAccolades: 0, teamAccolades: 37.8, stats: 15992.69, advanced: 1877.599 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 479, pts: 6695, reb: 2402, ast: 1587, stl: 419, blk: 239, tov: 805 } },
-    { name: 'Andre Miller', years: '2003-2007, 2011-2014', positions: ['PG', 'SG'], careerYears: 17, categoryRaw: { playerAccolades: 0, teamAccolades: 36.95, stats: 16505.308, advanced: 2034.677 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 447, pts: 5354, reb: 1691, ast: 2978, stl: 557, blk: 82, tov: 1143 } },
+    { name: 'Andre Miller', years: '2003-2007, 2011-2014', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 17, categoryRaw: { playerAccolades: 0, teamAccolades: 36.95, stats: 16505.308, advanced: 2034.677 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 447, pts: 5354, reb: 1691, ast: 2978, stl: 557, blk: 82, tov: 1143 } },
   ],
   DET: [
-    { name: 'Isiah Thomas', years: '1981-1994', positions: ['PG', 'SG'], careerYears: 13, championships: 2, categoryRaw: { playerAccolades: 85, teamAccolades: 90.05, stats: 35761.808, advanced: 3098.245 }, accolades: { mvp: 0, finalsMvp: 1, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 3, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 12, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 979, pts: 18822, reb: 3478, ast: 9061, stl: 1861, blk: 249, tov: 3682 } },
-    { name: 'Joe Dumars', years: '1985-1999', positions: ['PG', 'SG'], careerYears: 14, championships: 2, categoryRaw: { playerAccolades: 61, teamAccolades: 90.9, stats: 24341.964, advanced: 2261.645 }, accolades: { mvp: 0, finalsMvp: 1, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 2, allDefFirst: 4, allDefSecond: 1, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 1018, pts: 16402, reb: 2203, ast: 4612, stl: 902, blk: 83, tov: 2084 } },
+    { name: 'Isiah Thomas', years: '1981-1994', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 13, championships: 2, categoryRaw: { playerAccolades: 85, teamAccolades: 90.05, stats: 35761.808, advanced: 3098.245 }, accolades: { mvp: 0, finalsMvp: 1, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 3, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 12, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 979, pts: 18822, reb: 3478, ast: 9061, stl: 1861, blk: 249, tov: 3682 } },
+    { name: 'Joe Dumars', years: '1985-1999', positions: ['PG', 'SG'], archetypes: ['THREE_AND_D_WING'], careerYears: 14, championships: 2, categoryRaw: { playerAccolades: 61, teamAccolades: 90.9, stats: 24341.964, advanced: 2261.645 }, accolades: { mvp: 0, finalsMvp: 1, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 2, allDefFirst: 4, allDefSecond: 1, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 1018, pts: 16402, reb: 2203, ast: 4612, stl: 902, blk: 83, tov: 2084 } },
     { name: 'Bill Laimbeer', years: '1981-1994', positions: ['C'], careerYears: 14, championships: 2, categoryRaw: { playerAccolades: 8, teamAccolades: 90.05, stats: 27615.827, advanced: 2479.856 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 937, pts: 12665, reb: 9430, ast: 1923, stl: 632, blk: 857, tov: 1401 } },
-    { name: 'Ben Wallace', years: '2000-2006, 2009-2012', positions: ['SF', 'PF', 'C'], careerYears: 16, championships: 1, categoryRaw: { playerAccolades: 97, teamAccolades: 62.65, stats: 22421.344, advanced: 2636.631 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 4, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 3, allNbaThird: 2, allDefFirst: 5, allDefSecond: 1, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 655, pts: 4337, reb: 7264, ast: 997, stl: 931, blk: 1486, tov: 710 } },
-    { name: 'Bob Lanier', years: '1970-1980', positions: ['C'], careerYears: 14, categoryRaw: { playerAccolades: 16, teamAccolades: 39.5, stats: 34157.031, advanced: 3244.478 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 8, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 681, pts: 15488, reb: 8063, ast: 2256, stl: 504, blk: 859, tov: 513 } },
+    { name: 'Ben Wallace', years: '2000-2006, 2009-2012', positions: ['SF', 'PF', 'C'], archetypes: ['RIM_PROTECTOR'], careerYears: 16, championships: 1, categoryRaw: { playerAccolades: 97, teamAccolades: 62.65, stats: 22421.344, advanced: 2636.631 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 4, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 3, allNbaThird: 2, allDefFirst: 5, allDefSecond: 1, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 655, pts: 4337, reb: 7264, ast: 997, stl: 931, blk: 1486, tov: 710 } },
+    { name: 'Bob Lanier', years: '1970-1980', positions: ['C'], archetypes: ['POST_SCORER'], careerYears: 14, categoryRaw: { playerAccolades: 16, teamAccolades: 39.5, stats: 34157.031, advanced: 3244.478 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 8, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 681, pts: 15488, reb: 8063, ast: 2256, stl: 504, blk: 859, tov: 513 } },
     { name: 'Dennis Rodman', years: '1986-1993', positions: ['SF', 'PF'], careerYears: 14, championships: 2, categoryRaw: { playerAccolades: 63, teamAccolades: 84.95, stats: 18830.55, advanced: 2378.07 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 2, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 2, allDefFirst: 7, allDefSecond: 1, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 549, pts: 4844, reb: 6299, ast: 715, stl: 401, blk: 399, tov: 802 } },
-    { name: 'Dave Bing', years: '1966-1975', positions: ['PG', 'SG'], careerYears: 12, categoryRaw: { playerAccolades: 50, teamAccolades: 38.65, stats: 27047.819, advanced: 2551.543 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 2, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 675, pts: 15235, reb: 2828, ast: 4330, stl: 225, blk: 43, tov: 0 } },
-    { name: 'Grant Hill', years: '1994-2000', positions: ['SF', 'PF'], careerYears: 19, categoryRaw: { playerAccolades: 59, teamAccolades: 36.1, stats: 23625.213, advanced: 2738.317 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 4, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 435, pts: 9393, reb: 3417, ast: 2720, stl: 694, blk: 281, tov: 1433 } },
-    { name: 'Chauncey Billups', years: '2002-2009, 2013-2014', positions: ['PG', 'SG'], careerYears: 17, championships: 1, categoryRaw: { playerAccolades: 46, teamAccolades: 61.8, stats: 18454.196, advanced: 2279.267 }, accolades: { mvp: 0, finalsMvp: 1, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 2, allDefFirst: 0, allDefSecond: 2, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 482, pts: 7940, reb: 1559, ast: 2984, stl: 495, blk: 76, tov: 1002 } },
+    { name: 'Dave Bing', years: '1966-1975', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL', 'SLASHER'], careerYears: 12, categoryRaw: { playerAccolades: 50, teamAccolades: 38.65, stats: 27047.819, advanced: 2551.543 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 2, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 675, pts: 15235, reb: 2828, ast: 4330, stl: 225, blk: 43, tov: 0 } },
+    { name: 'Grant Hill', years: '1994-2000', positions: ['SF', 'PF'], archetypes: ['STRETCH_BIG'], careerYears: 19, categoryRaw: { playerAccolades: 59, teamAccolades: 36.1, stats: 23625.213, advanced: 2738.317 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 4, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 435, pts: 9393, reb: 3417, ast: 2720, stl: 694, blk: 281, tov: 1433 } },
+    { name: 'Chauncey Billups', years: '2002-2009, 2013-2014', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 17, championships: 1, categoryRaw: { playerAccolades: 46, teamAccolades: 61.8, stats: 18454.196, advanced: 2279.267 }, accolades: { mvp: 0, finalsMvp: 1, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 2, allDefFirst: 0, allDefSecond: 2, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 482, pts: 7940, reb: 1559, ast: 2984, stl: 495, blk: 76, tov: 1002 } },
     { name: 'Vinnie Johnson', years: '1981-1991', positions: ['PG', 'SG'], careerYears: 13, championships: 2, categoryRaw: { playerAccolades: 0, teamAccolades: 87.5, stats: 18517.41, advanced: 1906.273 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 798, pts: 10146, reb: 2491, ast: 2661, stl: 708, blk: 213, tov: 1232 } },
     { name: 'Andre Drummond', years: '2012-2020', positions: ['C'], careerYears: 14, categoryRaw: { playerAccolades: 8, teamAccolades: 37.8, stats: 26270.903, advanced: 2748.6 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 591, pts: 8531, reb: 8199, ast: 764, stl: 823, blk: 927, tov: 1143 } },
     { name: 'Dave DeBusschere', years: '1962-1969', positions: ['SF', 'PF'], careerYears: 12, categoryRaw: { playerAccolades: 46, teamAccolades: 36.95, stats: 19302.814, advanced: 2327.918 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 6, allDefSecond: 0, allStar: 8, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 440, pts: 7096, reb: 4947, ast: 1152, stl: 0, blk: 0, tov: 0 } },
-    { name: 'Tayshaun Prince', years: '2002-2013, 2014-2015', positions: ['SF', 'PF'], careerYears: 14, championships: 1, categoryRaw: { playerAccolades: 12, teamAccolades: 65.2, stats: 18784.945, advanced: 1872.084 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 4, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 792, pts: 10006, reb: 3683, ast: 2074, stl: 455, blk: 448, tov: 942 } },
-    { name: 'George Yardley', years: '1953-1959', positions: ['SF', 'PF'], careerYears: 7, categoryRaw: { playerAccolades: 27, teamAccolades: 36.1, stats: 19265.938, advanced: 2346.427 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 399, pts: 7590, reb: 3641, ast: 693, stl: 0, blk: 0, tov: 0 } },
+    { name: 'Tayshaun Prince', years: '2002-2013, 2014-2015', positions: ['SF', 'PF'], archetypes: ['THREE_AND_D_WING'], careerYears: 14, championships: 1, categoryRaw: { playerAccolades: 12, teamAccolades: 65.2, stats: 18784.945, advanced: 1872.084 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 4, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 792, pts: 10006, reb: 3683, ast: 2074, stl: 455, blk: 448, tov: 942 } },
+    { name: 'George Yardley', years: '1953-1959', positions: ['SF', 'PF'], archetypes: ['POST_SCORER'], careerYears: 7, categoryRaw: { playerAccolades: 27, teamAccolades: 36.1, stats: 19265.938, advanced: 2346.427 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 399, pts: 7590, reb: 3641, ast: 693, stl: 0, blk: 0, tov: 0 } },
     { name: 'Richard Hamilton', years: '2002-2011', positions: ['PG', 'SG'], careerYears: 14, championships: 1, categoryRaw: { playerAccolades: 6, teamAccolades: 62.65, stats: 18996.163, advanced: 1990.509 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 631, pts: 11582, reb: 2120, ast: 2419, stl: 537, blk: 95, tov: 1427 } },
   ],
   GSW: [
-    { name: 'Stephen Curry', years: '2009-2026', positions: ['PG', 'SG'], careerYears: 18, championships: 4, categoryRaw: { playerAccolades: 162, teamAccolades: 141.45, stats: 39020.99, advanced: 3448.45 }, accolades: { mvp: 2, finalsMvp: 1, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 4, allNbaSecond: 5, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 12, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 1065, pts: 26447, reb: 4957, ast: 6729, stl: 1597, blk: 281, tov: 3298 } },
-    { name: 'Wilt Chamberlain', years: '1959-1965', positions: ['C'], careerYears: 14, categoryRaw: { playerAccolades: 335, teamAccolades: 36.1, stats: 42858.876, advanced: 5211.963 }, accolades: { mvp: 8, finalsMvp: 1, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 7, allNbaSecond: 3, allNbaThird: 0, allDefFirst: 2, allDefSecond: 0, allStar: 13, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 429, pts: 17783, reb: 10768, ast: 1303, stl: 0, blk: 0, tov: 0 } },
-    { name: 'Draymond Green', years: '2012-2026', positions: ['SF', 'PF'], careerYears: 14, championships: 4, categoryRaw: { playerAccolades: 60, teamAccolades: 138.9, stats: 26432.729, advanced: 2736.032 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 1, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 1, allDefFirst: 5, allDefSecond: 4, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 928, pts: 8062, reb: 6353, ast: 5188, stl: 1222, blk: 917, tov: 2155 } },
+    { name: 'Stephen Curry', years: '2009-2026', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL', 'SLASHER'], careerYears: 18, championships: 4, categoryRaw: { playerAccolades: 162, teamAccolades: 141.45, stats: 39020.99, advanced: 3448.45 }, accolades: { mvp: 2, finalsMvp: 1, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 4, allNbaSecond: 5, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 12, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 1065, pts: 26447, reb: 4957, ast: 6729, stl: 1597, blk: 281, tov: 3298 } },
+    { name: 'Wilt Chamberlain', years: '1959-1965', positions: ['C'], archetypes: ['RIM_PROTECTOR', 'POST_SCORER'], careerYears: 14, categoryRaw: { playerAccolades: 335, teamAccolades: 36.1, stats: 42858.876, advanced: 5211.963 }, accolades: { mvp: 8, finalsMvp: 1, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 7, allNbaSecond: 3, allNbaThird: 0, allDefFirst: 2, allDefSecond: 0, allStar: 13, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 429, pts: 17783, reb: 10768, ast: 1303, stl: 0, blk: 0, tov: 0 } },
+    { name: 'Draymond Green', years: '2012-2026', positions: ['SF', 'PF'], archetypes: ['THREE_AND_D_WING'], careerYears: 14, championships: 4, categoryRaw: { playerAccolades: 60, teamAccolades: 138.9, stats: 26432.729, advanced: 2736.032 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 1, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 1, allDefFirst: 5, allDefSecond: 4, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 928, pts: 8062, reb: 6353, ast: 5188, stl: 1222, blk: 917, tov: 2155 } },
     { name: 'Klay Thompson', years: '2011-2019, 2021-2024', positions: ['PG', 'SG'], careerYears: 15, championships: 4, categoryRaw: { playerAccolades: 21, teamAccolades: 136.35, stats: 22575.27, advanced: 2373.971 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 2, allDefFirst: 0, allDefSecond: 1, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 793, pts: 15531, reb: 2795, ast: 1843, stl: 676, blk: 413, tov: 1336 } },
-    { name: 'Rick Barry', years: '1965-1967, 1972-1978', positions: ['SF', 'PF'], careerYears: 15, championships: 1, categoryRaw: { playerAccolades: 95, teamAccolades: 61.8, stats: 32659.176, advanced: 3344.775 }, accolades: { mvp: 0, finalsMvp: 1, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 5, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 8, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 642, pts: 16447, reb: 4655, ast: 3247, stl: 929, blk: 203, tov: 224 } },
-    { name: 'Neil Johnston', years: '1951-1959', positions: ['C'], careerYears: 8, championships: 1, categoryRaw: { playerAccolades: 54, teamAccolades: 61.8, stats: 23904.531, advanced: 2814.017 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 4, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 516, pts: 10023, reb: 5856, ast: 1269, stl: 0, blk: 0, tov: 0 } },
+    { name: 'Rick Barry', years: '1965-1967, 1972-1978', positions: ['SF', 'PF'], archetypes: ['STRETCH_BIG'], careerYears: 15, championships: 1, categoryRaw: { playerAccolades: 95, teamAccolades: 61.8, stats: 32659.176, advanced: 3344.775 }, accolades: { mvp: 0, finalsMvp: 1, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 5, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 8, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 642, pts: 16447, reb: 4655, ast: 3247, stl: 929, blk: 203, tov: 224 } },
+    { name: 'Neil Johnston', years: '1951-1959', positions: ['C'], archetypes: ['POST_SCORER'], careerYears: 8, championships: 1, categoryRaw: { playerAccolades: 54, teamAccolades: 61.8, stats: 23904.531, advanced: 2814.017 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 4, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 516, pts: 10023, reb: 5856, ast: 1269, stl: 0, blk: 0, tov: 0 } },
     { name: 'Nate Thurmond', years: '1963-1974', positions: ['C'], careerYears: 14, categoryRaw: { playerAccolades: 31, teamAccolades: 40.35, stats: 33777.936, advanced: 3094.569 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 2, allDefSecond: 3, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 757, pts: 13191, reb: 12771, ast: 2070, stl: 41, blk: 179, tov: 0 } },
-    { name: 'Paul Arizin', years: '1950-1952, 1954-1962', positions: ['SF', 'PF'], careerYears: 12, championships: 1, categoryRaw: { playerAccolades: 53, teamAccolades: 63.5, stats: 27257.091, advanced: 2623.457 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 3, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 10, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 713, pts: 16266, reb: 6129, ast: 1665, stl: 0, blk: 0, tov: 0 } },
-    { name: 'Chris Mullin', years: '1985-1997, 2000-2001', positions: ['SF', 'PF'], careerYears: 16, categoryRaw: { playerAccolades: 35, teamAccolades: 42.05, stats: 28378.991, advanced: 2666.313 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 2, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 807, pts: 16235, reb: 3549, ast: 3146, stl: 1360, blk: 488, tov: 2110 } },
+    { name: 'Paul Arizin', years: '1950-1952, 1954-1962', positions: ['SF', 'PF'], archetypes: ['POST_SCORER'], careerYears: 12, championships: 1, categoryRaw: { playerAccolades: 53, teamAccolades: 63.5, stats: 27257.091, advanced: 2623.457 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 3, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 10, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 713, pts: 16266, reb: 6129, ast: 1665, stl: 0, blk: 0, tov: 0 } },
+    { name: 'Chris Mullin', years: '1985-1997, 2000-2001', positions: ['SF', 'PF'], archetypes: ['SLASHER', 'THREE_AND_D_WING'], careerYears: 16, categoryRaw: { playerAccolades: 35, teamAccolades: 42.05, stats: 28378.991, advanced: 2666.313 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 2, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 807, pts: 16235, reb: 3549, ast: 3146, stl: 1360, blk: 488, tov: 2110 } },
     { name: 'Jeff Mullins', years: '1966-1976', positions: ['PG', 'SG'], careerYears: 12, championships: 1, categoryRaw: { playerAccolades: 6, teamAccolades: 63.5, stats: 22968.233, advanced: 2346.89 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 714, pts: 12547, reb: 3256, ast: 2913, stl: 140, blk: 37, tov: 0 } },
-    { name: 'Tim Hardaway', years: '1989-1993, 1994-1996', positions: ['PG', 'SG'], careerYears: 14, categoryRaw: { playerAccolades: 41, teamAccolades: 36.1, stats: 22779.171, advanced: 2771.944 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 3, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 422, pts: 8337, reb: 1536, ast: 3926, stl: 821, blk: 72, tov: 1356 } },
+    { name: 'Tim Hardaway', years: '1989-1993, 1994-1996', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 14, categoryRaw: { playerAccolades: 41, teamAccolades: 36.1, stats: 22779.171, advanced: 2771.944 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 3, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 422, pts: 8337, reb: 1536, ast: 3926, stl: 821, blk: 72, tov: 1356 } },
     { name: 'Tom Gola', years: '1955-1956, 1957-1962', positions: ['PG', 'SG'], careerYears: 11, championships: 1, categoryRaw: { playerAccolades: 16, teamAccolades: 60.1, stats: 17918.814, advanced: 2269.538 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 400, pts: 5438, reb: 4023, ast: 1996, stl: 0, blk: 0, tov: 0 } },
     { name: 'Purvis Short', years: '1978-1987', positions: ['SF', 'PF'], careerYears: 12, categoryRaw: { playerAccolades: 0, teamAccolades: 38.65, stats: 21981.032, advanced: 2341.69 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 614, pts: 11894, reb: 2976, ast: 1709, stl: 710, blk: 131, tov: 1413 } },
-    { name: 'Joe Barry Carroll', years: '1980-1984, 1985-1988', positions: ['C'], careerYears: 11, categoryRaw: { playerAccolades: 2, teamAccolades: 36.95, stats: 22285.147, advanced: 2449.437 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 491, pts: 9996, reb: 4068, ast: 957, stl: 531, blk: 837, tov: 1546 } },
-    { name: 'Guy Rodgers', years: '1958-1966', positions: ['PG', 'SG'], careerYears: 12, categoryRaw: { playerAccolades: 8, teamAccolades: 37.8, stats: 22054.901, advanced: 2291.266 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 587, pts: 7516, reb: 2995, ast: 4855, stl: 0, blk: 0, tov: 0 } },
+    { name: 'Joe Barry Carroll', years: '1980-1984, 1985-1988', positions: ['C'], archetypes: ['RIM_PROTECTOR', 'POST_SCORER'], careerYears: 11, categoryRaw: { playerAccolades: 2, teamAccolades: 36.95, stats: 22285.147, advanced: 2449.437 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 491, pts: 9996, reb: 4068, ast: 957, stl: 531, blk: 837, tov: 1546 } },
+    { name: 'Guy Rodgers', years: '1958-1966', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 12, categoryRaw: { playerAccolades: 8, teamAccolades: 37.8, stats: 22054.901, advanced: 2291.266 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 587, pts: 7516, reb: 2995, ast: 4855, stl: 0, blk: 0, tov: 0 } },
   ],
   HOU: [
-    { name: 'Hakeem Olajuwon', years: '1984-2001', positions: ['C'], careerYears: 19, championships: 2, categoryRaw: { playerAccolades: 240, teamAccolades: 93.45, stats: 50024.416, advanced: 4072.379 }, accolades: { mvp: 2, finalsMvp: 2, dpoy: 2, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 6, allNbaSecond: 3, allNbaThird: 3, allDefFirst: 5, allDefSecond: 4, allStar: 12, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 1177, pts: 26511, reb: 13382, ast: 2992, stl: 2088, blk: 3740, tov: 3569 } },
-    { name: 'Moses Malone', years: '1976-1982', positions: ['C'], careerYears: 21, categoryRaw: { playerAccolades: 251, teamAccolades: 36.1, stats: 27913.174, advanced: 3561.733 }, accolades: { mvp: 6, finalsMvp: 1, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 4, allNbaSecond: 4, allNbaThird: 0, allDefFirst: 1, allDefSecond: 1, allStar: 12, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 464, pts: 11119, reb: 6959, ast: 697, stl: 433, blk: 758, tov: 1448 } },
-    { name: 'James Harden', years: '2012-2021', positions: ['PG', 'SG'], careerYears: 17, categoryRaw: { playerAccolades: 112, teamAccolades: 38.65, stats: 33959.502, advanced: 3473.897 }, accolades: { mvp: 1, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 1, mip: 0, allNbaFirst: 6, allNbaSecond: 0, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 11, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 621, pts: 18365, reb: 3736, ast: 4796, stl: 1087, blk: 390, tov: 2763 } },
-    { name: 'Elvin Hayes', years: '1968-1972, 1981-1984', positions: ['SF', 'PF'], careerYears: 16, categoryRaw: { playerAccolades: 75, teamAccolades: 36.95, stats: 27773.82, advanced: 3174.599 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 3, allNbaSecond: 3, allNbaThird: 0, allDefFirst: 0, allDefSecond: 2, allStar: 12, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 572, pts: 11762, reb: 6974, ast: 1104, stl: 128, blk: 213, tov: 490 } },
+    { name: 'Hakeem Olajuwon', years: '1984-2001', positions: ['C'], archetypes: ['RIM_PROTECTOR', 'POST_SCORER'], careerYears: 19, championships: 2, categoryRaw: { playerAccolades: 240, teamAccolades: 93.45, stats: 50024.416, advanced: 4072.379 }, accolades: { mvp: 2, finalsMvp: 2, dpoy: 2, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 6, allNbaSecond: 3, allNbaThird: 3, allDefFirst: 5, allDefSecond: 4, allStar: 12, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 1177, pts: 26511, reb: 13382, ast: 2992, stl: 2088, blk: 3740, tov: 3569 } },
+    { name: 'Moses Malone', years: '1976-1982', positions: ['C'], archetypes: ['RIM_PROTECTOR', 'POST_SCORER'], careerYears: 21, categoryRaw: { playerAccolades: 251, teamAccolades: 36.1, stats: 27913.174, advanced: 3561.733 }, accolades: { mvp: 6, finalsMvp: 1, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 4, allNbaSecond: 4, allNbaThird: 0, allDefFirst: 1, allDefSecond: 1, allStar: 12, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 464, pts: 11119, reb: 6959, ast: 697, stl: 433, blk: 758, tov: 1448 } },
+    { name: 'James Harden', years: '2012-2021', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL', 'SLASHER'], careerYears: 17, categoryRaw: { playerAccolades: 112, teamAccolades: 38.65, stats: 33959.502, advanced: 3473.897 }, accolades: { mvp: 1, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 1, mip: 0, allNbaFirst: 6, allNbaSecond: 0, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 11, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 621, pts: 18365, reb: 3736, ast: 4796, stl: 1087, blk: 390, tov: 2763 } },
+    { name: 'Elvin Hayes', years: '1968-1972, 1981-1984', positions: ['SF', 'PF'], archetypes: ['POST_SCORER'], careerYears: 16, categoryRaw: { playerAccolades: 75, teamAccolades: 36.95, stats: 27773.82, advanced: 3174.599 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 3, allNbaSecond: 3, allNbaThird: 0, allDefFirst: 0, allDefSecond: 2, allStar: 12, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 572, pts: 11762, reb: 6974, ast: 1104, stl: 128, blk: 213, tov: 490 } },
     { name: 'Kenny Smith', years: '1990-1996', positions: ['PG', 'SG'], careerYears: 10, championships: 2, categoryRaw: { playerAccolades: 0, teamAccolades: 84.1, stats: 14860.875, advanced: 1941.305 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 468, pts: 5910, reb: 889, ast: 2457, stl: 467, blk: 42, tov: 976 } },
     { name: 'Calvin Murphy', years: '1970-1983', positions: ['PG', 'SG'], careerYears: 13, categoryRaw: { playerAccolades: 2, teamAccolades: 42.05, stats: 28202.534, advanced: 2366.156 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 1002, pts: 17949, reb: 2103, ast: 4402, stl: 1165, blk: 51, tov: 822 } },
     { name: 'Rudy Tomjanovich', years: '1970-1981', positions: ['SF', 'PF'], careerYears: 11, categoryRaw: { playerAccolades: 10, teamAccolades: 40.35, stats: 26436.536, advanced: 2472.217 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 768, pts: 13383, reb: 6198, ast: 1573, stl: 374, blk: 175, tov: 332 } },
-    { name: 'Yao Ming', years: '2002-2009, 2010-2011', positions: ['C'], careerYears: 9, categoryRaw: { playerAccolades: 46, teamAccolades: 37.8, stats: 21721.226, advanced: 2539.406 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 3, allDefFirst: 0, allDefSecond: 0, allStar: 8, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 486, pts: 9247, reb: 4494, ast: 769, stl: 189, blk: 920, tov: 1311 } },
-    { name: 'Vernon Maxwell', years: '1989-1995', positions: ['PG', 'SG'], careerYears: 13, championships: 2, categoryRaw: { playerAccolades: 0, teamAccolades: 84.1, stats: 14346.543, advanced: 1963.448 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 402, pts: 6002, reb: 1182, ast: 1730, stl: 559, blk: 89, tov: 883 } },
-    { name: 'Tracy McGrady', years: '2004-2010', positions: ['PG', 'SG', 'SF', 'PF'], careerYears: 16, categoryRaw: { playerAccolades: 62, teamAccolades: 36.1, stats: 19729.402, advanced: 2700.711 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 2, allNbaSecond: 3, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 303, pts: 6888, reb: 1667, ast: 1699, stl: 396, blk: 176, tov: 764 } },
+    { name: 'Yao Ming', years: '2002-2009, 2010-2011', positions: ['C'], archetypes: ['RIM_PROTECTOR', 'POST_SCORER'], careerYears: 9, categoryRaw: { playerAccolades: 46, teamAccolades: 37.8, stats: 21721.226, advanced: 2539.406 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 3, allDefFirst: 0, allDefSecond: 0, allStar: 8, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 486, pts: 9247, reb: 4494, ast: 769, stl: 189, blk: 920, tov: 1311 } },
+    { name: 'Vernon Maxwell', years: '1989-1995', positions: ['PG', 'SG'], archetypes: ['THREE_AND_D_WING'], careerYears: 13, championships: 2, categoryRaw: { playerAccolades: 0, teamAccolades: 84.1, stats: 14346.543, advanced: 1963.448 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 402, pts: 6002, reb: 1182, ast: 1730, stl: 559, blk: 89, tov: 883 } },
+    { name: 'Tracy McGrady', years: '2004-2010', positions: ['PG', 'SG', 'SF', 'PF'], archetypes: ['SLASHER'], careerYears: 16, categoryRaw: { playerAccolades: 62, teamAccolades: 36.1, stats: 19729.402, advanced: 2700.711 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 2, allNbaSecond: 3, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 303, pts: 6888, reb: 1667, ast: 1699, stl: 396, blk: 176, tov: 764 } },
     { name: 'Otis Thorpe', years: '1988-1995', positions: ['SF', 'PF', 'C'], careerYears: 17, championships: 1, categoryRaw: { playerAccolades: 2, teamAccolades: 60.95, stats: 19101.097, advanced: 2180.121 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 518, pts: 8177, reb: 5010, ast: 1338, stl: 404, blk: 178, tov: 1320 } },
     { name: 'Alperen Sengun', years: '2021-2026', positions: ['C'], careerYears: 5, categoryRaw: { playerAccolades: 2, teamAccolades: 35.25, stats: 19395.336, advanced: 2588.653 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 334, pts: 5564, reb: 2885, ast: 1462, stl: 354, blk: 296, tov: 847 } },
-    { name: 'Ralph Sampson', years: '1983-1988', positions: ['C'], careerYears: 9, categoryRaw: { playerAccolades: 26, teamAccolades: 35.25, stats: 19045.931, advanced: 2558.379 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 305, pts: 5995, reb: 3189, ast: 827, stl: 307, blk: 585, tov: 1093 } },
-    { name: 'Steve Francis', years: '1999-2004, 2007-2008', positions: ['PG', 'SG'], careerYears: 9, categoryRaw: { playerAccolades: 12, teamAccolades: 36.1, stats: 19575.337, advanced: 2439.132 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 384, pts: 7281, reb: 2318, ast: 2411, stl: 619, blk: 166, tov: 1399 } },
+    { name: 'Ralph Sampson', years: '1983-1988', positions: ['C'], archetypes: ['RIM_PROTECTOR', 'POST_SCORER'], careerYears: 9, categoryRaw: { playerAccolades: 26, teamAccolades: 35.25, stats: 19045.931, advanced: 2558.379 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 305, pts: 5995, reb: 3189, ast: 827, stl: 307, blk: 585, tov: 1093 } },
+    { name: 'Steve Francis', years: '1999-2004, 2007-2008', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 9, categoryRaw: { playerAccolades: 12, teamAccolades: 36.1, stats: 19575.337, advanced: 2439.132 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 384, pts: 7281, reb: 2318, ast: 2411, stl: 619, blk: 166, tov: 1399 } },
     { name: 'Robert Reid', years: '1977-1982, 1983-1988', positions: ['SF', 'PF'], careerYears: 14, categoryRaw: { playerAccolades: 0, teamAccolades: 39.5, stats: 20378.785, advanced: 2007.286 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 762, pts: 8823, reb: 3706, ast: 2253, stl: 881, blk: 364, tov: 1165 } },
   ],
   IND: [
     { name: 'Reggie Miller', years: '1987-2005', positions: ['PG', 'SG'], careerYears: 18, categoryRaw: { playerAccolades: 22, teamAccolades: 46.3, stats: 32237.868, advanced: 2182.068 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 3, allDefFirst: 0, allDefSecond: 0, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 1389, pts: 25279, reb: 4182, ast: 4141, stl: 1505, blk: 299, tov: 2409 } },
-    { name: 'Paul George', years: '2010-2017', positions: ['SF', 'PF'], careerYears: 16, categoryRaw: { playerAccolades: 65, teamAccolades: 36.95, stats: 19777.164, advanced: 2458.034 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 1, allNbaSecond: 0, allNbaThird: 5, allDefFirst: 2, allDefSecond: 2, allStar: 9, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 448, pts: 8090, reb: 2816, ast: 1419, stl: 740, blk: 194, tov: 1141 } },
-    { name: 'Jermaine O\'Neal', years: '2000-2008', positions: ['SF', 'PF', 'C'], careerYears: 18, categoryRaw: { playerAccolades: 30, teamAccolades: 37.8, stats: 23267.598, advanced: 2560.284 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 514, pts: 9580, reb: 4933, ast: 1010, stl: 341, blk: 1245, tov: 1287 } },
+    { name: 'Paul George', years: '2010-2017', positions: ['SF', 'PF'], archetypes: ['THREE_AND_D_WING'], careerYears: 16, categoryRaw: { playerAccolades: 65, teamAccolades: 36.95, stats: 19777.164, advanced: 2458.034 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 1, allNbaSecond: 0, allNbaThird: 5, allDefFirst: 2, allDefSecond: 2, allStar: 9, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 448, pts: 8090, reb: 2816, ast: 1419, stl: 740, blk: 194, tov: 1141 } },
+    { name: 'Jermaine O\'Neal', years: '2000-2008', positions: ['SF', 'PF', 'C'], archetypes: ['RIM_PROTECTOR', 'POST_SCORER'], careerYears: 18, categoryRaw: { playerAccolades: 30, teamAccolades: 37.8, stats: 23267.598, advanced: 2560.284 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 514, pts: 9580, reb: 4933, ast: 1010, stl: 341, blk: 1245, tov: 1287 } },
     { name: 'Rik Smits', years: '1988-2000', positions: ['C'], careerYears: 12, categoryRaw: { playerAccolades: 2, teamAccolades: 41.2, stats: 22007.277, advanced: 1929.529 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 867, pts: 12871, reb: 5277, ast: 1215, stl: 372, blk: 1111, tov: 1579 } },
     { name: 'Danny Granger', years: '2005-2014', positions: ['PG', 'SG', 'SF', 'PF'], careerYears: 10, categoryRaw: { playerAccolades: 6, teamAccolades: 38.65, stats: 20297.162, advanced: 2304.709 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 544, pts: 9571, reb: 2780, ast: 1072, stl: 545, blk: 471, tov: 1064 } },
     { name: 'Vern Fleming', years: '1984-1995', positions: ['PG', 'SG'], careerYears: 12, categoryRaw: { playerAccolades: 0, teamAccolades: 40.35, stats: 20365.607, advanced: 1977.841 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 816, pts: 9535, reb: 2842, ast: 4038, stl: 885, blk: 100, tov: 1673 } },
-    { name: 'Myles Turner', years: '2015-2025', positions: ['SF', 'PF', 'C'], careerYears: 11, categoryRaw: { playerAccolades: 0, teamAccolades: 39.5, stats: 20754.407, advanced: 2071.565 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 642, pts: 9031, reb: 4349, ast: 813, stl: 440, blk: 1412, tov: 909 } },
+    { name: 'Myles Turner', years: '2015-2025', positions: ['SF', 'PF', 'C'], archetypes: ['RIM_PROTECTOR'], careerYears: 11, categoryRaw: { playerAccolades: 0, teamAccolades: 39.5, stats: 20754.407, advanced: 2071.565 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 642, pts: 9031, reb: 4349, ast: 813, stl: 440, blk: 1412, tov: 909 } },
     { name: 'Domantas Sabonis', years: '2017-2022', positions: ['SF', 'PF', 'C'], careerYears: 10, categoryRaw: { playerAccolades: 14, teamAccolades: 35.25, stats: 19315.605, advanced: 2615.053 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 319, pts: 5199, reb: 3342, ast: 1324, stl: 257, blk: 147, tov: 823 } },
-    { name: 'Herb Williams', years: '1981-1989', positions: ['C'], careerYears: 18, categoryRaw: { playerAccolades: 0, teamAccolades: 37.8, stats: 21479.947, advanced: 2282.6 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 577, pts: 8637, reb: 4494, ast: 1402, stl: 398, blk: 1094, tov: 1420 } },
+    { name: 'Herb Williams', years: '1981-1989', positions: ['C'], archetypes: ['RIM_PROTECTOR'], careerYears: 18, categoryRaw: { playerAccolades: 0, teamAccolades: 37.8, stats: 21479.947, advanced: 2282.6 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 577, pts: 8637, reb: 4494, ast: 1402, stl: 398, blk: 1094, tov: 1420 } },
     { name: 'Dale Davis', years: '1991-2000, 2004-2005', positions: ['SF', 'PF', 'C'], careerYears: 16, categoryRaw: { playerAccolades: 2, teamAccolades: 39.5, stats: 18431.611, advanced: 1846.38 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 671, pts: 6253, reb: 6006, ast: 572, stl: 468, blk: 904, tov: 811 } },
-    { name: 'Clark Kellogg', years: '1982-1987', positions: ['SF', 'PF'], careerYears: 5, categoryRaw: { playerAccolades: 0, teamAccolades: 35.25, stats: 16627.535, advanced: 2296.322 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 260, pts: 4918, reb: 2482, ast: 764, stl: 381, blk: 105, tov: 731 } },
+    { name: 'Clark Kellogg', years: '1982-1987', positions: ['SF', 'PF'], archetypes: ['POST_SCORER'], careerYears: 5, categoryRaw: { playerAccolades: 0, teamAccolades: 35.25, stats: 16627.535, advanced: 2296.322 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 260, pts: 4918, reb: 2482, ast: 764, stl: 381, blk: 105, tov: 731 } },
     { name: 'Chuck Person', years: '1986-1992', positions: ['SF', 'PF'], careerYears: 14, categoryRaw: { playerAccolades: 12, teamAccolades: 36.1, stats: 18600.915, advanced: 2095.59 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 479, pts: 9096, reb: 3017, ast: 1743, stl: 423, blk: 97, tov: 1299 } },
     { name: 'Detlef Schrempf', years: '1988-1993', positions: ['SF', 'PF'], careerYears: 16, categoryRaw: { playerAccolades: 18, teamAccolades: 35.25, stats: 17802.849, advanced: 2214.703 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 2, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 354, pts: 6009, reb: 3059, ast: 1446, stl: 287, blk: 112, tov: 866 } },
     { name: 'Billy Knight', years: '1976-1977, 1978-1983', positions: ['SF', 'PF'], careerYears: 9, categoryRaw: { playerAccolades: 2, teamAccolades: 36.1, stats: 18400.895, advanced: 2050.448 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 435, pts: 7440, reb: 2108, ast: 968, stl: 444, blk: 67, tov: 735 } },
-    { name: 'Roy Hibbert', years: '2008-2015', positions: ['C'], careerYears: 9, categoryRaw: { playerAccolades: 7, teamAccolades: 36.95, stats: 16256.582, advanced: 1877.636 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 1, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 533, pts: 5909, reb: 3623, ast: 769, stl: 201, blk: 990, tov: 930 } },
+    { name: 'Roy Hibbert', years: '2008-2015', positions: ['C'], archetypes: ['RIM_PROTECTOR'], careerYears: 9, categoryRaw: { playerAccolades: 7, teamAccolades: 36.95, stats: 16256.582, advanced: 1877.636 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 1, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 533, pts: 5909, reb: 3623, ast: 769, stl: 201, blk: 990, tov: 930 } },
   ],
   LAC: [
-    { name: 'Bob McAdoo', years: '1972-1977', positions: ['C'], careerYears: 14, categoryRaw: { playerAccolades: 85, teamAccolades: 35.25, stats: 28778.973, advanced: 3823.668 }, accolades: { mvp: 2, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 334, pts: 9434, reb: 4229, ast: 868, stl: 289, blk: 614, tov: 0 } },
-    { name: 'Chris Paul', years: '2011-2017, 2025-2026', positions: ['PG', 'SG'], careerYears: 21, categoryRaw: { playerAccolades: 144, teamAccolades: 36.95, stats: 22642.65, advanced: 2831.361 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 4, allNbaSecond: 5, allNbaThird: 2, allDefFirst: 7, allDefSecond: 2, allStar: 12, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 425, pts: 7721, reb: 1761, ast: 4076, stl: 913, blk: 54, tov: 975 } },
-    { name: 'Randy Smith', years: '1971-1979, 1982-1983', positions: ['PG', 'SG'], careerYears: 12, categoryRaw: { playerAccolades: 10, teamAccolades: 38.65, stats: 25616.439, advanced: 2524.621 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 715, pts: 12735, reb: 2985, ast: 3498, stl: 1072, blk: 35, tov: 630 } },
-    { name: 'Kawhi Leonard', years: '2019-2021, 2022-2026', positions: ['SF', 'PF'], careerYears: 15, categoryRaw: { playerAccolades: 135, teamAccolades: 36.1, stats: 20688.278, advanced: 2988.063 }, accolades: { mvp: 0, finalsMvp: 2, dpoy: 2, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 3, allNbaSecond: 3, allNbaThird: 0, allDefFirst: 3, allDefSecond: 4, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 309, pts: 7680, reb: 1984, ast: 1272, stl: 512, blk: 179, tov: 628 } },
-    { name: 'Blake Griffin', years: '2010-2018', positions: ['SF', 'PF'], careerYears: 14, categoryRaw: { playerAccolades: 44, teamAccolades: 37.8, stats: 23975.584, advanced: 2616.755 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 3, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 504, pts: 10863, reb: 4686, ast: 2133, stl: 483, blk: 277, tov: 1258 } },
-    { name: 'DeAndre Jordan', years: '2008-2018', positions: ['C'], careerYears: 18, categoryRaw: { playerAccolades: 27, teamAccolades: 39.5, stats: 22652.981, advanced: 2331.261 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 0, allNbaThird: 2, allDefFirst: 2, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 750, pts: 7078, reb: 7988, ast: 557, stl: 448, blk: 1276, tov: 982 } },
-    { name: 'Elton Brand', years: '2001-2008', positions: ['SF', 'PF'], careerYears: 17, categoryRaw: { playerAccolades: 22, teamAccolades: 36.95, stats: 24449.22, advanced: 2702.646 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 459, pts: 9336, reb: 4710, ast: 1242, stl: 438, blk: 1039, tov: 1102 } },
+    { name: 'Bob McAdoo', years: '1972-1977', positions: ['C'], archetypes: ['RIM_PROTECTOR', 'POST_SCORER'], careerYears: 14, categoryRaw: { playerAccolades: 85, teamAccolades: 35.25, stats: 28778.973, advanced: 3823.668 }, accolades: { mvp: 2, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 334, pts: 9434, reb: 4229, ast: 868, stl: 289, blk: 614, tov: 0 } },
+    { name: 'Chris Paul', years: '2011-2017, 2025-2026', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 21, categoryRaw: { playerAccolades: 144, teamAccolades: 36.95, stats: 22642.65, advanced: 2831.361 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 4, allNbaSecond: 5, allNbaThird: 2, allDefFirst: 7, allDefSecond: 2, allStar: 12, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 425, pts: 7721, reb: 1761, ast: 4076, stl: 913, blk: 54, tov: 975 } },
+    { name: 'Randy Smith', years: '1971-1979, 1982-1983', positions: ['PG', 'SG'], archetypes: ['THREE_AND_D_WING'], careerYears: 12, categoryRaw: { playerAccolades: 10, teamAccolades: 38.65, stats: 25616.439, advanced: 2524.621 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 715, pts: 12735, reb: 2985, ast: 3498, stl: 1072, blk: 35, tov: 630 } },
+    { name: 'Kawhi Leonard', years: '2019-2021, 2022-2026', positions: ['SF', 'PF'], archetypes: ['SLASHER'], careerYears: 15, categoryRaw: { playerAccolades: 135, teamAccolades: 36.1, stats: 20688.278, advanced: 2988.063 }, accolades: { mvp: 0, finalsMvp: 2, dpoy: 2, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 3, allNbaSecond: 3, allNbaThird: 0, allDefFirst: 3, allDefSecond: 4, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 309, pts: 7680, reb: 1984, ast: 1272, stl: 512, blk: 179, tov: 628 } },
+    { name: 'Blake Griffin', years: '2010-2018', positions: ['SF', 'PF'], archetypes: ['POST_SCORER'], careerYears: 14, categoryRaw: { playerAccolades: 44, teamAccolades: 37.8, stats: 23975.584, advanced: 2616.755 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 3, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 504, pts: 10863, reb: 4686, ast: 2133, stl: 483, blk: 277, tov: 1258 } },
+    { name: 'DeAndre Jordan', years: '2008-2018', positions: ['C'], archetypes: ['RIM_PROTECTOR'], careerYears: 18, categoryRaw: { playerAccolades: 27, teamAccolades: 39.5, stats: 22652.981, advanced: 2331.261 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 0, allNbaThird: 2, allDefFirst: 2, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 750, pts: 7078, reb: 7988, ast: 557, stl: 448, blk: 1276, tov: 982 } },
+    { name: 'Elton Brand', years: '2001-2008', positions: ['SF', 'PF'], archetypes: ['RIM_PROTECTOR', 'POST_SCORER'], careerYears: 17, categoryRaw: { playerAccolades: 22, teamAccolades: 36.95, stats: 24449.22, advanced: 2702.646 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 459, pts: 9336, reb: 4710, ast: 1242, stl: 438, blk: 1039, tov: 1102 } },
     { name: 'Ivica Zubac', years: '2018-2026', positions: ['C'], careerYears: 10, categoryRaw: { playerAccolades: 3, teamAccolades: 37.8, stats: 18507.908, advanced: 2073.465 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 1, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 513, pts: 5846, reb: 4771, ast: 810, stl: 208, blk: 536, tov: 698 } },
-    { name: 'Paul George', years: '2019-2024', positions: ['SF', 'PF'], careerYears: 16, categoryRaw: { playerAccolades: 65, teamAccolades: 35.25, stats: 18070.47, advanced: 2584.055 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 1, allNbaSecond: 0, allNbaThird: 5, allDefFirst: 2, allDefSecond: 2, allStar: 9, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 263, pts: 6049, reb: 1574, ast: 1191, stl: 393, blk: 114, tov: 759 } },
+    { name: 'Paul George', years: '2019-2024', positions: ['SF', 'PF'], archetypes: ['SLASHER'], careerYears: 16, categoryRaw: { playerAccolades: 65, teamAccolades: 35.25, stats: 18070.47, advanced: 2584.055 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 1, allNbaSecond: 0, allNbaThird: 5, allDefFirst: 2, allDefSecond: 2, allStar: 9, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 263, pts: 6049, reb: 1574, ast: 1191, stl: 393, blk: 114, tov: 759 } },
     { name: 'Chris Kaman', years: '2003-2011', positions: ['C'], careerYears: 13, categoryRaw: { playerAccolades: 2, teamAccolades: 37.8, stats: 17995.717, advanced: 2097.611 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 493, pts: 5813, reb: 4109, ast: 635, stl: 238, blk: 707, tov: 1122 } },
     { name: 'Loy Vaught', years: '1990-1998', positions: ['SF', 'PF', 'C'], careerYears: 11, categoryRaw: { playerAccolades: 0, teamAccolades: 37.8, stats: 17480.85, advanced: 2035.853 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 558, pts: 6614, reb: 4471, ast: 607, stl: 468, blk: 211, tov: 768 } },
     { name: 'Corey Maggette', years: '2000-2008', positions: ['SF', 'PF'], careerYears: 14, categoryRaw: { playerAccolades: 0, teamAccolades: 37.8, stats: 17689.194, advanced: 2078.001 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 512, pts: 8835, reb: 2673, ast: 1229, stl: 421, blk: 93, tov: 1245 } },
     { name: 'Danny Manning', years: '1988-1994', positions: ['SF', 'PF', 'C'], careerYears: 15, categoryRaw: { playerAccolades: 8, teamAccolades: 36.1, stats: 19101.355, advanced: 2416.173 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 1, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 373, pts: 7120, reb: 2399, ast: 1132, stl: 548, blk: 406, tov: 1056 } },
     { name: 'Swen Nater', years: '1977-1983', positions: ['C'], careerYears: 8, categoryRaw: { playerAccolades: 0, teamAccolades: 36.1, stats: 16329.494, advanced: 2170.837 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 348, pts: 4694, reb: 4168, ast: 819, stl: 179, blk: 168, tov: 914 } },
-    { name: 'Benoit Benjamin', years: '1985-1991', positions: ['C'], careerYears: 15, categoryRaw: { playerAccolades: 0, teamAccolades: 36.1, stats: 17850.066, advanced: 2202.069 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 406, pts: 5405, reb: 3538, ast: 776, stl: 316, blk: 1117, tov: 1114 } },
+    { name: 'Benoit Benjamin', years: '1985-1991', positions: ['C'], archetypes: ['RIM_PROTECTOR'], careerYears: 15, categoryRaw: { playerAccolades: 0, teamAccolades: 36.1, stats: 17850.066, advanced: 2202.069 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 406, pts: 5405, reb: 3538, ast: 776, stl: 316, blk: 1117, tov: 1114 } },
   ],
   LAL: [
-    { name: 'Kareem Abdul-Jabbar', years: '1975-1989', positions: ['C'], careerYears: 20, championships: 5, categoryRaw: { playerAccolades: 528, teamAccolades: 162.9, stats: 47114.095, advanced: 5019.766 }, accolades: { mvp: 12, finalsMvp: 2, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 10, allNbaSecond: 5, allNbaThird: 0, allDefFirst: 5, allDefSecond: 6, allStar: 19, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 1093, pts: 24176, reb: 10279, ast: 3652, stl: 983, blk: 2694, tov: 2527 } },
-    { name: 'Kobe Bryant', years: '1996-2016', positions: ['PG', 'SG', 'SF', 'PF'], careerYears: 20, championships: 5, categoryRaw: { playerAccolades: 256, teamAccolades: 168, stats: 45444.201, advanced: 3839.695 }, accolades: { mvp: 1, finalsMvp: 2, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 11, allNbaSecond: 2, allNbaThird: 2, allDefFirst: 9, allDefSecond: 3, allStar: 18, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 1346, pts: 33643, reb: 7047, ast: 6306, stl: 1944, blk: 640, tov: 4010 } },
-    { name: 'Magic Johnson', years: '1979-1991, 1995-1996', positions: ['PG', 'SG', 'SF', 'PF'], careerYears: 17, championships: 5, categoryRaw: { playerAccolades: 255, teamAccolades: 162.05, stats: 39232.576, advanced: 3969.658 }, accolades: { mvp: 4, finalsMvp: 3, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 9, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 12, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 906, pts: 17707, reb: 6559, ast: 10141, stl: 1724, blk: 374, tov: 3506 } },
-    { name: 'Elgin Baylor', years: '1958-1972', positions: ['SF', 'PF'], careerYears: 14, categoryRaw: { playerAccolades: 124, teamAccolades: 42.9, stats: 43736.211, advanced: 3948.154 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 10, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 11, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 846, pts: 23149, reb: 11463, ast: 3650, stl: 0, blk: 0, tov: 0 } },
-    { name: 'Jerry West', years: '1960-1974', positions: ['PG', 'SG'], careerYears: 14, championships: 1, categoryRaw: { playerAccolades: 165, teamAccolades: 66.9, stats: 38061.67, advanced: 3272.533 }, accolades: { mvp: 0, finalsMvp: 1, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 10, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 4, allDefSecond: 1, allStar: 14, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 932, pts: 25192, reb: 5376, ast: 6238, stl: 81, blk: 23, tov: 0 } },
-    { name: 'Shaquille O\'Neal', years: '1996-2004', positions: ['C'], careerYears: 19, championships: 3, categoryRaw: { playerAccolades: 271, teamAccolades: 109.8, stats: 31319.477, advanced: 3991.855 }, accolades: { mvp: 3, finalsMvp: 3, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 8, allNbaSecond: 2, allNbaThird: 4, allDefFirst: 0, allDefSecond: 3, allStar: 15, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 514, pts: 13895, reb: 6090, ast: 1593, stl: 317, blk: 1278, tov: 1446 } },
-    { name: 'George Mikan', years: '1948-1954, 1955-1956', positions: ['C'], careerYears: 8, championships: 5, categoryRaw: { playerAccolades: 62, teamAccolades: 156.95, stats: 23824.147, advanced: 3261.363 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 6, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 439, pts: 10156, reb: 4167, ast: 1245, stl: 0, blk: 0, tov: 0 } },
-    { name: 'LeBron James', years: '2018-2026', positions: ['SF', 'PF'], careerYears: 23, championships: 1, categoryRaw: { playerAccolades: 444, teamAccolades: 61.8, stats: 27470.496, advanced: 3918.402 }, accolades: { mvp: 6, finalsMvp: 4, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 13, allNbaSecond: 4, allNbaThird: 4, allDefFirst: 5, allDefSecond: 1, allStar: 22, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 457, pts: 11970, reb: 3532, ast: 3646, stl: 522, blk: 284, tov: 1620 } },
-    { name: 'Wilt Chamberlain', years: '1968-1973', positions: ['C'], careerYears: 14, championships: 1, categoryRaw: { playerAccolades: 335, teamAccolades: 59.25, stats: 25016.511, advanced: 3812.645 }, accolades: { mvp: 8, finalsMvp: 1, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 7, allNbaSecond: 3, allNbaThird: 0, allDefFirst: 2, allDefSecond: 0, allStar: 13, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 339, pts: 5985, reb: 6524, ast: 1461, stl: 0, blk: 0, tov: 0 } },
+    { name: 'Kareem Abdul-Jabbar', years: '1975-1989', positions: ['C'], archetypes: ['RIM_PROTECTOR', 'POST_SCORER'], careerYears: 20, championships: 5, categoryRaw: { playerAccolades: 528, teamAccolades: 162.9, stats: 47114.095, advanced: 5019.766 }, accolades: { mvp: 12, finalsMvp: 2, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 10, allNbaSecond: 5, allNbaThird: 0, allDefFirst: 5, allDefSecond: 6, allStar: 19, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 1093, pts: 24176, reb: 10279, ast: 3652, stl: 983, blk: 2694, tov: 2527 } },
+    { name: 'Kobe Bryant', years: '1996-2016', positions: ['PG', 'SG', 'SF', 'PF'], archetypes: ['SLASHER'], careerYears: 20, championships: 5, categoryRaw: { playerAccolades: 256, teamAccolades: 168, stats: 45444.201, advanced: 3839.695 }, accolades: { mvp: 1, finalsMvp: 2, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 11, allNbaSecond: 2, allNbaThird: 2, allDefFirst: 9, allDefSecond: 3, allStar: 18, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 1346, pts: 33643, reb: 7047, ast: 6306, stl: 1944, blk: 640, tov: 4010 } },
+    { name: 'Magic Johnson', years: '1979-1991, 1995-1996', positions: ['PG', 'SG', 'SF', 'PF'], archetypes: ['FLOOR_GENERAL'], careerYears: 17, championships: 5, categoryRaw: { playerAccolades: 255, teamAccolades: 162.05, stats: 39232.576, advanced: 3969.658 }, accolades: { mvp: 4, finalsMvp: 3, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 9, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 12, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 906, pts: 17707, reb: 6559, ast: 10141, stl: 1724, blk: 374, tov: 3506 } },
+    { name: 'Elgin Baylor', years: '1958-1972', positions: ['SF', 'PF'], archetypes: ['POST_SCORER'], careerYears: 14, categoryRaw: { playerAccolades: 124, teamAccolades: 42.9, stats: 43736.211, advanced: 3948.154 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 10, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 11, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 846, pts: 23149, reb: 11463, ast: 3650, stl: 0, blk: 0, tov: 0 } },
+    { name: 'Jerry West', years: '1960-1974', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL', 'SLASHER'], careerYears: 14, championships: 1, categoryRaw: { playerAccolades: 165, teamAccolades: 66.9, stats: 38061.67, advanced: 3272.533 }, accolades: { mvp: 0, finalsMvp: 1, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 10, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 4, allDefSecond: 1, allStar: 14, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 932, pts: 25192, reb: 5376, ast: 6238, stl: 81, blk: 23, tov: 0 } },
+    { name: 'Shaquille O\'Neal', years: '1996-2004', positions: ['C'], archetypes: ['RIM_PROTECTOR', 'POST_SCORER'], careerYears: 19, championships: 3, categoryRaw: { playerAccolades: 271, teamAccolades: 109.8, stats: 31319.477, advanced: 3991.855 }, accolades: { mvp: 3, finalsMvp: 3, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 8, allNbaSecond: 2, allNbaThird: 4, allDefFirst: 0, allDefSecond: 3, allStar: 15, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 514, pts: 13895, reb: 6090, ast: 1593, stl: 317, blk: 1278, tov: 1446 } },
+    { name: 'George Mikan', years: '1948-1954, 1955-1956', positions: ['C'], archetypes: ['POST_SCORER'], careerYears: 8, championships: 5, categoryRaw: { playerAccolades: 62, teamAccolades: 156.95, stats: 23824.147, advanced: 3261.363 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 6, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 439, pts: 10156, reb: 4167, ast: 1245, stl: 0, blk: 0, tov: 0 } },
+    { name: 'LeBron James', years: '2018-2026', positions: ['SF', 'PF'], archetypes: ['STRETCH_BIG'], careerYears: 23, championships: 1, categoryRaw: { playerAccolades: 444, teamAccolades: 61.8, stats: 27470.496, advanced: 3918.402 }, accolades: { mvp: 6, finalsMvp: 4, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 13, allNbaSecond: 4, allNbaThird: 4, allDefFirst: 5, allDefSecond: 1, allStar: 22, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 457, pts: 11970, reb: 3532, ast: 3646, stl: 522, blk: 284, tov: 1620 } },
+    { name: 'Wilt Chamberlain', years: '1968-1973', positions: ['C'], archetypes: ['RIM_PROTECTOR'], careerYears: 14, championships: 1, categoryRaw: { playerAccolades: 335, teamAccolades: 59.25, stats: 25016.511, advanced: 3812.645 }, accolades: { mvp: 8, finalsMvp: 1, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 7, allNbaSecond: 3, allNbaThird: 0, allDefFirst: 2, allDefSecond: 0, allStar: 13, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 339, pts: 5985, reb: 6524, ast: 1461, stl: 0, blk: 0, tov: 0 } },
     { name: 'James Worthy', years: '1982-1994', positions: ['SF', 'PF'], careerYears: 12, championships: 3, categoryRaw: { playerAccolades: 38, teamAccolades: 113.2, stats: 26696.671, advanced: 2540.077 }, accolades: { mvp: 0, finalsMvp: 1, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 926, pts: 16320, reb: 4708, ast: 2791, stl: 1041, blk: 624, tov: 1859 } },
-    { name: 'Michael Cooper', years: '1978-1990', positions: ['PG', 'SG'], careerYears: 12, championships: 5, categoryRaw: { playerAccolades: 39, teamAccolades: 161.2, stats: 18108.985, advanced: 2128.602 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 1, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 5, allDefSecond: 3, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 873, pts: 7729, reb: 2769, ast: 3666, stl: 1033, blk: 523, tov: 1429 } },
+    { name: 'Michael Cooper', years: '1978-1990', positions: ['PG', 'SG'], archetypes: ['THREE_AND_D_WING'], careerYears: 12, championships: 5, categoryRaw: { playerAccolades: 39, teamAccolades: 161.2, stats: 18108.985, advanced: 2128.602 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 1, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 5, allDefSecond: 3, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 873, pts: 7729, reb: 2769, ast: 3666, stl: 1033, blk: 523, tov: 1429 } },
     { name: 'Vern Mikkelsen', years: '1949-1959', positions: ['SF', 'PF'], careerYears: 10, championships: 4, categoryRaw: { playerAccolades: 36, teamAccolades: 135.5, stats: 21101.258, advanced: 2458.695 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 4, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 699, pts: 10063, reb: 5940, ast: 1515, stl: 0, blk: 0, tov: 0 } },
     { name: 'Derek Fisher', years: '1996-2004, 2007-2012', positions: ['PG', 'SG'], careerYears: 18, championships: 5, categoryRaw: { playerAccolades: 0, teamAccolades: 162.05, stats: 15595.104, advanced: 1894.619 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 915, pts: 7223, reb: 1892, ast: 2685, stl: 968, blk: 73, tov: 974 } },
     { name: 'Byron Scott', years: '1983-1993, 1996-1997', positions: ['PG', 'SG'], careerYears: 14, championships: 3, categoryRaw: { playerAccolades: 0, teamAccolades: 112.35, stats: 22205.543, advanced: 2286.542 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 846, pts: 12780, reb: 2534, ast: 2365, stl: 1038, blk: 232, tov: 1275 } },
-    { name: 'Jamaal Wilkes', years: '1977-1985', positions: ['SF', 'PF'], careerYears: 12, championships: 2, categoryRaw: { playerAccolades: 24, teamAccolades: 85.8, stats: 20198.957, advanced: 2343.89 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 2, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 575, pts: 10601, reb: 3119, ast: 1474, stl: 706, blk: 191, tov: 1195 } },
+    { name: 'Jamaal Wilkes', years: '1977-1985', positions: ['SF', 'PF'], archetypes: ['THREE_AND_D_WING'], careerYears: 12, championships: 2, categoryRaw: { playerAccolades: 24, teamAccolades: 85.8, stats: 20198.957, advanced: 2343.89 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 2, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 575, pts: 10601, reb: 3119, ast: 1474, stl: 706, blk: 191, tov: 1195 } },
   ],
   MEM: [
-    { name: 'Marc Gasol', years: '2008-2019', positions: ['C'], careerYears: 14, championships: 1, categoryRaw: { playerAccolades: 34, teamAccolades: 64.35, stats: 25424.324, advanced: 2426.297 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 1, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 1, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 769, pts: 11684, reb: 5942, ast: 2639, stl: 708, blk: 1135, tov: 1607 } },
-    { name: 'Ja Morant', years: '2019-2026', positions: ['PG', 'SG'], careerYears: 7, categoryRaw: { playerAccolades: 20, teamAccolades: 36.95, stats: 20242.48, advanced: 2719.313 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 1, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 327, pts: 7331, reb: 1513, ast: 2428, stl: 335, blk: 92, tov: 1108 } },
-    { name: 'Jaren Jackson Jr.', years: '2018-2026', positions: ['SF', 'PF', 'C'], careerYears: 8, categoryRaw: { playerAccolades: 25, teamAccolades: 37.8, stats: 19203.205, advanced: 2345.582 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 1, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 2, allDefSecond: 1, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 452, pts: 8382, reb: 2517, ast: 688, stl: 461, blk: 845, tov: 862 } },
-    { name: 'Pau Gasol', years: '2001-2008', positions: ['SF', 'PF', 'C'], careerYears: 18, categoryRaw: { playerAccolades: 38, teamAccolades: 36.95, stats: 21863.724, advanced: 2480.512 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 476, pts: 8966, reb: 4096, ast: 1473, stl: 247, blk: 877, tov: 1238 } },
-    { name: 'Mike Conley', years: '2007-2019', positions: ['PG', 'SG'], careerYears: 19, categoryRaw: { playerAccolades: 5, teamAccolades: 41.2, stats: 23601.736, advanced: 2193.008 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 1, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 788, pts: 11733, reb: 2327, ast: 4509, stl: 1161, blk: 162, tov: 1586 } },
+    { name: 'Marc Gasol', years: '2008-2019', positions: ['C'], archetypes: ['RIM_PROTECTOR'], careerYears: 14, championships: 1, categoryRaw: { playerAccolades: 34, teamAccolades: 64.35, stats: 25424.324, advanced: 2426.297 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 1, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 1, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 769, pts: 11684, reb: 5942, ast: 2639, stl: 708, blk: 1135, tov: 1607 } },
+    { name: 'Ja Morant', years: '2019-2026', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL', 'SLASHER'], careerYears: 7, categoryRaw: { playerAccolades: 20, teamAccolades: 36.95, stats: 20242.48, advanced: 2719.313 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 1, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 327, pts: 7331, reb: 1513, ast: 2428, stl: 335, blk: 92, tov: 1108 } },
+    { name: 'Jaren Jackson Jr.', years: '2018-2026', positions: ['SF', 'PF', 'C'], archetypes: ['RIM_PROTECTOR'], careerYears: 8, categoryRaw: { playerAccolades: 25, teamAccolades: 37.8, stats: 19203.205, advanced: 2345.582 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 1, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 2, allDefSecond: 1, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 452, pts: 8382, reb: 2517, ast: 688, stl: 461, blk: 845, tov: 862 } },
+    { name: 'Pau Gasol', years: '2001-2008', positions: ['SF', 'PF', 'C'], archetypes: ['RIM_PROTECTOR', 'POST_SCORER'], careerYears: 18, categoryRaw: { playerAccolades: 38, teamAccolades: 36.95, stats: 21863.724, advanced: 2480.512 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 476, pts: 8966, reb: 4096, ast: 1473, stl: 247, blk: 877, tov: 1238 } },
+    { name: 'Mike Conley', years: '2007-2019', positions: ['PG', 'SG'], archetypes: ['THREE_AND_D_WING'], careerYears: 19, categoryRaw: { playerAccolades: 5, teamAccolades: 41.2, stats: 23601.736, advanced: 2193.008 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 1, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 788, pts: 11733, reb: 2327, ast: 4509, stl: 1161, blk: 162, tov: 1586 } },
     { name: 'Zach Randolph', years: '2009-2017', positions: ['SF', 'PF'], careerYears: 17, categoryRaw: { playerAccolades: 12, teamAccolades: 37.8, stats: 21341.284, advanced: 2302.425 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 551, pts: 9261, reb: 5612, ast: 1085, stl: 429, blk: 154, tov: 1058 } },
-    { name: 'Shareef Abdur-Rahim', years: '1996-2001', positions: ['SF', 'PF'], careerYears: 12, categoryRaw: { playerAccolades: 8, teamAccolades: 35.25, stats: 19308.656, advanced: 2409.073 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 375, pts: 7801, reb: 3070, ast: 1081, stl: 416, blk: 374, tov: 1148 } },
+    { name: 'Shareef Abdur-Rahim', years: '1996-2001', positions: ['SF', 'PF'], archetypes: ['POST_SCORER'], careerYears: 12, categoryRaw: { playerAccolades: 8, teamAccolades: 35.25, stats: 19308.656, advanced: 2409.073 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 375, pts: 7801, reb: 3070, ast: 1081, stl: 416, blk: 374, tov: 1148 } },
     { name: 'Desmond Bane', years: '2020-2025', positions: ['PG', 'SG'], careerYears: 6, categoryRaw: { playerAccolades: 0, teamAccolades: 35.25, stats: 16330.848, advanced: 2264.364 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 313, pts: 5580, reb: 1438, ast: 1179, stl: 312, blk: 117, tov: 577 } },
     { name: 'Mike Miller', years: '2002-2008, 2013-2014', positions: ['PG', 'SG', 'SF', 'PF'], careerYears: 17, categoryRaw: { playerAccolades: 16, teamAccolades: 36.95, stats: 14694.529, advanced: 1813.398 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 1, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 453, pts: 5982, reb: 2020, ast: 1351, stl: 286, blk: 108, tov: 838 } },
-    { name: 'Rudy Gay', years: '2006-2013', positions: ['PG', 'SG', 'SF', 'PF'], careerYears: 17, categoryRaw: { playerAccolades: 0, teamAccolades: 36.95, stats: 18659.084, advanced: 2154.324 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 479, pts: 8562, reb: 2758, ast: 954, stl: 640, blk: 420, tov: 1102 } },
-    { name: 'Tony Allen', years: '2010-2017', positions: ['PG', 'SG', 'SF', 'PF'], careerYears: 14, categoryRaw: { playerAccolades: 21, teamAccolades: 36.95, stats: 11465.79, advanced: 1469.837 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 3, allDefSecond: 3, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 462, pts: 4128, reb: 1964, ast: 629, stl: 796, blk: 217, tov: 628 } },
+    { name: 'Rudy Gay', years: '2006-2013', positions: ['PG', 'SG', 'SF', 'PF'], archetypes: ['THREE_AND_D_WING'], careerYears: 17, categoryRaw: { playerAccolades: 0, teamAccolades: 36.95, stats: 18659.084, advanced: 2154.324 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 479, pts: 8562, reb: 2758, ast: 954, stl: 640, blk: 420, tov: 1102 } },
+    { name: 'Tony Allen', years: '2010-2017', positions: ['PG', 'SG', 'SF', 'PF'], archetypes: ['THREE_AND_D_WING'], careerYears: 14, categoryRaw: { playerAccolades: 21, teamAccolades: 36.95, stats: 11465.79, advanced: 1469.837 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 3, allDefSecond: 3, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 462, pts: 4128, reb: 1964, ast: 629, stl: 796, blk: 217, tov: 628 } },
     { name: 'Bryant Reeves', years: '1995-2001', positions: ['C'], careerYears: 6, categoryRaw: { playerAccolades: 0, teamAccolades: 36.1, stats: 14169.655, advanced: 1838.007 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 395, pts: 4945, reb: 2745, ast: 623, stl: 200, blk: 302, tov: 744 } },
-    { name: 'Shane Battier', years: '2001-2006, 2010-2011', positions: ['SF', 'PF'], careerYears: 13, categoryRaw: { playerAccolades: 6, teamAccolades: 36.1, stats: 13582.975, advanced: 1682.159 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 2, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 419, pts: 4275, reb: 2000, ast: 716, stl: 523, blk: 428, tov: 460 } },
+    { name: 'Shane Battier', years: '2001-2006, 2010-2011', positions: ['SF', 'PF'], archetypes: ['THREE_AND_D_WING'], careerYears: 13, categoryRaw: { playerAccolades: 6, teamAccolades: 36.1, stats: 13582.975, advanced: 1682.159 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 2, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 419, pts: 4275, reb: 2000, ast: 716, stl: 523, blk: 428, tov: 460 } },
     { name: 'Dillon Brooks', years: '2017-2023', positions: ['PG', 'SG', 'SF', 'PF'], careerYears: 9, categoryRaw: { playerAccolades: 3, teamAccolades: 36.1, stats: 12459.02, advanced: 1716.938 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 1, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 345, pts: 5002, reb: 1073, ast: 735, stl: 325, blk: 98, tov: 540 } },
-    { name: 'Jason Williams', years: '2001-2005, 2010-2011', positions: ['PG', 'SG'], careerYears: 13, categoryRaw: { playerAccolades: 0, teamAccolades: 35.25, stats: 13081.508, advanced: 1822.136 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 295, pts: 3400, reb: 684, ast: 2069, stl: 372, blk: 28, tov: 655 } },
+    { name: 'Jason Williams', years: '2001-2005, 2010-2011', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 13, categoryRaw: { playerAccolades: 0, teamAccolades: 35.25, stats: 13081.508, advanced: 1822.136 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 295, pts: 3400, reb: 684, ast: 2069, stl: 372, blk: 28, tov: 655 } },
   ],
   MIA: [
-    { name: 'Dwyane Wade', years: '2003-2016, 2017-2019', positions: ['PG', 'SG'], careerYears: 16, championships: 3, categoryRaw: { playerAccolades: 99, teamAccolades: 115.75, stats: 36247.521, advanced: 3359.237 }, accolades: { mvp: 0, finalsMvp: 1, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 2, allNbaSecond: 3, allNbaThird: 3, allDefFirst: 0, allDefSecond: 3, allStar: 13, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 948, pts: 21556, reb: 4482, ast: 5310, stl: 1492, blk: 812, tov: 3096 } },
-    { name: 'LeBron James', years: '2010-2014', positions: ['SF', 'PF'], careerYears: 23, championships: 2, categoryRaw: { playerAccolades: 444, teamAccolades: 82.4, stats: 22645.13, advanced: 3903.985 }, accolades: { mvp: 6, finalsMvp: 4, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 13, allNbaSecond: 4, allNbaThird: 4, allDefFirst: 5, allDefSecond: 1, allStar: 22, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 294, pts: 7919, reb: 2225, ast: 1980, stl: 489, blk: 193, tov: 993 } },
+    { name: 'Dwyane Wade', years: '2003-2016, 2017-2019', positions: ['PG', 'SG'], archetypes: ['SLASHER'], careerYears: 16, championships: 3, categoryRaw: { playerAccolades: 99, teamAccolades: 115.75, stats: 36247.521, advanced: 3359.237 }, accolades: { mvp: 0, finalsMvp: 1, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 2, allNbaSecond: 3, allNbaThird: 3, allDefFirst: 0, allDefSecond: 3, allStar: 13, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 948, pts: 21556, reb: 4482, ast: 5310, stl: 1492, blk: 812, tov: 3096 } },
+    { name: 'LeBron James', years: '2010-2014', positions: ['SF', 'PF'], archetypes: ['STRETCH_BIG'], careerYears: 23, championships: 2, categoryRaw: { playerAccolades: 444, teamAccolades: 82.4, stats: 22645.13, advanced: 3903.985 }, accolades: { mvp: 6, finalsMvp: 4, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 13, allNbaSecond: 4, allNbaThird: 4, allDefFirst: 5, allDefSecond: 1, allStar: 22, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 294, pts: 7919, reb: 2225, ast: 1980, stl: 489, blk: 193, tov: 993 } },
     { name: 'Udonis Haslem', years: '2003-2023', positions: ['SF', 'PF'], careerYears: 20, championships: 3, categoryRaw: { playerAccolades: 0, teamAccolades: 120, stats: 16388.379, advanced: 1890.647 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 879, pts: 6586, reb: 5791, ast: 733, stl: 424, blk: 252, tov: 810 } },
-    { name: 'Alonzo Mourning', years: '1995-2002, 2004-2008', positions: ['C'], careerYears: 16, championships: 1, categoryRaw: { playerAccolades: 57, teamAccolades: 64.35, stats: 23923.625, advanced: 2865.928 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 2, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 2, allDefSecond: 0, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 593, pts: 9459, reb: 4807, ast: 651, stl: 304, blk: 1625, tov: 1478 } },
-    { name: 'Shaquille O\'Neal', years: '2004-2008', positions: ['C'], careerYears: 19, championships: 1, categoryRaw: { playerAccolades: 271, teamAccolades: 58.4, stats: 16108.364, advanced: 2824.025 }, accolades: { mvp: 3, finalsMvp: 3, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 8, allNbaSecond: 2, allNbaThird: 4, allDefFirst: 0, allDefSecond: 3, allStar: 15, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 205, pts: 4010, reb: 1856, ast: 437, stl: 86, blk: 384, tov: 564 } },
+    { name: 'Alonzo Mourning', years: '1995-2002, 2004-2008', positions: ['C'], archetypes: ['RIM_PROTECTOR'], careerYears: 16, championships: 1, categoryRaw: { playerAccolades: 57, teamAccolades: 64.35, stats: 23923.625, advanced: 2865.928 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 2, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 2, allDefSecond: 0, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 593, pts: 9459, reb: 4807, ast: 651, stl: 304, blk: 1625, tov: 1478 } },
+    { name: 'Shaquille O\'Neal', years: '2004-2008', positions: ['C'], archetypes: ['RIM_PROTECTOR', 'POST_SCORER'], careerYears: 19, championships: 1, categoryRaw: { playerAccolades: 271, teamAccolades: 58.4, stats: 16108.364, advanced: 2824.025 }, accolades: { mvp: 3, finalsMvp: 3, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 8, allNbaSecond: 2, allNbaThird: 4, allDefFirst: 0, allDefSecond: 3, allStar: 15, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 205, pts: 4010, reb: 1856, ast: 437, stl: 86, blk: 384, tov: 564 } },
     { name: 'Bam Adebayo', years: '2017-2026', positions: ['SF', 'PF', 'C'], careerYears: 9, categoryRaw: { playerAccolades: 22, teamAccolades: 38.65, stats: 23857.123, advanced: 2491.985 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 1, allDefSecond: 4, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 617, pts: 9838, reb: 5513, ast: 2188, stl: 657, blk: 523, tov: 1308 } },
-    { name: 'Chris Bosh', years: '2010-2016', positions: ['SF', 'PF'], careerYears: 14, championships: 2, categoryRaw: { playerAccolades: 28, teamAccolades: 84.1, stats: 16867.619, advanced: 2277.264 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 11, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 384, pts: 6914, reb: 2816, ast: 680, stl: 333, blk: 332, tov: 681 } },
-    { name: 'Mario Chalmers', years: '2008-2016', positions: ['PG', 'SG'], careerYears: 10, championships: 2, categoryRaw: { playerAccolades: 0, teamAccolades: 85.8, stats: 12607.095, advanced: 1663.533 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 525, pts: 4641, reb: 1285, ast: 2004, stl: 791, blk: 77, tov: 984 } },
-    { name: 'Jimmy Butler III', years: '2019-2025', positions: ['SF', 'PF'], careerYears: 15, categoryRaw: { playerAccolades: 53, teamAccolades: 36.1, stats: 19830.615, advanced: 2644.856 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 4, allDefFirst: 0, allDefSecond: 5, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 316, pts: 6630, reb: 1905, ast: 1789, stl: 528, blk: 125, tov: 590 } },
-    { name: 'Tim Hardaway', years: '1995-2001', positions: ['PG', 'SG'], careerYears: 14, categoryRaw: { playerAccolades: 41, teamAccolades: 36.1, stats: 18369.973, advanced: 2414.431 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 3, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 367, pts: 6335, reb: 1180, ast: 2867, stl: 541, blk: 47, tov: 1003 } },
+    { name: 'Chris Bosh', years: '2010-2016', positions: ['SF', 'PF'], archetypes: ['STRETCH_BIG'], careerYears: 14, championships: 2, categoryRaw: { playerAccolades: 28, teamAccolades: 84.1, stats: 16867.619, advanced: 2277.264 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 11, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 384, pts: 6914, reb: 2816, ast: 680, stl: 333, blk: 332, tov: 681 } },
+    { name: 'Mario Chalmers', years: '2008-2016', positions: ['PG', 'SG'], archetypes: ['THREE_AND_D_WING'], careerYears: 10, championships: 2, categoryRaw: { playerAccolades: 0, teamAccolades: 85.8, stats: 12607.095, advanced: 1663.533 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 525, pts: 4641, reb: 1285, ast: 2004, stl: 791, blk: 77, tov: 984 } },
+    { name: 'Jimmy Butler III', years: '2019-2025', positions: ['SF', 'PF'], archetypes: ['SLASHER', 'THREE_AND_D_WING'], careerYears: 15, categoryRaw: { playerAccolades: 53, teamAccolades: 36.1, stats: 19830.615, advanced: 2644.856 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 4, allDefFirst: 0, allDefSecond: 5, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 316, pts: 6630, reb: 1905, ast: 1789, stl: 528, blk: 125, tov: 590 } },
+    { name: 'Tim Hardaway', years: '1995-2001', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 14, categoryRaw: { playerAccolades: 41, teamAccolades: 36.1, stats: 18369.973, advanced: 2414.431 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 3, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 367, pts: 6335, reb: 1180, ast: 2867, stl: 541, blk: 47, tov: 1003 } },
     { name: 'Tyler Herro', years: '2019-2026', positions: ['PG', 'SG'], careerYears: 8, categoryRaw: { playerAccolades: 6, teamAccolades: 36.95, stats: 17455.538, advanced: 2188.441 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 1, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 374, pts: 7266, reb: 1863, ast: 1499, stl: 275, blk: 75, tov: 832 } },
     { name: 'Rony Seikaly', years: '1988-1994', positions: ['C'], careerYears: 11, categoryRaw: { playerAccolades: 4, teamAccolades: 36.1, stats: 18067.231, advanced: 2160.774 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 439, pts: 6742, reb: 4544, ast: 573, stl: 312, blk: 610, tov: 1255 } },
-    { name: 'Hassan Whiteside', years: '2014-2019', positions: ['C'], careerYears: 12, categoryRaw: { playerAccolades: 3, teamAccolades: 35.25, stats: 17825.942, advanced: 2318.75 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 1, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 324, pts: 4554, reb: 3870, ast: 202, stl: 211, blk: 783, tov: 538 } },
+    { name: 'Hassan Whiteside', years: '2014-2019', positions: ['C'], archetypes: ['RIM_PROTECTOR'], careerYears: 12, categoryRaw: { playerAccolades: 3, teamAccolades: 35.25, stats: 17825.942, advanced: 2318.75 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 1, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 324, pts: 4554, reb: 3870, ast: 202, stl: 211, blk: 783, tov: 538 } },
     { name: 'Glen Rice', years: '1989-1995', positions: ['PG', 'SG', 'SF', 'PF'], careerYears: 15, categoryRaw: { playerAccolades: 16, teamAccolades: 36.1, stats: 18155.294, advanced: 2129.919 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 478, pts: 9248, reb: 2363, ast: 1067, stl: 572, blk: 159, tov: 864 } },
-    { name: 'Eddie Jones', years: '2000-2005, 2006-2007', positions: ['PG', 'SG', 'SF', 'PF'], careerYears: 14, categoryRaw: { playerAccolades: 19, teamAccolades: 36.1, stats: 15943.694, advanced: 2071.941 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 3, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 387, pts: 6194, reb: 1738, ast: 1152, stl: 515, blk: 246, tov: 620 } },
+    { name: 'Eddie Jones', years: '2000-2005, 2006-2007', positions: ['PG', 'SG', 'SF', 'PF'], archetypes: ['THREE_AND_D_WING'], careerYears: 14, categoryRaw: { playerAccolades: 19, teamAccolades: 36.1, stats: 15943.694, advanced: 2071.941 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 3, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 387, pts: 6194, reb: 1738, ast: 1152, stl: 515, blk: 246, tov: 620 } },
   ],
   MIL: [
-    { name: 'Giannis Antetokounmpo', years: '2013-2026', positions: ['SF', 'PF'], careerYears: 14, championships: 1, categoryRaw: { playerAccolades: 216, teamAccolades: 66.05, stats: 39752.457, advanced: 3804.283 }, accolades: { mvp: 3, finalsMvp: 1, dpoy: 1, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 7, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 4, allDefSecond: 1, allStar: 10, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 889, pts: 21377, reb: 8831, ast: 4456, stl: 988, blk: 1086, tov: 2686 } },
-    { name: 'Kareem Abdul-Jabbar', years: '1969-1975', positions: ['C'], careerYears: 20, championships: 1, categoryRaw: { playerAccolades: 528, teamAccolades: 60.1, stats: 34442.821, advanced: 4776.641 }, accolades: { mvp: 12, finalsMvp: 2, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 10, allNbaSecond: 5, allNbaThird: 0, allDefFirst: 5, allDefSecond: 6, allStar: 19, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 467, pts: 14211, reb: 7161, ast: 2008, stl: 177, blk: 495, tov: 0 } },
+    { name: 'Giannis Antetokounmpo', years: '2013-2026', positions: ['SF', 'PF'], archetypes: ['POST_SCORER'], careerYears: 14, championships: 1, categoryRaw: { playerAccolades: 216, teamAccolades: 66.05, stats: 39752.457, advanced: 3804.283 }, accolades: { mvp: 3, finalsMvp: 1, dpoy: 1, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 7, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 4, allDefSecond: 1, allStar: 10, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 889, pts: 21377, reb: 8831, ast: 4456, stl: 988, blk: 1086, tov: 2686 } },
+    { name: 'Kareem Abdul-Jabbar', years: '1969-1975', positions: ['C'], archetypes: ['POST_SCORER'], careerYears: 20, championships: 1, categoryRaw: { playerAccolades: 528, teamAccolades: 60.1, stats: 34442.821, advanced: 4776.641 }, accolades: { mvp: 12, finalsMvp: 2, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 10, allNbaSecond: 5, allNbaThird: 0, allDefFirst: 5, allDefSecond: 6, allStar: 19, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 467, pts: 14211, reb: 7161, ast: 2008, stl: 177, blk: 495, tov: 0 } },
     { name: 'Khris Middleton', years: '2013-2025', positions: ['SF', 'PF'], careerYears: 14, championships: 1, categoryRaw: { playerAccolades: 6, teamAccolades: 65.2, stats: 23080.117, advanced: 2287.424 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 735, pts: 12586, reb: 3598, ast: 2990, stl: 870, blk: 144, tov: 1586 } },
-    { name: 'Bob Dandridge', years: '1969-1977, 1981-1982', positions: ['SF', 'PF'], careerYears: 14, championships: 1, categoryRaw: { playerAccolades: 18, teamAccolades: 62.65, stats: 23779.701, advanced: 2509.395 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 1, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 618, pts: 11478, reb: 4497, ast: 1956, stl: 444, blk: 157, tov: 11 } },
+    { name: 'Bob Dandridge', years: '1969-1977, 1981-1982', positions: ['SF', 'PF'], archetypes: ['STRETCH_BIG'], careerYears: 14, championships: 1, categoryRaw: { playerAccolades: 18, teamAccolades: 62.65, stats: 23779.701, advanced: 2509.395 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 1, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 618, pts: 11478, reb: 4497, ast: 1956, stl: 444, blk: 157, tov: 11 } },
     { name: 'Jon McGlocklin', years: '1968-1976', positions: ['PG', 'SG'], careerYears: 11, championships: 1, categoryRaw: { playerAccolades: 2, teamAccolades: 61.8, stats: 15670.146, advanced: 1854.241 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 595, pts: 7505, reb: 1432, ast: 1921, stl: 102, blk: 13, tov: 0 } },
-    { name: 'Sidney Moncrief', years: '1979-1989', positions: ['PG', 'SG'], careerYears: 12, categoryRaw: { playerAccolades: 82, teamAccolades: 39.5, stats: 23074.364, advanced: 2487.12 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 2, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 4, allNbaThird: 0, allDefFirst: 4, allDefSecond: 1, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 695, pts: 11594, reb: 3447, ast: 2689, stl: 874, blk: 217, tov: 1485 } },
-    { name: 'Brook Lopez', years: '2018-2025', positions: ['C'], careerYears: 18, championships: 1, categoryRaw: { playerAccolades: 9, teamAccolades: 60.95, stats: 16089.046, advanced: 1946.385 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 1, allDefSecond: 1, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 469, pts: 6112, reb: 2438, ast: 622, stl: 275, blk: 990, tov: 498 } },
-    { name: 'Marques Johnson', years: '1977-1984', positions: ['SF', 'PF'], careerYears: 13, categoryRaw: { playerAccolades: 31, teamAccolades: 36.95, stats: 23847.305, advanced: 2543.14 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 524, pts: 10980, reb: 3923, ast: 1934, stl: 697, blk: 439, tov: 1241 } },
+    { name: 'Sidney Moncrief', years: '1979-1989', positions: ['PG', 'SG'], archetypes: ['THREE_AND_D_WING'], careerYears: 12, categoryRaw: { playerAccolades: 82, teamAccolades: 39.5, stats: 23074.364, advanced: 2487.12 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 2, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 4, allNbaThird: 0, allDefFirst: 4, allDefSecond: 1, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 695, pts: 11594, reb: 3447, ast: 2689, stl: 874, blk: 217, tov: 1485 } },
+    { name: 'Brook Lopez', years: '2018-2025', positions: ['C'], archetypes: ['RIM_PROTECTOR'], careerYears: 18, championships: 1, categoryRaw: { playerAccolades: 9, teamAccolades: 60.95, stats: 16089.046, advanced: 1946.385 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 1, allDefSecond: 1, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 469, pts: 6112, reb: 2438, ast: 622, stl: 275, blk: 990, tov: 498 } },
+    { name: 'Marques Johnson', years: '1977-1984', positions: ['SF', 'PF'], archetypes: ['STRETCH_BIG'], careerYears: 13, categoryRaw: { playerAccolades: 31, teamAccolades: 36.95, stats: 23847.305, advanced: 2543.14 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 524, pts: 10980, reb: 3923, ast: 1934, stl: 697, blk: 439, tov: 1241 } },
     { name: 'Michael Redd', years: '2000-2011', positions: ['PG', 'SG'], careerYears: 12, categoryRaw: { playerAccolades: 6, teamAccolades: 40.35, stats: 19932.526, advanced: 2182.871 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 578, pts: 11554, reb: 2334, ast: 1305, stl: 566, blk: 66, tov: 926 } },
-    { name: 'Glenn Robinson', years: '1994-2002', positions: ['SF', 'PF'], careerYears: 11, categoryRaw: { playerAccolades: 4, teamAccolades: 37.8, stats: 21645.778, advanced: 2229.069 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 568, pts: 12010, reb: 3519, ast: 1609, stl: 689, blk: 351, tov: 1786 } },
-    { name: 'Paul Pressey', years: '1982-1990', positions: ['PG', 'SG'], careerYears: 11, categoryRaw: { playerAccolades: 11, teamAccolades: 37.8, stats: 19741.262, advanced: 2220.535 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 2, allDefSecond: 1, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 580, pts: 6906, reb: 2496, ast: 3272, stl: 894, blk: 372, tov: 1483 } },
-    { name: 'Terry Cummings', years: '1984-1989, 1995-1996', positions: ['SF', 'PF'], careerYears: 18, categoryRaw: { playerAccolades: 26, teamAccolades: 36.1, stats: 21621.642, advanced: 2498.214 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 480, pts: 9290, reb: 3758, ast: 1118, stl: 607, blk: 347, tov: 993 } },
+    { name: 'Glenn Robinson', years: '1994-2002', positions: ['SF', 'PF'], archetypes: ['SLASHER'], careerYears: 11, categoryRaw: { playerAccolades: 4, teamAccolades: 37.8, stats: 21645.778, advanced: 2229.069 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 568, pts: 12010, reb: 3519, ast: 1609, stl: 689, blk: 351, tov: 1786 } },
+    { name: 'Paul Pressey', years: '1982-1990', positions: ['PG', 'SG'], archetypes: ['THREE_AND_D_WING'], careerYears: 11, categoryRaw: { playerAccolades: 11, teamAccolades: 37.8, stats: 19741.262, advanced: 2220.535 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 2, allDefSecond: 1, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 580, pts: 6906, reb: 2496, ast: 3272, stl: 894, blk: 372, tov: 1483 } },
+    { name: 'Terry Cummings', years: '1984-1989, 1995-1996', positions: ['SF', 'PF'], archetypes: ['STRETCH_BIG'], careerYears: 18, categoryRaw: { playerAccolades: 26, teamAccolades: 36.1, stats: 21621.642, advanced: 2498.214 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 480, pts: 9290, reb: 3758, ast: 1118, stl: 607, blk: 347, tov: 993 } },
     { name: 'Brian Winters', years: '1975-1983', positions: ['PG', 'SG'], careerYears: 9, categoryRaw: { playerAccolades: 4, teamAccolades: 37.8, stats: 19281.913, advanced: 2115.874 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 582, pts: 9743, reb: 1550, ast: 2479, stl: 718, blk: 172, tov: 1014 } },
     { name: 'Ray Allen', years: '1996-2003', positions: ['PG', 'SG'], careerYears: 18, categoryRaw: { playerAccolades: 30, teamAccolades: 36.95, stats: 19495.732, advanced: 2223.11 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 10, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 494, pts: 9681, reb: 2260, ast: 1861, stl: 618, blk: 97, tov: 1197 } },
     { name: 'Junior Bridgeman', years: '1975-1984, 1986-1987', positions: ['SF', 'PF'], careerYears: 12, categoryRaw: { playerAccolades: 0, teamAccolades: 39.5, stats: 17598.352, advanced: 1788.717 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 711, pts: 9892, reb: 2642, ast: 1787, stl: 607, blk: 194, tov: 985 } },
   ],
   MIN: [
-    { name: 'Kevin Garnett', years: '1995-2007, 2014-2016', positions: ['SF', 'PF'], careerYears: 21, categoryRaw: { playerAccolades: 195, teamAccolades: 42.9, stats: 40375.703, advanced: 3503.296 }, accolades: { mvp: 2, finalsMvp: 0, dpoy: 1, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 4, allNbaSecond: 3, allNbaThird: 2, allDefFirst: 9, allDefSecond: 3, allStar: 15, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 970, pts: 19201, reb: 10718, ast: 4216, stl: 1315, blk: 1590, tov: 2404 } },
-    { name: 'Karl-Anthony Towns', years: '2015-2024', positions: ['SF', 'PF', 'C'], careerYears: 11, categoryRaw: { playerAccolades: 30, teamAccolades: 38.65, stats: 27905.758, advanced: 2875.379 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 3, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 573, pts: 13121, reb: 6216, ast: 1815, stl: 452, blk: 721, tov: 1553 } },
-    { name: 'Anthony Edwards', years: '2020-2026', positions: ['PG', 'SG'], careerYears: 7, categoryRaw: { playerAccolades: 20, teamAccolades: 36.1, stats: 22085.501, advanced: 2622.335 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 428, pts: 10485, reb: 2263, ast: 1772, stl: 567, blk: 271, tov: 1226 } },
-    { name: 'Corey Brewer', years: '2007-2011, 2013-2015', positions: ['PG', 'SG', 'SF', 'PF'], careerYears: 13, championships: 1, categoryRaw: { playerAccolades: 0, teamAccolades: 60.1, stats: 10570.47, advanced: 1611.009 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 337, pts: 3350, reb: 1073, ast: 619, stl: 502, blk: 105, tov: 498 } },
-    { name: 'Kevin Love', years: '2008-2014', positions: ['SF', 'PF', 'C'], careerYears: 18, categoryRaw: { playerAccolades: 26, teamAccolades: 36.1, stats: 21625.267, advanced: 2785.896 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 364, pts: 6989, reb: 4453, ast: 898, stl: 242, blk: 173, tov: 753 } },
-    { name: 'Rudy Gobert', years: '2022-2026', positions: ['C'], careerYears: 13, categoryRaw: { playerAccolades: 95, teamAccolades: 34.4, stats: 15616.341, advanced: 2333.874 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 4, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 3, allDefFirst: 7, allDefSecond: 1, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 273, pts: 3481, reb: 3200, ast: 407, stl: 205, blk: 451, tov: 402 } },
+    { name: 'Kevin Garnett', years: '1995-2007, 2014-2016', positions: ['SF', 'PF'], archetypes: ['RIM_PROTECTOR', 'POST_SCORER'], careerYears: 21, categoryRaw: { playerAccolades: 195, teamAccolades: 42.9, stats: 40375.703, advanced: 3503.296 }, accolades: { mvp: 2, finalsMvp: 0, dpoy: 1, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 4, allNbaSecond: 3, allNbaThird: 2, allDefFirst: 9, allDefSecond: 3, allStar: 15, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 970, pts: 19201, reb: 10718, ast: 4216, stl: 1315, blk: 1590, tov: 2404 } },
+    { name: 'Karl-Anthony Towns', years: '2015-2024', positions: ['SF', 'PF', 'C'], archetypes: ['POST_SCORER'], careerYears: 11, categoryRaw: { playerAccolades: 30, teamAccolades: 38.65, stats: 27905.758, advanced: 2875.379 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 3, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 573, pts: 13121, reb: 6216, ast: 1815, stl: 452, blk: 721, tov: 1553 } },
+    { name: 'Anthony Edwards', years: '2020-2026', positions: ['PG', 'SG'], archetypes: ['SLASHER'], careerYears: 7, categoryRaw: { playerAccolades: 20, teamAccolades: 36.1, stats: 22085.501, advanced: 2622.335 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 428, pts: 10485, reb: 2263, ast: 1772, stl: 567, blk: 271, tov: 1226 } },
+    { name: 'Corey Brewer', years: '2007-2011, 2013-2015', positions: ['PG', 'SG', 'SF', 'PF'], archetypes: ['THREE_AND_D_WING'], careerYears: 13, championships: 1, categoryRaw: { playerAccolades: 0, teamAccolades: 60.1, stats: 10570.47, advanced: 1611.009 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 337, pts: 3350, reb: 1073, ast: 619, stl: 502, blk: 105, tov: 498 } },
+    { name: 'Kevin Love', years: '2008-2014', positions: ['SF', 'PF', 'C'], archetypes: ['POST_SCORER'], careerYears: 18, categoryRaw: { playerAccolades: 26, teamAccolades: 36.1, stats: 21625.267, advanced: 2785.896 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 364, pts: 6989, reb: 4453, ast: 898, stl: 242, blk: 173, tov: 753 } },
+    { name: 'Rudy Gobert', years: '2022-2026', positions: ['C'], archetypes: ['RIM_PROTECTOR'], careerYears: 13, categoryRaw: { playerAccolades: 95, teamAccolades: 34.4, stats: 15616.341, advanced: 2333.874 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 4, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 3, allDefFirst: 7, allDefSecond: 1, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 273, pts: 3481, reb: 3200, ast: 407, stl: 205, blk: 451, tov: 402 } },
     { name: 'Andrew Wiggins', years: '2014-2020', positions: ['SF', 'PF'], careerYears: 12, categoryRaw: { playerAccolades: 8, teamAccolades: 36.1, stats: 17543.52, advanced: 2060.019 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 442, pts: 8710, reb: 1922, ast: 1022, stl: 436, blk: 261, tov: 929 } },
-    { name: 'Ricky Rubio', years: '2011-2017, 2020-2021', positions: ['PG', 'SG'], careerYears: 12, categoryRaw: { playerAccolades: 0, teamAccolades: 36.95, stats: 16275.784, advanced: 1993.362 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 421, pts: 4235, reb: 1721, ast: 3424, stl: 845, blk: 49, tov: 1087 } },
-    { name: 'Tom Gugliotta', years: '1994-1998', positions: ['SF', 'PF'], careerYears: 13, categoryRaw: { playerAccolades: 2, teamAccolades: 34.4, stats: 16371.858, advanced: 2364.794 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 231, pts: 4201, reb: 1970, ast: 879, stl: 391, blk: 235, tov: 717 } },
+    { name: 'Ricky Rubio', years: '2011-2017, 2020-2021', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 12, categoryRaw: { playerAccolades: 0, teamAccolades: 36.95, stats: 16275.784, advanced: 1993.362 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 421, pts: 4235, reb: 1721, ast: 3424, stl: 845, blk: 49, tov: 1087 } },
+    { name: 'Tom Gugliotta', years: '1994-1998', positions: ['SF', 'PF'], archetypes: ['POST_SCORER'], careerYears: 13, categoryRaw: { playerAccolades: 2, teamAccolades: 34.4, stats: 16371.858, advanced: 2364.794 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 231, pts: 4201, reb: 1970, ast: 879, stl: 391, blk: 235, tov: 717 } },
     { name: 'Naz Reid', years: '2019-2026', positions: ['SF', 'PF', 'C'], careerYears: 7, categoryRaw: { playerAccolades: 4, teamAccolades: 36.95, stats: 14236.377, advanced: 1752.428 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 1, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 463, pts: 5513, reb: 2349, ast: 685, stl: 314, blk: 421, tov: 576 } },
     { name: 'Wally Szczerbiak', years: '1999-2006', positions: ['PG', 'SG', 'SF', 'PF'], careerYears: 10, categoryRaw: { playerAccolades: 2, teamAccolades: 36.95, stats: 15007.056, advanced: 1874.019 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 438, pts: 6777, reb: 1932, ast: 1190, stl: 300, blk: 131, tov: 735 } },
     { name: 'Sam Mitchell', years: '1989-1992, 1995-2002', positions: ['SF', 'PF'], careerYears: 13, categoryRaw: { playerAccolades: 0, teamAccolades: 39.5, stats: 15080.182, advanced: 1604.755 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 757, pts: 7161, reb: 3030, ast: 887, stl: 449, blk: 262, tov: 683 } },
-    { name: 'Al Jefferson', years: '2007-2010', positions: ['C'], careerYears: 14, categoryRaw: { playerAccolades: 4, teamAccolades: 33.55, stats: 16609.251, advanced: 2422.833 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 208, pts: 4183, reb: 2162, ast: 333, stl: 176, blk: 300, tov: 395 } },
-    { name: 'Terrell Brandon', years: '1998-2002', positions: ['PG', 'SG'], careerYears: 12, categoryRaw: { playerAccolades: 4, teamAccolades: 34.4, stats: 14896.605, advanced: 2279.786 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 202, pts: 3157, reb: 710, ast: 1681, stl: 386, blk: 64, tov: 420 } },
+    { name: 'Al Jefferson', years: '2007-2010', positions: ['C'], archetypes: ['POST_SCORER'], careerYears: 14, categoryRaw: { playerAccolades: 4, teamAccolades: 33.55, stats: 16609.251, advanced: 2422.833 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 208, pts: 4183, reb: 2162, ast: 333, stl: 176, blk: 300, tov: 395 } },
+    { name: 'Terrell Brandon', years: '1998-2002', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 12, categoryRaw: { playerAccolades: 4, teamAccolades: 34.4, stats: 14896.605, advanced: 2279.786 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 202, pts: 3157, reb: 710, ast: 1681, stl: 386, blk: 64, tov: 420 } },
     { name: 'Doug West', years: '1989-1998', positions: ['PG', 'SG'], careerYears: 12, categoryRaw: { playerAccolades: 0, teamAccolades: 38.65, stats: 13932.756, advanced: 1662.302 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 609, pts: 6216, reb: 1559, ast: 1216, stl: 428, blk: 170, tov: 788 } },
   ],
   NOP: [
-    { name: 'Anthony Davis', years: '2012-2019', positions: ['SF', 'PF', 'C'], careerYears: 14, categoryRaw: { playerAccolades: 80, teamAccolades: 36.95, stats: 28125.077, advanced: 3288.857 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 4, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 3, allDefSecond: 2, allStar: 10, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 466, pts: 11059, reb: 4905, ast: 982, stl: 639, blk: 1121, tov: 869 } },
-    { name: 'Chris Paul', years: '2005-2011', positions: ['PG', 'SG'], careerYears: 21, categoryRaw: { playerAccolades: 144, teamAccolades: 36.1, stats: 24536.64, advanced: 3039.394 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 4, allNbaSecond: 5, allNbaThird: 2, allDefFirst: 7, allDefSecond: 2, allStar: 12, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 425, pts: 7936, reb: 1951, ast: 4228, stl: 1010, blk: 36, tov: 1065 } },
-    { name: 'Zion Williamson', years: '2019-2021, 2022-2026', positions: ['SF', 'PF'], careerYears: 7, categoryRaw: { playerAccolades: 4, teamAccolades: 36.1, stats: 18242.323, advanced: 2592.539 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 256, pts: 6196, reb: 1667, ast: 1070, stl: 261, blk: 163, tov: 701 } },
-    { name: 'Jrue Holiday', years: '2013-2020', positions: ['PG', 'SG'], careerYears: 17, categoryRaw: { playerAccolades: 25, teamAccolades: 36.95, stats: 20074.124, advanced: 2428.345 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 3, allDefSecond: 3, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 415, pts: 7321, reb: 1728, ast: 2833, stl: 638, blk: 267, tov: 1164 } },
+    { name: 'Anthony Davis', years: '2012-2019', positions: ['SF', 'PF', 'C'], archetypes: ['RIM_PROTECTOR', 'POST_SCORER'], careerYears: 14, categoryRaw: { playerAccolades: 80, teamAccolades: 36.95, stats: 28125.077, advanced: 3288.857 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 4, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 3, allDefSecond: 2, allStar: 10, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 466, pts: 11059, reb: 4905, ast: 982, stl: 639, blk: 1121, tov: 869 } },
+    { name: 'Chris Paul', years: '2005-2011', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 21, categoryRaw: { playerAccolades: 144, teamAccolades: 36.1, stats: 24536.64, advanced: 3039.394 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 4, allNbaSecond: 5, allNbaThird: 2, allDefFirst: 7, allDefSecond: 2, allStar: 12, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 425, pts: 7936, reb: 1951, ast: 4228, stl: 1010, blk: 36, tov: 1065 } },
+    { name: 'Zion Williamson', years: '2019-2021, 2022-2026', positions: ['SF', 'PF'], archetypes: ['SLASHER'], careerYears: 7, categoryRaw: { playerAccolades: 4, teamAccolades: 36.1, stats: 18242.323, advanced: 2592.539 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 256, pts: 6196, reb: 1667, ast: 1070, stl: 261, blk: 163, tov: 701 } },
+    { name: 'Jrue Holiday', years: '2013-2020', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 17, categoryRaw: { playerAccolades: 25, teamAccolades: 36.95, stats: 20074.124, advanced: 2428.345 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 3, allDefSecond: 3, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 415, pts: 7321, reb: 1728, ast: 2833, stl: 638, blk: 267, tov: 1164 } },
     { name: 'Peja Stojakovic', years: '2006-2011', positions: ['SF', 'PF'], careerYears: 13, championships: 1, categoryRaw: { playerAccolades: 12, teamAccolades: 59.25, stats: 9874.752, advanced: 1657.417 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 219, pts: 3135, reb: 882, ast: 280, stl: 167, blk: 22, tov: 191 } },
-    { name: 'David West', years: '2003-2011', positions: ['SF', 'PF'], careerYears: 15, categoryRaw: { playerAccolades: 4, teamAccolades: 37.8, stats: 19907.268, advanced: 2252.269 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 530, pts: 8690, reb: 3853, ast: 1042, stl: 396, blk: 435, tov: 931 } },
-    { name: 'Brandon Ingram', years: '2019-2025', positions: ['SF', 'PF'], careerYears: 10, categoryRaw: { playerAccolades: 8, teamAccolades: 36.1, stats: 17843.461, advanced: 2372.097 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 305, pts: 7017, reb: 1669, ast: 1580, stl: 235, blk: 170, tov: 874 } },
+    { name: 'David West', years: '2003-2011', positions: ['SF', 'PF'], archetypes: ['STRETCH_BIG'], careerYears: 15, categoryRaw: { playerAccolades: 4, teamAccolades: 37.8, stats: 19907.268, advanced: 2252.269 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 530, pts: 8690, reb: 3853, ast: 1042, stl: 396, blk: 435, tov: 931 } },
+    { name: 'Brandon Ingram', years: '2019-2025', positions: ['SF', 'PF'], archetypes: ['SLASHER'], careerYears: 10, categoryRaw: { playerAccolades: 8, teamAccolades: 36.1, stats: 17843.461, advanced: 2372.097 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 305, pts: 7017, reb: 1669, ast: 1580, stl: 235, blk: 170, tov: 874 } },
     { name: 'Trey Murphy III', years: '2021-2026', positions: ['SF', 'PF'], careerYears: 5, categoryRaw: { playerAccolades: 0, teamAccolades: 35.25, stats: 14825.337, advanced: 2082.597 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 303, pts: 4597, reb: 1273, ast: 661, stl: 297, blk: 133, tov: 309 } },
-    { name: 'CJ McCollum', years: '2021-2025', positions: ['PG', 'SG'], careerYears: 13, categoryRaw: { playerAccolades: 4, teamAccolades: 34.4, stats: 15554.952, advanced: 2266.997 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 223, pts: 4704, reb: 942, ast: 1113, stl: 212, blk: 104, tov: 456 } },
-    { name: 'Baron Davis', years: '2002-2005', positions: ['PG', 'SG'], careerYears: 13, categoryRaw: { playerAccolades: 8, teamAccolades: 33.55, stats: 14778.269, advanced: 2341.447 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 135, pts: 2728, reb: 540, ast: 950, stl: 280, blk: 53, tov: 393 } },
+    { name: 'CJ McCollum', years: '2021-2025', positions: ['PG', 'SG'], archetypes: ['SLASHER'], careerYears: 13, categoryRaw: { playerAccolades: 4, teamAccolades: 34.4, stats: 15554.952, advanced: 2266.997 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 223, pts: 4704, reb: 942, ast: 1113, stl: 212, blk: 104, tov: 456 } },
+    { name: 'Baron Davis', years: '2002-2005', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL', 'SLASHER'], careerYears: 13, categoryRaw: { playerAccolades: 8, teamAccolades: 33.55, stats: 14778.269, advanced: 2341.447 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 135, pts: 2728, reb: 540, ast: 950, stl: 280, blk: 53, tov: 393 } },
     { name: 'Tyreke Evans', years: '2013-2017', positions: ['PG', 'SG'], careerYears: 10, categoryRaw: { playerAccolades: 6, teamAccolades: 34.4, stats: 12989.456, advanced: 1993.45 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 202, pts: 2982, reb: 972, ast: 1139, stl: 239, blk: 70, tov: 533 } },
-    { name: 'Tyson Chandler', years: '2006-2009', positions: ['C'], careerYears: 19, categoryRaw: { playerAccolades: 26, teamAccolades: 33.55, stats: 11459.223, advanced: 1809.338 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 1, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 1, allDefSecond: 2, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 197, pts: 2016, reb: 2225, ast: 169, stl: 97, blk: 269, tov: 332 } },
+    { name: 'Tyson Chandler', years: '2006-2009', positions: ['C'], archetypes: ['RIM_PROTECTOR'], careerYears: 19, categoryRaw: { playerAccolades: 26, teamAccolades: 33.55, stats: 11459.223, advanced: 1809.338 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 1, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 1, allDefSecond: 2, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 197, pts: 2016, reb: 2225, ast: 169, stl: 97, blk: 269, tov: 332 } },
     { name: 'P.J. Brown', years: '2002-2006', positions: ['SF', 'PF', 'C'], careerYears: 15, categoryRaw: { playerAccolades: 9, teamAccolades: 34.4, stats: 12697.544, advanced: 1788.876 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 3, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 315, pts: 3231, reb: 2675, ast: 570, stl: 265, blk: 253, tov: 390 } },
     { name: 'Jonas Valančiūnas', years: '2021-2024', positions: ['C'], careerYears: 14, categoryRaw: { playerAccolades: 0, teamAccolades: 33.55, stats: 13989.328, advanced: 1961.012 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 235, pts: 3431, reb: 2368, ast: 503, stl: 93, blk: 180, tov: 449 } },
-    { name: 'Herbert Jones', years: '2021-2026', positions: ['SF', 'PF'], careerYears: 5, categoryRaw: { playerAccolades: 4, teamAccolades: 35.25, stats: 10369.912, advanced: 1554.214 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 1, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 275, pts: 2748, reb: 1038, ast: 686, stl: 429, blk: 190, tov: 363 } },
+    { name: 'Herbert Jones', years: '2021-2026', positions: ['SF', 'PF'], archetypes: ['THREE_AND_D_WING'], careerYears: 5, categoryRaw: { playerAccolades: 4, teamAccolades: 35.25, stats: 10369.912, advanced: 1554.214 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 1, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 275, pts: 2748, reb: 1038, ast: 686, stl: 429, blk: 190, tov: 363 } },
   ],
   NYK: [
-    { name: 'Willis Reed', years: '1964-1974', positions: ['C'], careerYears: 11, championships: 2, categoryRaw: { playerAccolades: 137, teamAccolades: 87.5, stats: 26112.292, advanced: 2952.673 }, accolades: { mvp: 2, finalsMvp: 2, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 4, allNbaThird: 0, allDefFirst: 1, allDefSecond: 0, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 650, pts: 12183, reb: 8414, ast: 1186, stl: 12, blk: 21, tov: 0 } },
-    { name: 'Walt Frazier', years: '1967-1977', positions: ['PG', 'SG'], careerYears: 13, championships: 2, categoryRaw: { playerAccolades: 90, teamAccolades: 87.5, stats: 29533.806, advanced: 2963.192 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 4, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 7, allDefSecond: 0, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 759, pts: 14617, reb: 4598, ast: 4791, stl: 589, blk: 47, tov: 0 } },
-    { name: 'Patrick Ewing', years: '1985-2000', positions: ['C'], careerYears: 17, categoryRaw: { playerAccolades: 88, teamAccolades: 43.75, stats: 41432.324, advanced: 3171.966 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 6, allNbaThird: 0, allDefFirst: 0, allDefSecond: 3, allStar: 11, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 1039, pts: 23665, reb: 10759, ast: 2088, stl: 1061, blk: 2758, tov: 3321 } },
+    { name: 'Willis Reed', years: '1964-1974', positions: ['C'], archetypes: ['POST_SCORER'], careerYears: 11, championships: 2, categoryRaw: { playerAccolades: 137, teamAccolades: 87.5, stats: 26112.292, advanced: 2952.673 }, accolades: { mvp: 2, finalsMvp: 2, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 4, allNbaThird: 0, allDefFirst: 1, allDefSecond: 0, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 650, pts: 12183, reb: 8414, ast: 1186, stl: 12, blk: 21, tov: 0 } },
+    { name: 'Walt Frazier', years: '1967-1977', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 13, championships: 2, categoryRaw: { playerAccolades: 90, teamAccolades: 87.5, stats: 29533.806, advanced: 2963.192 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 4, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 7, allDefSecond: 0, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 759, pts: 14617, reb: 4598, ast: 4791, stl: 589, blk: 47, tov: 0 } },
+    { name: 'Patrick Ewing', years: '1985-2000', positions: ['C'], archetypes: ['RIM_PROTECTOR', 'POST_SCORER'], careerYears: 17, categoryRaw: { playerAccolades: 88, teamAccolades: 43.75, stats: 41432.324, advanced: 3171.966 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 6, allNbaThird: 0, allDefFirst: 0, allDefSecond: 3, allStar: 11, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 1039, pts: 23665, reb: 10759, ast: 2088, stl: 1061, blk: 2758, tov: 3321 } },
     { name: 'Dave DeBusschere', years: '1968-1974', positions: ['SF', 'PF'], careerYears: 12, championships: 2, categoryRaw: { playerAccolades: 46, teamAccolades: 84.1, stats: 19759.651, advanced: 2478.797 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 6, allDefSecond: 0, allStar: 8, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 435, pts: 6957, reb: 4671, ast: 1345, stl: 67, blk: 39, tov: 0 } },
     { name: 'Bill Bradley', years: '1967-1977', positions: ['SF', 'PF'], careerYears: 10, championships: 2, categoryRaw: { playerAccolades: 2, teamAccolades: 87.5, stats: 17273.722, advanced: 1841.624 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 742, pts: 9217, reb: 2354, ast: 2533, stl: 209, blk: 65, tov: 0 } },
     { name: 'Earl Monroe', years: '1971-1980', positions: ['PG', 'SG'], careerYears: 13, championships: 1, categoryRaw: { playerAccolades: 29, teamAccolades: 62.65, stats: 19447.503, advanced: 2301.7 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 598, pts: 9679, reb: 1573, ast: 2087, stl: 473, blk: 121, tov: 305 } },
     { name: 'Dick Barnett', years: '1965-1974', positions: ['PG', 'SG'], careerYears: 15, championships: 2, categoryRaw: { playerAccolades: 2, teamAccolades: 86.65, stats: 17229.17, advanced: 2001.829 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 604, pts: 9442, reb: 1682, ast: 1730, stl: 1, blk: 0, tov: 0 } },
-    { name: 'Richie Guerin', years: '1956-1963', positions: ['PG', 'SG'], careerYears: 14, categoryRaw: { playerAccolades: 30, teamAccolades: 36.95, stats: 23890.738, advanced: 2643.83 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 3, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 516, pts: 10366, reb: 3306, ast: 2721, stl: 0, blk: 0, tov: 0 } },
-    { name: 'Carmelo Anthony', years: '2010-2017', positions: ['SF', 'PF'], careerYears: 19, categoryRaw: { playerAccolades: 48, teamAccolades: 36.95, stats: 21675.142, advanced: 2598.952 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 4, allDefFirst: 0, allDefSecond: 0, allStar: 10, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 412, pts: 10186, reb: 2865, ast: 1328, stl: 396, blk: 211, tov: 999 } },
+    { name: 'Richie Guerin', years: '1956-1963', positions: ['PG', 'SG'], archetypes: ['SLASHER'], careerYears: 14, categoryRaw: { playerAccolades: 30, teamAccolades: 36.95, stats: 23890.738, advanced: 2643.83 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 3, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 516, pts: 10366, reb: 3306, ast: 2721, stl: 0, blk: 0, tov: 0 } },
+    { name: 'Carmelo Anthony', years: '2010-2017', positions: ['SF', 'PF'], archetypes: ['SLASHER'], careerYears: 19, categoryRaw: { playerAccolades: 48, teamAccolades: 36.95, stats: 21675.142, advanced: 2598.952 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 4, allDefFirst: 0, allDefSecond: 0, allStar: 10, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 412, pts: 10186, reb: 2865, ast: 1328, stl: 396, blk: 211, tov: 999 } },
     { name: 'Harry Gallatin', years: '1948-1957', positions: ['SF', 'PF'], careerYears: 10, categoryRaw: { playerAccolades: 29, teamAccolades: 38.65, stats: 19582.128, advanced: 2146.574 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 610, pts: 7771, reb: 5935, ast: 1122, stl: 0, blk: 0, tov: 0 } },
-    { name: 'Willie Naulls', years: '1956-1962', positions: ['SF', 'PF'], careerYears: 10, categoryRaw: { playerAccolades: 8, teamAccolades: 36.1, stats: 21284.648, advanced: 2601.166 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 426, pts: 8125, reb: 4982, ast: 804, stl: 0, blk: 0, tov: 0 } },
-    { name: 'Julius Randle', years: '2019-2024', positions: ['SF', 'PF', 'C'], careerYears: 12, categoryRaw: { playerAccolades: 20, teamAccolades: 35.25, stats: 20368.267, advanced: 2617.493 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 330, pts: 7445, reb: 3252, ast: 1540, stl: 242, blk: 112, tov: 1054 } },
-    { name: 'Mark Jackson', years: '1987-1992, 2000-2002', positions: ['PG', 'SG'], careerYears: 17, categoryRaw: { playerAccolades: 14, teamAccolades: 36.95, stats: 19031.081, advanced: 2197.234 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 500, pts: 5544, reb: 1986, ast: 4005, stl: 720, blk: 40, tov: 1249 } },
+    { name: 'Willie Naulls', years: '1956-1962', positions: ['SF', 'PF'], archetypes: ['POST_SCORER'], careerYears: 10, categoryRaw: { playerAccolades: 8, teamAccolades: 36.1, stats: 21284.648, advanced: 2601.166 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 426, pts: 8125, reb: 4982, ast: 804, stl: 0, blk: 0, tov: 0 } },
+    { name: 'Julius Randle', years: '2019-2024', positions: ['SF', 'PF', 'C'], archetypes: ['POST_SCORER'], careerYears: 12, categoryRaw: { playerAccolades: 20, teamAccolades: 35.25, stats: 20368.267, advanced: 2617.493 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 330, pts: 7445, reb: 3252, ast: 1540, stl: 242, blk: 112, tov: 1054 } },
+    { name: 'Mark Jackson', years: '1987-1992, 2000-2002', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 17, categoryRaw: { playerAccolades: 14, teamAccolades: 36.95, stats: 19031.081, advanced: 2197.234 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 500, pts: 5544, reb: 1986, ast: 4005, stl: 720, blk: 40, tov: 1249 } },
     { name: 'Carl Braun', years: '1947-1950, 1952-1961', positions: ['PG', 'SG'], careerYears: 15, categoryRaw: { playerAccolades: 22, teamAccolades: 41.2, stats: 18415.932, advanced: 1799.342 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 740, pts: 10449, reb: 2072, ast: 2821, stl: 0, blk: 0, tov: 0 } },
     { name: 'Charles Oakley', years: '1988-1998', positions: ['SF', 'PF'], careerYears: 19, categoryRaw: { playerAccolades: 9, teamAccolades: 39.5, stats: 20567.329, advanced: 1995.531 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 1, allDefSecond: 1, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 727, pts: 7528, reb: 7291, ast: 1699, stl: 844, blk: 159, tov: 1572 } },
   ],
   OKC: [
-    { name: 'Shai Gilgeous-Alexander', years: '2019-2026', positions: ['PG', 'SG'], careerYears: 8, championships: 1, categoryRaw: { playerAccolades: 75, teamAccolades: 60.95, stats: 26337.491, advanced: 3297.189 }, accolades: { mvp: 1, finalsMvp: 1, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 3, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 429, pts: 11963, reb: 2197, ast: 2406, stl: 634, blk: 363, tov: 1034 } },
-    { name: 'Gary Payton', years: '1990-2003', positions: ['PG', 'SG'], careerYears: 17, categoryRaw: { playerAccolades: 120, teamAccolades: 42.05, stats: 34985.663, advanced: 2935.246 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 1, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 2, allNbaSecond: 5, allNbaThird: 2, allDefFirst: 9, allDefSecond: 0, allStar: 9, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 999, pts: 18207, reb: 4240, ast: 7384, stl: 2107, blk: 233, tov: 2507 } },
-    { name: 'Russell Westbrook', years: '2008-2019', positions: ['PG', 'SG'], careerYears: 18, categoryRaw: { playerAccolades: 98, teamAccolades: 40.35, stats: 37710.53, advanced: 3439.561 }, accolades: { mvp: 1, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 2, allNbaSecond: 5, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 9, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 821, pts: 18859, reb: 5760, ast: 6897, stl: 1442, blk: 250, tov: 3326 } },
-    { name: 'Kevin Durant', years: '2007-2016', positions: ['SF', 'PF'], careerYears: 19, categoryRaw: { playerAccolades: 178, teamAccolades: 38.65, stats: 30312.431, advanced: 3206.55 }, accolades: { mvp: 1, finalsMvp: 2, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 6, allNbaSecond: 5, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 16, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 641, pts: 17566, reb: 4518, ast: 2363, stl: 774, blk: 639, tov: 2083 } },
+    { name: 'Shai Gilgeous-Alexander', years: '2019-2026', positions: ['PG', 'SG'], archetypes: ['SLASHER'], careerYears: 8, championships: 1, categoryRaw: { playerAccolades: 75, teamAccolades: 60.95, stats: 26337.491, advanced: 3297.189 }, accolades: { mvp: 1, finalsMvp: 1, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 3, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 429, pts: 11963, reb: 2197, ast: 2406, stl: 634, blk: 363, tov: 1034 } },
+    { name: 'Gary Payton', years: '1990-2003', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 17, categoryRaw: { playerAccolades: 120, teamAccolades: 42.05, stats: 34985.663, advanced: 2935.246 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 1, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 2, allNbaSecond: 5, allNbaThird: 2, allDefFirst: 9, allDefSecond: 0, allStar: 9, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 999, pts: 18207, reb: 4240, ast: 7384, stl: 2107, blk: 233, tov: 2507 } },
+    { name: 'Russell Westbrook', years: '2008-2019', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL', 'SLASHER'], careerYears: 18, categoryRaw: { playerAccolades: 98, teamAccolades: 40.35, stats: 37710.53, advanced: 3439.561 }, accolades: { mvp: 1, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 2, allNbaSecond: 5, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 9, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 821, pts: 18859, reb: 5760, ast: 6897, stl: 1442, blk: 250, tov: 3326 } },
+    { name: 'Kevin Durant', years: '2007-2016', positions: ['SF', 'PF'], archetypes: ['STRETCH_BIG'], careerYears: 19, categoryRaw: { playerAccolades: 178, teamAccolades: 38.65, stats: 30312.431, advanced: 3206.55 }, accolades: { mvp: 1, finalsMvp: 2, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 6, allNbaSecond: 5, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 16, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 641, pts: 17566, reb: 4518, ast: 2363, stl: 774, blk: 639, tov: 2083 } },
     { name: 'Fred Brown', years: '1971-1984', positions: ['PG', 'SG'], careerYears: 14, championships: 1, categoryRaw: { playerAccolades: 2, teamAccolades: 66.05, stats: 24819.728, advanced: 2375.032 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 963, pts: 14018, reb: 2637, ast: 3160, stl: 1149, blk: 166, tov: 840 } },
     { name: 'Jack Sikma', years: '1977-1986', positions: ['C'], careerYears: 14, championships: 1, categoryRaw: { playerAccolades: 17, teamAccolades: 62.65, stats: 27638.431, advanced: 2666.685 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 1, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 715, pts: 12034, reb: 7729, ast: 2345, stl: 755, blk: 705, tov: 1855 } },
-    { name: 'Gus Williams', years: '1977-1980, 1981-1984', positions: ['PG', 'SG'], careerYears: 12, championships: 1, categoryRaw: { playerAccolades: 19, teamAccolades: 60.1, stats: 21824.736, advanced: 2541.591 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 477, pts: 9676, reb: 1429, ast: 2865, stl: 1086, blk: 194, tov: 1219 } },
+    { name: 'Gus Williams', years: '1977-1980, 1981-1984', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL', 'SLASHER'], careerYears: 12, championships: 1, categoryRaw: { playerAccolades: 19, teamAccolades: 60.1, stats: 21824.736, advanced: 2541.591 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 477, pts: 9676, reb: 1429, ast: 2865, stl: 1086, blk: 194, tov: 1219 } },
     { name: 'Shawn Kemp', years: '1989-1997', positions: ['SF', 'PF'], careerYears: 14, categoryRaw: { playerAccolades: 30, teamAccolades: 37.8, stats: 24038.024, advanced: 2496.704 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 3, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 625, pts: 10148, reb: 5978, ast: 1096, stl: 775, blk: 959, tov: 1795 } },
-    { name: 'Spencer Haywood', years: '1970-1975', positions: ['SF', 'PF'], careerYears: 13, categoryRaw: { playerAccolades: 38, teamAccolades: 35.25, stats: 22889.355, advanced: 2943.7 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 2, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 326, pts: 8131, reb: 3954, ast: 769, stl: 119, blk: 214, tov: 0 } },
+    { name: 'Spencer Haywood', years: '1970-1975', positions: ['SF', 'PF'], archetypes: ['POST_SCORER'], careerYears: 13, categoryRaw: { playerAccolades: 38, teamAccolades: 35.25, stats: 22889.355, advanced: 2943.7 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 2, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 326, pts: 8131, reb: 3954, ast: 769, stl: 119, blk: 214, tov: 0 } },
     { name: 'Dick Snyder', years: '1969-1974, 1978-1979', positions: ['PG', 'SG'], careerYears: 13, championships: 1, categoryRaw: { playerAccolades: 0, teamAccolades: 60.1, stats: 15413.703, advanced: 1964.651 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 443, pts: 6507, reb: 1470, ast: 1607, stl: 104, blk: 32, tov: 36 } },
-    { name: 'Nate McMillan', years: '1986-1998', positions: ['PG', 'SG', 'SF', 'PF'], careerYears: 12, categoryRaw: { playerAccolades: 6, teamAccolades: 41.2, stats: 19635.712, advanced: 1883.75 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 2, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 796, pts: 4733, reb: 3222, ast: 4893, stl: 1544, blk: 356, tov: 1486 } },
+    { name: 'Nate McMillan', years: '1986-1998', positions: ['PG', 'SG', 'SF', 'PF'], archetypes: ['FLOOR_GENERAL'], careerYears: 12, categoryRaw: { playerAccolades: 6, teamAccolades: 41.2, stats: 19635.712, advanced: 1883.75 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 2, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 796, pts: 4733, reb: 3222, ast: 4893, stl: 1544, blk: 356, tov: 1486 } },
     { name: 'Rashard Lewis', years: '1998-2007', positions: ['SF', 'PF'], careerYears: 16, categoryRaw: { playerAccolades: 4, teamAccolades: 38.65, stats: 20402.575, advanced: 2121.29 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 617, pts: 10251, reb: 3595, ast: 1051, stl: 708, blk: 362, tov: 984 } },
-    { name: 'Ray Allen', years: '2002-2007', positions: ['PG', 'SG'], careerYears: 18, categoryRaw: { playerAccolades: 30, teamAccolades: 35.25, stats: 18057.383, advanced: 2431.859 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 10, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 296, pts: 7273, reb: 1375, ast: 1241, stl: 388, blk: 46, tov: 750 } },
-    { name: 'Lenny Wilkens', years: '1968-1972', positions: ['PG', 'SG'], careerYears: 15, categoryRaw: { playerAccolades: 18, teamAccolades: 34.4, stats: 18895.28, advanced: 2440.052 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 9, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 308, pts: 6010, reb: 1546, ast: 2777, stl: 0, blk: 0, tov: 0 } },
-    { name: 'Dale Ellis', years: '1986-1991, 1997-1999', positions: ['PG', 'SG'], careerYears: 17, categoryRaw: { playerAccolades: 10, teamAccolades: 36.95, stats: 18213.722, advanced: 2269.246 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 451, pts: 9405, reb: 1758, ast: 900, stl: 463, blk: 83, tov: 915 } },
+    { name: 'Ray Allen', years: '2002-2007', positions: ['PG', 'SG'], archetypes: ['SLASHER'], careerYears: 18, categoryRaw: { playerAccolades: 30, teamAccolades: 35.25, stats: 18057.383, advanced: 2431.859 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 10, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 296, pts: 7273, reb: 1375, ast: 1241, stl: 388, blk: 46, tov: 750 } },
+    { name: 'Lenny Wilkens', years: '1968-1972', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 15, categoryRaw: { playerAccolades: 18, teamAccolades: 34.4, stats: 18895.28, advanced: 2440.052 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 9, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 308, pts: 6010, reb: 1546, ast: 2777, stl: 0, blk: 0, tov: 0 } },
+    { name: 'Dale Ellis', years: '1986-1991, 1997-1999', positions: ['PG', 'SG'], archetypes: ['SLASHER'], careerYears: 17, categoryRaw: { playerAccolades: 10, teamAccolades: 36.95, stats: 18213.722, advanced: 2269.246 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 451, pts: 9405, reb: 1758, ast: 900, stl: 463, blk: 83, tov: 915 } },
   ],
   ORL: [
-    { name: 'Dwight Howard', years: '2004-2012', positions: ['SF', 'PF', 'C'], careerYears: 18, categoryRaw: { playerAccolades: 124, teamAccolades: 37.8, stats: 28193.818, advanced: 3057.595 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 3, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 5, allNbaSecond: 1, allNbaThird: 2, allDefFirst: 4, allDefSecond: 1, allStar: 8, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 621, pts: 11435, reb: 8072, ast: 935, stl: 626, blk: 1344, tov: 1930 } },
+    { name: 'Dwight Howard', years: '2004-2012', positions: ['SF', 'PF', 'C'], archetypes: ['RIM_PROTECTOR', 'POST_SCORER'], careerYears: 18, categoryRaw: { playerAccolades: 124, teamAccolades: 37.8, stats: 28193.818, advanced: 3057.595 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 3, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 5, allNbaSecond: 1, allNbaThird: 2, allDefFirst: 4, allDefSecond: 1, allStar: 8, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 621, pts: 11435, reb: 8072, ast: 935, stl: 626, blk: 1344, tov: 1930 } },
     { name: 'Nikola Vučević', years: '2012-2021', positions: ['C'], careerYears: 15, categoryRaw: { playerAccolades: 4, teamAccolades: 38.65, stats: 25846.809, advanced: 2673.596 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 591, pts: 10423, reb: 6381, ast: 1668, stl: 537, blk: 550, tov: 1080 } },
-    { name: 'Shaquille O\'Neal', years: '1992-1996', positions: ['C'], careerYears: 19, categoryRaw: { playerAccolades: 271, teamAccolades: 34.4, stats: 24493.8, advanced: 3619.57 }, accolades: { mvp: 3, finalsMvp: 3, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 8, allNbaSecond: 2, allNbaThird: 4, allDefFirst: 0, allDefSecond: 3, allStar: 15, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 295, pts: 8019, reb: 3691, ast: 716, stl: 243, blk: 824, tov: 888 } },
-    { name: 'Nick Anderson', years: '1989-1999', positions: ['PG', 'SG', 'SF', 'PF'], careerYears: 14, categoryRaw: { playerAccolades: 0, teamAccolades: 39.5, stats: 21634.144, advanced: 2142.158 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 692, pts: 10650, reb: 3667, ast: 1937, stl: 1004, blk: 338, tov: 1242 } },
+    { name: 'Shaquille O\'Neal', years: '1992-1996', positions: ['C'], archetypes: ['RIM_PROTECTOR', 'POST_SCORER'], careerYears: 19, categoryRaw: { playerAccolades: 271, teamAccolades: 34.4, stats: 24493.8, advanced: 3619.57 }, accolades: { mvp: 3, finalsMvp: 3, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 8, allNbaSecond: 2, allNbaThird: 4, allDefFirst: 0, allDefSecond: 3, allStar: 15, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 295, pts: 8019, reb: 3691, ast: 716, stl: 243, blk: 824, tov: 888 } },
+    { name: 'Nick Anderson', years: '1989-1999', positions: ['PG', 'SG', 'SF', 'PF'], archetypes: ['THREE_AND_D_WING'], careerYears: 14, categoryRaw: { playerAccolades: 0, teamAccolades: 39.5, stats: 21634.144, advanced: 2142.158 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 692, pts: 10650, reb: 3667, ast: 1937, stl: 1004, blk: 338, tov: 1242 } },
     { name: 'Jameer Nelson', years: '2004-2014', positions: ['PG', 'SG'], careerYears: 14, categoryRaw: { playerAccolades: 2, teamAccolades: 39.5, stats: 17833.835, advanced: 1859.025 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 651, pts: 8184, reb: 2038, ast: 3501, stl: 619, blk: 45, tov: 1461 } },
-    { name: 'Darrell Armstrong', years: '1994-2003', positions: ['PG', 'SG'], careerYears: 14, categoryRaw: { playerAccolades: 8, teamAccolades: 38.65, stats: 16848.982, advanced: 2023.982 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 1, mip: 1, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 502, pts: 5898, reb: 1645, ast: 2555, stl: 830, blk: 63, tov: 1159 } },
-    { name: 'Tracy McGrady', years: '2000-2004', positions: ['PG', 'SG', 'SF', 'PF'], careerYears: 16, categoryRaw: { playerAccolades: 62, teamAccolades: 34.4, stats: 22695.848, advanced: 3009.551 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 2, allNbaSecond: 3, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 295, pts: 8298, reb: 2067, ast: 1533, stl: 452, blk: 292, tov: 761 } },
-    { name: 'Anfernee Hardaway', years: '1993-1999', positions: ['SF', 'PF'], careerYears: 15, categoryRaw: { playerAccolades: 30, teamAccolades: 36.1, stats: 19450.392, advanced: 2435.925 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 2, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 369, pts: 7018, reb: 1752, ast: 2343, stl: 718, blk: 191, tov: 1120 } },
+    { name: 'Darrell Armstrong', years: '1994-2003', positions: ['PG', 'SG'], archetypes: ['THREE_AND_D_WING'], careerYears: 14, categoryRaw: { playerAccolades: 8, teamAccolades: 38.65, stats: 16848.982, advanced: 2023.982 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 1, mip: 1, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 502, pts: 5898, reb: 1645, ast: 2555, stl: 830, blk: 63, tov: 1159 } },
+    { name: 'Tracy McGrady', years: '2000-2004', positions: ['PG', 'SG', 'SF', 'PF'], archetypes: ['SLASHER'], careerYears: 16, categoryRaw: { playerAccolades: 62, teamAccolades: 34.4, stats: 22695.848, advanced: 3009.551 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 2, allNbaSecond: 3, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 295, pts: 8298, reb: 2067, ast: 1533, stl: 452, blk: 292, tov: 761 } },
+    { name: 'Anfernee Hardaway', years: '1993-1999', positions: ['SF', 'PF'], archetypes: ['THREE_AND_D_WING'], careerYears: 15, categoryRaw: { playerAccolades: 30, teamAccolades: 36.1, stats: 19450.392, advanced: 2435.925 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 2, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 369, pts: 7018, reb: 1752, ast: 2343, stl: 718, blk: 191, tov: 1120 } },
     { name: 'Hedo Turkoglu', years: '2004-2009, 2010-2013', positions: ['SF', 'PF'], careerYears: 15, categoryRaw: { playerAccolades: 4, teamAccolades: 37.8, stats: 16760.818, advanced: 1914.254 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 497, pts: 7216, reb: 2221, ast: 1927, stl: 425, blk: 137, tov: 1097 } },
     { name: 'Franz Wagner', years: '2021-2026', positions: ['SF', 'PF'], careerYears: 5, categoryRaw: { playerAccolades: 0, teamAccolades: 35.25, stats: 16930.554, advanced: 2247.092 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 319, pts: 6148, reb: 1569, ast: 1168, stl: 326, blk: 109, tov: 609 } },
     { name: 'Aaron Gordon', years: '2014-2021', positions: ['SF', 'PF'], careerYears: 12, categoryRaw: { playerAccolades: 0, teamAccolades: 36.95, stats: 15932.432, advanced: 2025.973 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 428, pts: 5507, reb: 2753, ast: 1069, stl: 328, blk: 277, tov: 629 } },
-    { name: 'Paolo Banchero', years: '2022-2026', positions: ['SF', 'PF'], careerYears: 4, categoryRaw: { playerAccolades: 8, teamAccolades: 34.4, stats: 17394.76, advanced: 2483.57 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 243, pts: 5404, reb: 1777, ast: 1139, stl: 198, blk: 146, tov: 710 } },
+    { name: 'Paolo Banchero', years: '2022-2026', positions: ['SF', 'PF'], archetypes: ['STRETCH_BIG'], careerYears: 4, categoryRaw: { playerAccolades: 8, teamAccolades: 34.4, stats: 17394.76, advanced: 2483.57 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 243, pts: 5404, reb: 1777, ast: 1139, stl: 198, blk: 146, tov: 710 } },
     { name: 'Horace Grant', years: '1994-1999, 2001-2003', positions: ['C'], careerYears: 17, categoryRaw: { playerAccolades: 14, teamAccolades: 36.95, stats: 16161.788, advanced: 2068.126 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 4, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 411, pts: 4638, reb: 3353, ast: 879, stl: 426, blk: 415, tov: 432 } },
     { name: 'Dennis Scott', years: '1990-1997', positions: ['SF', 'PF'], careerYears: 10, categoryRaw: { playerAccolades: 0, teamAccolades: 36.95, stats: 14403.818, advanced: 1792.053 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 446, pts: 6603, reb: 1363, ast: 1034, stl: 429, blk: 146, tov: 615 } },
     { name: 'Evan Fournier', years: '2014-2021', positions: ['PG', 'SG', 'SF', 'PF'], careerYears: 12, categoryRaw: { playerAccolades: 0, teamAccolades: 36.95, stats: 14683.278, advanced: 1811.859 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 435, pts: 7049, reb: 1271, ast: 1300, stl: 418, blk: 60, tov: 784 } },
   ],
   PHI: [
-    { name: 'Dolph Schayes', years: '1949-1964', positions: ['SF', 'PF'], careerYears: 15, championships: 1, categoryRaw: { playerAccolades: 114, teamAccolades: 67.75, stats: 34496.697, advanced: 2968.615 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 6, allNbaSecond: 6, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 12, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 996, pts: 18438, reb: 11256, ast: 3072, stl: 0, blk: 0, tov: 0 } },
-    { name: 'Wilt Chamberlain', years: '1964-1968', positions: ['C'], careerYears: 14, championships: 1, categoryRaw: { playerAccolades: 335, teamAccolades: 58.4, stats: 30798.807, advanced: 4621.418 }, accolades: { mvp: 8, finalsMvp: 1, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 7, allNbaSecond: 3, allNbaThird: 0, allDefFirst: 2, allDefSecond: 0, allStar: 13, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 277, pts: 7651, reb: 6632, ast: 1879, stl: 0, blk: 0, tov: 0 } },
-    { name: 'Julius Erving', years: '1976-1987', positions: ['SF', 'PF'], careerYears: 16, championships: 1, categoryRaw: { playerAccolades: 127, teamAccolades: 64.35, stats: 33672.084, advanced: 3148.041 }, accolades: { mvp: 2, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 5, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 11, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 836, pts: 18364, reb: 5601, ast: 3224, stl: 1508, blk: 1293, tov: 2323 } },
+    { name: 'Dolph Schayes', years: '1949-1964', positions: ['SF', 'PF'], archetypes: ['POST_SCORER'], careerYears: 15, championships: 1, categoryRaw: { playerAccolades: 114, teamAccolades: 67.75, stats: 34496.697, advanced: 2968.615 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 6, allNbaSecond: 6, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 12, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 996, pts: 18438, reb: 11256, ast: 3072, stl: 0, blk: 0, tov: 0 } },
+    { name: 'Wilt Chamberlain', years: '1964-1968', positions: ['C'], archetypes: ['RIM_PROTECTOR', 'POST_SCORER'], careerYears: 14, championships: 1, categoryRaw: { playerAccolades: 335, teamAccolades: 58.4, stats: 30798.807, advanced: 4621.418 }, accolades: { mvp: 8, finalsMvp: 1, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 7, allNbaSecond: 3, allNbaThird: 0, allDefFirst: 2, allDefSecond: 0, allStar: 13, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 277, pts: 7651, reb: 6632, ast: 1879, stl: 0, blk: 0, tov: 0 } },
+    { name: 'Julius Erving', years: '1976-1987', positions: ['SF', 'PF'], archetypes: ['SLASHER', 'THREE_AND_D_WING'], careerYears: 16, championships: 1, categoryRaw: { playerAccolades: 127, teamAccolades: 64.35, stats: 33672.084, advanced: 3148.041 }, accolades: { mvp: 2, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 5, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 11, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 836, pts: 18364, reb: 5601, ast: 3224, stl: 1508, blk: 1293, tov: 2323 } },
     { name: 'Hal Greer', years: '1958-1973', positions: ['PG', 'SG'], careerYears: 15, championships: 1, categoryRaw: { playerAccolades: 62, teamAccolades: 67.75, stats: 31449.005, advanced: 2498.242 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 7, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 10, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 1122, pts: 21586, reb: 5665, ast: 4540, stl: 0, blk: 0, tov: 0 } },
-    { name: 'Billy Cunningham', years: '1965-1972, 1974-1976', positions: ['SF', 'PF'], careerYears: 11, championships: 1, categoryRaw: { playerAccolades: 41, teamAccolades: 62.65, stats: 28993.444, advanced: 2993.531 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 3, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 654, pts: 13626, reb: 6638, ast: 2625, stl: 115, blk: 45, tov: 0 } },
-    { name: 'Allen Iverson', years: '1996-2007, 2009-2010', positions: ['PG', 'SG'], careerYears: 14, categoryRaw: { playerAccolades: 125, teamAccolades: 41.2, stats: 32297.101, advanced: 3134.275 }, accolades: { mvp: 2, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 3, allNbaSecond: 3, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 11, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 722, pts: 19931, reb: 2822, ast: 4385, stl: 1644, blk: 134, tov: 2662 } },
+    { name: 'Billy Cunningham', years: '1965-1972, 1974-1976', positions: ['SF', 'PF'], archetypes: ['POST_SCORER'], careerYears: 11, championships: 1, categoryRaw: { playerAccolades: 41, teamAccolades: 62.65, stats: 28993.444, advanced: 2993.531 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 3, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 654, pts: 13626, reb: 6638, ast: 2625, stl: 115, blk: 45, tov: 0 } },
+    { name: 'Allen Iverson', years: '1996-2007, 2009-2010', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL', 'SLASHER'], careerYears: 14, categoryRaw: { playerAccolades: 125, teamAccolades: 41.2, stats: 32297.101, advanced: 3134.275 }, accolades: { mvp: 2, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 3, allNbaSecond: 3, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 11, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 722, pts: 19931, reb: 2822, ast: 4385, stl: 1644, blk: 134, tov: 2662 } },
     { name: 'Johnny Kerr', years: '1954-1965', positions: ['C'], careerYears: 12, championships: 1, categoryRaw: { playerAccolades: 6, teamAccolades: 64.35, stats: 26024.211, advanced: 2428.28 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 834, pts: 11699, reb: 9506, ast: 1779, stl: 0, blk: 0, tov: 0 } },
-    { name: 'Moses Malone', years: '1982-1986, 1993-1994', positions: ['C'], careerYears: 19, championships: 1, categoryRaw: { playerAccolades: 251, teamAccolades: 59.25, stats: 21897.174, advanced: 3309.207 }, accolades: { mvp: 6, finalsMvp: 1, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 4, allNbaSecond: 4, allNbaThird: 0, allDefFirst: 1, allDefSecond: 1, allStar: 12, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 357, pts: 7511, reb: 4273, ast: 451, stl: 305, blk: 478, tov: 1120 } },
-    { name: 'Joel Embiid', years: '2016-2026', positions: ['SF', 'PF', 'C'], careerYears: 12, categoryRaw: { playerAccolades: 80, teamAccolades: 39.5, stats: 30317.39, advanced: 3465.668 }, accolades: { mvp: 1, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 4, allNbaThird: 0, allDefFirst: 0, allDefSecond: 3, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 483, pts: 13348, reb: 5219, ast: 1779, stl: 431, blk: 772, tov: 1639 } },
-    { name: 'Charles Barkley', years: '1984-1992', positions: ['SF', 'PF'], careerYears: 16, categoryRaw: { playerAccolades: 173, teamAccolades: 37.8, stats: 30620.046, advanced: 3298.116 }, accolades: { mvp: 3, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 5, allNbaSecond: 5, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 11, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 610, pts: 14184, reb: 7079, ast: 2276, stl: 1007, blk: 606, tov: 2127 } },
-    { name: 'Maurice Cheeks', years: '1978-1989', positions: ['PG', 'SG'], careerYears: 15, championships: 1, categoryRaw: { playerAccolades: 27, teamAccolades: 64.35, stats: 25475.09, advanced: 2337.007 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 4, allDefSecond: 1, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 853, pts: 10429, reb: 2538, ast: 6212, stl: 1942, blk: 272, tov: 1970 } },
+    { name: 'Moses Malone', years: '1982-1986, 1993-1994', positions: ['C'], archetypes: ['POST_SCORER'], careerYears: 19, championships: 1, categoryRaw: { playerAccolades: 251, teamAccolades: 59.25, stats: 21897.174, advanced: 3309.207 }, accolades: { mvp: 6, finalsMvp: 1, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 4, allNbaSecond: 4, allNbaThird: 0, allDefFirst: 1, allDefSecond: 1, allStar: 12, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 357, pts: 7511, reb: 4273, ast: 451, stl: 305, blk: 478, tov: 1120 } },
+    { name: 'Joel Embiid', years: '2016-2026', positions: ['SF', 'PF', 'C'], archetypes: ['POST_SCORER'], careerYears: 12, categoryRaw: { playerAccolades: 80, teamAccolades: 39.5, stats: 30317.39, advanced: 3465.668 }, accolades: { mvp: 1, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 4, allNbaThird: 0, allDefFirst: 0, allDefSecond: 3, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 483, pts: 13348, reb: 5219, ast: 1779, stl: 431, blk: 772, tov: 1639 } },
+    { name: 'Charles Barkley', years: '1984-1992', positions: ['SF', 'PF'], archetypes: ['POST_SCORER'], careerYears: 16, categoryRaw: { playerAccolades: 173, teamAccolades: 37.8, stats: 30620.046, advanced: 3298.116 }, accolades: { mvp: 3, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 5, allNbaSecond: 5, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 11, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 610, pts: 14184, reb: 7079, ast: 2276, stl: 1007, blk: 606, tov: 2127 } },
+    { name: 'Maurice Cheeks', years: '1978-1989', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 15, championships: 1, categoryRaw: { playerAccolades: 27, teamAccolades: 64.35, stats: 25475.09, advanced: 2337.007 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 4, allDefSecond: 1, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 853, pts: 10429, reb: 2538, ast: 6212, stl: 1942, blk: 272, tov: 1970 } },
     { name: 'Larry Costello', years: '1957-1965, 1966-1968', positions: ['PG', 'SG'], careerYears: 14, championships: 1, categoryRaw: { playerAccolades: 18, teamAccolades: 63.5, stats: 17421.326, advanced: 1973.99 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 615, pts: 7957, reb: 2333, ast: 2901, stl: 0, blk: 0, tov: 0 } },
-    { name: 'Bobby Jones', years: '1978-1986', positions: ['SF', 'PF'], careerYears: 12, championships: 1, categoryRaw: { playerAccolades: 47, teamAccolades: 61.8, stats: 16743.158, advanced: 1980.873 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 1, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 8, allDefSecond: 1, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 617, pts: 6585, reb: 2942, ast: 1372, stl: 727, blk: 694, tov: 1023 } },
+    { name: 'Bobby Jones', years: '1978-1986', positions: ['SF', 'PF'], archetypes: ['THREE_AND_D_WING'], careerYears: 12, championships: 1, categoryRaw: { playerAccolades: 47, teamAccolades: 61.8, stats: 16743.158, advanced: 1980.873 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 1, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 8, allDefSecond: 1, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 617, pts: 6585, reb: 2942, ast: 1372, stl: 727, blk: 694, tov: 1023 } },
     { name: 'Chet Walker', years: '1962-1969', positions: ['SF', 'PF'], careerYears: 13, championships: 1, categoryRaw: { playerAccolades: 14, teamAccolades: 60.95, stats: 18545.862, advanced: 2085.424 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 558, pts: 9043, reb: 4416, ast: 1029, stl: 0, blk: 0, tov: 0 } },
-    { name: 'Tyrese Maxey', years: '2020-2026', positions: ['PG', 'SG'], careerYears: 6, categoryRaw: { playerAccolades: 8, teamAccolades: 36.1, stats: 20713.63, advanced: 2688.799 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 372, pts: 7760, reb: 1172, ast: 1764, stl: 398, blk: 148, tov: 582 } },
+    { name: 'Tyrese Maxey', years: '2020-2026', positions: ['PG', 'SG'], archetypes: ['SLASHER'], careerYears: 6, categoryRaw: { playerAccolades: 8, teamAccolades: 36.1, stats: 20713.63, advanced: 2688.799 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 372, pts: 7760, reb: 1172, ast: 1764, stl: 398, blk: 148, tov: 582 } },
   ],
   PHX: [
-    { name: 'Alvan Adams', years: '1975-1988', positions: ['C'], careerYears: 13, categoryRaw: { playerAccolades: 14, teamAccolades: 42.05, stats: 30692.888, advanced: 2577.197 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 988, pts: 13910, reb: 6937, ast: 4012, stl: 1289, blk: 808, tov: 2194 } },
-    { name: 'Kevin Johnson', years: '1987-1998, 1999-2000', positions: ['PG', 'SG'], careerYears: 13, categoryRaw: { playerAccolades: 38, teamAccolades: 41.2, stats: 27671.651, advanced: 2727.921 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 0, allNbaSecond: 4, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 683, pts: 12747, reb: 2332, ast: 6518, stl: 1022, blk: 159, tov: 2176 } },
-    { name: 'Devin Booker', years: '2015-2026', positions: ['PG', 'SG'], careerYears: 11, categoryRaw: { playerAccolades: 23, teamAccolades: 40.35, stats: 27584.927, advanced: 2608.806 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 717, pts: 17540, reb: 2890, ast: 3792, stl: 616, blk: 202, tov: 2179 } },
-    { name: 'Steve Nash', years: '1996-1998, 2004-2012', positions: ['PG', 'SG'], careerYears: 18, categoryRaw: { playerAccolades: 135, teamAccolades: 39.5, stats: 24113.333, advanced: 2544.718 }, accolades: { mvp: 3, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 3, allNbaSecond: 2, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 8, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 744, pts: 10712, reb: 2293, ast: 6997, stl: 511, blk: 67, tov: 2301 } },
-    { name: 'Walter Davis', years: '1977-1988', positions: ['PG', 'SG'], careerYears: 15, categoryRaw: { playerAccolades: 36, teamAccolades: 40.35, stats: 24515.263, advanced: 2273.555 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 766, pts: 15666, reb: 2472, ast: 3340, stl: 1040, blk: 115, tov: 2174 } },
-    { name: 'Shawn Marion', years: '1999-2008', positions: ['PG', 'SG', 'SF', 'PF'], careerYears: 16, categoryRaw: { playerAccolades: 16, teamAccolades: 38.65, stats: 28278.403, advanced: 2713.552 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 660, pts: 12134, reb: 6616, ast: 1332, stl: 1245, blk: 894, tov: 1050 } },
-    { name: 'Charles Barkley', years: '1992-1996', positions: ['SF', 'PF'], careerYears: 16, categoryRaw: { playerAccolades: 173, teamAccolades: 34.4, stats: 21822.124, advanced: 3144.412 }, accolades: { mvp: 3, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 5, allNbaSecond: 5, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 11, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 280, pts: 6556, reb: 3232, ast: 1219, stl: 444, blk: 212, tov: 807 } },
-    { name: 'Amar\'e Stoudemire', years: '2002-2010', positions: ['SF', 'PF', 'C'], careerYears: 14, categoryRaw: { playerAccolades: 51, teamAccolades: 37.8, stats: 23241.338, advanced: 2587.496 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 4, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 516, pts: 11035, reb: 4613, ast: 677, stl: 447, blk: 722, tov: 1325 } },
+    { name: 'Alvan Adams', years: '1975-1988', positions: ['C'], archetypes: ['STRETCH_BIG'], careerYears: 13, categoryRaw: { playerAccolades: 14, teamAccolades: 42.05, stats: 30692.888, advanced: 2577.197 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 988, pts: 13910, reb: 6937, ast: 4012, stl: 1289, blk: 808, tov: 2194 } },
+    { name: 'Kevin Johnson', years: '1987-1998, 1999-2000', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 13, categoryRaw: { playerAccolades: 38, teamAccolades: 41.2, stats: 27671.651, advanced: 2727.921 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 0, allNbaSecond: 4, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 683, pts: 12747, reb: 2332, ast: 6518, stl: 1022, blk: 159, tov: 2176 } },
+    { name: 'Devin Booker', years: '2015-2026', positions: ['PG', 'SG'], archetypes: ['SLASHER'], careerYears: 11, categoryRaw: { playerAccolades: 23, teamAccolades: 40.35, stats: 27584.927, advanced: 2608.806 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 717, pts: 17540, reb: 2890, ast: 3792, stl: 616, blk: 202, tov: 2179 } },
+    { name: 'Steve Nash', years: '1996-1998, 2004-2012', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 18, categoryRaw: { playerAccolades: 135, teamAccolades: 39.5, stats: 24113.333, advanced: 2544.718 }, accolades: { mvp: 3, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 3, allNbaSecond: 2, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 8, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 744, pts: 10712, reb: 2293, ast: 6997, stl: 511, blk: 67, tov: 2301 } },
+    { name: 'Walter Davis', years: '1977-1988', positions: ['PG', 'SG'], archetypes: ['SLASHER', 'THREE_AND_D_WING'], careerYears: 15, categoryRaw: { playerAccolades: 36, teamAccolades: 40.35, stats: 24515.263, advanced: 2273.555 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 766, pts: 15666, reb: 2472, ast: 3340, stl: 1040, blk: 115, tov: 2174 } },
+    { name: 'Shawn Marion', years: '1999-2008', positions: ['PG', 'SG', 'SF', 'PF'], archetypes: ['THREE_AND_D_WING'], careerYears: 16, categoryRaw: { playerAccolades: 16, teamAccolades: 38.65, stats: 28278.403, advanced: 2713.552 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 660, pts: 12134, reb: 6616, ast: 1332, stl: 1245, blk: 894, tov: 1050 } },
+    { name: 'Charles Barkley', years: '1992-1996', positions: ['SF', 'PF'], archetypes: ['POST_SCORER'], careerYears: 16, categoryRaw: { playerAccolades: 173, teamAccolades: 34.4, stats: 21822.124, advanced: 3144.412 }, accolades: { mvp: 3, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 5, allNbaSecond: 5, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 11, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 280, pts: 6556, reb: 3232, ast: 1219, stl: 444, blk: 212, tov: 807 } },
+    { name: 'Amar\'e Stoudemire', years: '2002-2010', positions: ['SF', 'PF', 'C'], archetypes: ['POST_SCORER'], careerYears: 14, categoryRaw: { playerAccolades: 51, teamAccolades: 37.8, stats: 23241.338, advanced: 2587.496 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 4, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 516, pts: 11035, reb: 4613, ast: 677, stl: 447, blk: 722, tov: 1325 } },
     { name: 'Dick Van Arsdale', years: '1968-1977', positions: ['PG', 'SG'], careerYears: 12, categoryRaw: { playerAccolades: 9, teamAccolades: 38.65, stats: 21462.943, advanced: 2130.652 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 1, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 685, pts: 12060, reb: 2452, ast: 2399, stl: 264, blk: 44, tov: 0 } },
-    { name: 'Larry Nance', years: '1981-1988', positions: ['SF', 'PF'], careerYears: 13, categoryRaw: { playerAccolades: 16, teamAccolades: 36.95, stats: 22572.451, advanced: 2631.863 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 1, allDefSecond: 2, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 487, pts: 8430, reb: 3791, ast: 1248, stl: 516, blk: 940, tov: 1072 } },
-    { name: 'Jason Kidd', years: '1996-2001', positions: ['PG', 'SG'], careerYears: 19, categoryRaw: { playerAccolades: 108, teamAccolades: 35.25, stats: 19633.365, advanced: 2733.956 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 5, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 4, allDefSecond: 5, allStar: 10, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 309, pts: 4440, reb: 1985, ast: 3011, stl: 655, blk: 108, tov: 999 } },
-    { name: 'Paul Westphal', years: '1975-1980, 1983-1984', positions: ['PG', 'SG'], careerYears: 12, categoryRaw: { playerAccolades: 43, teamAccolades: 36.1, stats: 20526.721, advanced: 2433.584 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 3, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 465, pts: 9564, reb: 1002, ast: 2429, stl: 753, blk: 157, tov: 796 } },
-    { name: 'Connie Hawkins', years: '1969-1974', positions: ['SF', 'PF'], careerYears: 7, categoryRaw: { playerAccolades: 17, teamAccolades: 35.25, stats: 19168.885, advanced: 2476.563 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 311, pts: 6368, reb: 2806, ast: 1341, stl: 8, blk: 3, tov: 0 } },
-    { name: 'Dan Majerle', years: '1988-1995, 2001-2002', positions: ['PG', 'SG', 'SF', 'PF'], careerYears: 14, categoryRaw: { playerAccolades: 12, teamAccolades: 37.8, stats: 18713.325, advanced: 2035.914 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 2, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 595, pts: 8034, reb: 2823, ast: 1824, stl: 811, blk: 258, tov: 756 } },
-    { name: 'Tom Chambers', years: '1988-1993', positions: ['SF', 'PF'], careerYears: 17, categoryRaw: { playerAccolades: 20, teamAccolades: 35.25, stats: 18864.393, advanced: 2386.649 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 380, pts: 7817, reb: 2491, ast: 858, stl: 340, blk: 214, tov: 821 } },
+    { name: 'Larry Nance', years: '1981-1988', positions: ['SF', 'PF'], archetypes: ['RIM_PROTECTOR'], careerYears: 13, categoryRaw: { playerAccolades: 16, teamAccolades: 36.95, stats: 22572.451, advanced: 2631.863 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 1, allDefSecond: 2, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 487, pts: 8430, reb: 3791, ast: 1248, stl: 516, blk: 940, tov: 1072 } },
+    { name: 'Jason Kidd', years: '1996-2001', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 19, categoryRaw: { playerAccolades: 108, teamAccolades: 35.25, stats: 19633.365, advanced: 2733.956 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 5, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 4, allDefSecond: 5, allStar: 10, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 309, pts: 4440, reb: 1985, ast: 3011, stl: 655, blk: 108, tov: 999 } },
+    { name: 'Paul Westphal', years: '1975-1980, 1983-1984', positions: ['PG', 'SG'], archetypes: ['SLASHER', 'THREE_AND_D_WING'], careerYears: 12, categoryRaw: { playerAccolades: 43, teamAccolades: 36.1, stats: 20526.721, advanced: 2433.584 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 3, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 465, pts: 9564, reb: 1002, ast: 2429, stl: 753, blk: 157, tov: 796 } },
+    { name: 'Connie Hawkins', years: '1969-1974', positions: ['SF', 'PF'], archetypes: ['POST_SCORER'], careerYears: 7, categoryRaw: { playerAccolades: 17, teamAccolades: 35.25, stats: 19168.885, advanced: 2476.563 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 311, pts: 6368, reb: 2806, ast: 1341, stl: 8, blk: 3, tov: 0 } },
+    { name: 'Dan Majerle', years: '1988-1995, 2001-2002', positions: ['PG', 'SG', 'SF', 'PF'], archetypes: ['THREE_AND_D_WING'], careerYears: 14, categoryRaw: { playerAccolades: 12, teamAccolades: 37.8, stats: 18713.325, advanced: 2035.914 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 2, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 595, pts: 8034, reb: 2823, ast: 1824, stl: 811, blk: 258, tov: 756 } },
+    { name: 'Tom Chambers', years: '1988-1993', positions: ['SF', 'PF'], archetypes: ['SLASHER'], careerYears: 17, categoryRaw: { playerAccolades: 20, teamAccolades: 35.25, stats: 18864.393, advanced: 2386.649 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 380, pts: 7817, reb: 2491, ast: 858, stl: 340, blk: 214, tov: 821 } },
   ],
   POR: [
-    { name: 'Clyde Drexler', years: '1983-1995', positions: ['PG', 'SG'], careerYears: 15, championships: 1, categoryRaw: { playerAccolades: 49, teamAccolades: 65.2, stats: 34599.621, advanced: 3065.306 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 2, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 10, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 867, pts: 18040, reb: 5339, ast: 4933, stl: 1795, blk: 594, tov: 2409 } },
-    { name: 'Damian Lillard', years: '2012-2023', positions: ['PG', 'SG'], careerYears: 14, categoryRaw: { playerAccolades: 65, teamAccolades: 40.35, stats: 31676.068, advanced: 2910.762 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 4, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 9, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 769, pts: 19376, reb: 3253, ast: 5151, stl: 732, blk: 239, tov: 2186 } },
-    { name: 'LaMarcus Aldridge', years: '2006-2015', positions: ['SF', 'PF', 'C'], careerYears: 16, categoryRaw: { playerAccolades: 38, teamAccolades: 38.65, stats: 25390.16, advanced: 2560.519 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 3, allDefFirst: 0, allDefSecond: 0, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 648, pts: 12562, reb: 5434, ast: 1261, stl: 527, blk: 658, tov: 1046 } },
+    { name: 'Clyde Drexler', years: '1983-1995', positions: ['PG', 'SG'], archetypes: ['SLASHER', 'THREE_AND_D_WING'], careerYears: 15, championships: 1, categoryRaw: { playerAccolades: 49, teamAccolades: 65.2, stats: 34599.621, advanced: 3065.306 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 2, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 10, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 867, pts: 18040, reb: 5339, ast: 4933, stl: 1795, blk: 594, tov: 2409 } },
+    { name: 'Damian Lillard', years: '2012-2023', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL', 'SLASHER'], careerYears: 14, categoryRaw: { playerAccolades: 65, teamAccolades: 40.35, stats: 31676.068, advanced: 2910.762 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 4, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 9, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 769, pts: 19376, reb: 3253, ast: 5151, stl: 732, blk: 239, tov: 2186 } },
+    { name: 'LaMarcus Aldridge', years: '2006-2015', positions: ['SF', 'PF', 'C'], archetypes: ['POST_SCORER'], careerYears: 16, categoryRaw: { playerAccolades: 38, teamAccolades: 38.65, stats: 25390.16, advanced: 2560.519 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 3, allDefFirst: 0, allDefSecond: 0, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 648, pts: 12562, reb: 5434, ast: 1261, stl: 527, blk: 658, tov: 1046 } },
     { name: 'Rasheed Wallace', years: '1996-2004', positions: ['SF', 'PF', 'C'], careerYears: 18, championships: 1, categoryRaw: { playerAccolades: 8, teamAccolades: 61.8, stats: 20694.075, advanced: 2322.848 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 544, pts: 9119, reb: 3797, ast: 1102, stl: 555, blk: 693, tov: 1034 } },
     { name: 'Lloyd Neal', years: '1972-1979', positions: ['SF', 'PF'], careerYears: 7, championships: 1, categoryRaw: { playerAccolades: 0, teamAccolades: 60.95, stats: 15965.182, advanced: 2065.87 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 435, pts: 4846, reb: 3370, ast: 632, stl: 178, blk: 324, tov: 102 } },
-    { name: 'Sidney Wicks', years: '1971-1976', positions: ['SF', 'PF'], careerYears: 10, categoryRaw: { playerAccolades: 20, teamAccolades: 35.25, stats: 23303.46, advanced: 2762.15 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 398, pts: 8882, reb: 4086, ast: 1647, stl: 275, blk: 197, tov: 0 } },
-    { name: 'Larry Steele', years: '1971-1980', positions: ['PG', 'SG'], careerYears: 9, championships: 1, categoryRaw: { playerAccolades: 0, teamAccolades: 62.65, stats: 14790.277, advanced: 1799.923 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 610, pts: 5009, reb: 1781, ast: 1719, stl: 846, blk: 96, tov: 195 } },
+    { name: 'Sidney Wicks', years: '1971-1976', positions: ['SF', 'PF'], archetypes: ['POST_SCORER'], careerYears: 10, categoryRaw: { playerAccolades: 20, teamAccolades: 35.25, stats: 23303.46, advanced: 2762.15 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 398, pts: 8882, reb: 4086, ast: 1647, stl: 275, blk: 197, tov: 0 } },
+    { name: 'Larry Steele', years: '1971-1980', positions: ['PG', 'SG'], archetypes: ['THREE_AND_D_WING'], careerYears: 9, championships: 1, categoryRaw: { playerAccolades: 0, teamAccolades: 62.65, stats: 14790.277, advanced: 1799.923 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 610, pts: 5009, reb: 1781, ast: 1719, stl: 846, blk: 96, tov: 195 } },
     { name: 'Bob Gross', years: '1975-1982', positions: ['SF', 'PF'], careerYears: 8, championships: 1, categoryRaw: { playerAccolades: 3, teamAccolades: 60.95, stats: 13978.118, advanced: 1778.418 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 1, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 486, pts: 4484, reb: 2187, ast: 1447, stl: 593, blk: 354, tov: 705 } },
-    { name: 'Terry Porter', years: '1985-1995', positions: ['PG', 'SG'], careerYears: 17, categoryRaw: { playerAccolades: 4, teamAccolades: 39.5, stats: 24645.179, advanced: 2344.339 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 758, pts: 11330, reb: 2620, ast: 5319, stl: 1182, blk: 92, tov: 1898 } },
+    { name: 'Terry Porter', years: '1985-1995', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 17, categoryRaw: { playerAccolades: 4, teamAccolades: 39.5, stats: 24645.179, advanced: 2344.339 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 758, pts: 11330, reb: 2620, ast: 5319, stl: 1182, blk: 92, tov: 1898 } },
     { name: 'Jerome Kersey', years: '1984-1995', positions: ['SF'], careerYears: 17, categoryRaw: { playerAccolades: 0, teamAccolades: 40.35, stats: 23124.484, advanced: 2258.922 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 831, pts: 10067, reb: 5078, ast: 1762, stl: 1059, blk: 622, tov: 1311 } },
-    { name: 'Geoff Petrie', years: '1970-1976', positions: ['PG', 'SG'], careerYears: 7, categoryRaw: { playerAccolades: 10, teamAccolades: 36.1, stats: 19490.088, advanced: 2273.504 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 446, pts: 9732, reb: 1271, ast: 2057, stl: 247, blk: 33, tov: 0 } },
+    { name: 'Geoff Petrie', years: '1970-1976', positions: ['PG', 'SG'], archetypes: ['SLASHER'], careerYears: 7, categoryRaw: { playerAccolades: 10, teamAccolades: 36.1, stats: 19490.088, advanced: 2273.504 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 446, pts: 9732, reb: 1271, ast: 2057, stl: 247, blk: 33, tov: 0 } },
     { name: 'Clifford Robinson', years: '1989-1997', positions: ['SF', 'PF', 'C'], careerYears: 18, categoryRaw: { playerAccolades: 12, teamAccolades: 37.8, stats: 21127.305, advanced: 2250.564 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 1, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 2, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 644, pts: 10405, reb: 3352, ast: 1350, stl: 696, blk: 726, tov: 1282 } },
     { name: 'Mychal Thompson', years: '1978-1979, 1980-1986', positions: ['C'], careerYears: 13, categoryRaw: { playerAccolades: 0, teamAccolades: 36.95, stats: 22985.122, advanced: 2394.663 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 551, pts: 9215, reb: 4878, ast: 1848, stl: 504, blk: 768, tov: 1634 } },
     { name: 'CJ McCollum', years: '2013-2022', positions: ['PG', 'SG'], careerYears: 13, categoryRaw: { playerAccolades: 4, teamAccolades: 38.65, stats: 20098.639, advanced: 2225.989 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 564, pts: 10710, reb: 1925, ast: 1892, stl: 492, blk: 222, tov: 970 } },
-    { name: 'Jim Paxson', years: '1979-1988', positions: ['PG', 'SG'], careerYears: 11, categoryRaw: { playerAccolades: 10, teamAccolades: 38.65, stats: 18169.346, advanced: 1965.427 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 627, pts: 10003, reb: 1415, ast: 2007, stl: 857, blk: 76, tov: 1005 } },
+    { name: 'Jim Paxson', years: '1979-1988', positions: ['PG', 'SG'], archetypes: ['THREE_AND_D_WING'], careerYears: 11, categoryRaw: { playerAccolades: 10, teamAccolades: 38.65, stats: 18169.346, advanced: 1965.427 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 627, pts: 10003, reb: 1415, ast: 2007, stl: 857, blk: 76, tov: 1005 } },
   ],
   SAC: [
-    { name: 'Oscar Robertson', years: '1960-1970', positions: ['PG', 'SG'], careerYears: 14, categoryRaw: { playerAccolades: 177, teamAccolades: 39.5, stats: 41849.436, advanced: 3844.403 }, accolades: { mvp: 2, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 9, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 12, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 752, pts: 22009, reb: 6380, ast: 7731, stl: 0, blk: 0, tov: 0 } },
-    { name: 'Jerry Lucas', years: '1963-1970', positions: ['SF', 'PF'], careerYears: 11, categoryRaw: { playerAccolades: 65, teamAccolades: 36.95, stats: 27279.791, advanced: 3060.799 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 3, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 465, pts: 9107, reb: 8876, ast: 1406, stl: 0, blk: 0, tov: 0 } },
+    { name: 'Oscar Robertson', years: '1960-1970', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL', 'SLASHER'], careerYears: 14, categoryRaw: { playerAccolades: 177, teamAccolades: 39.5, stats: 41849.436, advanced: 3844.403 }, accolades: { mvp: 2, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 9, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 12, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 752, pts: 22009, reb: 6380, ast: 7731, stl: 0, blk: 0, tov: 0 } },
+    { name: 'Jerry Lucas', years: '1963-1970', positions: ['SF', 'PF'], archetypes: ['POST_SCORER'], careerYears: 11, categoryRaw: { playerAccolades: 65, teamAccolades: 36.95, stats: 27279.791, advanced: 3060.799 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 3, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 465, pts: 9107, reb: 8876, ast: 1406, stl: 0, blk: 0, tov: 0 } },
     { name: 'Sam Lacey', years: '1970-1982', positions: ['C'], careerYears: 13, categoryRaw: { playerAccolades: 2, teamAccolades: 41.2, stats: 30945.158, advanced: 2763.027 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 888, pts: 9895, reb: 9353, ast: 3563, stl: 950, blk: 1098, tov: 826 } },
     { name: 'Jack Twyman', years: '1955-1966', positions: ['SF', 'PF'], careerYears: 12, categoryRaw: { playerAccolades: 24, teamAccolades: 40.35, stats: 27682.31, advanced: 2634.567 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 823, pts: 15840, reb: 5424, ast: 1861, stl: 0, blk: 0, tov: 0 } },
     { name: 'Arnie Risen', years: '1948-1955', positions: ['C'], careerYears: 10, championships: 1, categoryRaw: { playerAccolades: 12, teamAccolades: 60.95, stats: 16850.48, advanced: 2150.336 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 463, pts: 6359, reb: 3812, ast: 867, stl: 0, blk: 0, tov: 0 } },
-    { name: 'Nate Archibald', years: '1970-1976', positions: ['PG', 'SG'], careerYears: 14, categoryRaw: { playerAccolades: 75, teamAccolades: 36.1, stats: 25692.072, advanced: 3031.903 }, accolades: { mvp: 1, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 3, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 433, pts: 10894, reb: 1207, ast: 3499, stl: 301, blk: 29, tov: 0 } },
-    { name: 'Chris Webber', years: '1998-2005', positions: ['SF', 'PF', 'C'], careerYears: 15, categoryRaw: { playerAccolades: 53, teamAccolades: 36.95, stats: 24975.629, advanced: 3048.242 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 3, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 377, pts: 8843, reb: 4006, ast: 1791, stl: 568, blk: 553, tov: 1127 } },
-    { name: 'DeMarcus Cousins', years: '2010-2017', positions: ['C'], careerYears: 12, categoryRaw: { playerAccolades: 20, teamAccolades: 36.95, stats: 25574.251, advanced: 2993.092 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 470, pts: 9894, reb: 5056, ast: 1402, stl: 661, blk: 558, tov: 1624 } },
-    { name: 'De\'Aaron Fox', years: '2017-2025', positions: ['PG', 'SG'], careerYears: 9, categoryRaw: { playerAccolades: 8, teamAccolades: 37.8, stats: 23493.499, advanced: 2612.123 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 514, pts: 11064, reb: 2009, ast: 3146, stl: 731, blk: 216, tov: 1408 } },
-    { name: 'Mitch Richmond', years: '1991-1998', positions: ['PG', 'SG'], careerYears: 14, categoryRaw: { playerAccolades: 50, teamAccolades: 36.95, stats: 21153.563, advanced: 2294.29 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 3, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 517, pts: 12070, reb: 1933, ast: 2128, stl: 670, blk: 147, tov: 1465 } },
-    { name: 'Domantas Sabonis', years: '2021-2026', positions: ['SF', 'PF', 'C'], careerYears: 10, categoryRaw: { playerAccolades: 14, teamAccolades: 35.25, stats: 20539.215, advanced: 2792.895 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 265, pts: 5024, reb: 3466, ast: 1834, stl: 218, blk: 122, tov: 807 } },
+    { name: 'Nate Archibald', years: '1970-1976', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL', 'SLASHER'], careerYears: 14, categoryRaw: { playerAccolades: 75, teamAccolades: 36.1, stats: 25692.072, advanced: 3031.903 }, accolades: { mvp: 1, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 3, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 433, pts: 10894, reb: 1207, ast: 3499, stl: 301, blk: 29, tov: 0 } },
+    { name: 'Chris Webber', years: '1998-2005', positions: ['SF', 'PF', 'C'], archetypes: ['POST_SCORER'], careerYears: 15, categoryRaw: { playerAccolades: 53, teamAccolades: 36.95, stats: 24975.629, advanced: 3048.242 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 3, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 377, pts: 8843, reb: 4006, ast: 1791, stl: 568, blk: 553, tov: 1127 } },
+    { name: 'DeMarcus Cousins', years: '2010-2017', positions: ['C'], archetypes: ['POST_SCORER'], careerYears: 12, categoryRaw: { playerAccolades: 20, teamAccolades: 36.95, stats: 25574.251, advanced: 2993.092 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 470, pts: 9894, reb: 5056, ast: 1402, stl: 661, blk: 558, tov: 1624 } },
+    { name: 'De\'Aaron Fox', years: '2017-2025', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL', 'SLASHER'], careerYears: 9, categoryRaw: { playerAccolades: 8, teamAccolades: 37.8, stats: 23493.499, advanced: 2612.123 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 514, pts: 11064, reb: 2009, ast: 3146, stl: 731, blk: 216, tov: 1408 } },
+    { name: 'Mitch Richmond', years: '1991-1998', positions: ['PG', 'SG'], archetypes: ['SLASHER'], careerYears: 14, categoryRaw: { playerAccolades: 50, teamAccolades: 36.95, stats: 21153.563, advanced: 2294.29 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 3, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 517, pts: 12070, reb: 1933, ast: 2128, stl: 670, blk: 147, tov: 1465 } },
+    { name: 'Domantas Sabonis', years: '2021-2026', positions: ['SF', 'PF', 'C'], archetypes: ['POST_SCORER'], careerYears: 10, categoryRaw: { playerAccolades: 14, teamAccolades: 35.25, stats: 20539.215, advanced: 2792.895 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 265, pts: 5024, reb: 3466, ast: 1834, stl: 218, blk: 122, tov: 807 } },
     { name: 'Wayne Embry', years: '1958-1966', positions: ['C'], careerYears: 11, categoryRaw: { playerAccolades: 10, teamAccolades: 37.8, stats: 21111.218, advanced: 2271.657 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 603, pts: 8486, reb: 6257, ast: 951, stl: 0, blk: 0, tov: 0 } },
     { name: 'Lionel Simmons', years: '1990-1997', positions: ['SF', 'PF'], careerYears: 7, categoryRaw: { playerAccolades: 0, teamAccolades: 36.95, stats: 18331.758, advanced: 2317.649 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 454, pts: 5833, reb: 2833, ast: 1498, stl: 514, blk: 361, tov: 982 } },
     { name: 'Peja Stojakovic', years: '1998-2006', positions: ['SF', 'PF'], careerYears: 13, categoryRaw: { playerAccolades: 12, teamAccolades: 37.8, stats: 18797.321, advanced: 2132.45 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 518, pts: 9498, reb: 2581, ast: 1037, stl: 543, blk: 74, tov: 834 } },
     { name: 'Scott Wedman', years: '1974-1981', positions: ['SF', 'PF'], careerYears: 13, categoryRaw: { playerAccolades: 7, teamAccolades: 36.95, stats: 18806.367, advanced: 2038.984 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 1, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 546, pts: 9002, reb: 3270, ast: 1271, stl: 640, blk: 229, tov: 537 } },
   ],
   SAS: [
-    { name: 'Tim Duncan', years: '1997-2016', positions: ['SF', 'PF', 'C'], careerYears: 20, championships: 5, categoryRaw: { playerAccolades: 355, teamAccolades: 167.15, stats: 47578.276, advanced: 4042.735 }, accolades: { mvp: 4, finalsMvp: 3, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 10, allNbaSecond: 3, allNbaThird: 2, allDefFirst: 8, allDefSecond: 7, allStar: 15, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 1392, pts: 26496, reb: 15091, ast: 4225, stl: 1025, blk: 3020, tov: 3381 } },
-    { name: 'David Robinson', years: '1989-2003', positions: ['C'], careerYears: 14, championships: 2, categoryRaw: { playerAccolades: 182, teamAccolades: 90.9, stats: 42834.974, advanced: 3853.742 }, accolades: { mvp: 2, finalsMvp: 0, dpoy: 1, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 4, allNbaSecond: 2, allNbaThird: 4, allDefFirst: 4, allDefSecond: 4, allStar: 10, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 987, pts: 20790, reb: 10497, ast: 2441, stl: 1388, blk: 2954, tov: 2417 } },
+    { name: 'Tim Duncan', years: '1997-2016', positions: ['SF', 'PF', 'C'], archetypes: ['RIM_PROTECTOR', 'POST_SCORER'], careerYears: 20, championships: 5, categoryRaw: { playerAccolades: 355, teamAccolades: 167.15, stats: 47578.276, advanced: 4042.735 }, accolades: { mvp: 4, finalsMvp: 3, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 10, allNbaSecond: 3, allNbaThird: 2, allDefFirst: 8, allDefSecond: 7, allStar: 15, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 1392, pts: 26496, reb: 15091, ast: 4225, stl: 1025, blk: 3020, tov: 3381 } },
+    { name: 'David Robinson', years: '1989-2003', positions: ['C'], archetypes: ['RIM_PROTECTOR', 'POST_SCORER'], careerYears: 14, championships: 2, categoryRaw: { playerAccolades: 182, teamAccolades: 90.9, stats: 42834.974, advanced: 3853.742 }, accolades: { mvp: 2, finalsMvp: 0, dpoy: 1, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 4, allNbaSecond: 2, allNbaThird: 4, allDefFirst: 4, allDefSecond: 4, allStar: 10, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 987, pts: 20790, reb: 10497, ast: 2441, stl: 1388, blk: 2954, tov: 2417 } },
     { name: 'Tony Parker', years: '2001-2018', positions: ['PG', 'SG'], careerYears: 18, championships: 4, categoryRaw: { playerAccolades: 56, teamAccolades: 141.45, stats: 29118.987, advanced: 2564.54 }, accolades: { mvp: 0, finalsMvp: 1, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 3, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 1198, pts: 18943, reb: 3313, ast: 6829, stl: 1032, blk: 91, tov: 2790 } },
-    { name: 'Manu Ginobili', years: '2002-2018', positions: ['PG', 'SG'], careerYears: 16, championships: 4, categoryRaw: { playerAccolades: 16, teamAccolades: 140.6, stats: 24758.855, advanced: 2362.259 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 1, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 1057, pts: 14043, reb: 3697, ast: 4001, stl: 1392, blk: 319, tov: 2116 } },
-    { name: 'George Gervin', years: '1976-1985', positions: ['PG', 'SG'], careerYears: 14, categoryRaw: { playerAccolades: 75, teamAccolades: 38.65, stats: 29271.007, advanced: 2778.565 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 5, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 9, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 709, pts: 19383, reb: 3392, ast: 2070, stl: 892, blk: 647, tov: 1976 } },
-    { name: 'Kawhi Leonard', years: '2011-2018', positions: ['SF', 'PF'], careerYears: 15, championships: 1, categoryRaw: { playerAccolades: 135, teamAccolades: 60.95, stats: 19217.08, advanced: 2734.122 }, accolades: { mvp: 0, finalsMvp: 2, dpoy: 2, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 3, allNbaSecond: 3, allNbaThird: 0, allDefFirst: 3, allDefSecond: 4, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 407, pts: 6654, reb: 2511, ast: 924, stl: 723, blk: 289, tov: 558 } },
+    { name: 'Manu Ginobili', years: '2002-2018', positions: ['PG', 'SG'], archetypes: ['THREE_AND_D_WING'], careerYears: 16, championships: 4, categoryRaw: { playerAccolades: 16, teamAccolades: 140.6, stats: 24758.855, advanced: 2362.259 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 1, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 1057, pts: 14043, reb: 3697, ast: 4001, stl: 1392, blk: 319, tov: 2116 } },
+    { name: 'George Gervin', years: '1976-1985', positions: ['PG', 'SG'], archetypes: ['SLASHER'], careerYears: 14, categoryRaw: { playerAccolades: 75, teamAccolades: 38.65, stats: 29271.007, advanced: 2778.565 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 5, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 9, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 709, pts: 19383, reb: 3392, ast: 2070, stl: 892, blk: 647, tov: 1976 } },
+    { name: 'Kawhi Leonard', years: '2011-2018', positions: ['SF', 'PF'], archetypes: ['THREE_AND_D_WING'], careerYears: 15, championships: 1, categoryRaw: { playerAccolades: 135, teamAccolades: 60.95, stats: 19217.08, advanced: 2734.122 }, accolades: { mvp: 0, finalsMvp: 2, dpoy: 2, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 3, allNbaSecond: 3, allNbaThird: 0, allDefFirst: 3, allDefSecond: 4, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 407, pts: 6654, reb: 2511, ast: 924, stl: 723, blk: 289, tov: 558 } },
     { name: 'Sean Elliott', years: '1989-1993, 1994-2001', positions: ['SF', 'PF'], careerYears: 12, championships: 1, categoryRaw: { playerAccolades: 4, teamAccolades: 64.35, stats: 18170.756, advanced: 1969.768 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 669, pts: 9659, reb: 2941, ast: 1700, stl: 522, blk: 257, tov: 1199 } },
-    { name: 'Alvin Robertson', years: '1984-1989', positions: ['PG', 'SG'], careerYears: 12, categoryRaw: { playerAccolades: 48, teamAccolades: 35.25, stats: 20283.482, advanced: 2579.582 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 1, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 2, allDefSecond: 4, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 389, pts: 6285, reb: 2087, ast: 2094, stl: 1128, blk: 204, tov: 1148 } },
-    { name: 'Johnny Moore', years: '1980-1988, 1989-1990', positions: ['PG', 'SG'], careerYears: 10, categoryRaw: { playerAccolades: 0, teamAccolades: 38.65, stats: 18776.573, advanced: 2232.008 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 519, pts: 4890, reb: 1546, ast: 3865, stl: 1017, blk: 116, tov: 1160 } },
-    { name: 'Avery Johnson', years: '1990-1993, 1994-2001', positions: ['PG', 'SG'], careerYears: 16, championships: 1, categoryRaw: { playerAccolades: 0, teamAccolades: 63.5, stats: 17859.393, advanced: 1953.989 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 644, pts: 6486, reb: 1309, ast: 4474, stl: 712, blk: 121, tov: 1262 } },
-    { name: 'LaMarcus Aldridge', years: '2015-2021', positions: ['SF', 'PF', 'C'], careerYears: 16, categoryRaw: { playerAccolades: 38, teamAccolades: 36.1, stats: 18823.685, advanced: 2390.358 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 3, allDefFirst: 0, allDefSecond: 0, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 376, pts: 7325, reb: 3020, ast: 760, stl: 214, blk: 471, tov: 546 } },
-    { name: 'Larry Kenon', years: '1976-1980', positions: ['SF', 'PF'], careerYears: 11, categoryRaw: { playerAccolades: 4, teamAccolades: 34.4, stats: 20556.73, advanced: 2579.144 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 318, pts: 6733, reb: 3217, ast: 1063, stl: 547, blk: 121, tov: 811 } },
-    { name: 'Mike Mitchell', years: '1981-1988', positions: ['SF', 'PF'], careerYears: 10, categoryRaw: { playerAccolades: 2, teamAccolades: 36.95, stats: 18558.594, advanced: 2125.647 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 488, pts: 9799, reb: 2683, ast: 679, stl: 319, blk: 227, tov: 796 } },
-    { name: 'Artis Gilmore', years: '1982-1987', positions: ['C'], careerYears: 12, categoryRaw: { playerAccolades: 15, teamAccolades: 35.25, stats: 18118.158, advanced: 2280.441 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 1, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 380, pts: 6127, reb: 3671, ast: 579, stl: 194, blk: 700, tov: 1008 } },
-    { name: 'Dejounte Murray', years: '2016-2018, 2019-2022', positions: ['PG', 'SG'], careerYears: 10, categoryRaw: { playerAccolades: 5, teamAccolades: 35.25, stats: 17885.965, advanced: 2275.864 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 1, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 320, pts: 3993, reb: 1920, ast: 1540, stl: 455, blk: 84, tov: 594 } },
+    { name: 'Alvin Robertson', years: '1984-1989', positions: ['PG', 'SG'], archetypes: ['THREE_AND_D_WING'], careerYears: 12, categoryRaw: { playerAccolades: 48, teamAccolades: 35.25, stats: 20283.482, advanced: 2579.582 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 1, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 2, allDefSecond: 4, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 389, pts: 6285, reb: 2087, ast: 2094, stl: 1128, blk: 204, tov: 1148 } },
+    { name: 'Johnny Moore', years: '1980-1988, 1989-1990', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 10, categoryRaw: { playerAccolades: 0, teamAccolades: 38.65, stats: 18776.573, advanced: 2232.008 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 519, pts: 4890, reb: 1546, ast: 3865, stl: 1017, blk: 116, tov: 1160 } },
+    { name: 'Avery Johnson', years: '1990-1993, 1994-2001', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 16, championships: 1, categoryRaw: { playerAccolades: 0, teamAccolades: 63.5, stats: 17859.393, advanced: 1953.989 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 644, pts: 6486, reb: 1309, ast: 4474, stl: 712, blk: 121, tov: 1262 } },
+    { name: 'LaMarcus Aldridge', years: '2015-2021', positions: ['SF', 'PF', 'C'], archetypes: ['POST_SCORER'], careerYears: 16, categoryRaw: { playerAccolades: 38, teamAccolades: 36.1, stats: 18823.685, advanced: 2390.358 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 3, allDefFirst: 0, allDefSecond: 0, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 376, pts: 7325, reb: 3020, ast: 760, stl: 214, blk: 471, tov: 546 } },
+    { name: 'Larry Kenon', years: '1976-1980', positions: ['SF', 'PF'], archetypes: ['POST_SCORER'], careerYears: 11, categoryRaw: { playerAccolades: 4, teamAccolades: 34.4, stats: 20556.73, advanced: 2579.144 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 318, pts: 6733, reb: 3217, ast: 1063, stl: 547, blk: 121, tov: 811 } },
+    { name: 'Mike Mitchell', years: '1981-1988', positions: ['SF', 'PF'], archetypes: ['SLASHER'], careerYears: 10, categoryRaw: { playerAccolades: 2, teamAccolades: 36.95, stats: 18558.594, advanced: 2125.647 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 488, pts: 9799, reb: 2683, ast: 679, stl: 319, blk: 227, tov: 796 } },
+    { name: 'Artis Gilmore', years: '1982-1987', positions: ['C'], archetypes: ['RIM_PROTECTOR'], careerYears: 12, categoryRaw: { playerAccolades: 15, teamAccolades: 35.25, stats: 18118.158, advanced: 2280.441 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 1, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 380, pts: 6127, reb: 3671, ast: 579, stl: 194, blk: 700, tov: 1008 } },
+    { name: 'Dejounte Murray', years: '2016-2018, 2019-2022', positions: ['PG', 'SG'], archetypes: ['THREE_AND_D_WING'], careerYears: 10, categoryRaw: { playerAccolades: 5, teamAccolades: 35.25, stats: 17885.965, advanced: 2275.864 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 1, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 320, pts: 3993, reb: 1920, ast: 1540, stl: 455, blk: 84, tov: 594 } },
   ],
   TOR: [
     { name: 'Pascal Siakam', years: '2016-2024', positions: ['SF', 'PF'], careerYears: 10, championships: 1, categoryRaw: { playerAccolades: 22, teamAccolades: 61.8, stats: 21887.424, advanced: 2656.19 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 510, pts: 8875, reb: 3324, ast: 1846, stl: 468, blk: 317, tov: 965 } },
-    { name: 'Kyle Lowry', years: '2012-2021', positions: ['PG', 'SG'], careerYears: 20, championships: 1, categoryRaw: { playerAccolades: 16, teamAccolades: 62.65, stats: 23792.286, advanced: 2509.313 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 601, pts: 10540, reb: 2954, ast: 4277, stl: 873, blk: 195, tov: 1591 } },
-    { name: 'Chris Bosh', years: '2003-2010', positions: ['SF', 'PF'], careerYears: 14, categoryRaw: { playerAccolades: 28, teamAccolades: 36.95, stats: 22961.272, advanced: 2547.236 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 11, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 509, pts: 10275, reb: 4776, ast: 1115, stl: 397, blk: 600, tov: 1126 } },
+    { name: 'Kyle Lowry', years: '2012-2021', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 20, championships: 1, categoryRaw: { playerAccolades: 16, teamAccolades: 62.65, stats: 23792.286, advanced: 2509.313 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 601, pts: 10540, reb: 2954, ast: 4277, stl: 873, blk: 195, tov: 1591 } },
+    { name: 'Chris Bosh', years: '2003-2010', positions: ['SF', 'PF'], archetypes: ['POST_SCORER'], careerYears: 14, categoryRaw: { playerAccolades: 28, teamAccolades: 36.95, stats: 22961.272, advanced: 2547.236 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 11, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 509, pts: 10275, reb: 4776, ast: 1115, stl: 397, blk: 600, tov: 1126 } },
     { name: 'DeMar DeRozan', years: '2009-2018', positions: ['PG', 'SG', 'SF', 'PF'], careerYears: 17, categoryRaw: { playerAccolades: 28, teamAccolades: 38.65, stats: 22966.66, advanced: 2350.692 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 675, pts: 13296, reb: 2739, ast: 2078, stl: 655, blk: 185, tov: 1323 } },
-    { name: 'Fred VanVleet', years: '2016-2023', positions: ['PG', 'SG'], careerYears: 10, championships: 1, categoryRaw: { playerAccolades: 2, teamAccolades: 60.95, stats: 18160.355, advanced: 2462.708 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 417, pts: 6090, reb: 1385, ast: 2199, stl: 562, blk: 169, tov: 697 } },
-    { name: 'Vince Carter', years: '1998-2005', positions: ['PG', 'SG', 'SF', 'PF'], careerYears: 22, categoryRaw: { playerAccolades: 38, teamAccolades: 36.95, stats: 21573.702, advanced: 2606.012 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 8, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 403, pts: 9420, reb: 2091, ast: 1553, stl: 534, blk: 415, tov: 928 } },
+    { name: 'Fred VanVleet', years: '2016-2023', positions: ['PG', 'SG'], archetypes: ['THREE_AND_D_WING'], careerYears: 10, championships: 1, categoryRaw: { playerAccolades: 2, teamAccolades: 60.95, stats: 18160.355, advanced: 2462.708 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 417, pts: 6090, reb: 1385, ast: 2199, stl: 562, blk: 169, tov: 697 } },
+    { name: 'Vince Carter', years: '1998-2005', positions: ['PG', 'SG', 'SF', 'PF'], archetypes: ['SLASHER'], careerYears: 22, categoryRaw: { playerAccolades: 38, teamAccolades: 36.95, stats: 21573.702, advanced: 2606.012 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 8, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 403, pts: 9420, reb: 2091, ast: 1553, stl: 534, blk: 415, tov: 928 } },
     { name: 'Scottie Barnes', years: '2021-2026', positions: ['PG', 'SG', 'SF', 'PF'], careerYears: 5, categoryRaw: { playerAccolades: 10, teamAccolades: 35.25, stats: 19379.834, advanced: 2558.214 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 1, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 331, pts: 5813, reb: 2528, ast: 1676, stl: 403, blk: 354, tov: 788 } },
     { name: 'OG Anunoby', years: '2017-2024', positions: ['PG', 'SG', 'SF', 'PF'], careerYears: 9, championships: 1, categoryRaw: { playerAccolades: 3, teamAccolades: 60.95, stats: 13943.05, advanced: 2017.461 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 1, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 395, pts: 4676, reb: 1684, ast: 632, stl: 487, blk: 201, tov: 509 } },
     { name: 'Chris Boucher', years: '2018-2025', positions: ['SF', 'PF'], careerYears: 9, championships: 1, categoryRaw: { playerAccolades: 0, teamAccolades: 60.95, stats: 12034.748, advanced: 1615.361 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 406, pts: 3612, reb: 2083, ast: 201, stl: 197, blk: 384, tov: 221 } },
     { name: 'Serge Ibaka', years: '2016-2020', positions: ['SF', 'PF'], careerYears: 14, championships: 1, categoryRaw: { playerAccolades: 12, teamAccolades: 58.4, stats: 11964.717, advanced: 1909.856 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 3, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 228, pts: 3243, reb: 1687, ast: 253, stl: 93, blk: 281, tov: 352 } },
     { name: 'Norman Powell', years: '2015-2021', positions: ['PG', 'SG'], careerYears: 11, championships: 1, categoryRaw: { playerAccolades: 2, teamAccolades: 60.1, stats: 10561.398, advanced: 1577.405 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 349, pts: 3463, reb: 854, ast: 477, stl: 264, blk: 82, tov: 387 } },
-    { name: 'Damon Stoudamire', years: '1995-1998', positions: ['PG', 'SG'], careerYears: 13, categoryRaw: { playerAccolades: 12, teamAccolades: 33.55, stats: 15473.507, advanced: 2351.223 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 200, pts: 3917, reb: 828, ast: 1761, stl: 301, blk: 37, tov: 714 } },
-    { name: 'Doug Christie', years: '1995-2000', positions: ['PG', 'SG', 'SF', 'PF'], careerYears: 15, categoryRaw: { playerAccolades: 13, teamAccolades: 35.25, stats: 14717.301, advanced: 2032.888 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 1, allDefSecond: 3, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 314, pts: 4448, reb: 1448, ast: 1197, stl: 664, blk: 187, tov: 767 } },
-    { name: 'Andrea Bargnani', years: '2006-2013', positions: ['SF', 'PF', 'C'], careerYears: 10, categoryRaw: { playerAccolades: 0, teamAccolades: 36.95, stats: 14871.295, advanced: 1902.282 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 433, pts: 6581, reb: 2095, ast: 544, stl: 187, blk: 382, tov: 725 } },
-    { name: 'Jose Calderon', years: '2005-2013', positions: ['PG', 'SG'], careerYears: 14, categoryRaw: { playerAccolades: 0, teamAccolades: 37.8, stats: 15947.637, advanced: 1849.717 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 525, pts: 5235, reb: 1315, ast: 3770, stl: 469, blk: 45, tov: 906 } },
+    { name: 'Damon Stoudamire', years: '1995-1998', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 13, categoryRaw: { playerAccolades: 12, teamAccolades: 33.55, stats: 15473.507, advanced: 2351.223 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 200, pts: 3917, reb: 828, ast: 1761, stl: 301, blk: 37, tov: 714 } },
+    { name: 'Doug Christie', years: '1995-2000', positions: ['PG', 'SG', 'SF', 'PF'], archetypes: ['THREE_AND_D_WING'], careerYears: 15, categoryRaw: { playerAccolades: 13, teamAccolades: 35.25, stats: 14717.301, advanced: 2032.888 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 1, allDefSecond: 3, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 314, pts: 4448, reb: 1448, ast: 1197, stl: 664, blk: 187, tov: 767 } },
+    { name: 'Andrea Bargnani', years: '2006-2013', positions: ['SF', 'PF', 'C'], archetypes: ['STRETCH_BIG'], careerYears: 10, categoryRaw: { playerAccolades: 0, teamAccolades: 36.95, stats: 14871.295, advanced: 1902.282 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 433, pts: 6581, reb: 2095, ast: 544, stl: 187, blk: 382, tov: 725 } },
+    { name: 'Jose Calderon', years: '2005-2013', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 14, categoryRaw: { playerAccolades: 0, teamAccolades: 37.8, stats: 15947.637, advanced: 1849.717 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 525, pts: 5235, reb: 1315, ast: 3770, stl: 469, blk: 45, tov: 906 } },
   ],
   UTA: [
-    { name: 'Karl Malone', years: '1985-2003', positions: ['SF', 'PF'], careerYears: 19, categoryRaw: { playerAccolades: 230, teamAccolades: 46.3, stats: 51609.957, advanced: 3384.605 }, accolades: { mvp: 3, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 11, allNbaSecond: 2, allNbaThird: 1, allDefFirst: 3, allDefSecond: 1, allStar: 14, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 1434, pts: 36374, reb: 14601, ast: 5085, stl: 2035, blk: 1125, tov: 4421 } },
-    { name: 'John Stockton', years: '1984-2003', positions: ['PG', 'SG'], careerYears: 21, categoryRaw: { playerAccolades: 101, teamAccolades: 47.15, stats: 43414.252, advanced: 2923.861 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 2, allNbaSecond: 6, allNbaThird: 3, allDefFirst: 0, allDefSecond: 5, allStar: 10, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 1504, pts: 19711, reb: 4051, ast: 15806, stl: 3265, blk: 315, tov: 4244 } },
-    { name: 'Rudy Gobert', years: '2013-2022', positions: ['C'], careerYears: 13, categoryRaw: { playerAccolades: 95, teamAccolades: 38.65, stats: 23514.102, advanced: 2658.641 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 4, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 3, allDefFirst: 7, allDefSecond: 1, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 611, pts: 7592, reb: 7119, ast: 807, stl: 412, blk: 1357, tov: 1008 } },
-    { name: 'Mark Eaton', years: '1982-1993', positions: ['C'], careerYears: 11, categoryRaw: { playerAccolades: 40, teamAccolades: 40.35, stats: 22987.097, advanced: 2190.463 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 2, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 3, allDefSecond: 2, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 875, pts: 5216, reb: 6939, ast: 840, stl: 368, blk: 3064, tov: 1293 } },
-    { name: 'Andrei Kirilenko', years: '2001-2011', positions: ['SF', 'PF'], careerYears: 14, categoryRaw: { playerAccolades: 12, teamAccolades: 39.5, stats: 23128.075, advanced: 2457.444 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 1, allDefSecond: 2, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 681, pts: 8411, reb: 3836, ast: 1919, stl: 960, blk: 1380, tov: 1344 } },
-    { name: 'Pete Maravich', years: '1974-1980', positions: ['PG', 'SG'], careerYears: 10, categoryRaw: { playerAccolades: 40, teamAccolades: 36.1, stats: 21638.185, advanced: 2793.713 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 2, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 330, pts: 8324, reb: 1435, ast: 1844, stl: 467, blk: 93, tov: 493 } },
+    { name: 'Karl Malone', years: '1985-2003', positions: ['SF', 'PF'], archetypes: ['POST_SCORER'], careerYears: 19, categoryRaw: { playerAccolades: 230, teamAccolades: 46.3, stats: 51609.957, advanced: 3384.605 }, accolades: { mvp: 3, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 11, allNbaSecond: 2, allNbaThird: 1, allDefFirst: 3, allDefSecond: 1, allStar: 14, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 1434, pts: 36374, reb: 14601, ast: 5085, stl: 2035, blk: 1125, tov: 4421 } },
+    { name: 'John Stockton', years: '1984-2003', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 21, categoryRaw: { playerAccolades: 101, teamAccolades: 47.15, stats: 43414.252, advanced: 2923.861 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 2, allNbaSecond: 6, allNbaThird: 3, allDefFirst: 0, allDefSecond: 5, allStar: 10, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 1504, pts: 19711, reb: 4051, ast: 15806, stl: 3265, blk: 315, tov: 4244 } },
+    { name: 'Rudy Gobert', years: '2013-2022', positions: ['C'], archetypes: ['RIM_PROTECTOR'], careerYears: 13, categoryRaw: { playerAccolades: 95, teamAccolades: 38.65, stats: 23514.102, advanced: 2658.641 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 4, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 3, allDefFirst: 7, allDefSecond: 1, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 611, pts: 7592, reb: 7119, ast: 807, stl: 412, blk: 1357, tov: 1008 } },
+    { name: 'Mark Eaton', years: '1982-1993', positions: ['C'], archetypes: ['RIM_PROTECTOR'], careerYears: 11, categoryRaw: { playerAccolades: 40, teamAccolades: 40.35, stats: 22987.097, advanced: 2190.463 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 2, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 3, allDefSecond: 2, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 875, pts: 5216, reb: 6939, ast: 840, stl: 368, blk: 3064, tov: 1293 } },
+    { name: 'Andrei Kirilenko', years: '2001-2011', positions: ['SF', 'PF'], archetypes: ['THREE_AND_D_WING'], careerYears: 14, categoryRaw: { playerAccolades: 12, teamAccolades: 39.5, stats: 23128.075, advanced: 2457.444 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 1, allDefSecond: 2, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 681, pts: 8411, reb: 3836, ast: 1919, stl: 960, blk: 1380, tov: 1344 } },
+    { name: 'Pete Maravich', years: '1974-1980', positions: ['PG', 'SG'], archetypes: ['SLASHER'], careerYears: 10, categoryRaw: { playerAccolades: 40, teamAccolades: 36.1, stats: 21638.185, advanced: 2793.713 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 2, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 330, pts: 8324, reb: 1435, ast: 1844, stl: 467, blk: 93, tov: 493 } },
     { name: 'Darrell Griffith', years: '1980-1985, 1986-1991', positions: ['PG', 'SG'], careerYears: 11, categoryRaw: { playerAccolades: 12, teamAccolades: 39.5, stats: 20726.496, advanced: 2097.648 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 765, pts: 12391, reb: 2519, ast: 1627, stl: 931, blk: 242, tov: 1632 } },
-    { name: 'Adrian Dantley', years: '1979-1986', positions: ['SF', 'PF'], careerYears: 15, categoryRaw: { playerAccolades: 36, teamAccolades: 36.95, stats: 23911.105, advanced: 2693.58 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 461, pts: 13635, reb: 2845, ast: 1702, stl: 502, blk: 62, tov: 1560 } },
+    { name: 'Adrian Dantley', years: '1979-1986', positions: ['SF', 'PF'], archetypes: ['SLASHER'], careerYears: 15, categoryRaw: { playerAccolades: 36, teamAccolades: 36.95, stats: 23911.105, advanced: 2693.58 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 6, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 461, pts: 13635, reb: 2845, ast: 1702, stl: 502, blk: 62, tov: 1560 } },
     { name: 'Derrick Favors', years: '2010-2019, 2020-2021', positions: ['SF', 'PF'], careerYears: 12, categoryRaw: { playerAccolades: 0, teamAccolades: 39.5, stats: 18926.816, advanced: 2034.328 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 644, pts: 7336, reb: 4626, ast: 724, stl: 512, blk: 840, tov: 875 } },
     { name: 'Thurl Bailey', years: '1983-1992, 1998-1999', positions: ['SF', 'PF'], careerYears: 16, categoryRaw: { playerAccolades: 0, teamAccolades: 39.5, stats: 19610.366, advanced: 1950.264 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 708, pts: 9897, reb: 3881, ast: 1124, stl: 365, blk: 879, tov: 1239 } },
-    { name: 'Deron Williams', years: '2005-2011', positions: ['PG', 'SG'], careerYears: 12, categoryRaw: { playerAccolades: 18, teamAccolades: 36.1, stats: 20292.312, advanced: 2449.542 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 439, pts: 7576, reb: 1407, ast: 4003, stl: 461, blk: 101, tov: 1337 } },
-    { name: 'Donovan Mitchell', years: '2017-2022', positions: ['PG', 'SG'], careerYears: 9, categoryRaw: { playerAccolades: 29, teamAccolades: 35.25, stats: 18628.633, advanced: 2414.118 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 345, pts: 8234, reb: 1433, ast: 1542, stl: 445, blk: 99, tov: 964 } },
-    { name: 'Rickey Green', years: '1980-1988', positions: ['PG', 'SG'], careerYears: 15, categoryRaw: { playerAccolades: 2, teamAccolades: 37.8, stats: 19549.315, advanced: 2180.718 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 606, pts: 6917, reb: 1379, ast: 4159, stl: 1100, blk: 39, tov: 1211 } },
-    { name: 'Carlos Boozer', years: '2004-2010', positions: ['SF', 'PF'], careerYears: 13, categoryRaw: { playerAccolades: 8, teamAccolades: 36.1, stats: 18963.719, advanced: 2428.95 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 354, pts: 6821, reb: 3712, ast: 1012, stl: 364, blk: 137, tov: 901 } },
+    { name: 'Deron Williams', years: '2005-2011', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 12, categoryRaw: { playerAccolades: 18, teamAccolades: 36.1, stats: 20292.312, advanced: 2449.542 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 2, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 439, pts: 7576, reb: 1407, ast: 4003, stl: 461, blk: 101, tov: 1337 } },
+    { name: 'Donovan Mitchell', years: '2017-2022', positions: ['PG', 'SG'], archetypes: ['SLASHER'], careerYears: 9, categoryRaw: { playerAccolades: 29, teamAccolades: 35.25, stats: 18628.633, advanced: 2414.118 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 7, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 345, pts: 8234, reb: 1433, ast: 1542, stl: 445, blk: 99, tov: 964 } },
+    { name: 'Rickey Green', years: '1980-1988', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 15, categoryRaw: { playerAccolades: 2, teamAccolades: 37.8, stats: 19549.315, advanced: 2180.718 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 606, pts: 6917, reb: 1379, ast: 4159, stl: 1100, blk: 39, tov: 1211 } },
+    { name: 'Carlos Boozer', years: '2004-2010', positions: ['SF', 'PF'], archetypes: ['POST_SCORER'], careerYears: 13, categoryRaw: { playerAccolades: 8, teamAccolades: 36.1, stats: 18963.719, advanced: 2428.95 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 354, pts: 6821, reb: 3712, ast: 1012, stl: 364, blk: 137, tov: 901 } },
     { name: 'Paul Millsap', years: '2006-2013', positions: ['SF', 'PF'], careerYears: 16, categoryRaw: { playerAccolades: 11, teamAccolades: 36.95, stats: 18432.359, advanced: 2114.066 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 1, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 540, pts: 6713, reb: 3792, ast: 950, stl: 604, blk: 520, tov: 821 } },
   ],
   WAS: [
     { name: 'Wes Unseld', years: '1968-1981', positions: ['C'], careerYears: 13, championships: 1, categoryRaw: { playerAccolades: 95, teamAccolades: 66.05, stats: 31990.593, advanced: 2737.368 }, accolades: { mvp: 2, finalsMvp: 1, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 984, pts: 10624, reb: 13769, ast: 3822, stl: 628, blk: 367, tov: 579 } },
-    { name: 'Elvin Hayes', years: '1972-1981', positions: ['SF', 'PF'], careerYears: 16, championships: 1, categoryRaw: { playerAccolades: 75, teamAccolades: 62.65, stats: 35268.128, advanced: 3376.395 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 3, allNbaSecond: 3, allNbaThird: 0, allDefFirst: 0, allDefSecond: 2, allStar: 12, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 731, pts: 15551, reb: 9305, ast: 1294, stl: 736, blk: 1558, tov: 868 } },
+    { name: 'Elvin Hayes', years: '1972-1981', positions: ['SF', 'PF'], archetypes: ['RIM_PROTECTOR', 'POST_SCORER'], careerYears: 16, championships: 1, categoryRaw: { playerAccolades: 75, teamAccolades: 62.65, stats: 35268.128, advanced: 3376.395 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 3, allNbaSecond: 3, allNbaThird: 0, allDefFirst: 0, allDefSecond: 2, allStar: 12, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 731, pts: 15551, reb: 9305, ast: 1294, stl: 736, blk: 1558, tov: 868 } },
     { name: 'Phil Chenier', years: '1971-1980', positions: ['PG', 'SG'], careerYears: 12, championships: 1, categoryRaw: { playerAccolades: 12, teamAccolades: 62.65, stats: 21194.533, advanced: 2476.646 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 546, pts: 9778, reb: 2020, ast: 1688, stl: 667, blk: 228, tov: 127 } },
     { name: 'Gus Johnson', years: '1963-1972', positions: ['SF', 'PF'], careerYears: 10, categoryRaw: { playerAccolades: 42, teamAccolades: 38.65, stats: 24222.752, advanced: 2558.123 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 4, allNbaThird: 0, allDefFirst: 2, allDefSecond: 0, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 560, pts: 9781, reb: 7243, ast: 1510, stl: 0, blk: 0, tov: 0 } },
-    { name: 'Bradley Beal', years: '2012-2023', positions: ['PG', 'SG'], careerYears: 14, categoryRaw: { playerAccolades: 10, teamAccolades: 40.35, stats: 26749.324, advanced: 2686.868 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 695, pts: 15391, reb: 2837, ast: 2972, stl: 772, blk: 284, tov: 1708 } },
+    { name: 'Bradley Beal', years: '2012-2023', positions: ['PG', 'SG'], archetypes: ['SLASHER'], careerYears: 14, categoryRaw: { playerAccolades: 10, teamAccolades: 40.35, stats: 26749.324, advanced: 2686.868 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 695, pts: 15391, reb: 2837, ast: 2972, stl: 772, blk: 284, tov: 1708 } },
     { name: 'Greg Ballard', years: '1977-1985', positions: ['SF', 'PF'], careerYears: 12, championships: 1, categoryRaw: { playerAccolades: 0, teamAccolades: 61.8, stats: 20292.166, advanced: 2208.739 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 643, pts: 8706, reb: 4094, ast: 1542, stl: 762, blk: 233, tov: 935 } },
-    { name: 'John Wall', years: '2010-2019', positions: ['PG', 'SG'], careerYears: 13, categoryRaw: { playerAccolades: 17, teamAccolades: 38.65, stats: 26137.305, advanced: 2660.749 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 1, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 573, pts: 10879, reb: 2483, ast: 5282, stl: 976, blk: 396, tov: 2191 } },
-    { name: 'Walt Bellamy', years: '1961-1966', positions: ['C'], careerYears: 14, categoryRaw: { playerAccolades: 20, teamAccolades: 35.25, stats: 26014.988, advanced: 3199.273 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 327, pts: 9020, reb: 5438, ast: 778, stl: 0, blk: 0, tov: 0 } },
-    { name: 'Gilbert Arenas', years: '2003-2011', positions: ['PG', 'SG'], careerYears: 11, categoryRaw: { playerAccolades: 24, teamAccolades: 37.8, stats: 20967.267, advanced: 2663.839 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 357, pts: 8930, reb: 1513, ast: 2046, stl: 636, blk: 96, tov: 1239 } },
+    { name: 'John Wall', years: '2010-2019', positions: ['PG', 'SG'], archetypes: ['FLOOR_GENERAL'], careerYears: 13, categoryRaw: { playerAccolades: 17, teamAccolades: 38.65, stats: 26137.305, advanced: 2660.749 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 1, allStar: 5, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 573, pts: 10879, reb: 2483, ast: 5282, stl: 976, blk: 396, tov: 2191 } },
+    { name: 'Walt Bellamy', years: '1961-1966', positions: ['C'], archetypes: ['RIM_PROTECTOR', 'POST_SCORER'], careerYears: 14, categoryRaw: { playerAccolades: 20, teamAccolades: 35.25, stats: 26014.988, advanced: 3199.273 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 327, pts: 9020, reb: 5438, ast: 778, stl: 0, blk: 0, tov: 0 } },
+    { name: 'Gilbert Arenas', years: '2003-2011', positions: ['PG', 'SG'], archetypes: ['SLASHER'], careerYears: 11, categoryRaw: { playerAccolades: 24, teamAccolades: 37.8, stats: 20967.267, advanced: 2663.839 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 1, allNbaFirst: 0, allNbaSecond: 1, allNbaThird: 2, allDefFirst: 0, allDefSecond: 0, allStar: 3, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 357, pts: 8930, reb: 1513, ast: 2046, stl: 636, blk: 96, tov: 1239 } },
     { name: 'Kevin Grevey', years: '1975-1983', positions: ['PG', 'SG'], careerYears: 10, championships: 1, categoryRaw: { playerAccolades: 0, teamAccolades: 61.8, stats: 13457.234, advanced: 1703.548 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 530, pts: 6442, reb: 1410, ast: 1078, stl: 335, blk: 106, tov: 648 } },
-    { name: 'Earl Monroe', years: '1967-1972', positions: ['PG', 'SG'], careerYears: 13, categoryRaw: { playerAccolades: 29, teamAccolades: 35.25, stats: 17417.042, advanced: 2286.113 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 328, pts: 7775, reb: 1223, ast: 1507, stl: 0, blk: 0, tov: 0 } },
-    { name: 'Antawn Jamison', years: '2004-2010', positions: ['SF', 'PF'], careerYears: 16, categoryRaw: { playerAccolades: 8, teamAccolades: 36.1, stats: 19848.532, advanced: 2332.051 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 1, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 421, pts: 8736, reb: 3735, ast: 773, stl: 469, blk: 132, tov: 658 } },
+    { name: 'Earl Monroe', years: '1967-1972', positions: ['PG', 'SG'], archetypes: ['SLASHER'], careerYears: 13, categoryRaw: { playerAccolades: 29, teamAccolades: 35.25, stats: 17417.042, advanced: 2286.113 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 2, sixthMan: 0, mip: 0, allNbaFirst: 1, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 4, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 328, pts: 7775, reb: 1223, ast: 1507, stl: 0, blk: 0, tov: 0 } },
+    { name: 'Antawn Jamison', years: '2004-2010', positions: ['SF', 'PF'], archetypes: ['POST_SCORER'], careerYears: 16, categoryRaw: { playerAccolades: 8, teamAccolades: 36.1, stats: 19848.532, advanced: 2332.051 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 1, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 2, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 421, pts: 8736, reb: 3735, ast: 773, stl: 469, blk: 132, tov: 658 } },
     { name: 'Kevin Loughery', years: '1963-1972', positions: ['PG', 'SG'], careerYears: 11, categoryRaw: { playerAccolades: 0, teamAccolades: 38.65, stats: 18658.231, advanced: 2042.592 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 0, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 591, pts: 9835, reb: 1854, ast: 2363, stl: 0, blk: 0, tov: 0 } },
-    { name: 'Juwan Howard', years: '1994-2001', positions: ['SF', 'PF'], careerYears: 19, categoryRaw: { playerAccolades: 6, teamAccolades: 36.95, stats: 19267.118, advanced: 2225.125 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 464, pts: 8530, reb: 3448, ast: 1552, stl: 449, blk: 156, tov: 1389 } },
-    { name: 'Jeff Ruland', years: '1981-1986', positions: ['C'], careerYears: 12, categoryRaw: { playerAccolades: 2, teamAccolades: 35.25, stats: 18333.386, advanced: 2455.201 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 303, pts: 5653, reb: 3285, ast: 985, stl: 240, blk: 259, tov: 1176 } },
+    { name: 'Juwan Howard', years: '1994-2001', positions: ['SF', 'PF'], archetypes: ['STRETCH_BIG'], careerYears: 19, categoryRaw: { playerAccolades: 6, teamAccolades: 36.95, stats: 19267.118, advanced: 2225.125 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 1, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 464, pts: 8530, reb: 3448, ast: 1552, stl: 449, blk: 156, tov: 1389 } },
+    { name: 'Jeff Ruland', years: '1981-1986', positions: ['C'], archetypes: ['POST_SCORER'], careerYears: 12, categoryRaw: { playerAccolades: 2, teamAccolades: 35.25, stats: 18333.386, advanced: 2455.201 }, accolades: { mvp: 0, finalsMvp: 0, dpoy: 0, roy: 0, sixthMan: 0, mip: 0, allNbaFirst: 0, allNbaSecond: 0, allNbaThird: 0, allDefFirst: 0, allDefSecond: 0, allStar: 1, scoringTitles: 0, reboundingTitles: 0, assistsTitles: 0, stealsTitles: 0, blocksTitles: 0 }, boxTotals: { gp: 303, pts: 5653, reb: 3285, ast: 985, stl: 240, blk: 259, tov: 1176 } },
   ],
 };
@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import { apiPreflight, buildPagination, getBearerToken, parseQuery, serializeDraftView, serializeRun } from '@/lib/api-v1';
+import type { DraftView } from '@/lib/draft-service';
+import { leaderboardQuerySchema } from '@/lib/validators';
+
+describe('public api v1', () => {
+  it('applies leaderboard query defaults and ignores blank params', () => {
+    const query = parseQuery(leaderboardQuerySchema, new URLSearchParams('groupCode=&page=2'));
+
+    expect(query).toEqual({
+      success: true,
+      data: {
+        timeframe: 'all',
+        assist: 'all',
+        era: 'ALL_TIME',
+        scoringPreset: 'BALANCED',
+        clockMode: 'STANDARD',
+        format: 'STANDARD',
+        drawMode: 'UNIFORM',
+        score: 'current',
+        page: 2,
+        pageSize: 25
+      }
+    });
+  });
+
+  it('rejects out-of-range page sizes and unknown timeframes', () => {
+    const tooLarge = parseQuery(leaderboardQuerySchema, new URLSearchParams('pageSize=500'));
+    const badTimeframe = parseQuery(leaderboardQuerySchema, new URLSearchParams('timeframe=weekly'));
+
+    expect(tooLarge.success).toBe(false);
+    expect(badTimeframe.success).toBe(false);
+    if (!tooLarge.success) {
+      expect(tooLarge.message).toContain('pageSize');
+    }
+  });
+
+  it('reports at least one page even when empty', () => {
+    expect(buildPagination(1, 25, 0)).toEqual({ page: 1, pageSize: 25, total: 0, totalPages: 1 });
+    expect(buildPagination(2, 25, 51).totalPages).toBe(3);
+  });
+
+  it('serializes runs without internal columns', () => {
+    const serialized = serializeRun({
+      shareCode: 'ABC123',
+      userName: 'Andrew',
+      groupCode: null,
+      seed: null,
+      format: 'UNKNOWN',
+      era: 'UNKNOWN',
+      scoringPreset: 'UNKNOWN',
+      drawMode: 'UNKNOWN',
+      clockMode: 'UNKNOWN',
+      timeoutPolicy: 'UNKNOWN',
+      dailyDate: null,
+      challengeShareCode: null,
+      teamScore: 71.2,
+      drawStrength: 1.1,
+      luckAdjustedScore: 64.7,
+      baseTeamScore: 60,
+      chemistryScore: 55,
+      chemistryMultiplier: 1.19,
+      usedFallbackStats: false,
+      scoringVersion: 1,
+      originalTeamScore: 69.8,
+      originalScoringVersion: 0,
+      coachAssisted: false,
+      rerollCount: 0,
+      createdAt: new Date('2026-03-01T12:00:00.000Z'),
+      picks: [
+        {
+          slot: 'PG',
+          playerName: 'Magic Johnson',
+          teamAbbr: 'LAL',
+          teamName: 'Los Angeles Lakers',
+          bpm: 0.9,
+          ws48: 0.8,
+          vorp: 0.85,
+          epm: 0.7,
+          usedFallback: false,
+          isPenalty: false,
+          autoDrafted: false,
+          contribution: 18.4
+        }
+      ]
+    });
+
+    expect(serialized.format).toBe('STANDARD');
+    expect(serialized.era).toBe('ALL_TIME');
+    expect(serialized.scoringPreset).toBe('BALANCED');
+    expect(serialized.drawMode).toBe('UNIFORM');
+    expect(serialized.clockMode).toBe('STANDARD');
+    expect(serialized.timeoutPolicy).toBe('EMPTY_SLOT');
+    expect(serialized.createdAt).toBe('2026-03-01T12:00:00.000Z');
+    expect(serialized.resultsPath).toBe('/results/ABC123');
+    expect(serialized.picks[0]?.metrics).toEqual({ bpm: 0.9, ws48: 0.8, vorp: 0.85, epm: 0.7 });
+    expect(serialized).not.toHaveProperty('id');
+  });
+
+  it('answers CORS preflight with the allowed methods and the authorization header', () => {
+    const response = apiPreflight(['POST']);
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+    expect(response.headers.get('Access-Control-Allow-Methods')).toBe('POST, OPTIONS');
+    expect(response.headers.get('Access-Control-Allow-Headers')).toContain('Authorization');
+  });
+
+  it('reads bearer tokens from the authorization header', () => {
+    const request = new Request('http://localhost/api/v1/drafts/current', {
+      headers: { Authorization: 'Bearer abc-123' }
+    });
+
+    expect(getBearerToken(request)).toBe('abc-123');
+    expect(getBearerToken(new Request('http://localhost/'))).toBeNull();
+  });
+
+  it('marks drafted players unavailable in the headless draft state', () => {
+    const view: DraftView = {
+      id: 'session-1',
+      cookieToken: 'token',
+      watchCode: null,
+      status: 'DRAFTING',
+      userName: null,
+      groupCode: null,
+      seed: null,
+      format: 'STANDARD',
+      era: 'ALL_TIME',
+      scoringPreset: 'BALANCED',
+      drawMode: 'UNIFORM',
+      timeoutPolicy: 'EMPTY_SLOT',
+      clockMode: 'STANDARD',
+      lineupSlots: ['PG', 'SG', 'SF', 'PF', 'C'],
+      totalDraws: 5,
+      drawSequence: ['GSW', 'LAL'],
+      currentDrawIndex: 1,
+      currentTeamAbbr: 'GSW',
+      remainingTeams: ['GSW'],
+      lineup: {
+        PG: { slot: 'PG', playerName: 'Stephen Curry', teamAbbr: 'GSW', teamName: 'Golden State Warriors' }
+      },
+      chosenPlayers: ['Stephen Curry'],
+      runShareCode: null,
+      challengeShareCode: null,
+      coachEnabled: false,
+      coachAvailable: true,
+      rerolls: [],
+      rerollsRemaining: 1,
+      shotClockDeadlineAt: null,
+      shotClockSeconds: 24,
+      timeBankSeconds: null,
+      room: null
+    };
+
+    const state = serializeDraftView(view);
+    const curry = state.roster.find((player) => player.name === 'Stephen Curry');
+
+    expect(state.openSlots).toEqual(['SG', 'SF', 'PF', 'C']);
+    expect(state.currentTeam?.abbr).toBe('GSW');
+    expect(curry?.available).toBe(false);
+    expect(state).not.toHaveProperty('cookieToken');
+  });
+});
@@ -0,0 +1,413 @@
+import type { ZodType, ZodTypeDef } from 'zod';
+import { parseClockMode } from '@/lib/clock-modes';
+import { getRosterByTeam, getTeamByAbbr } from '@/lib/data';
+import type { DraftView } from '@/lib/draft-service';
+import { parseDrawMode } from '@/lib/draw-modes';
+import { parseDraftEra } from '@/lib/eras';
+import { getEligibleRosterSlots, parseDraftFormat } from '@/lib/formats';
+import { getOpenSlots } from '@/lib/rules';
+import type { RunBenchmarks } from '@/lib/run-service';
+import { parseScoringPreset } from '@/lib/scoring-presets';
+import { parseTimeoutPolicy } from '@/lib/timeout-policies';
+import type {
+  ClockMode,
+  DraftEra,
+  DraftFormat,
+  DraftStatus,
+  DrawMode,
+  LeaderboardAssistFilter,
+  LeaderboardScoreVersion,
+  LeaderboardTimeframe,
+  LineupSlot,
+  RosterSlot,
+  ScoringPreset,
+  Team,
+  TimeoutPolicy
+} from '@/lib/types';
+
+type RunRecord = {
+  shareCode: string;
+  userName: string | null;
+  groupCode: string | null;
+  seed: string | null;
+  format: string;
+  era: string;
+  scoringPreset: string;
+  drawMode: string;
+  clockMode: string;
+  timeoutPolicy: string;
+  dailyDate: string | null;
+  challengeShareCode: string | null;
+  teamScore: number;
+  drawStrength: number | null;
+  luckAdjustedScore: number | null;
+  baseTeamScore: number;
+  chemistryScore: number;
+  chemistryMultiplier: number;
+  usedFallbackStats: boolean;
+  scoringVersion: number;
+  originalTeamScore: number;
+  originalScoringVersion: number;
+  coachAssisted: boolean;
+  rerollCount: number;
+  createdAt: Date;
+  picks: Array<{
+    slot: string;
+    playerName: string;
+    teamAbbr: string;
+    teamName: string;
+    bpm: number;
+    ws48: number;
+    vorp: number;
+    epm: number;
+    usedFallback: boolean;
+    isPenalty: boolean;
+    autoDrafted: boolean;
+    contribution: number;
+  }>;
+};
+
+export type ApiRunPick = {
+  slot: string;
+  playerName: string;
+  teamAbbr: string;
+  teamName: string;
+  isPenalty: boolean;
+  autoDrafted: boolean;
+  contribution: number;
+  usedFallbackStats: boolean;
+  metrics: {
+    bpm: number;
+    ws48: number;
+    vorp: number;
+    epm: number;
+  };
+};
+
+export type ApiRun = {
+  shareCode: string;
+  userName: string | null;
+  groupCode: string | null;
+  seed: string | null;
+  format: DraftFormat;
+  era: DraftEra;
+  scoringPreset: ScoringPreset;
+  drawMode: DrawMode;
+  clockMode: ClockMode;
+  timeoutPolicy: TimeoutPolicy;
+  dailyDate: string | null;
+  challengeShareCode: string | null;
+  teamScore: number;
+  drawStrength: number | null;
+  luckAdjustedScore: number | null;
+  baseTeamScore: number;
+  chemistryScore: number;
+  chemistryMultiplier: number;
+  usedFallbackStats: boolean;
+  scoringVersion: number;
+  originalTeamScore: number;
+  originalScoringVersion: number;
+  coachAssisted: boolean;
+  rerollCount: number;
+  createdAt: string;
+  resultsPath: string;
+  picks: ApiRunPick[];
+};
+
+export type ApiLeaderboardEntry = {
+  rank: number;
+  run: ApiRun;
+};
+
+export type ApiPagination = {
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+};
+
+export type ApiLeaderboardResponse = {
+  data: ApiLeaderboardEntry[];
+  pagination: ApiPagination;
+  filters: {
+    groupCode: string | null;
+    timeframe: LeaderboardTimeframe;
+    assist: LeaderboardAssistFilter;
+    era: DraftEra;
+    scoringPreset: ScoringPreset;
+    clockMode: ClockMode;
+    format: DraftFormat;
+    drawMode: DrawMode;
+    score: LeaderboardScoreVersion;
+  };
+};
+
+export type ApiBenchmarksResponse = {
+  data: RunBenchmarks;
+};
+
+export type ApiDraftRosterPlayer = {
+  name: string;
+  yearsWithTeam: string;
+  positions: LineupSlot[];
+  eligibleSlots: RosterSlot[];
+  available: boolean;
+};
+
+export type ApiDraftState = {
+  status: DraftStatus;
+  format: DraftFormat;
+  era: DraftEra;
+  scoringPreset: ScoringPreset;
+  drawMode: DrawMode;
+  clockMode: ClockMode;
+  timeoutPolicy: TimeoutPolicy;
+  userName: string | null;
+  groupCode: string | null;
+  seed: string | null;
+  totalDraws: number;
+  currentDrawIndex: number;
+  currentTeam: Team | null;
+  shotClockDeadlineAt: string | null;
+  shotClockSeconds: number | null;
+  timeBankSeconds: number | null;
+  rerollsRemaining: number;
+  lineupSlots: RosterSlot[];
+  openSlots: RosterSlot[];
+  lineup: Array<{
+    slot: RosterSlot;
+    playerName: string;
+    teamAbbr: string;
+    isPenalty: boolean;
+    isAutoDrafted: boolean;
+  }>;
+  roster: ApiDraftRosterPlayer[];
+  room: {
+    code: string;
+    isMyTurn: boolean;
+    onTheClockName: string | null;
+  } | null;
+  shareCode: string | null;
+};
+
+export type ApiErrorCode = 'bad_request' | 'unauthorized' | 'not_found' | 'invalid_pick' | 'invalid_reroll';
+
+export type ApiErrorResponse = {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+  };
+};
+
+/**
+ * Maps a stored run to the public v1 shape. Internal columns (ids, raw JSON blobs) are left
+ * out so the response stays stable when storage changes.
+ */
+export function serializeRun(run: RunRecord): ApiRun {
+  return {
+    shareCode: run.shareCode,
+    userName: run.userName,
+    groupCode: run.groupCode,
+    seed: run.seed,
+    format: parseDraftFormat(run.format),
+    era: parseDraftEra(run.era),
+    scoringPreset: parseScoringPreset(run.scoringPreset),
+    drawMode: parseDrawMode(run.drawMode),
+    clockMode: parseClockMode(run.clockMode),
+    timeoutPolicy: parseTimeoutPolicy(run.timeoutPolicy),
+    dailyDate: run.dailyDate,
+    challengeShareCode: run.challengeShareCode,
+    teamScore: run.teamScore,
+    drawStrength: run.drawStrength,
+    luckAdjustedScore: run.luckAdjustedScore,
+    baseTeamScore: run.baseTeamScore,
+    chemistryScore: run.chemistryScore,
+    chemistryMultiplier: run.chemistryMultiplier,
+    usedFallbackStats: run.usedFallbackStats,
+    scoringVersion: run.scoringVersion,
+    originalTeamScore: run.originalTeamScore,
+    originalScoringVersion: run.originalScoringVersion,
+    coachAssisted: run.coachAssisted,
+    rerollCount: run.rerollCount,
+    createdAt: run.createdAt.toISOString(),
+    resultsPath: `/results/${run.shareCode}`,
+    picks: run.picks.map((pick) => ({
+      slot: pick.slot,
+      playerName: pick.playerName,
+      teamAbbr: pick.teamAbbr,
+      teamName: pick.teamName,
+      isPenalty: pick.isPenalty,
+      autoDrafted: pick.autoDrafted,
+      contribution: pick.contribution,
+      usedFallbackStats: pick.usedFallback,
+      metrics: {
+        bpm: pick.bpm,
+        ws48: pick.ws48,
+        vorp: pick.vorp,
+        epm: pick.epm
+      }
+    }))
+  };
+}
+
+/**
+ * Public state of a draft for headless clients. The roster is the current franchise with
+ * each player's legal slots, so a bot can choose a pick without re-implementing the rules.
+ */
+export function serializeDraftView(view: DraftView): ApiDraftState {
+  const openSlots = getOpenSlots(view.lineup, view.lineupSlots);
+  const unavailable = new Set([...view.chosenPlayers, ...(view.room?.takenPlayers ?? [])]);
+  const roster = view.currentTeamAbbr ? getRosterByTeam(view.currentTeamAbbr, view.era) : [];
+
+  return {
+    status: view.status,
+    format: view.format,
+    era: view.era,
+    scoringPreset: view.scoringPreset,
+    drawMode: view.drawMode,
+    clockMode: view.clockMode,
+    timeoutPolicy: view.timeoutPolicy,
+    userName: view.userName,
+    groupCode: view.groupCode,
+    seed: view.seed,
+    totalDraws: view.totalDraws,
+    currentDrawIndex: view.currentDrawIndex,
+    currentTeam: view.currentTeamAbbr ? getTeamByAbbr(view.currentTeamAbbr) : null,
+    shotClockDeadlineAt: view.shotClockDeadlineAt,
+    shotClockSeconds: view.shotClockSeconds,
+    timeBankSeconds: view.timeBankSeconds,
+    rerollsRemaining: view.rerollsRemaining,
+    lineupSlots: view.lineupSlots,
+    openSlots,
+    lineup: view.lineupSlots.flatMap((slot) => {
+      const pick = view.lineup[slot];
+      return pick
+        ? [
+            {
+              slot,
+              playerName: pick.playerName,
+              teamAbbr: pick.teamAbbr,
+              isPenalty: Boolean(pick.isPenalty),
+              isAutoDrafted: Boolean(pick.isAutoDrafted)
+            }
+          ]
+        : [];
+    }),
+    roster: roster.map((player) => {
+      const eligibleSlots = getEligibleRosterSlots(player.eligibleSlots, view.lineupSlots);
+
+      return {
+        name: player.name,
+        yearsWithTeam: player.yearsWithTeam,
+        positions: player.eligibleSlots,
+        eligibleSlots,
+        available:
+          !unavailable.has(player.name) && eligibleSlots.some((slot) => openSlots.includes(slot))
+      };
+    }),
+    room: view.room
+      ? {
+          code: view.room.code,
+          isMyTurn: view.room.isMyTurn,
+          onTheClockName: view.room.onTheClockName
+        }
+      : null,
+    shareCode: view.runShareCode
+  };
+}
+
+export function getBearerToken(request: Request): string | null {
+  const header = request.headers.get('authorization') ?? '';
+  const match = /^Bearer\s+(\S+)$/i.exec(header.trim());
+  return match?.[1] ?? null;
+}
+
+export async function parseJsonBody<T>(
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  request: Request
+): Promise<{ success: true; data: T } | { success: false; message: string }> {
+  let body: unknown;
+
+  try {
+    body = await request.json();
+  } catch {
+    return { success: false, message: 'Request body must be valid JSON.' };
+  }
+
+  const parsed = schema.safeParse(body);
+
+  if (parsed.success) {
+    return { success: true, data: parsed.data };
+  }
+
+  return { success: false, message: formatZodIssue(parsed.error.issues[0], 'body') };
+}
+
+function formatZodIssue(
+  issue: { path: Array<string | number>; message: string } | undefined,
+  fallbackPath: string
+): string {
+  if (!issue) {
+    return 'Invalid request.';
+  }
+
+  return `${issue.path.join('.') || fallbackPath}: ${issue.message}`;
+}
+
+export function buildPagination(page: number, pageSize: number, total: number): ApiPagination {
+  return {
+    page,
+    pageSize,
+    total,
+    totalPages: Math.max(1, Math.ceil(total / pageSize))
+  };
+}
+
+export function parseQuery<T>(
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  searchParams: URLSearchParams
+): { success: true; data: T } | { success: false; message: string } {
+  // Empty params (e.g. `?groupCode=`) are treated as absent so defaults apply.
+  const raw = Object.fromEntries(
+    [...searchParams.entries()].filter(([, value]) => value.trim() !== '')
+  );
+  const parsed = schema.safeParse(raw);
+
+  if (parsed.success) {
+    return { success: true, data: parsed.data };
+  }
+
+  return { success: false, message: formatZodIssue(parsed.error.issues[0], 'query') };
+}
+
+export function apiJson<T>(body: T, init: { status?: number; maxAgeSeconds?: number } = {}): Response {
+  return Response.json(body, {
+    status: init.status ?? 200,
+    headers: {
+      'Cache-Control': init.maxAgeSeconds
+        ? `public, max-age=${init.maxAgeSeconds}, stale-while-revalidate=${init.maxAgeSeconds}`
+        : 'no-store',
+      'Access-Control-Allow-Origin': '*'
+    }
+  });
+}
+
+/**
+ * CORS preflight answer for the draft routes, whose `Authorization` header and JSON bodies make
+ * browsers ask before sending the real request.
+ */
+export function apiPreflight(methods: string[]): Response {
+  return new Response(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': [...methods, 'OPTIONS'].join(', '),
+      'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+      'Access-Control-Max-Age': '86400'
+    }
+  });
+}
+
+export function apiError(status: number, code: ApiErrorCode, message: string): Response {
+  return apiJson<ApiErrorResponse>({ error: { code, message } }, { status });
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { findArchetypeCombos, inferArchetypes } from '@/lib/archetypes';
+import { getPlayerArchetypes } from '@/lib/data';
+import { scoreLineup } from '@/lib/scoring';
+import type { LineupPick } from '@/lib/types';
+
+describe('player archetypes', () => {
+  it('infers archetypes from per-game box totals', () => {
+    expect(
+      inferArchetypes({
+        positions: ['PG', 'SG'],
+        boxTotals: { gp: 100, pts: 1500, reb: 400, ast: 900, stl: 150, blk: 20, tov: 300 }
+      })
+    ).toEqual(['FLOOR_GENERAL']);
+    expect(
+      inferArchetypes({
+        positions: ['C'],
+        boxTotals: { gp: 100, pts: 2200, reb: 1100, ast: 250, stl: 80, blk: 250, tov: 250 }
+      })
+    ).toEqual(['RIM_PROTECTOR', 'POST_SCORER']);
+    expect(inferArchetypes({ positions: ['SF'], boxTotals: null })).toEqual([]);
+  });
+
+  it('needs two different players to complete a combo', () => {
+    expect(findArchetypeCombos([['FLOOR_GENERAL'], ['RIM_PROTECTOR']])).toEqual(['PICK_AND_ROLL']);
+    expect(findArchetypeCombos([['POST_SCORER', 'RIM_PROTECTOR']])).toEqual([]);
+  });
+
+  it('adds synergy for combos found in a lineup', () => {
+    const picks: LineupPick[] = [
+      { slot: 'PG', playerName: 'Magic Johnson', teamAbbr: 'LAL', teamName: 'Los Angeles Lakers' },
+      { slot: 'C', playerName: 'Bill Russell', teamAbbr: 'BOS', teamName: 'Boston Celtics' }
+    ];
+
+    expect(getPlayerArchetypes('LAL', 'Magic Johnson')).toContain('FLOOR_GENERAL');
+    expect(scoreLineup(picks).chemistry.combos).toContain('PICK_AND_ROLL');
+    expect(scoreLineup(picks).chemistry.synergy).toBeGreaterThan(0);
+    expect(scoreLineup(picks, { preset: 'NO_CHEMISTRY' }).chemistry.synergy).toBe(0);
+  });
+});
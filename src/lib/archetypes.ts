@@ -0,0 +1,153 @@
+import { ARCHETYPE_COMBOS } from '@/lib/types';
+import type {
+  ArchetypeCombo,
+  ArchetypeComboConfig,
+  AwardBreakdown,
+  BoxTotals,
+  LineupSlot,
+  PlayerArchetype
+} from '@/lib/types';
+
+export const ARCHETYPE_LABELS: Record<PlayerArchetype, string> = {
+  FLOOR_GENERAL: 'Floor General',
+  STRETCH_BIG: 'Stretch Big',
+  THREE_AND_D_WING: '3-and-D Wing',
+  RIM_PROTECTOR: 'Rim Protector',
+  SLASHER: 'Slasher',
+  POST_SCORER: 'Post Scorer'
+};
+
+const ARCHETYPE_COMBO_CONFIGS: Record<ArchetypeCombo, ArchetypeComboConfig> = {
+  PICK_AND_ROLL: {
+    combo: 'PICK_AND_ROLL',
+    label: 'Pick-and-Roll',
+    description: 'A floor general feeding a rim-running big.',
+    archetypes: ['FLOOR_GENERAL', 'RIM_PROTECTOR'],
+    points: 3
+  },
+  PICK_AND_POP: {
+    combo: 'PICK_AND_POP',
+    label: 'Pick-and-Pop',
+    description: 'A floor general running screens for a big who can shoot.',
+    archetypes: ['FLOOR_GENERAL', 'STRETCH_BIG'],
+    points: 2
+  },
+  DRIVE_AND_KICK: {
+    combo: 'DRIVE_AND_KICK',
+    label: 'Drive-and-Kick',
+    description: 'A slasher collapsing the defense for a spot-up 3-and-D wing.',
+    archetypes: ['SLASHER', 'THREE_AND_D_WING'],
+    points: 2
+  },
+  INSIDE_OUT: {
+    combo: 'INSIDE_OUT',
+    label: 'Inside-Out',
+    description: 'A post scorer drawing double teams with shooters on the perimeter.',
+    archetypes: ['POST_SCORER', 'THREE_AND_D_WING'],
+    points: 2
+  },
+  OPEN_LANE: {
+    combo: 'OPEN_LANE',
+    label: 'Open Lane',
+    description: 'A stretch big pulling the center out so a slasher can attack the rim.',
+    archetypes: ['SLASHER', 'STRETCH_BIG'],
+    points: 2
+  },
+  TWIN_TOWERS: {
+    combo: 'TWIN_TOWERS',
+    label: 'Twin Towers',
+    description: 'A post scorer and a rim protector owning the paint on both ends.',
+    archetypes: ['POST_SCORER', 'RIM_PROTECTOR'],
+    points: 1.5
+  }
+};
+
+export function getArchetypeComboConfig(combo: ArchetypeCombo): ArchetypeComboConfig {
+  return ARCHETYPE_COMBO_CONFIGS[combo];
+}
+
+export function getArchetypeComboOptions(): ArchetypeComboConfig[] {
+  return ARCHETYPE_COMBOS.map((combo) => ARCHETYPE_COMBO_CONFIGS[combo]);
+}
+
+/**
+ * Archetypes a player fits, from franchise per-game box totals and accolades. Steals and
+ * blocks were not tracked before 1973, so elite rebounding centers without them count as
+ * rim protectors. Players can fit none.
+ */
+export function inferArchetypes(input: {
+  positions: LineupSlot[];
+  boxTotals?: BoxTotals | null;
+  accolades?: AwardBreakdown | null;
+}): PlayerArchetype[] {
+  const { positions, boxTotals, accolades } = input;
+
+  if (!boxTotals || boxTotals.gp <= 0) {
+    return [];
+  }
+
+  const perGame = (value: number) => value / boxTotals.gp;
+  const pts = perGame(boxTotals.pts);
+  const reb = perGame(boxTotals.reb);
+  const ast = perGame(boxTotals.ast);
+  const stl = perGame(boxTotals.stl);
+  const blk = perGame(boxTotals.blk);
+  const defenseTracked = boxTotals.stl > 0 || boxTotals.blk > 0;
+  const allDefense = (accolades?.allDefFirst ?? 0) + (accolades?.allDefSecond ?? 0);
+
+  // Positions are listed in slot order and most forwards are listed SF/PF, so rebounding
+  // separates the bigs among them.
+  const isGuard = positions.includes('PG');
+  const isBig =
+    positions.includes('C') || positions[0] === 'PF' || (positions.includes('PF') && !isGuard && reb >= 7);
+  const isWing = !isBig && (positions.includes('SG') || positions.includes('SF'));
+
+  const archetypes: PlayerArchetype[] = [];
+
+  if (isGuard && (ast >= 6 || (accolades?.assistsTitles ?? 0) > 0)) {
+    archetypes.push('FLOOR_GENERAL');
+  }
+
+  if (isBig) {
+    const rimProtector =
+      blk >= 1.6 ||
+      (accolades?.blocksTitles ?? 0) > 0 ||
+      ((accolades?.dpoy ?? 0) > 0 && positions.includes('C')) ||
+      (!defenseTracked && positions.includes('C') && reb >= 12);
+    const stretchBig = !rimProtector && defenseTracked && pts >= 14 && reb < 8 && blk < 1;
+
+    if (rimProtector) {
+      archetypes.push('RIM_PROTECTOR');
+    }
+    if (stretchBig) {
+      archetypes.push('STRETCH_BIG');
+    } else if (pts >= 18 && reb >= 7.5) {
+      archetypes.push('POST_SCORER');
+    }
+  } else {
+    if (pts >= 20 || (accolades?.scoringTitles ?? 0) > 0) {
+      archetypes.push('SLASHER');
+    }
+    if (isWing && !archetypes.includes('FLOOR_GENERAL') && pts < 22 && (stl >= 1.3 || allDefense >= 2)) {
+      archetypes.push('THREE_AND_D_WING');
+    }
+  }
+
+  return archetypes.slice(0, 2);
+}
+
+/**
+ * Combos completed by a lineup, given each player's archetypes. Both halves of a combo must
+ * come from different players, and each combo counts once.
+ */
+export function findArchetypeCombos(players: PlayerArchetype[][]): ArchetypeCombo[] {
+  return ARCHETYPE_COMBOS.filter((combo) => {
+    const [first, second] = ARCHETYPE_COMBO_CONFIGS[combo].archetypes;
+
+    return players.some(
+      (archetypes, index) =>
+        archetypes.includes(first) &&
+        players.some((other, otherIndex) => otherIndex !== index && other.includes(second))
+    );
+  });
+}
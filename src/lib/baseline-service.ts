@@ -0,0 +1,88 @@
+import { db } from '@/lib/db';
+import { SCORING_VERSION } from '@/lib/scoring';
+import { safeParseJson, toJsonString } from '@/lib/serialization';
+import { buildBaselineScores } from '@/lib/simulation';
+import { DRAFT_ERAS, DRAFT_FORMATS, DRAW_MODES, SCORING_PRESETS } from '@/lib/types';
+import type { DraftEra, DraftFormat, DrawMode, ScoringPreset } from '@/lib/types';
+import type { Prisma } from '@prisma/client';
+
+export type BaselineConfig = {
+  format: DraftFormat;
+  era: DraftEra;
+  preset: ScoringPreset;
+  drawMode: DrawMode;
+};
+
+export type BaselineBuildSummary = {
+  scoringVersion: number;
+  built: number;
+  skipped: number;
+};
+
+function getBaselineConfigs(): BaselineConfig[] {
+  return DRAFT_FORMATS.flatMap((format) =>
+    DRAFT_ERAS.flatMap((era) =>
+      SCORING_PRESETS.flatMap((preset) => DRAW_MODES.map((drawMode) => ({ format, era, preset, drawMode })))
+    )
+  );
+}
+
+function toBaselineKey(config: BaselineConfig) {
+  return {
+    format: config.format,
+    era: config.era,
+    scoringPreset: config.preset,
+    drawMode: config.drawMode,
+    scoringVersion: SCORING_VERSION
+  };
+}
+
+/**
+ * Simulates and stores the baseline of every format, era, preset and draw mode for the
+ * current scoring version. Baselines already stored are kept unless `rebuild` is set.
+ */
+export async function buildSimulationBaselines(
+  options: { rebuild?: boolean; onBuilt?: (config: BaselineConfig) => void } = {}
+): Promise<BaselineBuildSummary> {
+  const summary: BaselineBuildSummary = { scoringVersion: SCORING_VERSION, built: 0, skipped: 0 };
+
+  for (const config of getBaselineConfigs()) {
+    const key = toBaselineKey(config);
+
+    if (!options.rebuild) {
+      const existing = await db.simulationBaseline.findUnique({
+        where: { format_era_scoringPreset_drawMode_scoringVersion: key },
+        select: { id: true }
+      });
+
+      if (existing) {
+        summary.skipped += 1;
+        continue;
+      }
+    }
+
+    const scoresJson = toJsonString(buildBaselineScores(config));
+    await db.simulationBaseline.upsert({
+      where: { format_era_scoringPreset_drawMode_scoringVersion: key },
+      create: { ...key, scoresJson },
+      update: { scoresJson }
+    });
+    summary.built += 1;
+    options.onBuilt?.(config);
+  }
+
+  return summary;
+}
+
+/** Stored baseline scores for a configuration, or null until `npm run sim:baselines` has built them. */
+export async function getSimulationBaseline(
+  client: Prisma.TransactionClient,
+  config: BaselineConfig
+): Promise<number[] | null> {
+  const baseline = await client.simulationBaseline.findUnique({
+    where: { format_era_scoringPreset_drawMode_scoringVersion: toBaselineKey(config) },
+    select: { scoresJson: true }
+  });
+
+  return baseline ? safeParseJson<number[]>(baseline.scoresJson, []) : null;
+}
@@ -0,0 +1,59 @@
+import { parseClockMode } from '@/lib/clock-modes';
+import { db } from '@/lib/db';
+import { createDraftSession } from '@/lib/draft-service';
+import { parseDrawMode } from '@/lib/draw-modes';
+import { parseDraftEra } from '@/lib/eras';
+import { getDraftFormatConfig } from '@/lib/formats';
+import { getRunByShareCode } from '@/lib/run-service';
+import { parseScoringPreset } from '@/lib/scoring-presets';
+import { parseTimeoutPolicy } from '@/lib/timeout-policies';
+
+/**
+ * Starts a draft on the exact draws of a finished run, with the same format, era and rules, so
+ * the results can be compared head to head. Runs saved without their draws cannot be challenged.
+ */
+export async function startRunChallenge(input: {
+  shareCode: string;
+  userName?: string | null;
+  groupCode?: string | null;
+}) {
+  const run = await getRunByShareCode(input.shareCode);
+
+  if (!run) {
+    throw new Error('Run not found. Check the challenge link.');
+  }
+
+  const { format, totalDraws } = getDraftFormatConfig(run.format);
+  if (run.drawSequence.length < totalDraws) {
+    throw new Error('This run was saved without its draws, so it cannot be challenged.');
+  }
+
+  return createDraftSession({
+    userName: input.userName,
+    groupCode: input.groupCode || run.groupCode,
+    seed: run.seed,
+    format,
+    era: parseDraftEra(run.era),
+    scoringPreset: parseScoringPreset(run.scoringPreset),
+    drawMode: parseDrawMode(run.drawMode),
+    clockMode: parseClockMode(run.clockMode),
+    timeoutPolicy: parseTimeoutPolicy(run.timeoutPolicy),
+    drawSequence: run.drawSequence.slice(0, totalDraws),
+    challengeShareCode: run.shareCode
+  });
+}
+
+/** Finished runs that replayed a run's draws, best first. */
+export async function getRunChallengers(shareCode: string, take = 10) {
+  return db.run.findMany({
+    where: { challengeShareCode: shareCode },
+    select: {
+      shareCode: true,
+      userName: true,
+      teamScore: true,
+      createdAt: true
+    },
+    orderBy: [{ teamScore: 'desc' }, { createdAt: 'asc' }],
+    take
+  });
+}
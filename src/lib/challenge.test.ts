@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { buildChallengeHeadToHead } from '@/lib/challenge';
+
+const pick = (teamAbbr: string, playerName: string, contribution: number, slot = 'PG') => ({
+  slot,
+  playerName,
+  teamAbbr,
+  isPenalty: false,
+  contribution
+});
+
+describe('challenge head-to-head', () => {
+  it('pairs both picks from each drawn franchise in draw order', () => {
+    const result = buildChallengeHeadToHead({
+      drawSequence: ['CHI', 'LAL'],
+      challenger: {
+        teamScore: 80.26,
+        picks: [pick('LAL', 'Magic Johnson', 20), pick('CHI', 'Scottie Pippen', 15, 'SF')]
+      },
+      original: {
+        teamScore: 78.1,
+        picks: [pick('CHI', 'Michael Jordan', 25, 'SG'), pick('LAL', "Shaquille O'Neal", 21, 'C')]
+      }
+    });
+
+    expect(result.rows.map((row) => [row.teamAbbr, row.challenger?.playerName, row.original?.playerName])).toEqual([
+      ['CHI', 'Scottie Pippen', 'Michael Jordan'],
+      ['LAL', 'Magic Johnson', "Shaquille O'Neal"]
+    ]);
+    expect(result).toMatchObject({ margin: 2.2, winner: 'challenger' });
+  });
+
+  it('calls a tie and leaves draws without a pick empty', () => {
+    const result = buildChallengeHeadToHead({
+      drawSequence: ['BOS'],
+      challenger: { teamScore: 50, picks: [] },
+      original: { teamScore: 50, picks: [pick('BOS', 'Larry Bird', 22, 'SF')] }
+    });
+
+    expect(result.rows[0]).toMatchObject({ teamAbbr: 'BOS', challenger: null });
+    expect(result.winner).toBe('tie');
+  });
+});
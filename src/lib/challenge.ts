@@ -0,0 +1,51 @@
+export type ChallengePick = {
+  slot: string;
+  playerName: string;
+  teamAbbr: string;
+  isPenalty: boolean;
+  contribution: number;
+};
+
+export type ChallengeDrawRow = {
+  teamAbbr: string;
+  challenger: ChallengePick | null;
+  original: ChallengePick | null;
+};
+
+export type ChallengeHeadToHead = {
+  rows: ChallengeDrawRow[];
+  margin: number;
+  winner: 'challenger' | 'original' | 'tie';
+};
+
+function roundToOneDecimal(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Lines up a challenge run against the run it replayed, draw by draw. Both drafted from the
+ * same franchises, so each draw pairs the pick each side made from that franchise.
+ */
+export function buildChallengeHeadToHead(input: {
+  drawSequence: string[];
+  challenger: { teamScore: number; picks: ChallengePick[] };
+  original: { teamScore: number; picks: ChallengePick[] };
+}): ChallengeHeadToHead {
+  const takePick = (remaining: ChallengePick[], teamAbbr: string) => {
+    const index = remaining.findIndex((pick) => pick.teamAbbr === teamAbbr);
+    return index >= 0 ? remaining.splice(index, 1)[0]! : null;
+  };
+  const challengerPicks = [...input.challenger.picks];
+  const originalPicks = [...input.original.picks];
+  const margin = roundToOneDecimal(input.challenger.teamScore - input.original.teamScore);
+
+  return {
+    rows: input.drawSequence.map((teamAbbr) => ({
+      teamAbbr,
+      challenger: takePick(challengerPicks, teamAbbr),
+      original: takePick(originalPicks, teamAbbr)
+    })),
+    margin,
+    winner: margin > 0 ? 'challenger' : margin < 0 ? 'original' : 'tie'
+  };
+}
@@ -0,0 +1,63 @@
+import { SHOT_CLOCK_SECONDS } from '@/lib/constants';
+import { CLOCK_MODES } from '@/lib/types';
+import type { ClockMode, ClockModeConfig } from '@/lib/types';
+
+export const DEFAULT_CLOCK_MODE: ClockMode = 'STANDARD';
+
+const CLOCK_MODE_CONFIGS: Record<ClockMode, ClockModeConfig> = {
+  STANDARD: {
+    mode: 'STANDARD',
+    label: 'Standard',
+    description: `${SHOT_CLOCK_SECONDS} seconds on the shot clock for every draw.`,
+    secondsPerDraw: SHOT_CLOCK_SECONDS,
+    timeBankSeconds: null
+  },
+  BLITZ: {
+    mode: 'BLITZ',
+    label: 'Blitz',
+    description: '10 seconds per draw. No time to second-guess.',
+    secondsPerDraw: 10,
+    timeBankSeconds: null
+  },
+  STUDY: {
+    mode: 'STUDY',
+    label: 'Study',
+    description: 'No shot clock. Take as long as you like on every draw.',
+    secondsPerDraw: null,
+    timeBankSeconds: null
+  },
+  TIME_BANK: {
+    mode: 'TIME_BANK',
+    label: 'Time Bank',
+    description: '90 seconds for the whole round, spent however you like. When the bank runs dry, every remaining draw is a violation.',
+    secondsPerDraw: null,
+    timeBankSeconds: 90
+  }
+};
+
+export function parseClockMode(value: string | null | undefined): ClockMode {
+  if (value && CLOCK_MODES.includes(value as ClockMode)) {
+    return value as ClockMode;
+  }
+
+  return DEFAULT_CLOCK_MODE;
+}
+
+export function getClockModeConfig(mode: string | null | undefined): ClockModeConfig {
+  return CLOCK_MODE_CONFIGS[parseClockMode(mode)];
+}
+
+export function getClockModeOptions(): ClockModeConfig[] {
+  return CLOCK_MODES.map((mode) => CLOCK_MODE_CONFIGS[mode]);
+}
+
+/** Caption under the shot clock: the per-draw clock, the bank left for the round, or untimed. */
+export function getClockCaption(clock: { clockMode: ClockMode; timeBankSeconds: number | null }): string {
+  const config = getClockModeConfig(clock.clockMode);
+
+  if (config.timeBankSeconds !== null) {
+    return `${clock.timeBankSeconds ?? config.timeBankSeconds}s left in the bank`;
+  }
+
+  return config.secondsPerDraw === null ? 'Untimed' : `${config.secondsPerDraw}s per draw`;
+}
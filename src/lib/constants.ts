@@ -9,11 +9,25 @@ export const SHOT_CLOCK_SECONDS =
     ? parsedShotClockSeconds
     : 24;
 export const SHOT_CLOCK_MS = SHOT_CLOCK_SECONDS * 1000;
+const parsedRerollsPerRound = Number(process.env.REROLLS_PER_ROUND ?? 1);
+export const REROLLS_PER_ROUND =
+  Number.isInteger(parsedRerollsPerRound) && parsedRerollsPerRound >= 0 ? parsedRerollsPerRound : 1;
+// Team score points taken off per reroll used.
+const parsedRerollPenaltyPoints = Number(process.env.REROLL_PENALTY_POINTS ?? 5);
+export const REROLL_PENALTY_POINTS =
+  Number.isFinite(parsedRerollPenaltyPoints) && parsedRerollPenaltyPoints >= 0 ? parsedRerollPenaltyPoints : 5;
 export const GROUP_CODE_MAX_LENGTH = 16;
 export const SEED_MAX_LENGTH = 64;
 export const USER_NAME_MAX_LENGTH = 32;
 export const SHARE_CODE_LENGTH = 6;
+export const ROOM_CODE_LENGTH = 5;
+export const WATCH_CODE_LENGTH = 8;
+export const ROOM_MIN_PLAYERS = 2;
+export const ROOM_MAX_PLAYERS = 8;
 export const SHOT_CLOCK_PENALTY_PLAYER_NAME = 'Shot Clock Violation';
+export const DRAFT_EVENTS_POLL_MS = 1000;
+export const DRAFT_EVENTS_HEARTBEAT_MS = 15000;
+export const DAILY_ARCHIVE_DAYS = 14;
 
 export const FALLBACK_PLAYER_STATS: PlayerStats = {
   bpm: 0,
@@ -23,3 +37,4 @@ export const FALLBACK_PLAYER_STATS: PlayerStats = {
 };
 
 export const DRAFT_SESSION_COOKIE = 'nba_draft_session';
+export const DEVICE_COOKIE = 'nba_draft_device';
@@ -0,0 +1,128 @@
+import { DAILY_ARCHIVE_DAYS } from '@/lib/constants';
+import { getDailyDateKey, getDailySeed, getPreviousDailyDateKeys } from '@/lib/daily';
+import { db } from '@/lib/db';
+import { createDraftSession } from '@/lib/draft-service';
+import { parseDraftStatus } from '@/lib/draft-state';
+import { buildDrawSequence } from '@/lib/draw';
+import { DEFAULT_DRAFT_FORMAT, getDraftFormatConfig } from '@/lib/formats';
+import { getDailyChallengeRuns } from '@/lib/run-service';
+import { normalizeUserName } from '@/lib/share-code';
+import type { DraftStatus } from '@/lib/types';
+
+export type DailyEntry = {
+  status: DraftStatus;
+  shareCode: string | null;
+  teamScore: number | null;
+};
+
+export type DailyArchiveDay = {
+  dailyDate: string;
+  drawSequence: string[];
+  entryCount: number;
+  winner: Awaited<ReturnType<typeof getDailyChallengeRuns>>[number] | null;
+};
+
+async function findDailySession(input: {
+  dailyDate: string;
+  deviceId: string | null;
+  userName: string | null;
+}) {
+  const identities = [
+    ...(input.deviceId ? [{ deviceId: input.deviceId }] : []),
+    ...(input.userName ? [{ userName: input.userName }] : [])
+  ];
+
+  if (identities.length === 0) {
+    return null;
+  }
+
+  return db.draftSession.findFirst({
+    where: {
+      dailyDate: input.dailyDate,
+      OR: identities
+    },
+    include: {
+      run: {
+        select: {
+          shareCode: true,
+          teamScore: true
+        }
+      }
+    },
+    orderBy: { createdAt: 'desc' }
+  });
+}
+
+/**
+ * Starts (or resumes) today's daily challenge. Each device and each user name gets one
+ * attempt per UTC day; an unfinished attempt on the same device is handed back instead.
+ */
+export async function startDailyChallenge(input: {
+  userName?: string | null;
+  deviceId: string;
+  now?: Date;
+}) {
+  const dailyDate = getDailyDateKey(input.now);
+  const userName = normalizeUserName(input.userName);
+  const existing = await findDailySession({ dailyDate, deviceId: input.deviceId, userName });
+
+  if (existing) {
+    if (existing.status === 'DRAFTING' && existing.deviceId === input.deviceId) {
+      return existing;
+    }
+
+    throw new Error(
+      existing.deviceId === input.deviceId
+        ? "You already played today's daily challenge. Come back tomorrow."
+        : `${userName} already played today's daily challenge.`
+    );
+  }
+
+  return createDraftSession({
+    userName,
+    seed: getDailySeed(dailyDate),
+    format: DEFAULT_DRAFT_FORMAT,
+    dailyDate,
+    deviceId: input.deviceId
+  });
+}
+
+export async function getDailyEntryForDevice(
+  dailyDate: string,
+  deviceId: string | null
+): Promise<DailyEntry | null> {
+  const session = await findDailySession({ dailyDate, deviceId, userName: null });
+
+  if (!session) {
+    return null;
+  }
+
+  return {
+    status: parseDraftStatus(session.status),
+    shareCode: session.run?.shareCode ?? null,
+    teamScore: session.run?.teamScore ?? null
+  };
+}
+
+export async function getDailyArchive(
+  todayKey = getDailyDateKey(),
+  days = DAILY_ARCHIVE_DAYS
+): Promise<DailyArchiveDay[]> {
+  const totalDraws = getDraftFormatConfig(DEFAULT_DRAFT_FORMAT).totalDraws;
+
+  return Promise.all(
+    getPreviousDailyDateKeys(todayKey, days).map(async (dailyDate) => {
+      const [winners, entryCount] = await Promise.all([
+        getDailyChallengeRuns(dailyDate, 1),
+        db.run.count({ where: { dailyDate } })
+      ]);
+
+      return {
+        dailyDate,
+        drawSequence: buildDrawSequence(getDailySeed(dailyDate), totalDraws),
+        entryCount,
+        winner: winners[0] ?? null
+      };
+    })
+  );
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { getDailyDateKey, getDailySeed, getPreviousDailyDateKeys, parseDailyDateKey } from '@/lib/daily';
+import { buildDrawSequence } from '@/lib/draw';
+
+describe('daily challenge keys', () => {
+  it('uses the UTC calendar day', () => {
+    expect(getDailyDateKey(new Date('2026-03-22T23:59:59.000-05:00'))).toBe('2026-03-23');
+    expect(getDailyDateKey(new Date('2026-03-22T00:00:00.000Z'))).toBe('2026-03-22');
+  });
+
+  it('gives every player the same draws for a day', () => {
+    const seed = getDailySeed('2026-03-22');
+
+    expect(buildDrawSequence(seed)).toEqual(buildDrawSequence(getDailySeed('2026-03-22')));
+    expect(buildDrawSequence(seed)).not.toEqual(buildDrawSequence(getDailySeed('2026-03-23')));
+  });
+
+  it('rejects malformed archive dates', () => {
+    expect(parseDailyDateKey('2026-02-30')).toBeNull();
+    expect(parseDailyDateKey('latest')).toBeNull();
+    expect(parseDailyDateKey('2026-03-01')).toBe('2026-03-01');
+  });
+
+  it('lists archive days before the given day, newest first', () => {
+    expect(getPreviousDailyDateKeys('2026-03-01', 3)).toEqual(['2026-02-28', '2026-02-27', '2026-02-26']);
+  });
+});
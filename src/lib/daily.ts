@@ -0,0 +1,36 @@
+import { DAILY_ARCHIVE_DAYS } from '@/lib/constants';
+
+const DAILY_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** UTC calendar day used as the daily challenge key, e.g. `2026-03-22`. */
+export function getDailyDateKey(date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function parseDailyDateKey(raw: string | null | undefined): string | null {
+  if (!raw || !DAILY_DATE_PATTERN.test(raw)) {
+    return null;
+  }
+
+  const parsed = new Date(`${raw}T00:00:00.000Z`);
+  if (Number.isNaN(parsed.getTime()) || getDailyDateKey(parsed) !== raw) {
+    return null;
+  }
+
+  return raw;
+}
+
+/** Everyone playing on the same UTC day shares this seed, and therefore the same draws. */
+export function getDailySeed(dateKey: string): string {
+  return `DAILY-${dateKey}`;
+}
+
+export function getPreviousDailyDateKeys(
+  dateKey: string,
+  count = DAILY_ARCHIVE_DAYS
+): string[] {
+  const start = new Date(`${dateKey}T00:00:00.000Z`).getTime();
+  const dayMs = 24 * 60 * 60 * 1000;
+
+  return Array.from({ length: count }, (_, index) => getDailyDateKey(new Date(start - (index + 1) * dayMs)));
+}
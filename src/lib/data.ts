@@ -1,21 +1,26 @@
 import { DEFAULT_SEASON } from '@/lib/constants';
 import { ALL_TIME_TEAM_SEED } from '@/lib/all-time-seed';
+import { inferArchetypes } from '@/lib/archetypes';
+import { isTenureInEra } from '@/lib/eras';
 import { LINEUP_SLOTS } from '@/lib/types';
 import type {
   AwardBreakdown,
   BoxTotals,
   FranchiseGreatnessBreakdown,
   LineupSlot,
+  PlayerArchetype,
   PlayerExplanationData,
   PlayerStats,
   RosterPlayer,
   StatsLookup,
-  Team
+  Team,
+  TenureSpan
 } from '@/lib/types';
 import teamsData from '../../data/teams.json';
 
 type FranchiseRosterPlayer = RosterPlayer & {
   greatness: FranchiseGreatnessBreakdown;
+  tenure: TenureSpan[];
 };
 
 type CategoryRaw = {
@@ -32,6 +37,7 @@ type SeedPlayerProfile = {
   name: string;
   years: string;
   positions: LineupSlot[];
+  archetypes: PlayerArchetype[];
   yearsWithTeam: number;
   careerYears: number;
   championships: number;
@@ -61,13 +67,18 @@ type GlobalCategoryDistributions = {
   boxBlkPerGame: number[];
 };
 
+// Franchise strength averages this many of a franchise's best players.
+const FRANCHISE_STRENGTH_TOP_PLAYERS = 5;
+
 const typedTeams = teamsData as Team[];
 const teamByAbbr = new Map(typedTeams.map((team) => [team.abbr, team]));
 const rosterByTeam = new Map<string, FranchiseRosterPlayer[]>();
 const rosterNamesByTeam = new Map<string, string[]>();
 const statsByTeamPlayer = new Map<string, PlayerStats>();
 const slotsByTeamPlayer = new Map<string, LineupSlot[]>();
+const archetypesByTeamPlayer = new Map<string, PlayerArchetype[]>();
 const explanationByTeamPlayer = new Map<string, PlayerExplanationData>();
+const franchiseStrengthByKey = new Map<string, number>();
 const globalMetricRanges: Record<keyof PlayerStats, { min: number; max: number }> = {
   bpm: { min: 0, max: 100 },
   ws48: { min: 0, max: 100 },
@@ -162,8 +173,8 @@ function makeTeamPlayerKey(teamAbbr: string, playerName: string): string {
   return `${teamAbbr}|${playerName}`;
 }
 
-function parseYearsWithTeam(yearRange: string): number {
-  const segments = yearRange
+export function parseTenureYears(yearRange: string): TenureSpan[] {
+  return yearRange
     .split(',')
     .map((part) => part.trim())
     .map((part) => {
@@ -180,7 +191,11 @@ function parseYearsWithTeam(yearRange: string): number {
 
       return { startYear, endYear };
     })
-    .filter((segment): segment is { startYear: number; endYear: number } => Boolean(segment));
+    .filter((segment): segment is TenureSpan => Boolean(segment));
+}
+
+function parseYearsWithTeam(yearRange: string): number {
+  const segments = parseTenureYears(yearRange);
 
   if (segments.length === 0) {
     return 1;
@@ -638,6 +653,7 @@ function initializeAllTimeData(): void {
         name: seedPlayer.name,
         years: seedPlayer.years,
         positions,
+        archetypes: seedPlayer.archetypes ?? inferArchetypes(seedPlayer),
         yearsWithTeam,
         careerYears,
         championships,
@@ -772,7 +788,8 @@ function initializeAllTimeData(): void {
         name: profile.name,
         yearsWithTeam: profile.years,
         eligibleSlots: profile.positions,
-        greatness
+        greatness,
+        tenure: parseTenureYears(profile.years)
       };
 
       return {
@@ -796,6 +813,7 @@ function initializeAllTimeData(): void {
     for (const entry of sortedTopEntries) {
       const key = makeTeamPlayerKey(team.abbr, entry.player.name);
       slotsByTeamPlayer.set(key, entry.player.eligibleSlots);
+      archetypesByTeamPlayer.set(key, entry.profile.archetypes);
       statsByTeamPlayer.set(key, {
         bpm: entry.player.greatness.personalAccolades,
         ws48: entry.player.greatness.teamAccolades,
@@ -932,8 +950,12 @@ export function getTeamByAbbr(teamAbbr: string): Team | null {
   return teamByAbbr.get(teamAbbr) ?? null;
 }
 
-export function getRosterNamesByTeam(teamAbbr: string): string[] {
-  return rosterNamesByTeam.get(teamAbbr) ?? [];
+export function getRosterNamesByTeam(teamAbbr: string, era?: string | null): string[] {
+  if (!era) {
+    return rosterNamesByTeam.get(teamAbbr) ?? [];
+  }
+
+  return getRosterByTeam(teamAbbr, era).map((player) => player.name);
 }
 
 export function getPlayerEligibleSlots(teamAbbr: string, playerName: string): LineupSlot[] {
@@ -941,6 +963,10 @@ export function getPlayerEligibleSlots(teamAbbr: string, playerName: string): Li
   return slotsByTeamPlayer.get(key) ?? [...LINEUP_SLOTS];
 }
 
+export function getPlayerArchetypes(teamAbbr: string, playerName: string): PlayerArchetype[] {
+  return archetypesByTeamPlayer.get(makeTeamPlayerKey(teamAbbr, playerName)) ?? [];
+}
+
 export function getPlayerExplanationData(
   teamAbbr: string,
   playerName: string
@@ -949,12 +975,20 @@ export function getPlayerExplanationData(
   return explanationByTeamPlayer.get(key) ?? null;
 }
 
-export function getRosterByTeam(teamAbbr: string): RosterPlayer[] {
-  return (rosterByTeam.get(teamAbbr) ?? []).map((player) => ({
-    name: player.name,
-    yearsWithTeam: player.yearsWithTeam,
-    eligibleSlots: player.eligibleSlots
-  }));
+/** A franchise's top players, optionally limited to those whose franchise years overlap an era. */
+export function getRosterByTeam(teamAbbr: string, era?: string | null): RosterPlayer[] {
+  return (rosterByTeam.get(teamAbbr) ?? [])
+    .filter((player) => isTenureInEra(player.tenure, era))
+    .map((player) => ({
+      name: player.name,
+      yearsWithTeam: player.yearsWithTeam,
+      eligibleSlots: player.eligibleSlots
+    }));
+}
+
+/** Franchises with at least one player from the era, so every draw offers a real pick. */
+export function getTeamsForEra(era?: string | null): Team[] {
+  return typedTeams.filter((team) => getRosterByTeam(team.abbr, era).length > 0);
 }
 
 export function isPlayerOnTeam(teamAbbr: string, playerName: string): boolean {
@@ -1065,4 +1099,27 @@ export function lookupPlayerStats(
   };
 }
 
+/**
+ * Aggregate greatness of a franchise in an era: the mean `franchiseScore` of its top players.
+ * Independent of scoring presets so a seed draws the same franchises under any preset.
+ */
+export function getFranchiseStrength(teamAbbr: string, era?: string | null): number {
+  const key = `${teamAbbr}|${era ?? ''}`;
+  const cached = franchiseStrengthByKey.get(key);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  // Rosters are stored best-first.
+  const topScores = (rosterByTeam.get(teamAbbr) ?? [])
+    .filter((player) => isTenureInEra(player.tenure, era))
+    .slice(0, FRANCHISE_STRENGTH_TOP_PLAYERS)
+    .map((player) => player.greatness.franchiseScore);
+  const strength =
+    topScores.length > 0 ? roundToOneDecimal(topScores.reduce((sum, score) => sum + score, 0) / topScores.length) : 0;
+
+  franchiseStrengthByKey.set(key, strength);
+  return strength;
+}
+
 initializeGlobalMetricCalibration();
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { createDraftEventStream, diffDraftViews, formatServerSentEvent } from '@/lib/draft-events';
+import type { DraftView } from '@/lib/draft-service';
+
+function makeView(overrides: Partial<DraftView> = {}): DraftView {
+  return {
+    id: 'session-1',
+    cookieToken: 'token',
+    watchCode: 'WATCH123',
+    status: 'DRAFTING',
+    userName: null,
+    groupCode: null,
+    seed: 'seed',
+    format: 'STANDARD',
+    era: 'ALL_TIME',
+    scoringPreset: 'BALANCED',
+    drawMode: 'UNIFORM',
+    timeoutPolicy: 'EMPTY_SLOT',
+    clockMode: 'STANDARD',
+    lineupSlots: ['PG', 'SG', 'SF', 'PF', 'C'],
+    totalDraws: 5,
+    drawSequence: ['LAL', 'BOS', 'CHI', 'SAS', 'GSW'],
+    currentDrawIndex: 0,
+    currentTeamAbbr: 'LAL',
+    remainingTeams: ['LAL', 'BOS', 'CHI', 'SAS', 'GSW'],
+    lineup: {},
+    chosenPlayers: [],
+    runShareCode: null,
+    challengeShareCode: null,
+    coachEnabled: false,
+    coachAvailable: true,
+    rerolls: [],
+    rerollsRemaining: 1,
+    shotClockDeadlineAt: '2026-03-01T00:00:24.000Z',
+    shotClockSeconds: 24,
+    timeBankSeconds: null,
+    room: null,
+    ...overrides
+  };
+}
+
+describe('draft event diffing', () => {
+  it('reports a pick followed by the next draw', () => {
+    const previous = makeView();
+    const next = makeView({
+      currentDrawIndex: 1,
+      currentTeamAbbr: 'BOS',
+      lineup: {
+        PG: { slot: 'PG', playerName: 'Magic Johnson', teamAbbr: 'LAL', teamName: 'Los Angeles Lakers' }
+      }
+    });
+
+    expect(diffDraftViews(previous, next).map((event) => event.type)).toEqual(['pick', 'draw']);
+  });
+
+  it('reports shot-clock penalties and completion without a trailing draw', () => {
+    const previous = makeView({ currentDrawIndex: 4, currentTeamAbbr: 'GSW' });
+    const next = makeView({
+      status: 'COMPLETED',
+      currentDrawIndex: 5,
+      currentTeamAbbr: null,
+      runShareCode: 'ABC123',
+      lineup: {
+        C: {
+          slot: 'C',
+          playerName: 'Shot Clock Violation',
+          teamAbbr: 'GSW',
+          teamName: 'Golden State Warriors',
+          isPenalty: true
+        }
+      }
+    });
+
+    const events = diffDraftViews(previous, next);
+
+    expect(events.map((event) => event.type)).toEqual(['penalty', 'complete']);
+    expect(events[1]).toMatchObject({ shareCode: 'ABC123' });
+  });
+
+  it('reports an auto-picked timeout as a penalty', () => {
+    const next = makeView({
+      timeoutPolicy: 'AUTO_PICK_WORST',
+      currentDrawIndex: 1,
+      currentTeamAbbr: 'BOS',
+      lineup: {
+        PG: {
+          slot: 'PG',
+          playerName: 'Derek Fisher',
+          teamAbbr: 'LAL',
+          teamName: 'Los Angeles Lakers',
+          isAutoDrafted: true
+        }
+      }
+    });
+
+    expect(diffDraftViews(makeView(), next)).toEqual([
+      expect.objectContaining({ type: 'penalty', playerName: 'Derek Fisher' }),
+      expect.objectContaining({ type: 'draw', currentTeamAbbr: 'BOS' })
+    ]);
+  });
+
+  it('reports a rerolled franchise as a new draw', () => {
+    const next = makeView({
+      currentTeamAbbr: 'MEM',
+      drawSequence: ['MEM', 'BOS', 'CHI', 'SAS', 'GSW'],
+      rerolls: [{ drawIndex: 0, fromTeamAbbr: 'LAL', toTeamAbbr: 'MEM' }]
+    });
+
+    expect(diffDraftViews(makeView(), next)).toEqual([
+      expect.objectContaining({ type: 'draw', drawIndex: 0, currentTeamAbbr: 'MEM' })
+    ]);
+  });
+
+  it('emits nothing when the draft has not changed', () => {
+    expect(diffDraftViews(makeView(), makeView())).toEqual([]);
+  });
+
+  it('sends completion to clients that connect after the round ended', async () => {
+    const view = makeView({ status: 'COMPLETED', currentDrawIndex: 5, runShareCode: 'ABC123' });
+    const stream = createDraftEventStream({
+      loadView: async () => view,
+      signal: new AbortController().signal
+    });
+
+    const body = await new Response(stream).text();
+
+    expect(body).toContain('event: ready\n');
+    expect(body).toContain(
+      formatServerSentEvent('complete', { type: 'complete', sessionId: 'session-1', drawIndex: 5, shareCode: 'ABC123' })
+    );
+  });
+
+  it('formats server-sent event frames', () => {
+    expect(formatServerSentEvent('draw', { drawIndex: 1 })).toBe('event: draw\ndata: {"drawIndex":1}\n\n');
+  });
+});
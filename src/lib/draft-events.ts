@@ -0,0 +1,234 @@
+import { DRAFT_EVENTS_HEARTBEAT_MS, DRAFT_EVENTS_POLL_MS } from '@/lib/constants';
+import type { SpectatorDraftView } from '@/lib/draft-service';
+import type { RosterSlot } from '@/lib/types';
+
+export type DraftEvent =
+  | {
+      // `penalty` is a shot-clock timeout: the 0-point placeholder or, under AUTO_PICK_WORST,
+      // the auto-picked player.
+      type: 'pick' | 'penalty';
+      sessionId: string;
+      drawIndex: number;
+      slot: RosterSlot;
+      playerName: string;
+      teamAbbr: string;
+    }
+  | {
+      type: 'draw';
+      sessionId: string;
+      drawIndex: number;
+      currentTeamAbbr: string | null;
+      shotClockDeadlineAt: string | null;
+    }
+  | {
+      type: 'turn';
+      sessionId: string;
+      drawIndex: number;
+      onTheClockName: string | null;
+      isMyTurn: boolean;
+      shotClockDeadlineAt: string | null;
+    }
+  | {
+      type: 'complete';
+      sessionId: string;
+      drawIndex: number;
+      shareCode: string | null;
+    };
+
+export type DraftEventType = DraftEvent['type'];
+
+/**
+ * Derives the events between two reads of the same draft. Diffing persisted state keeps
+ * picks, shot-clock penalties, and room turns in one stream regardless of who caused them.
+ */
+export function diffDraftViews(previous: SpectatorDraftView, next: SpectatorDraftView): DraftEvent[] {
+  const events: DraftEvent[] = [];
+  const sessionId = next.id;
+
+  for (const slot of next.lineupSlots) {
+    const pick = next.lineup[slot];
+
+    if (!pick || previous.lineup[slot]) {
+      continue;
+    }
+
+    events.push({
+      type: pick.isPenalty || pick.isAutoDrafted ? 'penalty' : 'pick',
+      sessionId,
+      drawIndex: previous.currentDrawIndex,
+      slot,
+      playerName: pick.playerName,
+      teamAbbr: pick.teamAbbr
+    });
+  }
+
+  if (next.status === 'COMPLETED') {
+    if (previous.status !== 'COMPLETED') {
+      events.push({
+        type: 'complete',
+        sessionId,
+        drawIndex: next.currentDrawIndex,
+        shareCode: next.runShareCode
+      });
+    }
+
+    return events;
+  }
+
+  // A reroll swaps the franchise on the clock without moving to the next draw.
+  if (next.currentDrawIndex !== previous.currentDrawIndex || next.currentTeamAbbr !== previous.currentTeamAbbr) {
+    events.push({
+      type: 'draw',
+      sessionId,
+      drawIndex: next.currentDrawIndex,
+      currentTeamAbbr: next.currentTeamAbbr,
+      shotClockDeadlineAt: next.shotClockDeadlineAt
+    });
+  }
+
+  if (
+    next.room &&
+    (next.room.onTheClockName !== previous.room?.onTheClockName ||
+      next.room.isMyTurn !== previous.room?.isMyTurn ||
+      next.currentDrawIndex !== previous.currentDrawIndex)
+  ) {
+    events.push({
+      type: 'turn',
+      sessionId,
+      drawIndex: next.currentDrawIndex,
+      onTheClockName: next.room.onTheClockName,
+      isMyTurn: next.room.isMyTurn,
+      shotClockDeadlineAt: next.shotClockDeadlineAt
+    });
+  }
+
+  return events;
+}
+
+export function formatServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Streams draft events as Server-Sent Events by re-reading the draft on an interval.
+ * Each read goes through the draft service, so expired shot clocks are applied (and
+ * reported as penalties) even when nobody is submitting picks.
+ */
+export function createDraftEventStream(input: {
+  loadView: () => Promise<SpectatorDraftView | null>;
+  signal: AbortSignal;
+}): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let pollId: ReturnType<typeof setInterval> | null = null;
+  let heartbeatId: ReturnType<typeof setInterval> | null = null;
+  let closed = false;
+
+  function stop() {
+    closed = true;
+
+    if (pollId) {
+      clearInterval(pollId);
+      pollId = null;
+    }
+
+    if (heartbeatId) {
+      clearInterval(heartbeatId);
+      heartbeatId = null;
+    }
+  }
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let polling = false;
+
+      function close() {
+        if (closed) {
+          return;
+        }
+
+        stop();
+        controller.close();
+      }
+
+      function send(chunk: string) {
+        if (!closed) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+      }
+
+      let previous = await input.loadView();
+
+      if (!previous) {
+        send(formatServerSentEvent('missing', { message: 'Draft session not found.' }));
+        close();
+        return;
+      }
+
+      send(
+        formatServerSentEvent('ready', {
+          sessionId: previous.id,
+          status: previous.status,
+          drawIndex: previous.currentDrawIndex,
+          shotClockDeadlineAt: previous.shotClockDeadlineAt
+        })
+      );
+
+      // A client that connects after the round ended still needs `complete` to stop reconnecting.
+      if (previous.status === 'COMPLETED') {
+        send(
+          formatServerSentEvent('complete', {
+            type: 'complete',
+            sessionId: previous.id,
+            drawIndex: previous.currentDrawIndex,
+            shareCode: previous.runShareCode
+          } satisfies DraftEvent)
+        );
+        close();
+        return;
+      }
+
+      if (input.signal.aborted) {
+        close();
+        return;
+      }
+
+      input.signal.addEventListener('abort', close);
+
+      pollId = setInterval(async () => {
+        if (polling || closed || !previous) {
+          return;
+        }
+
+        polling = true;
+        try {
+          const next = await input.loadView();
+
+          if (!next) {
+            send(formatServerSentEvent('missing', { message: 'Draft session not found.' }));
+            close();
+            return;
+          }
+
+          for (const event of diffDraftViews(previous, next)) {
+            send(formatServerSentEvent(event.type, event));
+          }
+
+          previous = next;
+
+          if (next.status === 'COMPLETED') {
+            close();
+          }
+        } catch {
+          // A failed read (e.g. a busy SQLite lock) is retried on the next tick.
+        } finally {
+          polling = false;
+        }
+      }, DRAFT_EVENTS_POLL_MS);
+
+      heartbeatId = setInterval(() => send(': heartbeat\n\n'), DRAFT_EVENTS_HEARTBEAT_MS);
+    },
+    cancel() {
+      stop();
+    }
+  });
+}
@@ -1,290 +1,130 @@
 import type { Prisma } from '@prisma/client';
-import {
-  SHOT_CLOCK_MS,
-  SHOT_CLOCK_PENALTY_PLAYER_NAME,
-  SHOT_CLOCK_SECONDS,
-  TOTAL_DRAWS
-} from '@/lib/constants';
+import { getClockModeConfig } from '@/lib/clock-modes';
+import { REROLLS_PER_ROUND } from '@/lib/constants';
 import {
   getPlayerEligibleSlots,
   getRosterNamesByTeam,
   getTeamByAbbr
 } from '@/lib/data';
 import { db } from '@/lib/db';
-import { buildDrawSequence } from '@/lib/draw';
-import { createSeededRng } from '@/lib/rng';
+import {
+  buildDraftLogEntry,
+  chooseTimeoutPick,
+  computeRemainingTeams,
+  fetchDraftSessionByCookieToken,
+  fetchDraftSessionById,
+  fetchDraftSessionByWatchCode,
+  generateUniqueWatchCode,
+  getSessionEraRoster,
+  getSessionClockMs,
+  getSessionFormatConfig,
+  getShotClockDeadline,
+  isClockExpired,
+  makeCookieToken,
+  parseChosenPlayers,
+  parseDraftStatus,
+  parseDrawSequence,
+  parseLineup,
+  parseRerolls,
+  persistDraftState,
+  spendTimeBank,
+  type SessionWithRun
+} from '@/lib/draft-state';
+import { buildDrawSequence, drawRerollTeam } from '@/lib/draw';
+import { parseDrawMode } from '@/lib/draw-modes';
+import { parseDraftEra } from '@/lib/eras';
+import { getDraftFormatConfig, getEligibleRosterSlots, parseDraftFormat } from '@/lib/formats';
+import { buildRoomTurn, submitRoomPick, syncDraftRoom, type DraftRoomTurn, type DraftRoomView } from '@/lib/room-service';
 import { getOpenSlots, validatePick, applyPickToLineup } from '@/lib/rules';
-import { scoreLineup } from '@/lib/scoring';
+import { parseScoringPreset } from '@/lib/scoring-presets';
 import { safeParseJson, toJsonString } from '@/lib/serialization';
 import {
-  generateShareCode,
   normalizeGroupCode,
   normalizeSeed,
-  normalizeUserName
+  normalizeUserName,
+  normalizeWatchCode
 } from '@/lib/share-code';
-import { DRAFT_STATUSES, LINEUP_SLOTS } from '@/lib/types';
-import type { DraftStatus, LineupPick, LineupSlot, LineupState } from '@/lib/types';
-
-function makeCookieToken(): string {
-  return crypto.randomUUID();
-}
-
-async function generateUniqueShareCode(tx: Prisma.TransactionClient): Promise<string> {
-  for (let attempt = 0; attempt < 20; attempt += 1) {
-    const code = generateShareCode();
-    const existing = await tx.run.findUnique({ where: { shareCode: code }, select: { id: true } });
-    if (!existing) {
-      return code;
-    }
-  }
-
-  throw new Error('Could not generate a unique share code.');
-}
-
-function parseLineup(lineupJson: string): LineupState {
-  return safeParseJson<LineupState>(lineupJson, {});
-}
-
-function parseChosenPlayers(chosenPlayersJson: string): string[] {
-  return safeParseJson<string[]>(chosenPlayersJson, []);
-}
-
-function parseDrawSequence(drawSequenceJson: string): string[] {
-  return safeParseJson<string[]>(drawSequenceJson, []);
-}
-
-function computeRemainingTeams(drawSequence: string[], currentDrawIndex: number): string[] {
-  return drawSequence.slice(currentDrawIndex);
-}
-
-function parseDraftStatus(status: string): DraftStatus {
-  if (DRAFT_STATUSES.includes(status as DraftStatus)) {
-    return status as DraftStatus;
-  }
-
-  return 'DRAFTING';
-}
-
-function getShotClockDeadline(drawStartedAt: Date): Date {
-  return new Date(drawStartedAt.getTime() + SHOT_CLOCK_MS);
-}
-
-function isClockExpired(drawStartedAt: Date, now = new Date()): boolean {
-  return now.getTime() >= getShotClockDeadline(drawStartedAt).getTime();
-}
-
-type SessionWithRun = {
-  id: string;
-  cookieToken: string;
-  userName: string | null;
-  groupCode: string | null;
-  seed: string | null;
-  drawSequenceJson: string;
-  remainingTeamsJson: string;
-  currentDrawIndex: number;
-  lineupJson: string;
-  chosenPlayersJson: string;
-  drawStartedAt: Date;
-  status: string;
-  runId: string | null;
-  run: {
-    shareCode: string;
-  } | null;
-};
-
-async function fetchDraftSessionByCookieToken(
-  tx: Prisma.TransactionClient,
-  cookieToken: string
-): Promise<SessionWithRun | null> {
-  return tx.draftSession.findUnique({
-    where: { cookieToken },
-    include: {
-      run: {
-        select: {
-          shareCode: true
-        }
-      }
-    }
-  });
-}
-
-async function fetchDraftSessionById(
-  tx: Prisma.TransactionClient,
-  id: string
-): Promise<SessionWithRun> {
-  const session = await tx.draftSession.findUnique({
-    where: { id },
-    include: {
-      run: {
-        select: {
-          shareCode: true
-        }
-      }
-    }
-  });
-
-  if (!session) {
-    throw new Error('Draft session missing after update.');
-  }
-
-  return session;
-}
-
-async function persistDraftState(input: {
-  tx: Prisma.TransactionClient;
-  session: SessionWithRun;
-  drawSequence: string[];
-  lineup: LineupState;
-  chosenPlayers: string[];
-  currentDrawIndex: number;
-  drawStartedAt: Date;
-}): Promise<SessionWithRun> {
-  const { tx, session, drawSequence, lineup, chosenPlayers, currentDrawIndex, drawStartedAt } = input;
-
-  const roundIsComplete =
-    currentDrawIndex >= TOTAL_DRAWS ||
-    currentDrawIndex >= drawSequence.length ||
-    getOpenSlots(lineup).length === 0;
-
-  if (!roundIsComplete) {
-    await tx.draftSession.update({
-      where: { id: session.id },
-      data: {
-        currentDrawIndex,
-        remainingTeamsJson: toJsonString(computeRemainingTeams(drawSequence, currentDrawIndex)),
-        lineupJson: toJsonString(lineup),
-        chosenPlayersJson: toJsonString(chosenPlayers),
-        drawStartedAt,
-        status: 'DRAFTING'
-      }
-    });
-
-    return fetchDraftSessionById(tx, session.id);
-  }
-
-  const orderedPicks = LINEUP_SLOTS.map((lineupSlot) => lineup[lineupSlot]).filter(
-    (pick): pick is LineupPick => Boolean(pick)
-  );
-
-  if (orderedPicks.length !== LINEUP_SLOTS.length) {
-    throw new Error('Round cannot finish until all slots are filled.');
-  }
-
-  const scoring = scoreLineup(orderedPicks);
-  const shareCode = await generateUniqueShareCode(tx);
-
-  const run = await tx.run.create({
-    data: {
-      shareCode,
-      userName: session.userName,
-      groupCode: session.groupCode,
-      seed: session.seed,
-      baseTeamScore: scoring.baseTeamScore,
-      chemistryScore: scoring.chemistry.chemistryScore,
-      chemistryMultiplier: scoring.chemistry.multiplier,
-      teamScore: scoring.teamScore,
-      usedFallbackStats: scoring.usedFallbackStats,
-      lineupJson: toJsonString(lineup),
-      contributionsJson: toJsonString(scoring.playerScores),
-      picks: {
-        create: scoring.playerScores.map((playerScore) => ({
-          slot: playerScore.pick.slot,
-          playerName: playerScore.pick.playerName,
-          teamAbbr: playerScore.pick.teamAbbr,
-          teamName: playerScore.pick.teamName,
-          // Persist globally-normalized metrics so results table matches contribution math.
-          bpm: playerScore.normalizedMetrics.bpm,
-          ws48: playerScore.normalizedMetrics.ws48,
-          vorp: playerScore.normalizedMetrics.vorp,
-          epm: playerScore.normalizedMetrics.epm,
-          usedFallback: playerScore.usedFallback,
-          isPenalty: Boolean(playerScore.pick.isPenalty),
-          contribution: playerScore.contribution
-        }))
-      }
-    }
-  });
-
-  await tx.draftSession.update({
-    where: { id: session.id },
-    data: {
-      currentDrawIndex,
-      remainingTeamsJson: toJsonString([]),
-      lineupJson: toJsonString(lineup),
-      chosenPlayersJson: toJsonString(chosenPlayers),
-      drawStartedAt,
-      status: 'COMPLETED',
-      runId: run.id
-    }
-  });
-
-  return fetchDraftSessionById(tx, session.id);
-}
-
-function chooseTimeoutSlot(input: {
-  openSlots: LineupSlot[];
-  seed: string | null;
-  sessionId: string;
-  drawIndex: number;
-}): LineupSlot {
-  const { openSlots, seed, sessionId, drawIndex } = input;
-
-  if (openSlots.length === 1) {
-    return openSlots[0];
-  }
-
-  const rng = seed
-    ? createSeededRng(`${seed}:shotclock:${sessionId}:${drawIndex}`)
-    : Math.random;
-
-  const index = Math.floor(rng() * openSlots.length);
-  return openSlots[index] ?? openSlots[0];
-}
+import { getTimeoutPolicyConfig, parseTimeoutPolicy } from '@/lib/timeout-policies';
+import type {
+  ClockMode,
+  DraftEra,
+  DraftFormat,
+  DraftLogEntry,
+  DraftStatus,
+  DrawMode,
+  DrawReroll,
+  LineupState,
+  RosterSlot,
+  ScoringPreset,
+  TimeoutPolicy
+} from '@/lib/types';
 
 async function applyShotClockTimeouts(
   tx: Prisma.TransactionClient,
   session: SessionWithRun
 ): Promise<SessionWithRun> {
-  if (session.status !== 'DRAFTING') {
+  let clockMs = getSessionClockMs(session);
+
+  if (session.status !== 'DRAFTING' || clockMs === null) {
     return session;
   }
 
+  const formatConfig = getSessionFormatConfig(session);
   const drawSequence = parseDrawSequence(session.drawSequenceJson);
   let lineup = parseLineup(session.lineupJson);
-  const chosenPlayers = parseChosenPlayers(session.chosenPlayersJson);
+  let chosenPlayers = parseChosenPlayers(session.chosenPlayersJson);
   let currentDrawIndex = session.currentDrawIndex;
   let drawStartedAt = new Date(session.drawStartedAt);
+  let timeBankMs = session.timeBankMs;
+  const logEntries: DraftLogEntry[] = [];
   const now = new Date();
 
   let timedOutAtLeastOnce = false;
 
   while (
-    currentDrawIndex < TOTAL_DRAWS &&
+    currentDrawIndex < formatConfig.totalDraws &&
     currentDrawIndex < drawSequence.length &&
-    getOpenSlots(lineup).length > 0 &&
-    isClockExpired(drawStartedAt, now)
+    getOpenSlots(lineup, formatConfig.slots).length > 0 &&
+    isClockExpired(drawStartedAt, now, clockMs)
   ) {
-    const currentTeamAbbr = drawSequence[currentDrawIndex] ?? 'N/A';
-    const currentTeam = getTeamByAbbr(currentTeamAbbr);
-    const openSlots = getOpenSlots(lineup);
-    const randomSlot = chooseTimeoutSlot({
-      openSlots,
+    const timeoutPick = chooseTimeoutPick({
+      lineup,
+      lineupSlots: formatConfig.slots,
+      teamAbbr: drawSequence[currentDrawIndex] ?? 'N/A',
+      unavailablePlayers: chosenPlayers,
+      policy: parseTimeoutPolicy(session.timeoutPolicy),
+      era: session.era,
+      preset: parseScoringPreset(session.scoringPreset),
       seed: session.seed,
       sessionId: session.id,
       drawIndex: currentDrawIndex
     });
 
-    lineup = applyPickToLineup(lineup, {
-      slot: randomSlot,
-      playerName: SHOT_CLOCK_PENALTY_PLAYER_NAME,
-      teamAbbr: currentTeamAbbr,
-      teamName: currentTeam?.name ?? currentTeamAbbr,
-      isPenalty: true
-    });
+    logEntries.push(
+      buildDraftLogEntry({
+        drawIndex: currentDrawIndex,
+        lineup,
+        lineupSlots: formatConfig.slots,
+        era: session.era,
+        unavailablePlayers: chosenPlayers,
+        pick: timeoutPick,
+        elapsedMs: clockMs
+      })
+    );
+    lineup = applyPickToLineup(lineup, timeoutPick);
+    if (timeoutPick.isAutoDrafted) {
+      chosenPlayers = [...chosenPlayers, timeoutPick.playerName];
+    }
 
     currentDrawIndex += 1;
-    drawStartedAt = new Date(drawStartedAt.getTime() + SHOT_CLOCK_MS);
+    drawStartedAt = new Date(drawStartedAt.getTime() + clockMs);
     timedOutAtLeastOnce = true;
+
+    // An empty time bank leaves no clock for the draws still to come.
+    if (timeBankMs !== null) {
+      timeBankMs = 0;
+      clockMs = 0;
+    }
   }
 
   if (!timedOutAtLeastOnce) {
@@ -298,40 +138,84 @@ async function applyShotClockTimeouts(
     lineup,
     chosenPlayers,
     currentDrawIndex,
-    drawStartedAt
+    drawStartedAt,
+    timeBankMs,
+    logEntries
   });
 }
 
-function buildDraftView(session: SessionWithRun): DraftView {
+function buildSpectatorDraftView(
+  session: SessionWithRun,
+  room: DraftRoomView | null = null
+): SpectatorDraftView {
+  const formatConfig = getSessionFormatConfig(session);
   const drawSequence = parseDrawSequence(session.drawSequenceJson);
-  const remainingTeams = safeParseJson<string[]>(
-    session.remainingTeamsJson,
-    computeRemainingTeams(drawSequence, session.currentDrawIndex)
-  );
-
-  const isDrafting = session.status === 'DRAFTING';
-  const currentTeamAbbr = drawSequence[session.currentDrawIndex] ?? null;
-  const shotClockDeadlineAt =
-    isDrafting && currentTeamAbbr
-      ? getShotClockDeadline(session.drawStartedAt).toISOString()
+  // Room members follow the room's shared draw position instead of their own.
+  const currentDrawIndex = room ? room.currentDrawIndex : session.currentDrawIndex;
+  const remainingTeams = room
+    ? computeRemainingTeams(drawSequence, currentDrawIndex)
+    : safeParseJson<string[]>(
+        session.remainingTeamsJson,
+        computeRemainingTeams(drawSequence, currentDrawIndex)
+      );
+
+  const isDrafting = session.status === 'DRAFTING' && (!room || room.status === 'DRAFTING');
+  const currentTeamAbbr = isDrafting || !room ? drawSequence[currentDrawIndex] ?? null : null;
+  const rerolls = parseRerolls(session.rerollsJson);
+  // Rooms share one turn clock, so every drafter in a room plays the standard clock.
+  const clockConfig = getClockModeConfig(room ? null : session.clockMode);
+  const clockMs = room ? null : getSessionClockMs(session);
+  const shotClockDeadlineAt = room
+    ? isDrafting
+      ? room.turnDeadlineAt
+      : null
+    : isDrafting && currentTeamAbbr && clockMs !== null
+      ? getShotClockDeadline(session.drawStartedAt, clockMs).toISOString()
       : null;
 
   return {
     id: session.id,
-    cookieToken: session.cookieToken,
+    watchCode: session.watchCode,
     status: parseDraftStatus(session.status),
     userName: session.userName,
     groupCode: session.groupCode,
     seed: session.seed,
+    format: formatConfig.format,
+    era: parseDraftEra(session.era),
+    scoringPreset: parseScoringPreset(session.scoringPreset),
+    drawMode: parseDrawMode(session.drawMode),
+    timeoutPolicy: parseTimeoutPolicy(session.timeoutPolicy),
+    lineupSlots: formatConfig.slots,
+    totalDraws: formatConfig.totalDraws,
     drawSequence,
-    currentDrawIndex: session.currentDrawIndex,
+    currentDrawIndex,
     currentTeamAbbr,
     remainingTeams,
     lineup: parseLineup(session.lineupJson),
     chosenPlayers: parseChosenPlayers(session.chosenPlayersJson),
     runShareCode: session.run?.shareCode ?? null,
+    challengeShareCode: session.challengeShareCode,
+    coachEnabled: session.coachEnabled,
+    // The daily leaderboard ranks everyone on the same draws, so nobody gets the coach there.
+    coachAvailable: !session.dailyDate,
+    rerolls,
+    // Room, daily and challenge draws are shared with other drafters, so they never reroll.
+    rerollsRemaining:
+      room || session.dailyDate || session.challengeShareCode
+        ? 0
+        : Math.max(0, REROLLS_PER_ROUND - rerolls.length),
+    clockMode: clockConfig.mode,
     shotClockDeadlineAt,
-    shotClockSeconds: SHOT_CLOCK_SECONDS
+    shotClockSeconds: clockConfig.secondsPerDraw,
+    timeBankSeconds: clockConfig.timeBankSeconds !== null && clockMs !== null ? Math.ceil(clockMs / 1000) : null,
+    room: room ? buildRoomTurn(room, session.roomSeat ?? 0) : null
+  };
+}
+
+function buildDraftView(session: SessionWithRun, room: DraftRoomView | null = null): DraftView {
+  return {
+    ...buildSpectatorDraftView(session, room),
+    cookieToken: session.cookieToken
   };
 }
 
@@ -339,25 +223,51 @@ export async function createDraftSession(input: {
   userName?: string | null;
   groupCode?: string | null;
   seed?: string | null;
+  format?: DraftFormat | null;
+  era?: DraftEra | null;
+  scoringPreset?: ScoringPreset | null;
+  drawMode?: DrawMode | null;
+  clockMode?: ClockMode | null;
+  timeoutPolicy?: TimeoutPolicy | null;
+  dailyDate?: string | null;
+  deviceId?: string | null;
+  // Replays another run's draws exactly instead of drawing from the seed.
+  drawSequence?: string[] | null;
+  challengeShareCode?: string | null;
 }) {
   const userName = normalizeUserName(input.userName);
   const groupCode = normalizeGroupCode(input.groupCode);
   const seed = normalizeSeed(input.seed);
-  const drawSequence = buildDrawSequence(seed);
+  const formatConfig = getDraftFormatConfig(parseDraftFormat(input.format));
+  const era = parseDraftEra(input.era);
+  const drawMode = parseDrawMode(input.drawMode);
+  const drawSequence = input.drawSequence ?? buildDrawSequence(seed, formatConfig.totalDraws, era, drawMode);
+  const clockConfig = getClockModeConfig(input.clockMode);
   const cookieToken = makeCookieToken();
 
   return db.draftSession.create({
     data: {
       cookieToken,
+      watchCode: await generateUniqueWatchCode(db),
       userName,
       groupCode,
       seed,
+      format: formatConfig.format,
+      era,
+      scoringPreset: parseScoringPreset(input.scoringPreset),
+      drawMode,
+      clockMode: clockConfig.mode,
+      timeoutPolicy: parseTimeoutPolicy(input.timeoutPolicy),
       drawSequenceJson: toJsonString(drawSequence),
       remainingTeamsJson: toJsonString(drawSequence),
       currentDrawIndex: 0,
       lineupJson: toJsonString({}),
       chosenPlayersJson: toJsonString([]),
       drawStartedAt: new Date(),
+      timeBankMs: clockConfig.timeBankSeconds === null ? null : clockConfig.timeBankSeconds * 1000,
+      dailyDate: input.dailyDate ?? null,
+      challengeShareCode: input.challengeShareCode ?? null,
+      deviceId: input.deviceId ?? null,
       status: 'DRAFTING'
     }
   });
@@ -366,10 +276,18 @@ export async function createDraftSession(input: {
 export type DraftView = {
   id: string;
   cookieToken: string;
+  watchCode: string | null;
   status: DraftStatus;
   userName: string | null;
   groupCode: string | null;
   seed: string | null;
+  format: DraftFormat;
+  era: DraftEra;
+  scoringPreset: ScoringPreset;
+  drawMode: DrawMode;
+  timeoutPolicy: TimeoutPolicy;
+  lineupSlots: RosterSlot[];
+  totalDraws: number;
   drawSequence: string[];
   currentDrawIndex: number;
   currentTeamAbbr: string | null;
@@ -377,10 +295,36 @@ export type DraftView = {
   lineup: LineupState;
   chosenPlayers: string[];
   runShareCode: string | null;
+  // Share code of the run whose draws this session replays.
+  challengeShareCode: string | null;
+  coachEnabled: boolean;
+  coachAvailable: boolean;
+  rerolls: DrawReroll[];
+  rerollsRemaining: number;
+  clockMode: ClockMode;
   shotClockDeadlineAt: string | null;
-  shotClockSeconds: number;
+  // Per-draw clock; null for untimed and time-bank sessions.
+  shotClockSeconds: number | null;
+  // Bank left when the current draw started; null outside time-bank sessions.
+  timeBankSeconds: number | null;
+  room: DraftRoomTurn | null;
 };
 
+/** Read-only view for spectators; never carries the drafter's cookie token. */
+export type SpectatorDraftView = Omit<DraftView, 'cookieToken'>;
+
+async function syncDraftSession(
+  tx: Prisma.TransactionClient,
+  session: SessionWithRun
+): Promise<{ session: SessionWithRun; room: DraftRoomView | null }> {
+  if (session.roomId) {
+    const room = await syncDraftRoom(tx, session.roomId, session.roomSeat);
+    return { session: await fetchDraftSessionById(tx, session.id), room };
+  }
+
+  return { session: await applyShotClockTimeouts(tx, session), room: null };
+}
+
 export async function getDraftViewByCookieToken(cookieToken: string): Promise<DraftView | null> {
   return db.$transaction(async (tx) => {
     const session = await fetchDraftSessionByCookieToken(tx, cookieToken);
@@ -389,15 +333,34 @@ export async function getDraftViewByCookieToken(cookieToken: string): Promise<Dr
       return null;
     }
 
-    const syncedSession = await applyShotClockTimeouts(tx, session);
-    return buildDraftView(syncedSession);
+    const synced = await syncDraftSession(tx, session);
+    return buildDraftView(synced.session, synced.room);
+  });
+}
+
+export async function getDraftViewByWatchCode(watchCode: string): Promise<SpectatorDraftView | null> {
+  const normalizedCode = normalizeWatchCode(watchCode);
+
+  if (!normalizedCode) {
+    return null;
+  }
+
+  return db.$transaction(async (tx) => {
+    const session = await fetchDraftSessionByWatchCode(tx, normalizedCode);
+
+    if (!session) {
+      return null;
+    }
+
+    const synced = await syncDraftSession(tx, session);
+    return buildSpectatorDraftView(synced.session, synced.room);
   });
 }
 
 export async function submitDraftPick(input: {
   cookieToken: string;
   playerName: string;
-  slot: LineupSlot;
+  slot: RosterSlot;
 }): Promise<{ completed: boolean; shareCode?: string }> {
   const { cookieToken, playerName, slot } = input;
 
@@ -408,6 +371,10 @@ export async function submitDraftPick(input: {
       throw new Error('Draft session not found. Start a new game.');
     }
 
+    if (existingSession.roomId) {
+      return submitRoomPick(tx, { session: existingSession, playerName, slot });
+    }
+
     let session = await applyShotClockTimeouts(tx, existingSession);
 
     if (session.status === 'COMPLETED') {
@@ -417,7 +384,9 @@ export async function submitDraftPick(input: {
       };
     }
 
-    if (isClockExpired(session.drawStartedAt)) {
+    const clockMs = getSessionClockMs(session);
+
+    if (clockMs !== null && isClockExpired(session.drawStartedAt, new Date(), clockMs)) {
       session = await applyShotClockTimeouts(tx, session);
       if (session.status === 'COMPLETED') {
         return {
@@ -426,14 +395,18 @@ export async function submitDraftPick(input: {
         };
       }
 
-      throw new Error('Shot clock expired. A random open slot was assigned 0 points.');
+      throw new Error(`Shot clock expired. ${getTimeoutPolicyConfig(session.timeoutPolicy).description}`);
     }
 
+    const formatConfig = getSessionFormatConfig(session);
     const drawSequence = parseDrawSequence(session.drawSequenceJson);
     const lineup = parseLineup(session.lineupJson);
     const chosenPlayers = parseChosenPlayers(session.chosenPlayersJson);
 
-    if (session.currentDrawIndex >= TOTAL_DRAWS || session.currentDrawIndex >= drawSequence.length) {
+    if (
+      session.currentDrawIndex >= formatConfig.totalDraws ||
+      session.currentDrawIndex >= drawSequence.length
+    ) {
       throw new Error('The round is already complete.');
     }
 
@@ -450,22 +423,33 @@ export async function submitDraftPick(input: {
       playerName,
       currentTeamRoster: getRosterNamesByTeam(currentTeamAbbr),
       chosenPlayers,
-      playerEligibleSlots: getPlayerEligibleSlots(currentTeamAbbr, playerName)
+      playerEligibleSlots: getEligibleRosterSlots(
+        getPlayerEligibleSlots(currentTeamAbbr, playerName),
+        formatConfig.slots
+      ),
+      lineupSlots: formatConfig.slots,
+      eraRoster: getSessionEraRoster(session, currentTeamAbbr)
     });
 
     if (!validation.valid) {
       throw new Error(validation.message);
     }
 
-    const updatedLineup = applyPickToLineup(lineup, {
-      slot,
-      playerName,
-      teamAbbr: currentTeamAbbr,
-      teamName: currentTeam.name
-    });
+    const pick = { slot, playerName, teamAbbr: currentTeamAbbr, teamName: currentTeam.name };
+    const updatedLineup = applyPickToLineup(lineup, pick);
 
     const updatedChosenPlayers = [...chosenPlayers, playerName];
     const nextDrawIndex = session.currentDrawIndex + 1;
+    const now = new Date();
+    const logEntry = buildDraftLogEntry({
+      drawIndex: session.currentDrawIndex,
+      lineup,
+      lineupSlots: formatConfig.slots,
+      era: session.era,
+      unavailablePlayers: chosenPlayers,
+      pick,
+      elapsedMs: now.getTime() - new Date(session.drawStartedAt).getTime()
+    });
 
     const savedSession = await persistDraftState({
       tx,
@@ -474,7 +458,9 @@ export async function submitDraftPick(input: {
       lineup: updatedLineup,
       chosenPlayers: updatedChosenPlayers,
       currentDrawIndex: nextDrawIndex,
-      drawStartedAt: new Date()
+      drawStartedAt: now,
+      timeBankMs: spendTimeBank(session, now),
+      logEntries: [logEntry]
     });
 
     if (savedSession.status === 'COMPLETED') {
@@ -489,3 +475,114 @@ export async function submitDraftPick(input: {
     };
   });
 }
+
+/**
+ * Swaps the franchise on the clock for one not yet drawn and restarts the shot clock; a time
+ * bank is charged for the time already spent. Each reroll is recorded on the session and costs
+ * `REROLL_PENALTY_POINTS` on the final score.
+ */
+export async function rerollCurrentDraw(input: {
+  cookieToken: string;
+}): Promise<{ completed: boolean; shareCode?: string }> {
+  return db.$transaction(async (tx) => {
+    const existingSession = await fetchDraftSessionByCookieToken(tx, input.cookieToken);
+
+    if (!existingSession) {
+      throw new Error('Draft session not found. Start a new game.');
+    }
+
+    if (existingSession.roomId) {
+      throw new Error('Rerolls are not available in draft rooms.');
+    }
+
+    if (existingSession.dailyDate) {
+      throw new Error('Rerolls are not available in the daily challenge.');
+    }
+
+    if (existingSession.challengeShareCode) {
+      throw new Error('Rerolls are not available in challenges.');
+    }
+
+    const session = await applyShotClockTimeouts(tx, existingSession);
+
+    if (session.status === 'COMPLETED') {
+      return {
+        completed: true,
+        shareCode: session.run?.shareCode
+      };
+    }
+
+    const rerolls = parseRerolls(session.rerollsJson);
+
+    if (rerolls.length >= REROLLS_PER_ROUND) {
+      throw new Error('No rerolls left this round.');
+    }
+
+    const drawSequence = parseDrawSequence(session.drawSequenceJson);
+    const drawIndex = session.currentDrawIndex;
+    const fromTeamAbbr = drawSequence[drawIndex];
+
+    if (!fromTeamAbbr || drawIndex >= getSessionFormatConfig(session).totalDraws) {
+      throw new Error('The round is already complete.');
+    }
+
+    const toTeamAbbr = drawRerollTeam({
+      drawSequence,
+      drawIndex,
+      seed: session.seed,
+      era: session.era,
+      drawMode: parseDrawMode(session.drawMode),
+      rerolls
+    });
+
+    if (!toTeamAbbr) {
+      throw new Error('No undrawn franchises are left to reroll into.');
+    }
+
+    const updatedSequence = drawSequence.map((teamAbbr, index) => (index === drawIndex ? toTeamAbbr : teamAbbr));
+    const now = new Date();
+
+    await tx.draftSession.update({
+      where: { id: session.id },
+      data: {
+        drawSequenceJson: toJsonString(updatedSequence),
+        remainingTeamsJson: toJsonString(computeRemainingTeams(updatedSequence, drawIndex)),
+        rerollsJson: toJsonString([...rerolls, { drawIndex, fromTeamAbbr, toTeamAbbr }]),
+        drawStartedAt: now,
+        timeBankMs: spendTimeBank(session, now)
+      }
+    });
+
+    return { completed: false };
+  });
+}
+
+/**
+ * Turns the pick advisor on or off for a draft in progress. Once it has been on, the finished
+ * run is flagged as coach-assisted even if it is switched off again.
+ */
+export async function setDraftCoachEnabled(input: { cookieToken: string; enabled: boolean }) {
+  return db.$transaction(async (tx) => {
+    const session = await fetchDraftSessionByCookieToken(tx, input.cookieToken);
+
+    if (!session) {
+      throw new Error('Draft session not found. Start a new game.');
+    }
+
+    if (session.status !== 'DRAFTING') {
+      throw new Error('The round is already complete.');
+    }
+
+    if (input.enabled && session.dailyDate) {
+      throw new Error('The coach is not available in the daily challenge.');
+    }
+
+    await tx.draftSession.update({
+      where: { id: session.id },
+      data: {
+        coachEnabled: input.enabled,
+        coachUsed: session.coachUsed || input.enabled
+      }
+    });
+  });
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { getRosterByTeam } from '@/lib/data';
+import {
+  buildDraftLogEntry,
+  buildRunScoreData,
+  chooseTimeoutPick,
+  getSessionClockMs,
+  isClockExpired,
+  spendTimeBank
+} from '@/lib/draft-state';
+import { SCORING_VERSION, scoreLineup, scorePick } from '@/lib/scoring';
+import type { LineupPick } from '@/lib/types';
+
+const picks: LineupPick[] = [
+  { slot: 'PG', playerName: 'Magic Johnson', teamAbbr: 'LAL', teamName: 'Los Angeles Lakers' },
+  { slot: 'SG', playerName: 'Michael Jordan', teamAbbr: 'CHI', teamName: 'Chicago Bulls' },
+  { slot: 'SF', playerName: 'Shot Clock Violation', teamAbbr: 'BOS', teamName: 'Boston Celtics', isPenalty: true },
+  { slot: 'PF', playerName: 'Tim Duncan', teamAbbr: 'SAS', teamName: 'San Antonio Spurs' },
+  { slot: 'C', playerName: 'Nikola Jokic', teamAbbr: 'DEN', teamName: 'Denver Nuggets' }
+];
+
+describe('run score data', () => {
+  it('stores the current scoring version with the scores it produced', () => {
+    const scoreData = buildRunScoreData(picks, { format: 'STANDARD', preset: 'RINGS_MATTER' });
+    const scoring = scoreLineup(picks, { preset: 'RINGS_MATTER' });
+
+    expect(scoreData.run.scoringVersion).toBe(SCORING_VERSION);
+    expect(scoreData.run.teamScore).toBe(scoring.teamScore);
+    expect(JSON.parse(scoreData.run.chemistryJson)).toEqual(scoring.chemistry);
+  });
+
+  it('keeps pick rows in lineup order with penalties flagged', () => {
+    const scoreData = buildRunScoreData(picks, { format: 'STANDARD', preset: 'BALANCED' });
+
+    expect(scoreData.picks.map((pick) => pick.slot)).toEqual(['PG', 'SG', 'SF', 'PF', 'C']);
+    expect(scoreData.picks[2]).toMatchObject({ isPenalty: true, contribution: 0 });
+  });
+});
+
+describe('clock modes', () => {
+  const drawStartedAt = new Date('2026-03-01T00:00:00.000Z');
+
+  it('gives each mode its own clock and leaves study drafts untimed', () => {
+    expect(getSessionClockMs({ clockMode: 'BLITZ', timeBankMs: null })).toBe(10_000);
+    expect(getSessionClockMs({ clockMode: 'STUDY', timeBankMs: null })).toBeNull();
+    expect(getSessionClockMs({ clockMode: 'TIME_BANK', timeBankMs: 42_000 })).toBe(42_000);
+    expect(isClockExpired(drawStartedAt, new Date('2026-03-01T00:00:12.000Z'), 10_000)).toBe(true);
+  });
+
+  it('spends a time bank by the time a draw took', () => {
+    const session = { clockMode: 'TIME_BANK', timeBankMs: 90_000, drawStartedAt };
+
+    expect(spendTimeBank(session, new Date('2026-03-01T00:00:30.000Z'))).toBe(60_000);
+    expect(spendTimeBank(session, new Date('2026-03-01T00:05:00.000Z'))).toBe(0);
+    expect(spendTimeBank({ ...session, clockMode: 'STANDARD' }, new Date())).toBeNull();
+  });
+});
+
+describe('timeout picks', () => {
+  const timeout: Omit<Parameters<typeof chooseTimeoutPick>[0], 'policy'> = {
+    lineup: { PG: picks[0]! },
+    lineupSlots: ['PG', 'SG', 'SF', 'PF', 'C'],
+    teamAbbr: 'CHI',
+    unavailablePlayers: ['Michael Jordan'],
+    era: 'ALL_TIME',
+    preset: 'BALANCED',
+    seed: 'timeout-seed',
+    sessionId: 'session-1',
+    drawIndex: 1
+  };
+
+  it('auto-drafts the weakest player who still fits an open slot', () => {
+    const pick = chooseTimeoutPick({ ...timeout, policy: 'AUTO_PICK_WORST' });
+    const contribution = (playerName: string) =>
+      scorePick({ slot: 'SG', playerName, teamAbbr: 'CHI', teamName: 'Chicago Bulls' }).contribution;
+
+    expect(pick).toMatchObject({ teamAbbr: 'CHI', isAutoDrafted: true });
+    expect(pick.playerName).not.toBe('Michael Jordan');
+    expect(pick.slot).not.toBe('PG');
+    for (const player of getRosterByTeam('CHI').filter((player) => player.name !== 'Michael Jordan')) {
+      expect(contribution(pick.playerName)).toBeLessThanOrEqual(contribution(player.name));
+    }
+    expect(chooseTimeoutPick({ ...timeout, policy: 'AUTO_PICK_WORST' })).toEqual(pick);
+  });
+
+  it('falls back to a violation when the policy says so or nobody fits', () => {
+    const roster = getRosterByTeam('CHI').map((player) => player.name);
+
+    expect(chooseTimeoutPick({ ...timeout, policy: 'EMPTY_SLOT' })).toMatchObject({
+      playerName: 'Shot Clock Violation',
+      isPenalty: true
+    });
+    expect(chooseTimeoutPick({ ...timeout, unavailablePlayers: roster, policy: 'AUTO_PICK_WORST' }).isPenalty).toBe(true);
+  });
+});
+
+describe('draft log', () => {
+  it('records the options a draw offered and how long the pick took', () => {
+    const lineup = { PG: picks[0]! };
+    const roster = getRosterByTeam('CHI').map((player) => player.name);
+    const entry = buildDraftLogEntry({
+      drawIndex: 1,
+      lineup,
+      lineupSlots: ['PG', 'SG', 'SF', 'PF', 'C'],
+      era: 'ALL_TIME',
+      unavailablePlayers: ['Magic Johnson'],
+      pick: picks[1]!,
+      elapsedMs: 4321.6
+    });
+
+    expect(entry).toMatchObject({
+      drawIndex: 1,
+      teamAbbr: 'CHI',
+      playerName: 'Michael Jordan',
+      slot: 'SG',
+      elapsedMs: 4322,
+      isPenalty: false,
+      isAutoDrafted: false
+    });
+    expect(entry.options).toContain('Michael Jordan');
+    expect(entry.options.every((name) => roster.includes(name))).toBe(true);
+  });
+});
@@ -0,0 +1,505 @@
+import type { Prisma } from '@prisma/client';
+import { getClockModeConfig, parseClockMode } from '@/lib/clock-modes';
+import { SHOT_CLOCK_MS, SHOT_CLOCK_PENALTY_PLAYER_NAME, WATCH_CODE_LENGTH } from '@/lib/constants';
+import { getRosterByTeam, getRosterNamesByTeam, getTeamByAbbr } from '@/lib/data';
+import { getDrawStrength, getLuckAdjustedScore } from '@/lib/draw';
+import { parseDrawMode } from '@/lib/draw-modes';
+import { getDraftEraConfig } from '@/lib/eras';
+import { getDraftFormatConfig, getEligibleRosterSlots } from '@/lib/formats';
+import { createSeededRng } from '@/lib/rng';
+import { getOpenSlots } from '@/lib/rules';
+import { SCORING_VERSION, scoreLineup, scorePick } from '@/lib/scoring';
+import { parseScoringPreset } from '@/lib/scoring-presets';
+import { safeParseJson, toJsonString } from '@/lib/serialization';
+import { generateShareCode } from '@/lib/share-code';
+import { parseTimeoutPolicy } from '@/lib/timeout-policies';
+import { DRAFT_STATUSES } from '@/lib/types';
+import type {
+  DraftFormat,
+  DraftFormatConfig,
+  DraftLogEntry,
+  DraftStatus,
+  DrawReroll,
+  LineupPick,
+  LineupState,
+  RosterSlot,
+  ScoringPreset,
+  TimeoutPolicy
+} from '@/lib/types';
+
+export function makeCookieToken(): string {
+  return crypto.randomUUID();
+}
+
+export async function generateUniqueShareCode(tx: Prisma.TransactionClient): Promise<string> {
+  for (let attempt = 0; attempt < 20; attempt += 1) {
+    const code = generateShareCode();
+    const existing = await tx.run.findUnique({ where: { shareCode: code }, select: { id: true } });
+    if (!existing) {
+      return code;
+    }
+  }
+
+  throw new Error('Could not generate a unique share code.');
+}
+
+export async function generateUniqueWatchCode(tx: Prisma.TransactionClient): Promise<string> {
+  for (let attempt = 0; attempt < 20; attempt += 1) {
+    const code = generateShareCode(WATCH_CODE_LENGTH);
+    const existing = await tx.draftSession.findUnique({ where: { watchCode: code }, select: { id: true } });
+    if (!existing) {
+      return code;
+    }
+  }
+
+  throw new Error('Could not generate a unique watch code.');
+}
+
+export function parseLineup(lineupJson: string): LineupState {
+  return safeParseJson<LineupState>(lineupJson, {});
+}
+
+export function parseChosenPlayers(chosenPlayersJson: string): string[] {
+  return safeParseJson<string[]>(chosenPlayersJson, []);
+}
+
+export function parseDrawSequence(drawSequenceJson: string): string[] {
+  return safeParseJson<string[]>(drawSequenceJson, []);
+}
+
+export function parseRerolls(rerollsJson: string): DrawReroll[] {
+  return safeParseJson<DrawReroll[]>(rerollsJson, []);
+}
+
+export function parseDraftLog(draftLogJson: string): DraftLogEntry[] {
+  return safeParseJson<DraftLogEntry[]>(draftLogJson, []);
+}
+
+export function computeRemainingTeams(drawSequence: string[], currentDrawIndex: number): string[] {
+  return drawSequence.slice(currentDrawIndex);
+}
+
+export function parseDraftStatus(status: string): DraftStatus {
+  if (DRAFT_STATUSES.includes(status as DraftStatus)) {
+    return status as DraftStatus;
+  }
+
+  return 'DRAFTING';
+}
+
+export function getShotClockDeadline(drawStartedAt: Date, clockMs = SHOT_CLOCK_MS): Date {
+  return new Date(drawStartedAt.getTime() + clockMs);
+}
+
+export function isClockExpired(drawStartedAt: Date, now = new Date(), clockMs = SHOT_CLOCK_MS): boolean {
+  return now.getTime() >= getShotClockDeadline(drawStartedAt, clockMs).getTime();
+}
+
+/**
+ * Time the current draw started with under the session's clock mode: the per-draw clock, or
+ * whatever is left of a time bank. Null when the session is untimed.
+ */
+export function getSessionClockMs(session: Pick<SessionWithRun, 'clockMode' | 'timeBankMs'>): number | null {
+  const config = getClockModeConfig(session.clockMode);
+
+  if (config.timeBankSeconds !== null) {
+    return Math.max(0, session.timeBankMs ?? config.timeBankSeconds * 1000);
+  }
+
+  return config.secondsPerDraw === null ? null : config.secondsPerDraw * 1000;
+}
+
+/** A time bank after the current draw ends at `now`; sessions without a bank keep null. */
+export function spendTimeBank(
+  session: Pick<SessionWithRun, 'clockMode' | 'timeBankMs' | 'drawStartedAt'>,
+  now = new Date()
+): number | null {
+  if (getClockModeConfig(session.clockMode).timeBankSeconds === null) {
+    return null;
+  }
+
+  const elapsedMs = now.getTime() - new Date(session.drawStartedAt).getTime();
+  return Math.max(0, (getSessionClockMs(session) ?? 0) - elapsedMs);
+}
+
+export type SessionWithRun = {
+  id: string;
+  cookieToken: string;
+  watchCode: string | null;
+  userName: string | null;
+  groupCode: string | null;
+  seed: string | null;
+  format: string;
+  era: string;
+  scoringPreset: string;
+  drawMode: string;
+  clockMode: string;
+  timeoutPolicy: string;
+  drawSequenceJson: string;
+  remainingTeamsJson: string;
+  currentDrawIndex: number;
+  lineupJson: string;
+  chosenPlayersJson: string;
+  rerollsJson: string;
+  draftLogJson: string;
+  drawStartedAt: Date;
+  timeBankMs: number | null;
+  status: string;
+  runId: string | null;
+  roomId: string | null;
+  roomSeat: number | null;
+  dailyDate: string | null;
+  challengeShareCode: string | null;
+  deviceId: string | null;
+  coachEnabled: boolean;
+  coachUsed: boolean;
+  run: {
+    shareCode: string;
+  } | null;
+};
+
+export function getSessionFormatConfig(session: SessionWithRun): DraftFormatConfig {
+  return getDraftFormatConfig(session.format);
+}
+
+/** Era restriction passed to `validatePick`; all-time drafts have none. */
+export function getSessionEraRoster(
+  session: SessionWithRun,
+  teamAbbr: string
+): { label: string; playerNames: string[] } | null {
+  const eraConfig = getDraftEraConfig(session.era);
+
+  if (eraConfig.startYear === null && eraConfig.endYear === null) {
+    return null;
+  }
+
+  return {
+    label: eraConfig.label,
+    playerNames: getRosterNamesByTeam(teamAbbr, eraConfig.era)
+  };
+}
+
+export async function fetchDraftSessionByCookieToken(
+  tx: Prisma.TransactionClient,
+  cookieToken: string
+): Promise<SessionWithRun | null> {
+  return tx.draftSession.findUnique({
+    where: { cookieToken },
+    include: {
+      run: {
+        select: {
+          shareCode: true
+        }
+      }
+    }
+  });
+}
+
+export async function fetchDraftSessionByWatchCode(
+  tx: Prisma.TransactionClient,
+  watchCode: string
+): Promise<SessionWithRun | null> {
+  return tx.draftSession.findUnique({
+    where: { watchCode },
+    include: {
+      run: {
+        select: {
+          shareCode: true
+        }
+      }
+    }
+  });
+}
+
+export async function fetchDraftSessionById(
+  tx: Prisma.TransactionClient,
+  id: string
+): Promise<SessionWithRun> {
+  const session = await tx.draftSession.findUnique({
+    where: { id },
+    include: {
+      run: {
+        select: {
+          shareCode: true
+        }
+      }
+    }
+  });
+
+  if (!session) {
+    throw new Error('Draft session missing after update.');
+  }
+
+  return session;
+}
+
+/**
+ * Score columns and pick rows a run stores for its lineup under the current scoring model.
+ * Shared by run creation and rescoring so both write the same shape. Every draw ends in a
+ * pick, so the picks' franchises are the drawn franchises the luck adjustment weighs.
+ */
+export function buildRunScoreData(
+  picks: LineupPick[],
+  options: { format: DraftFormat; preset: ScoringPreset; era?: string | null; rerolls?: number }
+) {
+  const scoring = scoreLineup(picks, options);
+  const drawStrength = getDrawStrength(picks.map((pick) => pick.teamAbbr), options.era);
+
+  return {
+    run: {
+      scoringVersion: SCORING_VERSION,
+      baseTeamScore: scoring.baseTeamScore,
+      chemistryScore: scoring.chemistry.chemistryScore,
+      chemistryMultiplier: scoring.chemistry.multiplier,
+      teamScore: scoring.teamScore,
+      drawStrength,
+      luckAdjustedScore: getLuckAdjustedScore(scoring.teamScore, drawStrength),
+      usedFallbackStats: scoring.usedFallbackStats,
+      contributionsJson: toJsonString(scoring.playerScores),
+      chemistryJson: toJsonString(scoring.chemistry)
+    },
+    picks: scoring.playerScores.map((playerScore) => ({
+      slot: playerScore.pick.slot,
+      playerName: playerScore.pick.playerName,
+      teamAbbr: playerScore.pick.teamAbbr,
+      teamName: playerScore.pick.teamName,
+      // Persist globally-normalized metrics so results table matches contribution math.
+      bpm: playerScore.normalizedMetrics.bpm,
+      ws48: playerScore.normalizedMetrics.ws48,
+      vorp: playerScore.normalizedMetrics.vorp,
+      epm: playerScore.normalizedMetrics.epm,
+      usedFallback: playerScore.usedFallback,
+      isPenalty: Boolean(playerScore.pick.isPenalty),
+      autoDrafted: Boolean(playerScore.pick.isAutoDrafted),
+      contribution: playerScore.contribution
+    }))
+  };
+}
+
+export async function persistDraftState(input: {
+  tx: Prisma.TransactionClient;
+  session: SessionWithRun;
+  drawSequence: string[];
+  lineup: LineupState;
+  chosenPlayers: string[];
+  currentDrawIndex: number;
+  drawStartedAt: Date;
+  timeBankMs?: number | null;
+  // Draws played since the last save, appended to the session's draft log.
+  logEntries?: DraftLogEntry[];
+}): Promise<SessionWithRun> {
+  const { tx, session, drawSequence, lineup, chosenPlayers, currentDrawIndex, drawStartedAt } = input;
+  const formatConfig = getSessionFormatConfig(session);
+  const timeBankMs = input.timeBankMs === undefined ? session.timeBankMs : input.timeBankMs;
+  const draftLogJson = toJsonString([...parseDraftLog(session.draftLogJson), ...(input.logEntries ?? [])]);
+
+  const roundIsComplete =
+    currentDrawIndex >= formatConfig.totalDraws ||
+    currentDrawIndex >= drawSequence.length ||
+    getOpenSlots(lineup, formatConfig.slots).length === 0;
+
+  if (!roundIsComplete) {
+    await tx.draftSession.update({
+      where: { id: session.id },
+      data: {
+        currentDrawIndex,
+        remainingTeamsJson: toJsonString(computeRemainingTeams(drawSequence, currentDrawIndex)),
+        lineupJson: toJsonString(lineup),
+        chosenPlayersJson: toJsonString(chosenPlayers),
+        draftLogJson,
+        drawStartedAt,
+        timeBankMs,
+        status: 'DRAFTING'
+      }
+    });
+
+    return fetchDraftSessionById(tx, session.id);
+  }
+
+  const orderedPicks = formatConfig.slots.map((lineupSlot) => lineup[lineupSlot]).filter(
+    (pick): pick is LineupPick => Boolean(pick)
+  );
+
+  if (orderedPicks.length !== formatConfig.slots.length) {
+    throw new Error('Round cannot finish until all slots are filled.');
+  }
+
+  const scoringPreset = parseScoringPreset(session.scoringPreset);
+  const era = getDraftEraConfig(session.era).era;
+  const rerolls = parseRerolls(session.rerollsJson);
+  const scoreData = buildRunScoreData(orderedPicks, {
+    format: formatConfig.format,
+    preset: scoringPreset,
+    era,
+    rerolls: rerolls.length
+  });
+  const shareCode = await generateUniqueShareCode(tx);
+
+  const run = await tx.run.create({
+    data: {
+      shareCode,
+      userName: session.userName,
+      groupCode: session.groupCode,
+      seed: session.seed,
+      format: formatConfig.format,
+      era,
+      scoringPreset,
+      drawMode: parseDrawMode(session.drawMode),
+      clockMode: parseClockMode(session.clockMode),
+      timeoutPolicy: parseTimeoutPolicy(session.timeoutPolicy),
+      dailyDate: session.dailyDate,
+      challengeShareCode: session.challengeShareCode,
+      ...scoreData.run,
+      originalTeamScore: scoreData.run.teamScore,
+      originalScoringVersion: scoreData.run.scoringVersion,
+      coachAssisted: session.coachUsed,
+      rerollCount: rerolls.length,
+      rerollsJson: toJsonString(rerolls),
+      draftLogJson,
+      lineupJson: toJsonString(lineup),
+      picks: {
+        create: scoreData.picks
+      }
+    }
+  });
+
+  await tx.draftSession.update({
+    where: { id: session.id },
+    data: {
+      currentDrawIndex,
+      remainingTeamsJson: toJsonString([]),
+      lineupJson: toJsonString(lineup),
+      chosenPlayersJson: toJsonString(chosenPlayers),
+      draftLogJson,
+      drawStartedAt,
+      timeBankMs,
+      status: 'COMPLETED',
+      runId: run.id
+    }
+  });
+
+  return fetchDraftSessionById(tx, session.id);
+}
+
+export function chooseTimeoutSlot(input: {
+  openSlots: RosterSlot[];
+  seed: string | null;
+  sessionId: string;
+  drawIndex: number;
+}): RosterSlot {
+  const { openSlots, seed, sessionId, drawIndex } = input;
+
+  if (openSlots.length === 1) {
+    return openSlots[0];
+  }
+
+  const rng = seed
+    ? createSeededRng(`${seed}:shotclock:${sessionId}:${drawIndex}`)
+    : Math.random;
+
+  const index = Math.floor(rng() * openSlots.length);
+  return openSlots[index] ?? openSlots[0];
+}
+
+/**
+ * What a timed-out draw puts in the lineup. Under `AUTO_PICK_WORST` the franchise's
+ * lowest-contribution player who can still fill an open slot is drafted into one of those
+ * slots at random; otherwise, or when nobody fits, a random open slot gets a violation.
+ */
+export function chooseTimeoutPick(input: {
+  lineup: LineupState;
+  lineupSlots: RosterSlot[];
+  teamAbbr: string;
+  unavailablePlayers: string[];
+  policy: TimeoutPolicy;
+  era: string;
+  preset: ScoringPreset;
+  seed: string | null;
+  sessionId: string;
+  drawIndex: number;
+}): LineupPick {
+  const openSlots = getOpenSlots(input.lineup, input.lineupSlots);
+  const teamName = getTeamByAbbr(input.teamAbbr)?.name ?? input.teamAbbr;
+  const slotInput = { seed: input.seed, sessionId: input.sessionId, drawIndex: input.drawIndex };
+
+  if (input.policy === 'AUTO_PICK_WORST') {
+    const unavailable = new Set(input.unavailablePlayers);
+    let worst: { playerName: string; slots: RosterSlot[]; contribution: number } | null = null;
+
+    for (const player of getRosterByTeam(input.teamAbbr, getDraftEraConfig(input.era).era)) {
+      const slots = getEligibleRosterSlots(player.eligibleSlots, openSlots);
+      if (unavailable.has(player.name) || slots.length === 0) {
+        continue;
+      }
+
+      // Contribution does not depend on the slot, so any open one scores the player.
+      const { contribution } = scorePick(
+        { slot: slots[0]!, playerName: player.name, teamAbbr: input.teamAbbr, teamName },
+        { preset: input.preset }
+      );
+      if (!worst || contribution < worst.contribution) {
+        worst = { playerName: player.name, slots, contribution };
+      }
+    }
+
+    if (worst) {
+      return {
+        slot: chooseTimeoutSlot({ ...slotInput, openSlots: worst.slots }),
+        playerName: worst.playerName,
+        teamAbbr: input.teamAbbr,
+        teamName,
+        isAutoDrafted: true
+      };
+    }
+  }
+
+  return {
+    slot: chooseTimeoutSlot({ ...slotInput, openSlots }),
+    playerName: SHOT_CLOCK_PENALTY_PLAYER_NAME,
+    teamAbbr: input.teamAbbr,
+    teamName,
+    isPenalty: true
+  };
+}
+
+/** Players a drafter can take on a draw: on the franchise in the era, not yet taken, with an open slot to fill. */
+export function getDrawOptions(input: {
+  lineup: LineupState;
+  lineupSlots: RosterSlot[];
+  teamAbbr: string;
+  era: string;
+  unavailablePlayers: string[];
+}): string[] {
+  const openSlots = getOpenSlots(input.lineup, input.lineupSlots);
+  const unavailable = new Set(input.unavailablePlayers);
+
+  return getRosterByTeam(input.teamAbbr, getDraftEraConfig(input.era).era)
+    .filter(
+      (player) => !unavailable.has(player.name) && getEligibleRosterSlots(player.eligibleSlots, openSlots).length > 0
+    )
+    .map((player) => player.name);
+}
+
+/** Log entry for a draw, from the lineup as it stood when the draw came up and the pick that ended it. */
+export function buildDraftLogEntry(input: {
+  drawIndex: number;
+  lineup: LineupState;
+  lineupSlots: RosterSlot[];
+  era: string;
+  unavailablePlayers: string[];
+  pick: LineupPick;
+  elapsedMs: number;
+}): DraftLogEntry {
+  const { pick } = input;
+
+  return {
+    drawIndex: input.drawIndex,
+    teamAbbr: pick.teamAbbr,
+    options: getDrawOptions({ ...input, teamAbbr: pick.teamAbbr }),
+    playerName: pick.playerName,
+    slot: pick.slot,
+    elapsedMs: Math.max(0, Math.round(input.elapsedMs)),
+    isPenalty: Boolean(pick.isPenalty),
+    isAutoDrafted: Boolean(pick.isAutoDrafted)
+  };
+}
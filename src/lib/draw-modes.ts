@@ -0,0 +1,33 @@
+import { DRAW_MODES } from '@/lib/types';
+import type { DrawMode, DrawModeConfig } from '@/lib/types';
+
+export const DEFAULT_DRAW_MODE: DrawMode = 'UNIFORM';
+
+const DRAW_MODE_CONFIGS: Record<DrawMode, DrawModeConfig> = {
+  UNIFORM: {
+    mode: 'UNIFORM',
+    label: 'Uniform',
+    description: 'Every franchise is equally likely on every draw.'
+  },
+  BALANCED_TIERS: {
+    mode: 'BALANCED_TIERS',
+    label: 'Balanced Tiers',
+    description: 'Franchises are ranked by strength and the round draws one franchise from each strength tier, in random order.'
+  }
+};
+
+export function parseDrawMode(value: string | null | undefined): DrawMode {
+  if (value && DRAW_MODES.includes(value as DrawMode)) {
+    return value as DrawMode;
+  }
+
+  return DEFAULT_DRAW_MODE;
+}
+
+export function getDrawModeConfig(mode: string | null | undefined): DrawModeConfig {
+  return DRAW_MODE_CONFIGS[parseDrawMode(mode)];
+}
+
+export function getDrawModeOptions(): DrawModeConfig[] {
+  return DRAW_MODES.map((mode) => DRAW_MODE_CONFIGS[mode]);
+}
@@ -1,5 +1,13 @@
 import { describe, expect, it } from 'vitest';
-import { drawTeamsWithoutReplacement } from '@/lib/draw';
+import { getAllTeams, getFranchiseStrength, getRosterByTeam } from '@/lib/data';
+import {
+  buildDrawSequence,
+  drawTeamsFromTiers,
+  drawRerollTeam,
+  drawTeamsWithoutReplacement,
+  getDrawStrength,
+  getLuckAdjustedScore
+} from '@/lib/draw';
 import type { Team } from '@/lib/types';
 
 const teams: Team[] = [
@@ -32,4 +40,72 @@ describe('drawTeamsWithoutReplacement', () => {
       'Cannot draw 20 teams from 7'
     );
   });
+
+  it('keeps all-time draws unchanged and limits era draws to franchises with era players', () => {
+    const allTime = drawTeamsWithoutReplacement({ teams: getAllTeams(), count: 8, seed: 'era-seed' });
+
+    expect(buildDrawSequence('era-seed', 8, 'ALL_TIME')).toEqual(allTime.map((team) => team.abbr));
+
+    for (const teamAbbr of buildDrawSequence('era-seed', 8, 'PRE_MERGER')) {
+      expect(getRosterByTeam(teamAbbr, 'PRE_MERGER').length).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe('balanced draws', () => {
+  it('draws one franchise from each strength tier', () => {
+    const ranked = [...getAllTeams()].sort((a, b) => getFranchiseStrength(b.abbr) - getFranchiseStrength(a.abbr));
+    const draw = drawTeamsFromTiers({ count: 5, seed: 'tier-seed' });
+    const tiers = draw.map((team) => Math.floor(ranked.indexOf(team) / (ranked.length / 5))).sort();
+
+    expect(tiers).toEqual([0, 1, 2, 3, 4]);
+    expect(buildDrawSequence('tier-seed', 5, 'ALL_TIME', 'BALANCED_TIERS')).toEqual(draw.map((team) => team.abbr));
+    expect(buildDrawSequence('tier-seed', 5, 'ALL_TIME', 'UNIFORM')).toEqual(buildDrawSequence('tier-seed', 5));
+  });
+
+  it('adjusts scores up for weak draws and down for strong ones', () => {
+    const strong = getDrawStrength(['LAL', 'BOS', 'PHI', 'GSW', 'SAS']);
+    const weak = getDrawStrength(['CHA', 'MEM', 'BKN', 'IND', 'NOP']);
+
+    expect(strong).toBeGreaterThan(1);
+    expect(weak).toBeLessThan(1);
+    expect(getLuckAdjustedScore(70, weak)).toBeGreaterThan(getLuckAdjustedScore(70, strong));
+    expect(getDrawStrength([])).toBe(1);
+  });
+});
+
+describe('rerolls', () => {
+  it('rerolls into an undrawn franchise, the same one for the same seed', () => {
+    const drawSequence = buildDrawSequence('reroll-seed', 5);
+    const reroll = drawRerollTeam({ drawSequence, drawIndex: 2, seed: 'reroll-seed' });
+
+    expect(reroll).not.toBeNull();
+    expect(drawSequence).not.toContain(reroll);
+    expect(drawRerollTeam({ drawSequence, drawIndex: 2, seed: 'reroll-seed' })).toBe(reroll);
+  });
+
+  it('never rerolls back into a franchise already rerolled away', () => {
+    const drawSequence = buildDrawSequence('reroll-repeat', 5);
+    const fromTeamAbbr = drawSequence[2]!;
+    const first = drawRerollTeam({ drawSequence, drawIndex: 2, seed: 'reroll-repeat' })!;
+    const rerolledSequence = drawSequence.map((teamAbbr, index) => (index === 2 ? first : teamAbbr));
+    const rerolls = [{ drawIndex: 2, fromTeamAbbr, toTeamAbbr: first }];
+
+    for (const seed of ['reroll-repeat', 'reroll-repeat-2', 'reroll-repeat-3']) {
+      const second = drawRerollTeam({ drawSequence: rerolledSequence, drawIndex: 2, seed, rerolls });
+      expect(second).not.toBe(fromTeamAbbr);
+      expect(rerolledSequence).not.toContain(second);
+    }
+  });
+
+  it('keeps balanced-tier rerolls in the same strength tier', () => {
+    const drawSequence = buildDrawSequence('tier-reroll', 5, 'ALL_TIME', 'BALANCED_TIERS');
+    const ranked = [...getAllTeams()].sort((a, b) => getFranchiseStrength(b.abbr) - getFranchiseStrength(a.abbr));
+    const tierOf = (teamAbbr: string) => Math.floor(ranked.findIndex((team) => team.abbr === teamAbbr) / 6);
+
+    for (const [drawIndex, teamAbbr] of drawSequence.entries()) {
+      const reroll = drawRerollTeam({ drawSequence, drawIndex, seed: 'tier-reroll', drawMode: 'BALANCED_TIERS' });
+      expect(tierOf(reroll!)).toBe(tierOf(teamAbbr));
+    }
+  });
 });
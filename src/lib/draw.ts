@@ -1,7 +1,12 @@
 import { TOTAL_DRAWS } from '@/lib/constants';
-import { getAllTeams } from '@/lib/data';
+import { getAllTeams, getFranchiseStrength, getTeamsForEra } from '@/lib/data';
+import { parseDrawMode } from '@/lib/draw-modes';
 import { createSeededRng } from '@/lib/rng';
-import type { Team } from '@/lib/types';
+import type { DrawMode, DrawReroll, Team } from '@/lib/types';
+
+function roundToOneDecimal(value: number): number {
+  return Math.round(value * 10) / 10;
+}
 
 export function shuffleTeams(teams: Team[], rng: () => number): Team[] {
   const cloned = [...teams];
@@ -33,6 +38,113 @@ export function drawTeamsWithoutReplacement(options?: {
   return shuffleTeams(teams, rng).slice(0, count);
 }
 
-export function buildDrawSequence(seed?: string | null): string[] {
-  return drawTeamsWithoutReplacement({ seed }).map((team) => team.abbr);
+// Franchises strongest first, cut into `count` tiers as even as possible.
+function getStrengthTiers(teams: Team[], count: number, era?: string | null): Team[][] {
+  const ranked = [...teams].sort(
+    (a, b) => getFranchiseStrength(b.abbr, era) - getFranchiseStrength(a.abbr, era) || a.abbr.localeCompare(b.abbr)
+  );
+
+  return Array.from({ length: count }, (_, tier) =>
+    ranked.slice(Math.floor((tier * ranked.length) / count), Math.floor(((tier + 1) * ranked.length) / count))
+  );
+}
+
+/**
+ * Ranks franchises by strength, cuts them into `count` tiers and draws one franchise from each,
+ * so a round always mixes strong and weak draws. The drawn franchises come out shuffled.
+ */
+export function drawTeamsFromTiers(options: {
+  count?: number;
+  seed?: string | null;
+  teams?: Team[];
+  era?: string | null;
+}): Team[] {
+  const { count = TOTAL_DRAWS, seed, teams = getAllTeams(), era } = options;
+
+  if (count <= 0) {
+    return [];
+  }
+
+  if (count > teams.length) {
+    throw new Error(`Cannot draw ${count} teams from ${teams.length}`);
+  }
+
+  const rng = seed ? createSeededRng(`${seed}:tiers`) : Math.random;
+  const drawn = getStrengthTiers(teams, count, era).map((tierTeams) => tierTeams[Math.floor(rng() * tierTeams.length)]!);
+
+  return shuffleTeams(drawn, rng);
+}
+
+export function buildDrawSequence(
+  seed?: string | null,
+  count = TOTAL_DRAWS,
+  era?: string | null,
+  drawMode?: DrawMode | null
+): string[] {
+  const teams = getTeamsForEra(era);
+
+  if (parseDrawMode(drawMode) === 'BALANCED_TIERS') {
+    return drawTeamsFromTiers({ seed, count, teams, era }).map((team) => team.abbr);
+  }
+
+  // All-time drafts keep every franchise in order, so existing seeds replay the same draws.
+  return drawTeamsWithoutReplacement({ seed, count, teams }).map((team) => team.abbr);
+}
+
+/**
+ * Replacement for the franchise at `drawIndex`: one not drawn anywhere in the sequence nor
+ * rerolled away earlier, from the same strength tier in balanced-tier drafts. Seeded drafts
+ * always make the same series of rerolls.
+ */
+export function drawRerollTeam(input: {
+  drawSequence: string[];
+  drawIndex: number;
+  seed?: string | null;
+  era?: string | null;
+  drawMode?: DrawMode | null;
+  // Rerolls already made this round.
+  rerolls?: DrawReroll[];
+}): string | null {
+  const { drawSequence, drawIndex, seed, era } = input;
+  const rerolls = input.rerolls ?? [];
+  const rerolledAway = new Set(rerolls.map((reroll) => reroll.fromTeamAbbr));
+  const eraTeams = getTeamsForEra(era);
+  let candidates = eraTeams.filter((team) => !drawSequence.includes(team.abbr) && !rerolledAway.has(team.abbr));
+
+  if (parseDrawMode(input.drawMode) === 'BALANCED_TIERS') {
+    const tier = getStrengthTiers(eraTeams, drawSequence.length, era).find((tierTeams) =>
+      tierTeams.some((team) => team.abbr === drawSequence[drawIndex])
+    );
+    const sameTier = candidates.filter((team) => tier?.includes(team));
+    candidates = sameTier.length > 0 ? sameTier : candidates;
+  }
+
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const rng = seed ? createSeededRng(`${seed}:reroll:${drawIndex}:${rerolls.length}`) : Math.random;
+  return candidates[Math.floor(rng() * candidates.length)]!.abbr;
+}
+
+/**
+ * Mean strength of the drawn franchises over the era's average franchise: above 1 is a lucky
+ * draw, below 1 an unlucky one.
+ */
+export function getDrawStrength(teamAbbrs: string[], era?: string | null): number {
+  const eraTeams = getTeamsForEra(era);
+  if (teamAbbrs.length === 0 || eraTeams.length === 0) {
+    return 1;
+  }
+
+  const average = (abbrs: string[]) =>
+    abbrs.reduce((sum, teamAbbr) => sum + getFranchiseStrength(teamAbbr, era), 0) / abbrs.length;
+  const eraAverage = average(eraTeams.map((team) => team.abbr));
+
+  return eraAverage > 0 ? Math.round((average(teamAbbrs) / eraAverage) * 1000) / 1000 : 1;
+}
+
+/** Team score divided by draw strength, so runs with weak draws are not buried by luck. */
+export function getLuckAdjustedScore(teamScore: number, drawStrength: number): number {
+  return drawStrength > 0 ? roundToOneDecimal(teamScore / drawStrength) : teamScore;
 }
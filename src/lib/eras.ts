@@ -0,0 +1,70 @@
+import { DRAFT_ERAS } from '@/lib/types';
+import type { DraftEra, DraftEraConfig, TenureSpan } from '@/lib/types';
+
+export const DEFAULT_DRAFT_ERA: DraftEra = 'ALL_TIME';
+
+const DRAFT_ERA_CONFIGS: Record<DraftEra, DraftEraConfig> = {
+  ALL_TIME: {
+    era: 'ALL_TIME',
+    label: 'All-Time',
+    description: 'Every franchise great, from any decade.',
+    startYear: null,
+    endYear: null
+  },
+  PRE_MERGER: {
+    era: 'PRE_MERGER',
+    label: 'Pre-Merger',
+    description: 'Only players whose franchise years began before the 1976 ABA-NBA merger.',
+    startYear: null,
+    endYear: 1975
+  },
+  EIGHTIES_NINETIES: {
+    era: 'EIGHTIES_NINETIES',
+    label: '80s/90s',
+    description: 'Only players whose franchise years overlap 1980-1999.',
+    startYear: 1980,
+    endYear: 1999
+  },
+  TWO_THOUSANDS: {
+    era: 'TWO_THOUSANDS',
+    label: '2000s',
+    description: 'Only players whose franchise years overlap 2000-2009.',
+    startYear: 2000,
+    endYear: 2009
+  },
+  MODERN: {
+    era: 'MODERN',
+    label: 'Modern',
+    description: 'Only players whose franchise years reach 2010 or later.',
+    startYear: 2010,
+    endYear: null
+  }
+};
+
+export function parseDraftEra(value: string | null | undefined): DraftEra {
+  if (value && DRAFT_ERAS.includes(value as DraftEra)) {
+    return value as DraftEra;
+  }
+
+  return DEFAULT_DRAFT_ERA;
+}
+
+export function getDraftEraConfig(era: string | null | undefined): DraftEraConfig {
+  return DRAFT_ERA_CONFIGS[parseDraftEra(era)];
+}
+
+export function getDraftEraOptions(): DraftEraConfig[] {
+  return DRAFT_ERAS.map((era) => DRAFT_ERA_CONFIGS[era]);
+}
+
+export function isTenureInEra(tenure: TenureSpan[], era: string | null | undefined): boolean {
+  const { startYear, endYear } = getDraftEraConfig(era);
+
+  if (startYear === null && endYear === null) {
+    return true;
+  }
+
+  return tenure.some(
+    (span) => (endYear === null || span.startYear <= endYear) && (startYear === null || span.endYear >= startYear)
+  );
+}
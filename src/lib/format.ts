@@ -1,3 +1,6 @@
+import { ROSTER_SLOT_LABELS } from '@/lib/formats';
+import type { RosterSlot } from '@/lib/types';
+
 export function formatDateTime(date: Date): string {
   return new Intl.DateTimeFormat('en-US', {
     dateStyle: 'medium',
@@ -8,3 +11,23 @@ export function formatDateTime(date: Date): string {
 export function pluralize(value: number, singular: string, plural = `${singular}s`): string {
   return `${value} ${value === 1 ? singular : plural}`;
 }
+
+export function getSecondsRemaining(deadline: string | null, now = Date.now()): number {
+  if (!deadline) {
+    return 0;
+  }
+
+  const remainingMs = new Date(deadline).getTime() - now;
+  return Math.max(0, Math.ceil(remainingMs / 1000));
+}
+
+export function getRunPickSummary(
+  picks: Array<{ slot: string; playerName: string; isPenalty: boolean }>
+): string {
+  return picks
+    .map((pick) => {
+      const label = ROSTER_SLOT_LABELS[pick.slot as RosterSlot] ?? pick.slot;
+      return `${label}: ${pick.isPenalty ? 'Shot Clock Violation' : pick.playerName}`;
+    })
+    .join(' · ');
+}
@@ -0,0 +1,99 @@
+import { TOTAL_DRAWS } from '@/lib/constants';
+import { DRAFT_FORMATS, LINEUP_SLOTS } from '@/lib/types';
+import type { BenchSlot, DraftFormat, DraftFormatConfig, LineupSlot, RosterSlot } from '@/lib/types';
+
+export const DEFAULT_DRAFT_FORMAT: DraftFormat = 'STANDARD';
+
+export const ROSTER_SLOT_LABELS: Record<RosterSlot, string> = {
+  PG: 'PG',
+  SG: 'SG',
+  SF: 'SF',
+  PF: 'PF',
+  C: 'C',
+  '6TH': '6th Man',
+  '7TH': '7th Man',
+  FLEX: 'Flex'
+};
+
+// Positions each bench slot accepts. Flex is a G/F/C slot, so any real position fits.
+const BENCH_SLOT_POSITIONS: Record<BenchSlot, LineupSlot[]> = {
+  '6TH': [...LINEUP_SLOTS],
+  '7TH': [...LINEUP_SLOTS],
+  FLEX: [...LINEUP_SLOTS]
+};
+
+const DRAFT_FORMAT_CONFIGS: Record<DraftFormat, DraftFormatConfig> = {
+  STANDARD: {
+    format: 'STANDARD',
+    label: 'Starting Five',
+    description: 'Five draws filling PG, SG, SF, PF, and C.',
+    slots: [...LINEUP_SLOTS],
+    totalDraws: TOTAL_DRAWS,
+    slotWeights: {}
+  },
+  SIXTH_MAN: {
+    format: 'SIXTH_MAN',
+    label: 'Sixth Man',
+    description: 'Six draws: the starting five plus a 6th man off the bench.',
+    slots: [...LINEUP_SLOTS, '6TH'],
+    totalDraws: TOTAL_DRAWS + 1,
+    slotWeights: { '6TH': 0.6 }
+  },
+  SEVEN_DEEP: {
+    format: 'SEVEN_DEEP',
+    label: 'Seven Deep',
+    description: 'Seven draws: the starting five plus a 6th and 7th man.',
+    slots: [...LINEUP_SLOTS, '6TH', '7TH'],
+    totalDraws: TOTAL_DRAWS + 2,
+    slotWeights: { '6TH': 0.6, '7TH': 0.4 }
+  },
+  FULL_BENCH: {
+    format: 'FULL_BENCH',
+    label: 'Full Bench',
+    description: 'Eight draws: the starting five, a 6th and 7th man, and a G/F/C flex.',
+    slots: [...LINEUP_SLOTS, '6TH', '7TH', 'FLEX'],
+    totalDraws: TOTAL_DRAWS + 3,
+    slotWeights: { '6TH': 0.6, '7TH': 0.4, FLEX: 0.5 }
+  }
+};
+
+export function parseDraftFormat(value: string | null | undefined): DraftFormat {
+  if (value && DRAFT_FORMATS.includes(value as DraftFormat)) {
+    return value as DraftFormat;
+  }
+
+  return DEFAULT_DRAFT_FORMAT;
+}
+
+export function getDraftFormatConfig(format: string | null | undefined): DraftFormatConfig {
+  return DRAFT_FORMAT_CONFIGS[parseDraftFormat(format)];
+}
+
+export function getDraftFormatOptions(): DraftFormatConfig[] {
+  return DRAFT_FORMATS.map((format) => DRAFT_FORMAT_CONFIGS[format]);
+}
+
+export function isBenchSlot(slot: RosterSlot): slot is BenchSlot {
+  return !LINEUP_SLOTS.includes(slot as LineupSlot);
+}
+
+export function getSlotWeight(config: DraftFormatConfig, slot: RosterSlot): number {
+  return config.slotWeights[slot] ?? 1;
+}
+
+/**
+ * Expands a player's real positions into the roster slots they may fill in a format.
+ * Starting slots require the exact position; bench slots accept any listed position.
+ */
+export function getEligibleRosterSlots(
+  positions: LineupSlot[],
+  slots: readonly RosterSlot[]
+): RosterSlot[] {
+  return slots.filter((slot) => {
+    if (isBenchSlot(slot)) {
+      return BENCH_SLOT_POSITIONS[slot].some((position) => positions.includes(position));
+    }
+
+    return positions.includes(slot);
+  });
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { getRosterByTeam, getTeamByAbbr } from '@/lib/data';
+import { buildDrawSequence } from '@/lib/draw';
+import { getEligibleRosterSlots } from '@/lib/formats';
+import { OPTIMAL_SEARCH_NODE_BUDGET, solveOptimalLineup } from '@/lib/lineup-solver';
+import { createSeededRng } from '@/lib/rng';
+import { getRerollPenalty, scoreLineup } from '@/lib/scoring';
+import { LINEUP_SLOTS } from '@/lib/types';
+import type { LineupPick, RosterSlot } from '@/lib/types';
+
+// Fills slots draw by draw with random legal picks; returns null if it paints itself into a corner.
+function buildRandomLineup(drawSequence: string[], slots: RosterSlot[], rng: () => number): LineupPick[] | null {
+  const picks: LineupPick[] = [];
+
+  for (const teamAbbr of drawSequence) {
+    const options = getRosterByTeam(teamAbbr).flatMap((player) =>
+      getEligibleRosterSlots(player.eligibleSlots, slots)
+        .filter(
+          (slot) =>
+            !picks.some((pick) => pick.slot === slot) && !picks.some((pick) => pick.playerName === player.name)
+        )
+        .map((slot) => ({ slot, playerName: player.name }))
+    );
+    const choice = options[Math.floor(rng() * options.length)];
+
+    if (!choice) {
+      return null;
+    }
+
+    picks.push({ ...choice, teamAbbr, teamName: getTeamByAbbr(teamAbbr)?.name ?? teamAbbr });
+  }
+
+  return picks;
+}
+
+describe('optimal lineup solver', () => {
+  it('beats or ties every sampled legal lineup for the same draws', () => {
+    const drawSequence = buildDrawSequence('SOLVER-CHECK', 5);
+    const optimal = solveOptimalLineup({ drawSequence, format: 'STANDARD' });
+    const rng = createSeededRng('SOLVER-SAMPLES');
+
+    expect(optimal).not.toBeNull();
+
+    for (let sample = 0; sample < 300; sample += 1) {
+      const picks = buildRandomLineup(drawSequence, [...LINEUP_SLOTS], rng);
+      if (picks) {
+        expect(scoreLineup(picks).teamScore).toBeLessThanOrEqual(optimal!.teamScore);
+      }
+    }
+  });
+
+  it('returns a legal lineup whose score matches the regular scorer', () => {
+    const drawSequence = buildDrawSequence('SOLVER-BENCH', 6);
+    const optimal = solveOptimalLineup({ drawSequence, format: 'SIXTH_MAN' });
+
+    expect(optimal).not.toBeNull();
+    expect(optimal!.picks.map((pick) => pick.slot)).toEqual([...LINEUP_SLOTS, '6TH']);
+    expect(new Set(optimal!.picks.map((pick) => pick.teamAbbr))).toEqual(new Set(drawSequence));
+    expect(scoreLineup(optimal!.picks, { format: 'SIXTH_MAN' }).teamScore).toBe(optimal!.teamScore);
+  });
+
+  it('bounds the search for deep formats and falls back to the best lineup found', () => {
+    for (const [format, totalDraws] of [
+      ['SEVEN_DEEP', 7],
+      ['FULL_BENCH', 8]
+    ] as const) {
+      for (const seed of ['SOLVER-DEEP-1', 'SOLVER-DEEP-2', 'SOLVER-DEEP-3']) {
+        const drawSequence = buildDrawSequence(seed, totalDraws);
+        const optimal = solveOptimalLineup({ drawSequence, format });
+
+        expect(optimal).not.toBeNull();
+        expect(optimal!.searchedNodes).toBeLessThanOrEqual(OPTIMAL_SEARCH_NODE_BUDGET);
+        expect(scoreLineup(optimal!.picks, { format }).teamScore).toBe(optimal!.teamScore);
+      }
+    }
+
+    const capped = solveOptimalLineup({
+      drawSequence: buildDrawSequence('SOLVER-DEEP-1', 8),
+      format: 'FULL_BENCH',
+      nodeBudget: 1
+    });
+    expect(capped).toMatchObject({ exhaustive: false });
+    expect(capped!.picks).toHaveLength(8);
+    expect(solveOptimalLineup({ drawSequence: buildDrawSequence('SOLVER-CHECK', 5) })?.exhaustive).toBe(true);
+  });
+
+  it('takes the reroll penalty off the optimal score like the regular scorer', () => {
+    const drawSequence = buildDrawSequence('SOLVER-REROLL', 5);
+    const optimal = solveOptimalLineup({ drawSequence });
+    const penalized = solveOptimalLineup({ drawSequence, rerolls: 2 });
+
+    expect(penalized!.rerollPenalty).toBe(getRerollPenalty(2));
+    expect(penalized!.picks).toEqual(optimal!.picks);
+    expect(scoreLineup(penalized!.picks, { rerolls: 2 }).teamScore).toBe(penalized!.teamScore);
+  });
+
+  it('needs one draw per slot', () => {
+    expect(solveOptimalLineup({ drawSequence: buildDrawSequence('SOLVER-SHORT', 3) })).toBeNull();
+  });
+});
@@ -0,0 +1,392 @@
+import { SHOT_CLOCK_PENALTY_PLAYER_NAME } from '@/lib/constants';
+import { getRosterByTeam, getTeamByAbbr } from '@/lib/data';
+import { getDraftFormatConfig, getEligibleRosterSlots, getSlotWeight, isBenchSlot } from '@/lib/formats';
+import {
+  combinePlayerScores,
+  getChemistryMultiplierBound,
+  getRerollPenalty,
+  scorePick,
+  summarizeChemistryPool
+} from '@/lib/scoring';
+import type { ChemistryPool } from '@/lib/scoring';
+import type {
+  ChemistryBreakdown,
+  DraftEra,
+  DraftFormat,
+  LineupPick,
+  PlayerScoreBreakdown,
+  RosterSlot,
+  ScoringPreset
+} from '@/lib/types';
+
+export type OptimalLineup = {
+  teamScore: number;
+  baseTeamScore: number;
+  chemistry: ChemistryBreakdown;
+  picks: LineupPick[];
+  // Taken off `teamScore` like `scoreLineup` does, so a rerolled run compares against the same penalty.
+  rerollPenalty: number;
+  // False when the search ran out of budget and returned the best lineup it had found.
+  exhaustive: boolean;
+  searchedNodes: number;
+};
+
+// Deep formats can take tens of seconds to search exhaustively, so the search stops after
+// this many branches and keeps the best lineup found so far.
+export const OPTIMAL_SEARCH_NODE_BUDGET = 50_000;
+
+type Candidate = {
+  playerName: string;
+  // Bench slots only differ by weight, so bench candidates hold the first bench slot until
+  // the lineup is scored and bench weights are handed out by contribution.
+  isBench: boolean;
+  slotIndex: number;
+  score: PlayerScoreBreakdown;
+};
+
+type DrawOptions = {
+  teamAbbr: string;
+  teamName: string;
+  candidates: Candidate[];
+  bestContributionBySlot: number[];
+  // Everything this draw could add to a lineup, including a burned pick when one is possible.
+  chemistryPool: PlayerScoreBreakdown[];
+};
+
+function roundToOneDecimal(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function buildPenaltyScore(teamAbbr: string, teamName: string, slot: RosterSlot): PlayerScoreBreakdown {
+  return scorePick({ slot, playerName: SHOT_CLOCK_PENALTY_PLAYER_NAME, teamAbbr, teamName, isPenalty: true });
+}
+
+function getSharedPlayerNames(drawSequence: string[], era: DraftEra | undefined): Set<string> {
+  const seen = new Set<string>();
+  const shared = new Set<string>();
+
+  for (const teamAbbr of drawSequence) {
+    for (const player of getRosterByTeam(teamAbbr, era)) {
+      if (seen.has(player.name)) {
+        shared.add(player.name);
+      }
+      seen.add(player.name);
+    }
+  }
+
+  return shared;
+}
+
+function buildDrawOptions(input: {
+  teamAbbr: string;
+  slots: readonly RosterSlot[];
+  benchSlotIndex: number;
+  season: string | undefined;
+  era: DraftEra | undefined;
+  preset: ScoringPreset | undefined;
+  sharedPlayerNames: Set<string>;
+}): DrawOptions {
+  const { teamAbbr, slots, benchSlotIndex } = input;
+  const teamName = getTeamByAbbr(teamAbbr)?.name ?? teamAbbr;
+  const candidates: Candidate[] = [];
+
+  for (const player of getRosterByTeam(teamAbbr, input.era)) {
+    const eligibleSlots = getEligibleRosterSlots(player.eligibleSlots, slots);
+    if (eligibleSlots.length === 0) {
+      continue;
+    }
+
+    // Stats don't depend on the slot, so each player is looked up once per draw.
+    const base = scorePick(
+      { slot: eligibleSlots[0]!, playerName: player.name, teamAbbr, teamName },
+      { season: input.season, preset: input.preset }
+    );
+    const slotIndexes = eligibleSlots.map((slot) => (isBenchSlot(slot) ? benchSlotIndex : slots.indexOf(slot)));
+
+    for (const slotIndex of new Set(slotIndexes)) {
+      candidates.push({
+        playerName: player.name,
+        isBench: slotIndex === benchSlotIndex,
+        slotIndex,
+        score: { ...base, pick: { ...base.pick, slot: slots[slotIndex]! } }
+      });
+    }
+  }
+
+  candidates.sort((a, b) => b.score.contribution - a.score.contribution);
+
+  // A pick can only be burned if every player who fits some slot could be taken by another draw.
+  const canBurnPick = slots.some((slot, index) => {
+    const slotIndex = isBenchSlot(slot) ? benchSlotIndex : index;
+    return !candidates.some(
+      (candidate) => candidate.slotIndex === slotIndex && !input.sharedPlayerNames.has(candidate.playerName)
+    );
+  });
+
+  return {
+    teamAbbr,
+    teamName,
+    candidates,
+    bestContributionBySlot: slots.map((_, index) =>
+      Math.max(
+        0,
+        ...candidates
+          .filter((candidate) => candidate.slotIndex === index)
+          .map((candidate) => candidate.score.contribution)
+      )
+    ),
+    chemistryPool: [
+      ...candidates.map((candidate) => candidate.score),
+      ...(canBurnPick ? [buildPenaltyScore(teamAbbr, teamName, slots[0]!)] : [])
+    ]
+  };
+}
+
+/**
+ * Searches every legal player-to-slot assignment for a full draw sequence and returns the
+ * lineup with the highest team score. The search stays exact while pruning: a branch is dropped once
+ * the best base score its remaining draws could reach, times the best chemistry multiplier
+ * its players could reach, no longer beats the best lineup found so far. Candidates are tried
+ * strongest first, so when `nodeBudget` runs out the lineup found so far is at least a greedy one.
+ */
+export function solveOptimalLineup(input: {
+  drawSequence: string[];
+  format?: DraftFormat | string | null;
+  era?: DraftEra;
+  preset?: ScoringPreset;
+  season?: string;
+  rerolls?: number;
+  nodeBudget?: number;
+}): OptimalLineup | null {
+  const formatConfig = getDraftFormatConfig(input.format);
+  const slots = formatConfig.slots;
+  const drawSequence = input.drawSequence.slice(0, formatConfig.totalDraws);
+
+  // Bounds and bench weights assume every slot gets filled, which needs one draw per slot.
+  if (drawSequence.length < slots.length) {
+    return null;
+  }
+
+  const slotWeights = slots.map((slot) => getSlotWeight(formatConfig, slot));
+  const totalWeight = slotWeights.reduce((sum, weight) => sum + weight, 0);
+  const benchSlotIndexes = slots
+    .map((slot, index) => (isBenchSlot(slot) ? index : -1))
+    .filter((index) => index >= 0)
+    .sort((a, b) => slotWeights[b]! - slotWeights[a]!);
+  const benchSlotIndex = slots.findIndex(isBenchSlot);
+  const sharedPlayerNames = getSharedPlayerNames(drawSequence, input.era);
+  const draws = drawSequence.map((teamAbbr) =>
+    buildDrawOptions({
+      teamAbbr,
+      slots,
+      benchSlotIndex,
+      season: input.season,
+      era: input.era,
+      preset: input.preset,
+      sharedPlayerNames
+    })
+  );
+  const remainingPools: ChemistryPool[] = draws.map((_, drawIndex) =>
+    summarizeChemistryPool(draws.slice(drawIndex).flatMap((draw) => draw.chemistryPool))
+  );
+  const pairScoreCeiling = remainingPools[0]!.maxPairScore;
+
+  // Best weighted contribution the remaining draws could add given which slots are taken,
+  // ignoring that two franchises might share a player.
+  const remainingSumMemo = new Map<number, number>();
+  const getRemainingWeightedSum = (drawIndex: number, usedMask: number): number => {
+    if (drawIndex === draws.length) {
+      return 0;
+    }
+
+    const key = drawIndex * (1 << slots.length) + usedMask;
+    const cached = remainingSumMemo.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const draw = draws[drawIndex]!;
+    let bestSum = 0;
+
+    slots.forEach((slot, index) => {
+      if (usedMask & (1 << index)) {
+        return;
+      }
+
+      const contribution = draw.bestContributionBySlot[isBenchSlot(slot) ? benchSlotIndex : index]!;
+      bestSum = Math.max(
+        bestSum,
+        contribution * slotWeights[index]! + getRemainingWeightedSum(drawIndex + 1, usedMask | (1 << index))
+      );
+    });
+
+    remainingSumMemo.set(key, bestSum);
+    return bestSum;
+  };
+
+  const chosen: Candidate[] = [];
+  const usedPlayers = new Set<string>();
+  let starterMask = 0;
+  let benchCount = 0;
+  let best: Omit<OptimalLineup, 'rerollPenalty' | 'exhaustive' | 'searchedNodes'> | null = null;
+  const nodeBudget = input.nodeBudget ?? OPTIMAL_SEARCH_NODE_BUDGET;
+  let nodes = 0;
+
+  const getBaseBound = (drawIndex: number, starterSum: number): number => {
+    const chosenBench = chosen
+      .filter((candidate) => candidate.isBench)
+      .map((candidate) => candidate.score.contribution)
+      .sort((a, b) => b - a);
+    let weightedSum = 0;
+
+    // Players already benched may end up in any bench slots, so try every split of the
+    // bench between them and the remaining draws.
+    for (let mask = 0; mask < 1 << benchSlotIndexes.length; mask += 1) {
+      const taken = benchSlotIndexes.filter((_, position) => mask & (1 << position));
+      if (taken.length !== chosenBench.length) {
+        continue;
+      }
+
+      const usedMask = taken.reduce((combined, index) => combined | (1 << index), starterMask);
+      weightedSum = Math.max(
+        weightedSum,
+        chosenBench.reduce((sum, contribution, position) => sum + contribution * slotWeights[taken[position]!]!, 0) +
+          getRemainingWeightedSum(drawIndex, usedMask)
+      );
+    }
+
+    return roundToOneDecimal((starterSum + weightedSum) / totalWeight);
+  };
+
+  const canBeatBest = (drawIndex: number, starterSum: number): boolean => {
+    if (!best) {
+      return true;
+    }
+
+    const baseBound = getBaseBound(drawIndex, starterSum);
+    if (roundToOneDecimal(baseBound * 2) <= best.teamScore) {
+      return false;
+    }
+
+    const multiplierBound = getChemistryMultiplierBound({
+      chosen: chosen.map((candidate) => candidate.score),
+      pool: remainingPools[drawIndex]!,
+      remaining: draws.length - drawIndex,
+      pairScoreCeiling,
+      preset: input.preset
+    });
+    return roundToOneDecimal(baseBound * multiplierBound) > best.teamScore;
+  };
+
+  const scoreLeaf = () => {
+    const benchOrder = chosen
+      .filter((candidate) => candidate.isBench)
+      .sort((a, b) => b.score.contribution - a.score.contribution);
+    const playerScores = chosen.map((candidate) => {
+      if (!candidate.isBench) {
+        return candidate.score;
+      }
+
+      const slot = slots[benchSlotIndexes[benchOrder.indexOf(candidate)]!]!;
+      return { ...candidate.score, pick: { ...candidate.score.pick, slot } };
+    });
+    const scored = combinePlayerScores(playerScores, formatConfig.format, input.preset);
+
+    if (!best || scored.teamScore > best.teamScore) {
+      best = {
+        ...scored,
+        picks: playerScores
+          .map((player) => player.pick)
+          .sort((a, b) => slots.indexOf(a.slot) - slots.indexOf(b.slot))
+      };
+    }
+  };
+
+  const isOpen = (slotIndex: number): boolean =>
+    slotIndex === benchSlotIndex ? benchCount < benchSlotIndexes.length : !(starterMask & (1 << slotIndex));
+
+  const place = (candidate: Candidate, drawIndex: number, starterSum: number) => {
+    chosen.push(candidate);
+
+    if (candidate.isBench) {
+      benchCount += 1;
+      visit(drawIndex + 1, starterSum);
+      benchCount -= 1;
+    } else {
+      starterMask |= 1 << candidate.slotIndex;
+      visit(drawIndex + 1, starterSum + candidate.score.contribution * slotWeights[candidate.slotIndex]!);
+      starterMask &= ~(1 << candidate.slotIndex);
+    }
+
+    chosen.pop();
+  };
+
+  const visit = (drawIndex: number, starterSum: number) => {
+    if (drawIndex === draws.length) {
+      scoreLeaf();
+      return;
+    }
+
+    // Past the budget, finish nothing new once some lineup has been found.
+    if (best && nodes >= nodeBudget) {
+      return;
+    }
+
+    nodes += 1;
+    if (!canBeatBest(drawIndex, starterSum)) {
+      return;
+    }
+
+    const draw = draws[drawIndex]!;
+    let placedPlayer = false;
+
+    for (const candidate of draw.candidates) {
+      if (!isOpen(candidate.slotIndex) || usedPlayers.has(candidate.playerName)) {
+        continue;
+      }
+
+      placedPlayer = true;
+      usedPlayers.add(candidate.playerName);
+      place(candidate, drawIndex, starterSum);
+      usedPlayers.delete(candidate.playerName);
+    }
+
+    if (placedPlayer) {
+      return;
+    }
+
+    // Nobody left on this franchise fits an open slot, so the draw can only be burned.
+    const openSlotIndexes = [...new Set(slots.map((slot, index) => (isBenchSlot(slot) ? benchSlotIndex : index)))]
+      .filter(isOpen);
+
+    for (const slotIndex of openSlotIndexes) {
+      place(
+        {
+          playerName: SHOT_CLOCK_PENALTY_PLAYER_NAME,
+          isBench: slotIndex === benchSlotIndex,
+          slotIndex,
+          score: buildPenaltyScore(draw.teamAbbr, draw.teamName, slots[slotIndex]!)
+        },
+        drawIndex,
+        starterSum
+      );
+    }
+  };
+
+  visit(0, 0);
+
+  // `best` is only assigned inside the search callbacks, which narrowing cannot see.
+  const found = best as Omit<OptimalLineup, 'rerollPenalty' | 'exhaustive' | 'searchedNodes'> | null;
+  if (!found) {
+    return null;
+  }
+
+  const rerollPenalty = getRerollPenalty(input.rerolls);
+  return {
+    ...found,
+    teamScore: roundToOneDecimal(Math.max(0, found.teamScore - rerollPenalty)),
+    rerollPenalty,
+    exhaustive: nodes < nodeBudget,
+    searchedNodes: nodes
+  };
+}
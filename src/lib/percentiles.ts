@@ -0,0 +1,104 @@
+import { getSimulationBaseline } from '@/lib/baseline-service';
+import { parseDrawMode } from '@/lib/draw-modes';
+import { parseDraftEra } from '@/lib/eras';
+import { parseDraftFormat } from '@/lib/formats';
+import { parseScoringPreset } from '@/lib/scoring-presets';
+import { rankAgainstBaseline, toPercentileRank } from '@/lib/simulation';
+import type { Prisma } from '@prisma/client';
+
+export type PercentileRun = {
+  id: string;
+  groupCode: string | null;
+  format: string;
+  era: string;
+  scoringPreset: string;
+  drawMode: string;
+  clockMode: string;
+  teamScore: number;
+  createdAt: Date;
+};
+
+export type StoredPercentiles = {
+  percentileAll: number | null;
+  percentileGroup: number | null;
+  percentileDaily: number | null;
+  simulatedPercentile: number | null;
+  percentilesUpdatedAt: Date | null;
+};
+
+export type RunPercentiles = Omit<StoredPercentiles, 'percentilesUpdatedAt'>;
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+async function countPercentile(
+  client: Prisma.TransactionClient,
+  run: PercentileRun,
+  scope: Prisma.RunWhereInput
+): Promise<number | null> {
+  // Each scope is an indexed range count; the run itself is left out of its own comparison.
+  // Runs rank against the same rules the leaderboard separates, plus format and draw mode.
+  const where: Prisma.RunWhereInput = {
+    ...scope,
+    id: { not: run.id },
+    era: run.era,
+    scoringPreset: run.scoringPreset,
+    clockMode: run.clockMode,
+    format: run.format,
+    drawMode: run.drawMode
+  };
+  const [below, ties, total] = await Promise.all([
+    client.run.count({ where: { ...where, teamScore: { lt: run.teamScore } } }),
+    client.run.count({ where: { ...where, teamScore: run.teamScore } }),
+    client.run.count({ where })
+  ]);
+
+  return toPercentileRank({ below, ties, total });
+}
+
+/**
+ * Where a run's team score lands among other runs with the same era, preset, clock mode,
+ * format and draw mode: everywhere, in its group, and on its UTC day, plus among the stored
+ * greedy simulations of the same rules. A rerolled run is ranked on its penalized score.
+ */
+export async function computeRunPercentiles(
+  client: Prisma.TransactionClient,
+  run: PercentileRun
+): Promise<RunPercentiles> {
+  const dayStart = startOfUtcDay(run.createdAt);
+  const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+
+  const [percentileAll, percentileGroup, percentileDaily, baseline] = await Promise.all([
+    countPercentile(client, run, {}),
+    run.groupCode ? countPercentile(client, run, { groupCode: run.groupCode }) : Promise.resolve(null),
+    countPercentile(client, run, { createdAt: { gte: dayStart, lt: dayEnd } }),
+    getSimulationBaseline(client, {
+      format: parseDraftFormat(run.format),
+      era: parseDraftEra(run.era),
+      preset: parseScoringPreset(run.scoringPreset),
+      drawMode: parseDrawMode(run.drawMode)
+    })
+  ]);
+
+  return {
+    percentileAll,
+    percentileGroup,
+    percentileDaily,
+    simulatedPercentile: baseline ? rankAgainstBaseline(run.teamScore, baseline) : null
+  };
+}
+
+export async function storeRunPercentiles(
+  client: Prisma.TransactionClient,
+  run: PercentileRun
+): Promise<RunPercentiles> {
+  const percentiles = await computeRunPercentiles(client, run);
+
+  await client.run.update({
+    where: { id: run.id },
+    data: { ...percentiles, percentilesUpdatedAt: new Date() }
+  });
+
+  return percentiles;
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { getRosterByTeam } from '@/lib/data';
+import { buildPickAdvice } from '@/lib/pick-advisor';
+import { scoreLineup } from '@/lib/scoring';
+import type { LineupState } from '@/lib/types';
+
+const fourPicks: LineupState = {
+  PG: { slot: 'PG', playerName: 'Magic Johnson', teamAbbr: 'LAL', teamName: 'Los Angeles Lakers' },
+  SG: { slot: 'SG', playerName: 'Michael Jordan', teamAbbr: 'CHI', teamName: 'Chicago Bulls' },
+  SF: { slot: 'SF', playerName: 'Larry Bird', teamAbbr: 'BOS', teamName: 'Boston Celtics' },
+  PF: { slot: 'PF', playerName: 'Tim Duncan', teamAbbr: 'SAS', teamName: 'San Antonio Spurs' }
+};
+
+describe('pick advisor', () => {
+  it('only advises available players for open slots', () => {
+    const taken = getRosterByTeam('GSW')[0]!.name;
+    const advice = buildPickAdvice({
+      teamAbbr: 'GSW',
+      lineup: fourPicks,
+      lineupSlots: ['PG', 'SG', 'SF', 'PF', 'C'],
+      format: 'STANDARD',
+      futureTeams: [],
+      unavailablePlayers: [taken]
+    });
+
+    expect(advice.some((entry) => entry.playerName === taken)).toBe(false);
+    expect(advice.every((entry) => entry.slot === 'C')).toBe(true);
+  });
+
+  it('projects the real final score when the pick completes the lineup', () => {
+    const [advice] = buildPickAdvice({
+      teamAbbr: 'GSW',
+      lineup: fourPicks,
+      lineupSlots: ['PG', 'SG', 'SF', 'PF', 'C'],
+      format: 'STANDARD',
+      futureTeams: [],
+      unavailablePlayers: []
+    });
+    const withoutPick = scoreLineup(Object.values(fourPicks));
+    const withPick = scoreLineup([
+      ...Object.values(fourPicks),
+      { slot: advice!.slot, playerName: advice!.playerName, teamAbbr: 'GSW', teamName: 'Golden State Warriors' }
+    ]);
+
+    expect(advice!.projectedTeamScore).toBe(withPick.teamScore);
+    expect(advice!.chemistryDelta).toBeCloseTo(
+      withPick.chemistry.chemistryScore - withoutPick.chemistry.chemistryScore,
+      5
+    );
+  });
+
+  it('takes the reroll penalty off the projection like the regular scorer', () => {
+    const [advice] = buildPickAdvice({
+      teamAbbr: 'GSW',
+      lineup: fourPicks,
+      lineupSlots: ['PG', 'SG', 'SF', 'PF', 'C'],
+      format: 'STANDARD',
+      rerolls: 2,
+      futureTeams: [],
+      unavailablePlayers: []
+    });
+    const withPick = scoreLineup(
+      [
+        ...Object.values(fourPicks),
+        { slot: advice!.slot, playerName: advice!.playerName, teamAbbr: 'GSW', teamName: 'Golden State Warriors' }
+      ],
+      { rerolls: 2 }
+    );
+
+    expect(withPick.rerollPenalty).toBeGreaterThan(0);
+    expect(advice!.projectedTeamScore).toBe(withPick.teamScore);
+  });
+});
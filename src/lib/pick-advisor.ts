@@ -0,0 +1,151 @@
+import { getRosterByTeam, getTeamByAbbr } from '@/lib/data';
+import { parseDraftEra } from '@/lib/eras';
+import { getDraftFormatConfig, getEligibleRosterSlots, getSlotWeight } from '@/lib/formats';
+import { getOpenSlots } from '@/lib/rules';
+import { combinePlayerScores, getRerollPenalty, scorePick } from '@/lib/scoring';
+import type { DraftEra, DraftFormat, LineupPick, LineupState, RosterSlot, ScoringPreset } from '@/lib/types';
+
+export type PickAdvice = {
+  playerName: string;
+  // Open slot with the best projection for this player.
+  slot: RosterSlot;
+  contribution: number;
+  chemistryDelta: number;
+  projectedTeamScore: number;
+};
+
+function roundToOneDecimal(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+/**
+ * Average contribution of the players a future draw could add to the open slots. A draw with
+ * nobody left who fits counts as a burned pick.
+ */
+function getExpectedDrawContribution(input: {
+  teamAbbr: string;
+  era: DraftEra;
+  preset: ScoringPreset | undefined;
+  openSlots: RosterSlot[];
+  lineupSlots: RosterSlot[];
+  unavailable: Set<string>;
+}): number {
+  const teamName = getTeamByAbbr(input.teamAbbr)?.name ?? input.teamAbbr;
+  const contributions = getRosterByTeam(input.teamAbbr, input.era).flatMap((player) => {
+    const slot = getEligibleRosterSlots(player.eligibleSlots, input.lineupSlots).find((eligibleSlot) =>
+      input.openSlots.includes(eligibleSlot)
+    );
+
+    if (!slot || input.unavailable.has(player.name)) {
+      return [];
+    }
+
+    return [
+      scorePick({ slot, playerName: player.name, teamAbbr: input.teamAbbr, teamName }, { preset: input.preset })
+        .contribution
+    ];
+  });
+
+  return average(contributions);
+}
+
+/**
+ * Coach projections for every playable player on the current franchise: their own
+ * contribution, how much they move chemistry against the picks so far, and the final score
+ * expected if each remaining draw yields an average pick for the slots still open, less the
+ * reroll penalty already taken.
+ */
+export function buildPickAdvice(input: {
+  teamAbbr: string;
+  lineup: LineupState;
+  lineupSlots: RosterSlot[];
+  format: DraftFormat;
+  era?: DraftEra;
+  preset?: ScoringPreset;
+  rerolls?: number;
+  futureTeams: string[];
+  unavailablePlayers: string[];
+}): PickAdvice[] {
+  const formatConfig = getDraftFormatConfig(input.format);
+  const era = parseDraftEra(input.era);
+  const openSlots = getOpenSlots(input.lineup, input.lineupSlots);
+  const unavailable = new Set(input.unavailablePlayers);
+  const teamName = getTeamByAbbr(input.teamAbbr)?.name ?? input.teamAbbr;
+  const currentScores = input.lineupSlots
+    .map((slot) => input.lineup[slot])
+    .filter((pick): pick is LineupPick => Boolean(pick))
+    .map((pick) => scorePick(pick, { preset: input.preset }));
+  const currentChemistry = combinePlayerScores(currentScores, formatConfig.format, input.preset).chemistry;
+  const rerollPenalty = getRerollPenalty(input.rerolls);
+  // Stronger draws are assumed to land in the heavier slots, mirroring how a drafter would fill a bench.
+  const expectedDraws = input.futureTeams
+    .map((teamAbbr) =>
+      getExpectedDrawContribution({
+        teamAbbr,
+        era,
+        preset: input.preset,
+        openSlots,
+        lineupSlots: input.lineupSlots,
+        unavailable
+      })
+    )
+    .sort((a, b) => b - a);
+  const advice: PickAdvice[] = [];
+
+  for (const player of getRosterByTeam(input.teamAbbr, era)) {
+    if (unavailable.has(player.name)) {
+      continue;
+    }
+
+    let best: PickAdvice | null = null;
+
+    for (const slot of getEligibleRosterSlots(player.eligibleSlots, input.lineupSlots)) {
+      if (!openSlots.includes(slot)) {
+        continue;
+      }
+
+      const candidate = scorePick(
+        { slot, playerName: player.name, teamAbbr: input.teamAbbr, teamName },
+        { preset: input.preset }
+      );
+      const known = [...currentScores, candidate];
+      const { chemistry } = combinePlayerScores(known, formatConfig.format, input.preset);
+      const remainingWeights = openSlots
+        .filter((openSlot) => openSlot !== slot)
+        .map((openSlot) => getSlotWeight(formatConfig, openSlot))
+        .sort((a, b) => b - a);
+      const weighted = [
+        ...known.map((score) => ({
+          value: score.contribution,
+          weight: getSlotWeight(formatConfig, score.pick.slot)
+        })),
+        ...remainingWeights.map((weight, index) => ({ value: expectedDraws[index] ?? 0, weight }))
+      ];
+      const totalWeight = weighted.reduce((sum, entry) => sum + entry.weight, 0);
+      const expectedBase = roundToOneDecimal(
+        weighted.reduce((sum, entry) => sum + entry.value * entry.weight, 0) / totalWeight
+      );
+      const projectedTeamScore = roundToOneDecimal(Math.max(0, expectedBase * chemistry.multiplier - rerollPenalty));
+
+      if (!best || projectedTeamScore > best.projectedTeamScore) {
+        best = {
+          playerName: player.name,
+          slot,
+          contribution: candidate.contribution,
+          chemistryDelta: roundToOneDecimal(chemistry.chemistryScore - currentChemistry.chemistryScore),
+          projectedTeamScore
+        };
+      }
+    }
+
+    if (best) {
+      advice.push(best);
+    }
+  }
+
+  return advice;
+}
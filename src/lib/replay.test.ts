@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { buildRunReplay } from '@/lib/replay';
+import { scoreLineup } from '@/lib/scoring';
+import type { LineupPick } from '@/lib/types';
+
+const picks: LineupPick[] = [
+  { slot: 'PG', playerName: 'Magic Johnson', teamAbbr: 'LAL', teamName: 'Los Angeles Lakers' },
+  { slot: 'SG', playerName: 'Michael Jordan', teamAbbr: 'CHI', teamName: 'Chicago Bulls' },
+  { slot: 'SF', playerName: 'Larry Bird', teamAbbr: 'BOS', teamName: 'Boston Celtics' },
+  { slot: 'PF', playerName: 'Tim Duncan', teamAbbr: 'SAS', teamName: 'San Antonio Spurs' },
+  { slot: 'C', playerName: 'Nikola Jokic', teamAbbr: 'DEN', teamName: 'Denver Nuggets' }
+];
+
+const run = {
+  format: 'STANDARD',
+  era: 'ALL_TIME',
+  scoringPreset: 'BALANCED',
+  drawSequence: ['CHI', 'LAL', 'SAS', 'BOS', 'DEN'],
+  picks,
+  rerollCount: 0,
+  rerolls: []
+};
+
+describe('run replay', () => {
+  it('pairs each draw with its pick and ends on the final lineup score', () => {
+    const steps = buildRunReplay({ ...run, draftLog: [] });
+
+    expect(steps.map((step) => step.pick?.playerName)).toEqual([
+      'Michael Jordan',
+      'Magic Johnson',
+      'Tim Duncan',
+      'Larry Bird',
+      'Nikola Jokic'
+    ]);
+    expect(steps[0]!.roster.find((player) => player.name === 'Michael Jordan')?.isAvailable).toBe(true);
+    expect(Object.keys(steps[1]!.lineup)).toEqual(['SG', 'PG']);
+    expect(steps[1]!.roster.find((player) => player.name === 'Magic Johnson')?.openSlots).not.toContain('SG');
+    expect(steps[0]!.baseTeamScore).toBe(scoreLineup([picks[1]!]).baseTeamScore);
+    expect(steps[4]!.teamScore).toBe(scoreLineup(picks).teamScore);
+  });
+
+  it('takes off reroll penalties from the draw they were spent on and ends on the saved score', () => {
+    const steps = buildRunReplay({
+      ...run,
+      draftLog: [],
+      rerollCount: 1,
+      rerolls: [{ drawIndex: 2, fromTeamAbbr: 'MIA', toTeamAbbr: 'SAS' }]
+    });
+
+    expect(steps[1]!.teamScore).toBe(scoreLineup([picks[1]!, picks[0]!]).teamScore);
+    expect(steps[2]!.teamScore).toBe(scoreLineup([picks[0]!, picks[1]!, picks[3]!], { rerolls: 1 }).teamScore);
+    expect(steps[4]!.teamScore).toBe(scoreLineup(picks, { rerolls: 1 }).teamScore);
+  });
+
+  it('follows the draft log when the run has one', () => {
+    const steps = buildRunReplay({
+      ...run,
+      draftLog: [
+        {
+          drawIndex: 0,
+          teamAbbr: 'DEN',
+          options: ['Nikola Jokić'],
+          playerName: 'Nikola Jokic',
+          slot: 'C',
+          elapsedMs: 3200,
+          isPenalty: false,
+          isAutoDrafted: false
+        }
+      ]
+    });
+
+    expect(steps).toHaveLength(1);
+    expect(steps[0]).toMatchObject({ teamAbbr: 'DEN', elapsedMs: 3200, pick: picks[4] });
+    expect(steps[0]!.roster.filter((player) => player.isAvailable).map((player) => player.name)).toEqual([
+      'Nikola Jokić'
+    ]);
+  });
+});
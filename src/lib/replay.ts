@@ -0,0 +1,122 @@
+import { getRosterByTeam, getTeamByAbbr } from '@/lib/data';
+import { getDrawOptions } from '@/lib/draft-state';
+import { getDraftEraConfig } from '@/lib/eras';
+import { getDraftFormatConfig, getEligibleRosterSlots } from '@/lib/formats';
+import { getOpenSlots } from '@/lib/rules';
+import { scoreLineup } from '@/lib/scoring';
+import type { DraftLogEntry, DrawReroll, LineupPick, LineupState, RosterSlot } from '@/lib/types';
+
+export type ReplayRosterPlayer = {
+  name: string;
+  yearsWithTeam: string;
+  // Open slots the player could fill when the draw came up; empty when they were already taken.
+  openSlots: RosterSlot[];
+  isAvailable: boolean;
+};
+
+export type ReplayStep = {
+  drawIndex: number;
+  teamAbbr: string;
+  teamName: string;
+  roster: ReplayRosterPlayer[];
+  pick: LineupPick | null;
+  elapsedMs: number | null;
+  lineup: LineupState;
+  baseTeamScore: number;
+  chemistryScore: number;
+  chemistryMultiplier: number;
+  teamScore: number;
+};
+
+type ReplayDraw = {
+  drawIndex: number;
+  teamAbbr: string;
+  pick: LineupPick | null;
+  elapsedMs: number | null;
+};
+
+type ReplayInput = {
+  format: string;
+  era: string;
+  scoringPreset: string;
+  drawSequence: string[];
+  draftLog: DraftLogEntry[];
+  picks: LineupPick[];
+  rerollCount: number;
+  rerolls: DrawReroll[];
+};
+
+/**
+ * Draws of a finished run in order, matched to the pick that ended each one. Runs with a draft
+ * log replay it as played; older runs pair each drawn franchise with the pick made from it.
+ */
+function getReplayDraws(input: ReplayInput): ReplayDraw[] {
+  if (input.draftLog.length > 0) {
+    return input.draftLog.map((entry) => ({
+      drawIndex: entry.drawIndex,
+      teamAbbr: entry.teamAbbr,
+      pick: input.picks.find((pick) => pick.slot === entry.slot) ?? null,
+      elapsedMs: entry.elapsedMs
+    }));
+  }
+
+  const remaining = [...input.picks];
+  return input.drawSequence.slice(0, getDraftFormatConfig(input.format).totalDraws).map((teamAbbr, drawIndex) => {
+    const index = remaining.findIndex((pick) => pick.teamAbbr === teamAbbr);
+    const [pick] = index >= 0 ? remaining.splice(index, 1) : [null];
+    return { drawIndex, teamAbbr, pick: pick ?? null, elapsedMs: null };
+  });
+}
+
+/**
+ * Replays a finished run draw by draw, with the roster on offer and the running score after each
+ * pick. Each reroll's penalty counts from the draw it was spent on; rerolls the run did not record
+ * count from the first draw.
+ */
+export function buildRunReplay(input: ReplayInput): ReplayStep[] {
+  const lineupSlots = getDraftFormatConfig(input.format).slots;
+  const era = getDraftEraConfig(input.era).era;
+  let lineup: LineupState = {};
+
+  return getReplayDraws(input).map((draw) => {
+    const openSlots = getOpenSlots(lineup, lineupSlots);
+    const draftedNames = Object.values(lineup).flatMap((pick) => (pick ? [pick.playerName] : []));
+    const logEntry = input.draftLog.find((entry) => entry.drawIndex === draw.drawIndex);
+    const available = new Set(
+      logEntry?.options ??
+        getDrawOptions({ lineup, lineupSlots, teamAbbr: draw.teamAbbr, era, unavailablePlayers: draftedNames })
+    );
+    const roster = getRosterByTeam(draw.teamAbbr, era).map((player) => ({
+      name: player.name,
+      yearsWithTeam: player.yearsWithTeam,
+      openSlots: available.has(player.name) ? getEligibleRosterSlots(player.eligibleSlots, openSlots) : [],
+      isAvailable: available.has(player.name)
+    }));
+
+    if (draw.pick) {
+      lineup = { ...lineup, [draw.pick.slot]: draw.pick };
+    }
+
+    const rerollsSoFar =
+      Math.max(0, input.rerollCount - input.rerolls.length) +
+      input.rerolls.filter((reroll) => reroll.drawIndex <= draw.drawIndex).length;
+    const scoring = scoreLineup(
+      lineupSlots.flatMap((slot) => (lineup[slot] ? [lineup[slot]!] : [])),
+      { format: input.format, preset: input.scoringPreset, rerolls: rerollsSoFar }
+    );
+
+    return {
+      drawIndex: draw.drawIndex,
+      teamAbbr: draw.teamAbbr,
+      teamName: getTeamByAbbr(draw.teamAbbr)?.name ?? draw.teamAbbr,
+      roster,
+      pick: draw.pick,
+      elapsedMs: draw.elapsedMs,
+      lineup,
+      baseTeamScore: scoring.baseTeamScore,
+      chemistryScore: scoring.chemistry.chemistryScore,
+      chemistryMultiplier: scoring.chemistry.multiplier,
+      teamScore: scoring.teamScore
+    };
+  });
+}
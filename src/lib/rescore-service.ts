@@ -0,0 +1,91 @@
+import { db } from '@/lib/db';
+import { buildRunScoreData } from '@/lib/draft-state';
+import { getDraftFormatConfig } from '@/lib/formats';
+import { SCORING_VERSION } from '@/lib/scoring';
+import { parseScoringPreset } from '@/lib/scoring-presets';
+import type { LineupPick, RosterSlot } from '@/lib/types';
+import type { Prisma } from '@prisma/client';
+
+export type RescoreSummary = {
+  scoringVersion: number;
+  scanned: number;
+  changed: number;
+};
+
+type RunWithPicks = Prisma.RunGetPayload<{ include: { picks: true } }>;
+
+async function rescoreRun(run: RunWithPicks): Promise<boolean> {
+  const formatConfig = getDraftFormatConfig(run.format);
+  const picks: LineupPick[] = [...run.picks]
+    .sort((a, b) => formatConfig.slots.indexOf(a.slot as RosterSlot) - formatConfig.slots.indexOf(b.slot as RosterSlot))
+    .map((pick) => ({
+      slot: pick.slot as RosterSlot,
+      playerName: pick.playerName,
+      teamAbbr: pick.teamAbbr,
+      teamName: pick.teamName,
+      isPenalty: pick.isPenalty,
+      isAutoDrafted: pick.autoDrafted
+    }));
+  const scoreData = buildRunScoreData(picks, {
+    format: formatConfig.format,
+    preset: parseScoringPreset(run.scoringPreset),
+    era: run.era,
+    rerolls: run.rerollCount
+  });
+  const modelChanged = run.scoringVersion !== scoreData.run.scoringVersion;
+
+  await db.run.update({
+    where: { id: run.id },
+    data: {
+      ...scoreData.run,
+      rescoredAt: new Date(),
+      // The cached optimal lineup was solved under the old model.
+      ...(modelChanged ? { optimalTeamScore: null, optimalLineupJson: null } : {}),
+      // Percentiles are recounted against the new score on the next view.
+      percentilesUpdatedAt: null,
+      picks: {
+        deleteMany: {},
+        create: scoreData.picks
+      }
+    }
+  });
+
+  return scoreData.run.teamScore !== run.teamScore;
+}
+
+/**
+ * Recomputes stored runs under the current scoring model, in id order and in batches. Only
+ * runs scored with an older version are touched unless `all` is set. `originalTeamScore`
+ * and `originalScoringVersion` are never rewritten, so the score a run was played for stays
+ * available for audit.
+ */
+export async function rescoreRuns(options: { all?: boolean; batchSize?: number } = {}): Promise<RescoreSummary> {
+  const batchSize = options.batchSize ?? 100;
+  const summary: RescoreSummary = { scoringVersion: SCORING_VERSION, scanned: 0, changed: 0 };
+  let lastId: string | null = null;
+
+  for (;;) {
+    const runs: RunWithPicks[] = await db.run.findMany({
+      where: {
+        ...(options.all ? {} : { scoringVersion: { lt: SCORING_VERSION } }),
+        ...(lastId ? { id: { gt: lastId } } : {})
+      },
+      include: { picks: true },
+      orderBy: { id: 'asc' },
+      take: batchSize
+    });
+
+    if (runs.length === 0) {
+      return summary;
+    }
+
+    for (const run of runs) {
+      summary.scanned += 1;
+      if (await rescoreRun(run)) {
+        summary.changed += 1;
+      }
+    }
+
+    lastId = runs[runs.length - 1]!.id;
+  }
+}
@@ -0,0 +1,694 @@
+import type { Prisma } from '@prisma/client';
+import { ROOM_CODE_LENGTH, ROOM_MAX_PLAYERS, ROOM_MIN_PLAYERS, SHOT_CLOCK_MS } from '@/lib/constants';
+import { getPlayerEligibleSlots, getRosterNamesByTeam, getTeamByAbbr } from '@/lib/data';
+import { db } from '@/lib/db';
+import {
+  buildDraftLogEntry,
+  chooseTimeoutPick,
+  fetchDraftSessionById,
+  generateUniqueWatchCode,
+  getSessionEraRoster,
+  getSessionFormatConfig,
+  getShotClockDeadline,
+  isClockExpired,
+  makeCookieToken,
+  parseChosenPlayers,
+  parseDraftStatus,
+  parseDrawSequence,
+  parseLineup,
+  persistDraftState,
+  type SessionWithRun
+} from '@/lib/draft-state';
+import { buildDrawSequence } from '@/lib/draw';
+import { parseDrawMode } from '@/lib/draw-modes';
+import { parseDraftEra } from '@/lib/eras';
+import { getDraftFormatConfig, getEligibleRosterSlots, parseDraftFormat } from '@/lib/formats';
+import { applyPickToLineup, getOpenSlots, getSnakeTurnOrder, validatePick } from '@/lib/rules';
+import { parseScoringPreset } from '@/lib/scoring-presets';
+import { safeParseJson, toJsonString } from '@/lib/serialization';
+import {
+  generateShareCode,
+  normalizeGroupCode,
+  normalizeRoomCode,
+  normalizeSeed,
+  normalizeUserName
+} from '@/lib/share-code';
+import { parseTimeoutPolicy } from '@/lib/timeout-policies';
+import { ROOM_STATUSES } from '@/lib/types';
+import type {
+  DraftEra,
+  DraftFormat,
+  DraftStatus,
+  DrawMode,
+  LineupState,
+  RoomStatus,
+  RosterSlot,
+  ScoringPreset,
+  TimeoutPolicy
+} from '@/lib/types';
+
+type RoomSession = SessionWithRun & {
+  run: {
+    shareCode: string;
+    teamScore: number;
+  } | null;
+};
+
+type RoomWithSessions = {
+  id: string;
+  code: string;
+  groupCode: string | null;
+  seed: string | null;
+  format: string;
+  era: string;
+  scoringPreset: string;
+  drawMode: string;
+  timeoutPolicy: string;
+  drawSequenceJson: string;
+  currentDrawIndex: number;
+  currentTurnIndex: number;
+  takenPlayersJson: string;
+  turnStartedAt: Date;
+  status: string;
+  sessions: RoomSession[];
+};
+
+export type RoomParticipant = {
+  seat: number;
+  name: string;
+  status: DraftStatus;
+  lineup: LineupState;
+  shareCode: string | null;
+  teamScore: number | null;
+};
+
+export type DraftRoomView = {
+  id: string;
+  code: string;
+  status: RoomStatus;
+  groupCode: string | null;
+  seed: string | null;
+  format: DraftFormat;
+  era: DraftEra;
+  scoringPreset: ScoringPreset;
+  drawMode: DrawMode;
+  timeoutPolicy: TimeoutPolicy;
+  drawSequence: string[];
+  currentDrawIndex: number;
+  currentTeamAbbr: string | null;
+  onTheClockSeat: number | null;
+  turnDeadlineAt: string | null;
+  takenPlayers: string[];
+  participants: RoomParticipant[];
+  viewerSeat: number | null;
+};
+
+export type DraftRoomTurn = {
+  code: string;
+  status: RoomStatus;
+  seat: number;
+  isMyTurn: boolean;
+  onTheClockName: string | null;
+  turnOrderNames: string[];
+  takenPlayers: string[];
+};
+
+const roomSessionInclude = {
+  sessions: {
+    orderBy: { roomSeat: 'asc' },
+    include: {
+      run: {
+        select: {
+          shareCode: true,
+          teamScore: true
+        }
+      }
+    }
+  }
+} satisfies Prisma.DraftRoomInclude;
+
+function parseRoomStatus(status: string): RoomStatus {
+  if (ROOM_STATUSES.includes(status as RoomStatus)) {
+    return status as RoomStatus;
+  }
+
+  return 'LOBBY';
+}
+
+function parseTakenPlayers(takenPlayersJson: string): string[] {
+  return safeParseJson<string[]>(takenPlayersJson, []);
+}
+
+function getParticipantName(session: { userName: string | null; roomSeat: number | null }): string {
+  return session.userName ?? `Player ${(session.roomSeat ?? 0) + 1}`;
+}
+
+function getOnTheClockSeat(room: RoomWithSessions): number | null {
+  if (parseRoomStatus(room.status) !== 'DRAFTING') {
+    return null;
+  }
+
+  const order = getSnakeTurnOrder(room.sessions.length, room.currentDrawIndex);
+  return order[room.currentTurnIndex] ?? null;
+}
+
+function advanceRoomTurn(input: {
+  currentDrawIndex: number;
+  currentTurnIndex: number;
+  participantCount: number;
+  totalDraws: number;
+}): { currentDrawIndex: number; currentTurnIndex: number; status: RoomStatus } {
+  const { participantCount, totalDraws } = input;
+  let currentDrawIndex = input.currentDrawIndex;
+  let currentTurnIndex = input.currentTurnIndex + 1;
+
+  if (currentTurnIndex >= participantCount) {
+    currentDrawIndex += 1;
+    currentTurnIndex = 0;
+  }
+
+  return {
+    currentDrawIndex,
+    currentTurnIndex,
+    status: currentDrawIndex >= totalDraws ? 'COMPLETED' : 'DRAFTING'
+  };
+}
+
+async function generateUniqueRoomCode(tx: Prisma.TransactionClient): Promise<string> {
+  for (let attempt = 0; attempt < 20; attempt += 1) {
+    const code = generateShareCode(ROOM_CODE_LENGTH);
+    const existing = await tx.draftRoom.findUnique({ where: { code }, select: { id: true } });
+    if (!existing) {
+      return code;
+    }
+  }
+
+  throw new Error('Could not generate a unique room code.');
+}
+
+async function fetchRoomByCode(
+  tx: Prisma.TransactionClient,
+  code: string
+): Promise<RoomWithSessions | null> {
+  return tx.draftRoom.findUnique({
+    where: { code },
+    include: roomSessionInclude
+  });
+}
+
+async function fetchRoomById(tx: Prisma.TransactionClient, id: string): Promise<RoomWithSessions> {
+  const room = await tx.draftRoom.findUnique({
+    where: { id },
+    include: roomSessionInclude
+  });
+
+  if (!room) {
+    throw new Error('Draft room missing after update.');
+  }
+
+  return room;
+}
+
+/**
+ * Resolves every expired turn in the room. The drafter on the clock takes the room's timeout
+ * policy: a 0-point penalty in a random open slot, or the franchise's weakest player who still
+ * fits under AUTO_PICK_WORST. The turn then passes to the next seat.
+ */
+async function applyRoomTimeouts(
+  tx: Prisma.TransactionClient,
+  room: RoomWithSessions
+): Promise<RoomWithSessions> {
+  if (parseRoomStatus(room.status) !== 'DRAFTING') {
+    return room;
+  }
+
+  const formatConfig = getDraftFormatConfig(room.format);
+  const drawSequence = parseDrawSequence(room.drawSequenceJson);
+  const sessionsBySeat = new Map<number, SessionWithRun>(
+    room.sessions.map((session) => [session.roomSeat ?? 0, session])
+  );
+  const participantCount = room.sessions.length;
+  let currentDrawIndex = room.currentDrawIndex;
+  let currentTurnIndex = room.currentTurnIndex;
+  let turnStartedAt = new Date(room.turnStartedAt);
+  let takenPlayers = parseTakenPlayers(room.takenPlayersJson);
+  let status: RoomStatus = 'DRAFTING';
+  const now = new Date();
+
+  let timedOutAtLeastOnce = false;
+
+  while (status === 'DRAFTING' && isClockExpired(turnStartedAt, now)) {
+    const seat = getSnakeTurnOrder(participantCount, currentDrawIndex)[currentTurnIndex];
+    const session = seat === undefined ? undefined : sessionsBySeat.get(seat);
+
+    if (session && session.status === 'DRAFTING') {
+      const lineup = parseLineup(session.lineupJson);
+      const openSlots = getOpenSlots(lineup, formatConfig.slots);
+
+      if (openSlots.length > 0) {
+        const chosenPlayers = parseChosenPlayers(session.chosenPlayersJson);
+        const timeoutPick = chooseTimeoutPick({
+          lineup,
+          lineupSlots: formatConfig.slots,
+          teamAbbr: drawSequence[currentDrawIndex] ?? 'N/A',
+          unavailablePlayers: takenPlayers,
+          policy: parseTimeoutPolicy(room.timeoutPolicy),
+          era: room.era,
+          preset: parseScoringPreset(room.scoringPreset),
+          seed: room.seed,
+          sessionId: session.id,
+          drawIndex: currentDrawIndex
+        });
+
+        const logEntry = buildDraftLogEntry({
+          drawIndex: currentDrawIndex,
+          lineup,
+          lineupSlots: formatConfig.slots,
+          era: room.era,
+          unavailablePlayers: takenPlayers,
+          pick: timeoutPick,
+          elapsedMs: SHOT_CLOCK_MS
+        });
+
+        if (timeoutPick.isAutoDrafted) {
+          takenPlayers = [...takenPlayers, timeoutPick.playerName];
+        }
+
+        const savedSession = await persistDraftState({
+          tx,
+          session,
+          drawSequence,
+          lineup: applyPickToLineup(lineup, timeoutPick),
+          chosenPlayers: timeoutPick.isAutoDrafted ? [...chosenPlayers, timeoutPick.playerName] : chosenPlayers,
+          currentDrawIndex: currentDrawIndex + 1,
+          drawStartedAt: getShotClockDeadline(turnStartedAt),
+          logEntries: [logEntry]
+        });
+        sessionsBySeat.set(seat ?? 0, savedSession);
+      }
+    }
+
+    const next = advanceRoomTurn({
+      currentDrawIndex,
+      currentTurnIndex,
+      participantCount,
+      totalDraws: formatConfig.totalDraws
+    });
+    currentDrawIndex = next.currentDrawIndex;
+    currentTurnIndex = next.currentTurnIndex;
+    status = next.status;
+    turnStartedAt = getShotClockDeadline(turnStartedAt);
+    timedOutAtLeastOnce = true;
+  }
+
+  if (!timedOutAtLeastOnce) {
+    return room;
+  }
+
+  await tx.draftRoom.update({
+    where: { id: room.id },
+    data: {
+      currentDrawIndex,
+      currentTurnIndex,
+      turnStartedAt,
+      takenPlayersJson: toJsonString(takenPlayers),
+      status
+    }
+  });
+
+  return fetchRoomById(tx, room.id);
+}
+
+function buildRoomView(room: RoomWithSessions, viewerSeat: number | null): DraftRoomView {
+  const drawSequence = parseDrawSequence(room.drawSequenceJson);
+  const status = parseRoomStatus(room.status);
+  const onTheClockSeat = getOnTheClockSeat(room);
+
+  return {
+    id: room.id,
+    code: room.code,
+    status,
+    groupCode: room.groupCode,
+    seed: room.seed,
+    format: parseDraftFormat(room.format),
+    era: parseDraftEra(room.era),
+    scoringPreset: parseScoringPreset(room.scoringPreset),
+    drawMode: parseDrawMode(room.drawMode),
+    timeoutPolicy: parseTimeoutPolicy(room.timeoutPolicy),
+    drawSequence,
+    currentDrawIndex: room.currentDrawIndex,
+    currentTeamAbbr: status === 'DRAFTING' ? drawSequence[room.currentDrawIndex] ?? null : null,
+    onTheClockSeat,
+    turnDeadlineAt:
+      onTheClockSeat !== null ? getShotClockDeadline(room.turnStartedAt).toISOString() : null,
+    takenPlayers: parseTakenPlayers(room.takenPlayersJson),
+    participants: room.sessions.map((session) => ({
+      seat: session.roomSeat ?? 0,
+      name: getParticipantName(session),
+      status: parseDraftStatus(session.status),
+      lineup: parseLineup(session.lineupJson),
+      shareCode: session.run?.shareCode ?? null,
+      teamScore: session.run?.teamScore ?? null
+    })),
+    viewerSeat
+  };
+}
+
+export function buildRoomTurn(room: DraftRoomView, seat: number): DraftRoomTurn {
+  const nameBySeat = new Map(room.participants.map((participant) => [participant.seat, participant.name]));
+  const turnOrder = getSnakeTurnOrder(room.participants.length, room.currentDrawIndex);
+
+  return {
+    code: room.code,
+    status: room.status,
+    seat,
+    isMyTurn: room.onTheClockSeat === seat,
+    onTheClockName: room.onTheClockSeat !== null ? nameBySeat.get(room.onTheClockSeat) ?? null : null,
+    turnOrderNames: turnOrder.map((turnSeat) => nameBySeat.get(turnSeat) ?? `Player ${turnSeat + 1}`),
+    takenPlayers: room.takenPlayers
+  };
+}
+
+/**
+ * Brings a room up to date (expired turns included) and returns its view.
+ * Used by the draft service so room members read the shared turn state.
+ */
+export async function syncDraftRoom(
+  tx: Prisma.TransactionClient,
+  roomId: string,
+  viewerSeat: number | null
+): Promise<DraftRoomView> {
+  const room = await applyRoomTimeouts(tx, await fetchRoomById(tx, roomId));
+  return buildRoomView(room, viewerSeat);
+}
+
+export async function createDraftRoom(input: {
+  userName?: string | null;
+  groupCode?: string | null;
+  seed?: string | null;
+  format?: DraftFormat | null;
+  era?: DraftEra | null;
+  scoringPreset?: ScoringPreset | null;
+  drawMode?: DrawMode | null;
+  timeoutPolicy?: TimeoutPolicy | null;
+}) {
+  const userName = normalizeUserName(input.userName);
+  const groupCode = normalizeGroupCode(input.groupCode);
+  const seed = normalizeSeed(input.seed);
+  const formatConfig = getDraftFormatConfig(parseDraftFormat(input.format));
+  const era = parseDraftEra(input.era);
+  const scoringPreset = parseScoringPreset(input.scoringPreset);
+  const drawMode = parseDrawMode(input.drawMode);
+  const timeoutPolicy = parseTimeoutPolicy(input.timeoutPolicy);
+  const drawSequence = buildDrawSequence(seed, formatConfig.totalDraws, era, drawMode);
+
+  return db.$transaction(async (tx) => {
+    const code = await generateUniqueRoomCode(tx);
+    const room = await tx.draftRoom.create({
+      data: {
+        code,
+        groupCode,
+        seed,
+        format: formatConfig.format,
+        era,
+        scoringPreset,
+        drawMode,
+        timeoutPolicy,
+        drawSequenceJson: toJsonString(drawSequence),
+        status: 'LOBBY'
+      }
+    });
+
+    const session = await tx.draftSession.create({
+      data: {
+        cookieToken: makeCookieToken(),
+        watchCode: await generateUniqueWatchCode(tx),
+        userName,
+        groupCode,
+        seed,
+        format: formatConfig.format,
+        era,
+        scoringPreset,
+        drawMode,
+        timeoutPolicy,
+        drawSequenceJson: toJsonString(drawSequence),
+        remainingTeamsJson: toJsonString(drawSequence),
+        roomId: room.id,
+        roomSeat: 0,
+        status: 'DRAFTING'
+      }
+    });
+
+    return { room, session };
+  });
+}
+
+export async function joinDraftRoom(input: { code: string; userName?: string | null }) {
+  const code = normalizeRoomCode(input.code);
+  const userName = normalizeUserName(input.userName);
+
+  if (!code) {
+    throw new Error('Enter a room code to join.');
+  }
+
+  return db.$transaction(async (tx) => {
+    const room = await fetchRoomByCode(tx, code);
+
+    if (!room) {
+      throw new Error(`Room ${code} was not found.`);
+    }
+
+    if (parseRoomStatus(room.status) !== 'LOBBY') {
+      throw new Error('This room has already started drafting.');
+    }
+
+    if (room.sessions.length >= ROOM_MAX_PLAYERS) {
+      throw new Error(`This room is full (${ROOM_MAX_PLAYERS} drafters max).`);
+    }
+
+    const nextSeat = room.sessions.reduce((max, session) => Math.max(max, session.roomSeat ?? 0), -1) + 1;
+
+    const session = await tx.draftSession.create({
+      data: {
+        cookieToken: makeCookieToken(),
+        watchCode: await generateUniqueWatchCode(tx),
+        userName,
+        groupCode: room.groupCode,
+        seed: room.seed,
+        format: room.format,
+        era: room.era,
+        scoringPreset: room.scoringPreset,
+        drawMode: room.drawMode,
+        timeoutPolicy: room.timeoutPolicy,
+        drawSequenceJson: room.drawSequenceJson,
+        remainingTeamsJson: room.drawSequenceJson,
+        roomId: room.id,
+        roomSeat: nextSeat,
+        status: 'DRAFTING'
+      }
+    });
+
+    return { room, session };
+  });
+}
+
+export async function startDraftRoom(input: { code: string; cookieToken: string }) {
+  const code = normalizeRoomCode(input.code);
+
+  if (!code) {
+    throw new Error('Room code is missing.');
+  }
+
+  return db.$transaction(async (tx) => {
+    const room = await fetchRoomByCode(tx, code);
+
+    if (!room) {
+      throw new Error(`Room ${code} was not found.`);
+    }
+
+    const host = room.sessions.find((session) => session.roomSeat === 0);
+    if (!host || host.cookieToken !== input.cookieToken) {
+      throw new Error('Only the room host can start the draft.');
+    }
+
+    if (parseRoomStatus(room.status) !== 'LOBBY') {
+      throw new Error('This room has already started drafting.');
+    }
+
+    if (room.sessions.length < ROOM_MIN_PLAYERS) {
+      throw new Error(`At least ${ROOM_MIN_PLAYERS} drafters are needed to start.`);
+    }
+
+    const startedAt = new Date();
+    await tx.draftSession.updateMany({
+      where: { roomId: room.id },
+      data: { drawStartedAt: startedAt }
+    });
+
+    await tx.draftRoom.update({
+      where: { id: room.id },
+      data: {
+        status: 'DRAFTING',
+        currentDrawIndex: 0,
+        currentTurnIndex: 0,
+        turnStartedAt: startedAt
+      }
+    });
+  });
+}
+
+export async function getDraftRoomView(
+  code: string,
+  cookieToken?: string | null
+): Promise<DraftRoomView | null> {
+  const normalizedCode = normalizeRoomCode(code);
+
+  if (!normalizedCode) {
+    return null;
+  }
+
+  return db.$transaction(async (tx) => {
+    const room = await fetchRoomByCode(tx, normalizedCode);
+
+    if (!room) {
+      return null;
+    }
+
+    const syncedRoom = await applyRoomTimeouts(tx, room);
+    const viewer = cookieToken
+      ? syncedRoom.sessions.find((session) => session.cookieToken === cookieToken)
+      : undefined;
+
+    return buildRoomView(syncedRoom, viewer?.roomSeat ?? null);
+  });
+}
+
+export async function submitRoomPick(
+  tx: Prisma.TransactionClient,
+  input: {
+    session: SessionWithRun;
+    playerName: string;
+    slot: RosterSlot;
+  }
+): Promise<{ completed: boolean; shareCode?: string }> {
+  const { playerName, slot } = input;
+
+  if (!input.session.roomId) {
+    throw new Error('This draft is not part of a room.');
+  }
+
+  const room = await applyRoomTimeouts(tx, await fetchRoomById(tx, input.session.roomId));
+  const session = await fetchDraftSessionById(tx, input.session.id);
+
+  if (session.status === 'COMPLETED') {
+    return {
+      completed: true,
+      shareCode: session.run?.shareCode
+    };
+  }
+
+  const roomStatus = parseRoomStatus(room.status);
+  if (roomStatus === 'LOBBY') {
+    throw new Error('The room host has not started the draft yet.');
+  }
+
+  if (roomStatus === 'COMPLETED') {
+    throw new Error('This room draft is already complete.');
+  }
+
+  const onTheClockSeat = getOnTheClockSeat(room);
+  if (onTheClockSeat !== session.roomSeat) {
+    const onTheClock = room.sessions.find((roomSession) => roomSession.roomSeat === onTheClockSeat);
+    throw new Error(
+      onTheClock
+        ? `It is ${getParticipantName(onTheClock)}'s turn to pick.`
+        : 'It is not your turn to pick.'
+    );
+  }
+
+  const formatConfig = getSessionFormatConfig(session);
+  const drawSequence = parseDrawSequence(room.drawSequenceJson);
+  const lineup = parseLineup(session.lineupJson);
+  const chosenPlayers = parseChosenPlayers(session.chosenPlayersJson);
+  const takenPlayers = parseTakenPlayers(room.takenPlayersJson);
+  const currentTeamAbbr = drawSequence[room.currentDrawIndex];
+  const currentTeam = currentTeamAbbr ? getTeamByAbbr(currentTeamAbbr) : null;
+
+  if (!currentTeamAbbr || !currentTeam) {
+    throw new Error('Current team is invalid. Start a new room.');
+  }
+
+  if (takenPlayers.includes(playerName) && !chosenPlayers.includes(playerName)) {
+    throw new Error(`${playerName} was already taken by another drafter.`);
+  }
+
+  const validation = validatePick({
+    lineup,
+    slot,
+    playerName,
+    currentTeamRoster: getRosterNamesByTeam(currentTeamAbbr),
+    chosenPlayers,
+    playerEligibleSlots: getEligibleRosterSlots(
+      getPlayerEligibleSlots(currentTeamAbbr, playerName),
+      formatConfig.slots
+    ),
+    lineupSlots: formatConfig.slots,
+    eraRoster: getSessionEraRoster(session, currentTeamAbbr)
+  });
+
+  if (!validation.valid) {
+    throw new Error(validation.message);
+  }
+
+  const pickedAt = new Date();
+  const pick = { slot, playerName, teamAbbr: currentTeamAbbr, teamName: currentTeam.name };
+  const savedSession = await persistDraftState({
+    tx,
+    session,
+    drawSequence,
+    lineup: applyPickToLineup(lineup, pick),
+    chosenPlayers: [...chosenPlayers, playerName],
+    currentDrawIndex: room.currentDrawIndex + 1,
+    drawStartedAt: pickedAt,
+    logEntries: [
+      buildDraftLogEntry({
+        drawIndex: room.currentDrawIndex,
+        lineup,
+        lineupSlots: formatConfig.slots,
+        era: room.era,
+        unavailablePlayers: takenPlayers,
+        pick,
+        elapsedMs: pickedAt.getTime() - new Date(room.turnStartedAt).getTime()
+      })
+    ]
+  });
+
+  const next = advanceRoomTurn({
+    currentDrawIndex: room.currentDrawIndex,
+    currentTurnIndex: room.currentTurnIndex,
+    participantCount: room.sessions.length,
+    totalDraws: formatConfig.totalDraws
+  });
+
+  await tx.draftRoom.update({
+    where: { id: room.id },
+    data: {
+      currentDrawIndex: next.currentDrawIndex,
+      currentTurnIndex: next.currentTurnIndex,
+      takenPlayersJson: toJsonString([...takenPlayers, playerName]),
+      turnStartedAt: pickedAt,
+      status: next.status
+    }
+  });
+
+  if (savedSession.status === 'COMPLETED') {
+    return {
+      completed: true,
+      shareCode: savedSession.run?.shareCode
+    };
+  }
+
+  return {
+    completed: false
+  };
+}
@@ -1,5 +1,6 @@
 import { describe, expect, it } from 'vitest';
-import { applyPickToLineup, getOpenSlots, validatePick } from '@/lib/rules';
+import { getDraftFormatConfig, getEligibleRosterSlots } from '@/lib/formats';
+import { applyPickToLineup, getOpenSlots, getSnakeTurnOrder, validatePick } from '@/lib/rules';
 import type { LineupState } from '@/lib/types';
 
 describe('slot locking rules', () => {
@@ -28,6 +29,23 @@ describe('slot locking rules', () => {
     }
   });
 
+  it('rejects franchise players outside the draft era', () => {
+    const validation = validatePick({
+      lineup: {},
+      slot: 'PG',
+      playerName: 'Player B',
+      currentTeamRoster: ['Player A', 'Player B'],
+      chosenPlayers: [],
+      playerEligibleSlots: ['PG'],
+      eraRoster: { label: '2000s', playerNames: ['Player A'] }
+    });
+
+    expect(validation.valid).toBe(false);
+    if (!validation.valid) {
+      expect(validation.message).toContain('2000s era');
+    }
+  });
+
   it('applies a pick to an open slot and reduces open slots', () => {
     const startingLineup: LineupState = {};
 
@@ -73,4 +91,47 @@ describe('slot locking rules', () => {
       expect(validation.message).toContain('cannot be assigned');
     }
   });
+
+  it('rejects bench slots that are not part of the session format', () => {
+    const validation = validatePick({
+      lineup: {},
+      slot: '6TH',
+      playerName: 'Player F',
+      currentTeamRoster: ['Player F'],
+      chosenPlayers: [],
+      playerEligibleSlots: ['PG', '6TH'],
+      lineupSlots: getDraftFormatConfig('STANDARD').slots
+    });
+
+    expect(validation.valid).toBe(false);
+    if (!validation.valid) {
+      expect(validation.message).toContain('not part of this draft format');
+    }
+  });
+
+  it('lets any position fill bench slots in deeper formats', () => {
+    const fullBench = getDraftFormatConfig('FULL_BENCH');
+    const eligibleSlots = getEligibleRosterSlots(['C'], fullBench.slots);
+
+    expect(eligibleSlots).toEqual(['C', '6TH', '7TH', 'FLEX']);
+
+    const validation = validatePick({
+      lineup: {},
+      slot: 'FLEX',
+      playerName: 'Player G',
+      currentTeamRoster: ['Player G'],
+      chosenPlayers: [],
+      playerEligibleSlots: eligibleSlots,
+      lineupSlots: fullBench.slots
+    });
+
+    expect(validation.valid).toBe(true);
+    expect(getOpenSlots({}, fullBench.slots)).toHaveLength(fullBench.totalDraws);
+  });
+
+  it('reverses room turn order on every other draw', () => {
+    expect(getSnakeTurnOrder(3, 0)).toEqual([0, 1, 2]);
+    expect(getSnakeTurnOrder(3, 1)).toEqual([2, 1, 0]);
+    expect(getSnakeTurnOrder(3, 2)).toEqual([0, 1, 2]);
+  });
 });
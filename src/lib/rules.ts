@@ -1,32 +1,54 @@
 import { LINEUP_SLOTS } from '@/lib/types';
-import type { LineupPick, LineupSlot, LineupState } from '@/lib/types';
+import type { LineupPick, LineupState, RosterSlot } from '@/lib/types';
 
-export function getOpenSlots(lineup: LineupState): LineupSlot[] {
-  return LINEUP_SLOTS.filter((slot) => !lineup[slot]);
+export function getOpenSlots(
+  lineup: LineupState,
+  lineupSlots: readonly RosterSlot[] = LINEUP_SLOTS
+): RosterSlot[] {
+  return lineupSlots.filter((slot) => !lineup[slot]);
 }
 
-export function isSlotOpen(lineup: LineupState, slot: LineupSlot): boolean {
+export function isSlotOpen(lineup: LineupState, slot: RosterSlot): boolean {
   return !lineup[slot];
 }
 
-export function canDraftMore(lineup: LineupState): boolean {
-  return getOpenSlots(lineup).length > 0;
+export function canDraftMore(
+  lineup: LineupState,
+  lineupSlots: readonly RosterSlot[] = LINEUP_SLOTS
+): boolean {
+  return getOpenSlots(lineup, lineupSlots).length > 0;
 }
 
 export function validatePick(input: {
   lineup: LineupState;
-  slot: LineupSlot;
+  slot: RosterSlot;
   playerName: string;
   currentTeamRoster: string[];
   chosenPlayers: string[];
-  playerEligibleSlots: LineupSlot[];
+  playerEligibleSlots: RosterSlot[];
+  lineupSlots?: readonly RosterSlot[];
+  // Era drafts only accept franchise players whose years overlap the era.
+  eraRoster?: { label: string; playerNames: string[] } | null;
 }): { valid: true } | { valid: false; message: string } {
-  const { lineup, slot, playerName, currentTeamRoster, chosenPlayers, playerEligibleSlots } = input;
+  const {
+    lineup,
+    slot,
+    playerName,
+    currentTeamRoster,
+    chosenPlayers,
+    playerEligibleSlots,
+    lineupSlots = LINEUP_SLOTS,
+    eraRoster = null
+  } = input;
 
-  if (!canDraftMore(lineup)) {
+  if (!canDraftMore(lineup, lineupSlots)) {
     return { valid: false, message: 'All lineup slots are already filled.' };
   }
 
+  if (!lineupSlots.includes(slot)) {
+    return { valid: false, message: `Slot ${slot} is not part of this draft format.` };
+  }
+
   if (!isSlotOpen(lineup, slot)) {
     return { valid: false, message: `Slot ${slot} is already locked for this round.` };
   }
@@ -35,6 +57,13 @@ export function validatePick(input: {
     return { valid: false, message: `${playerName} is not on the current team roster.` };
   }
 
+  if (eraRoster && !eraRoster.playerNames.includes(playerName)) {
+    return {
+      valid: false,
+      message: `${playerName} did not play for this franchise in the ${eraRoster.label} era.`
+    };
+  }
+
   if (!playerEligibleSlots.includes(slot)) {
     return {
       valid: false,
@@ -49,6 +78,15 @@ export function validatePick(input: {
   return { valid: true };
 }
 
+/**
+ * Seat order for one draw of a snake room: even draws run first seat to last,
+ * odd draws run last seat to first.
+ */
+export function getSnakeTurnOrder(participantCount: number, drawIndex: number): number[] {
+  const seats = Array.from({ length: Math.max(0, participantCount) }, (_, seat) => seat);
+  return drawIndex % 2 === 0 ? seats : seats.reverse();
+}
+
 export function applyPickToLineup(lineup: LineupState, pick: LineupPick): LineupState {
   if (lineup[pick.slot]) {
     throw new Error(`Slot ${pick.slot} is already filled.`);
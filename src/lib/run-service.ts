@@ -1,9 +1,33 @@
+import { DEFAULT_CLOCK_MODE } from '@/lib/clock-modes';
 import { db } from '@/lib/db';
+import { parseDrawSequence } from '@/lib/draft-state';
+import { DEFAULT_DRAW_MODE } from '@/lib/draw-modes';
+import { DEFAULT_DRAFT_ERA, parseDraftEra } from '@/lib/eras';
+import { DEFAULT_DRAFT_FORMAT } from '@/lib/formats';
+import { solveOptimalLineup } from '@/lib/lineup-solver';
+import type { OptimalLineup } from '@/lib/lineup-solver';
+import { storeRunPercentiles } from '@/lib/percentiles';
+import type { PercentileRun, RunPercentiles, StoredPercentiles } from '@/lib/percentiles';
+import { DEFAULT_SCORING_PRESET, parseScoringPreset } from '@/lib/scoring-presets';
+import { safeParseJson, toJsonString } from '@/lib/serialization';
 import { normalizeGroupCode } from '@/lib/share-code';
-import { LINEUP_SLOTS } from '@/lib/types';
+import { ROSTER_SLOTS } from '@/lib/types';
+import type {
+  ClockMode,
+  DraftEra,
+  DraftFormat,
+  DrawMode,
+  LeaderboardAssistFilter,
+  LeaderboardScoreVersion,
+  LeaderboardTimeframe,
+  ScoringPreset
+} from '@/lib/types';
 import type { Prisma } from '@prisma/client';
 
-const slotOrder = new Map(LINEUP_SLOTS.map((slot, index) => [slot, index]));
+const slotOrder = new Map(ROSTER_SLOTS.map((slot, index) => [slot, index]));
+
+// Other runs keep arriving, so stored percentiles are recounted once they are this old.
+const PERCENTILE_REFRESH_MS = 60 * 60 * 1000;
 
 type RunAverages = {
   teamScore: number;
@@ -16,6 +40,20 @@ type RunAverages = {
   advanced: number;
 };
 
+export type LeaderboardFilters = {
+  groupCode?: string | null;
+  timeframe?: LeaderboardTimeframe;
+  assist?: LeaderboardAssistFilter;
+  era?: DraftEra;
+  scoringPreset?: ScoringPreset;
+  clockMode?: ClockMode;
+  format?: DraftFormat;
+  drawMode?: DrawMode;
+  // `original` ranks by the score each run was created with, before any rescoring;
+  // `luck_adjusted` by the score normalized for the strength of the drawn franchises.
+  scoreVersion?: LeaderboardScoreVersion;
+};
+
 export type RunBenchmarks = {
   scope: 'global' | 'group';
   sampleSize: number;
@@ -36,8 +74,8 @@ function roundToOneDecimal(value: number): number {
 
 function sortBySlot<T extends { slot: string }>(items: T[]): T[] {
   return [...items].sort((a, b) => {
-    const aOrder = slotOrder.get(a.slot as (typeof LINEUP_SLOTS)[number]) ?? 99;
-    const bOrder = slotOrder.get(b.slot as (typeof LINEUP_SLOTS)[number]) ?? 99;
+    const aOrder = slotOrder.get(a.slot as (typeof ROSTER_SLOTS)[number]) ?? 99;
+    const bOrder = slotOrder.get(b.slot as (typeof ROSTER_SLOTS)[number]) ?? 99;
     return aOrder - bOrder;
   });
 }
@@ -47,7 +85,15 @@ export async function getRunByShareCode(shareCode: string) {
   const run = await db.run.findUnique({
     where: { shareCode: normalizedCode },
     include: {
-      picks: true
+      picks: true,
+      draftSession: {
+        select: {
+          drawSequenceJson: true,
+          room: {
+            select: { code: true }
+          }
+        }
+      }
     }
   });
 
@@ -55,37 +101,147 @@ export async function getRunByShareCode(shareCode: string) {
     return null;
   }
 
+  const { draftSession, ...runFields } = run;
+
   return {
-    ...run,
+    ...runFields,
+    roomCode: draftSession?.room?.code ?? null,
+    drawSequence: draftSession ? parseDrawSequence(draftSession.drawSequenceJson) : [],
     picks: sortBySlot(run.picks)
   };
 }
 
-export type LeaderboardTimeframe = 'all' | 'daily';
+/**
+ * Best lineup the run's draws allowed. The search is expensive for deep formats, so the
+ * first result is stored on the run and reused.
+ */
+export async function getRunOptimalLineup(run: {
+  id: string;
+  format: string;
+  era: string;
+  scoringPreset: string;
+  drawSequence: string[];
+  rerollCount: number;
+  optimalLineupJson: string | null;
+}): Promise<OptimalLineup | null> {
+  if (run.optimalLineupJson) {
+    return safeParseJson<OptimalLineup | null>(run.optimalLineupJson, null);
+  }
+
+  const optimal = solveOptimalLineup({
+    drawSequence: run.drawSequence,
+    format: run.format,
+    era: parseDraftEra(run.era),
+    preset: parseScoringPreset(run.scoringPreset),
+    rerolls: run.rerollCount
+  });
+
+  if (!optimal) {
+    return null;
+  }
+
+  await db.run.update({
+    where: { id: run.id },
+    data: {
+      optimalTeamScore: optimal.teamScore,
+      optimalLineupJson: toJsonString(optimal)
+    }
+  });
+
+  return optimal;
+}
+
+/**
+ * Percentiles for the results page. They are counted on the first view, outside the transaction
+ * that saved the run, and recounted only once stale, so a page view never ranks against the
+ * whole table.
+ */
+export async function getRunPercentiles(run: PercentileRun & StoredPercentiles): Promise<RunPercentiles> {
+  const updatedAt = run.percentilesUpdatedAt?.getTime() ?? 0;
+
+  if (Date.now() - updatedAt < PERCENTILE_REFRESH_MS) {
+    return {
+      percentileAll: run.percentileAll,
+      percentileGroup: run.percentileGroup,
+      percentileDaily: run.percentileDaily,
+      simulatedPercentile: run.simulatedPercentile
+    };
+  }
+
+  return storeRunPercentiles(db, run);
+}
 
 function startOfCurrentUtcDay(date = new Date()): Date {
   return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
 }
 
-export async function getLeaderboardRuns(
-  groupCode?: string | null,
-  timeframe: LeaderboardTimeframe = 'all'
-) {
-  const normalizedGroup = normalizeGroupCode(groupCode);
-  const where: Prisma.RunWhereInput = {};
+function buildLeaderboardWhere(filters: LeaderboardFilters): Prisma.RunWhereInput {
+  const normalizedGroup = normalizeGroupCode(filters.groupCode);
+  const assist = filters.assist ?? 'all';
+  // Era drafts draw from different player pools, presets score on different scales, clock
+  // modes give different thinking time, formats fill different rosters and draw modes deal
+  // different franchises, so each combination ranks separately, as run percentiles do.
+  const where: Prisma.RunWhereInput = {
+    era: filters.era ?? DEFAULT_DRAFT_ERA,
+    scoringPreset: filters.scoringPreset ?? DEFAULT_SCORING_PRESET,
+    clockMode: filters.clockMode ?? DEFAULT_CLOCK_MODE,
+    format: filters.format ?? DEFAULT_DRAFT_FORMAT,
+    drawMode: filters.drawMode ?? DEFAULT_DRAW_MODE
+  };
 
   if (normalizedGroup) {
     where.groupCode = normalizedGroup;
   }
 
-  if (timeframe === 'daily') {
+  if (filters.timeframe === 'daily') {
     where.createdAt = {
       gte: startOfCurrentUtcDay()
     };
   }
 
+  if (assist !== 'all') {
+    where.coachAssisted = assist === 'assisted';
+  }
+
+  return where;
+}
+
+export async function getLeaderboardRuns(
+  filters: LeaderboardFilters = {},
+  pagination: { skip?: number; take?: number } = {}
+) {
   const runs = await db.run.findMany({
-    where,
+    where: buildLeaderboardWhere(filters),
+    include: {
+      picks: true
+    },
+    orderBy: [
+      filters.scoreVersion === 'original'
+        ? { originalTeamScore: 'desc' }
+        : filters.scoreVersion === 'luck_adjusted'
+          ? { luckAdjustedScore: { sort: 'desc', nulls: 'last' } }
+          : { teamScore: 'desc' },
+      {
+        createdAt: 'desc'
+      }
+    ],
+    skip: pagination.skip ?? 0,
+    take: pagination.take ?? 100
+  });
+
+  return runs.map((run) => ({
+    ...run,
+    picks: sortBySlot(run.picks)
+  }));
+}
+
+export async function countLeaderboardRuns(filters: LeaderboardFilters = {}): Promise<number> {
+  return db.run.count({ where: buildLeaderboardWhere(filters) });
+}
+
+export async function getDailyChallengeRuns(dailyDate: string, take = 100) {
+  const runs = await db.run.findMany({
+    where: { dailyDate },
     include: {
       picks: true
     },
@@ -94,10 +250,10 @@ export async function getLeaderboardRuns(
         teamScore: 'desc'
       },
       {
-        createdAt: 'desc'
+        createdAt: 'asc'
       }
     ],
-    take: 100
+    take
   });
 
   return runs.map((run) => ({
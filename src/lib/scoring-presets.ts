@@ -0,0 +1,89 @@
+import { SCORING_PRESETS } from '@/lib/types';
+import type { ScoringPreset, ScoringPresetConfig } from '@/lib/types';
+
+export const DEFAULT_SCORING_PRESET: ScoringPreset = 'BALANCED';
+
+// Metric keys map to the four contribution categories: bpm = personal accolades,
+// ws48 = team accolades, vorp = box-score production, epm = advanced impact.
+const BALANCED_METRIC_WEIGHTS = { bpm: 0.3, ws48: 0.25, vorp: 0.25, epm: 0.2 };
+// Soft cap keeps elite players near ~85-95 instead of bunching at 99/100.
+const DEFAULT_NORMALIZATION = { ceiling: 95, gamma: 1.15 };
+const BALANCED_CHEMISTRY_WEIGHTS = {
+  roleCoverage: 0.3,
+  complementarity: 0.25,
+  usageBalance: 0.2,
+  twoWayBalance: 0.15,
+  culture: 0.1,
+  positionalFit: 1,
+  synergy: 1,
+  teammates: 1
+};
+
+const SCORING_PRESET_CONFIGS: Record<ScoringPreset, ScoringPresetConfig> = {
+  BALANCED: {
+    preset: 'BALANCED',
+    label: 'Balanced',
+    description: 'The standard formula: accolades, winning, and production with full chemistry.',
+    metricWeights: BALANCED_METRIC_WEIGHTS,
+    normalization: DEFAULT_NORMALIZATION,
+    chemistryWeights: BALANCED_CHEMISTRY_WEIGHTS
+  },
+  RINGS_MATTER: {
+    preset: 'RINGS_MATTER',
+    label: 'Rings Matter',
+    description: 'Team success with the franchise counts most, and chemistry leans on winning culture.',
+    metricWeights: { bpm: 0.2, ws48: 0.45, vorp: 0.15, epm: 0.2 },
+    normalization: DEFAULT_NORMALIZATION,
+    chemistryWeights: {
+      roleCoverage: 0.25,
+      complementarity: 0.2,
+      usageBalance: 0.15,
+      twoWayBalance: 0.1,
+      culture: 0.3,
+      positionalFit: 1,
+      synergy: 1,
+      teammates: 1
+    }
+  },
+  STAT_STUFFER: {
+    preset: 'STAT_STUFFER',
+    label: 'Stat Stuffer',
+    description: 'Box-score and advanced production outweigh awards and rings.',
+    metricWeights: { bpm: 0.15, ws48: 0.1, vorp: 0.45, epm: 0.3 },
+    normalization: DEFAULT_NORMALIZATION,
+    chemistryWeights: BALANCED_CHEMISTRY_WEIGHTS
+  },
+  NO_CHEMISTRY: {
+    preset: 'NO_CHEMISTRY',
+    label: 'No Chemistry',
+    description: 'Balanced player scores with no chemistry multiplier: the strongest roster simply wins.',
+    metricWeights: BALANCED_METRIC_WEIGHTS,
+    normalization: DEFAULT_NORMALIZATION,
+    chemistryWeights: {
+      roleCoverage: 0,
+      complementarity: 0,
+      usageBalance: 0,
+      twoWayBalance: 0,
+      culture: 0,
+      positionalFit: 0,
+      synergy: 0,
+      teammates: 0
+    }
+  }
+};
+
+export function parseScoringPreset(value: string | null | undefined): ScoringPreset {
+  if (value && SCORING_PRESETS.includes(value as ScoringPreset)) {
+    return value as ScoringPreset;
+  }
+
+  return DEFAULT_SCORING_PRESET;
+}
+
+export function getScoringPresetConfig(preset: string | null | undefined): ScoringPresetConfig {
+  return SCORING_PRESET_CONFIGS[parseScoringPreset(preset)];
+}
+
+export function getScoringPresetOptions(): ScoringPresetConfig[] {
+  return SCORING_PRESETS.map((preset) => SCORING_PRESET_CONFIGS[preset]);
+}
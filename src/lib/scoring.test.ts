@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { scoreLineup, scorePlayer } from '@/lib/scoring';
+import { getPositionalFit, getRerollPenalty, scoreLineup, scorePlayer } from '@/lib/scoring';
 import type { LineupPick } from '@/lib/types';
 
 describe('score normalization', () => {
@@ -73,4 +73,83 @@ describe('score normalization', () => {
     expect(elite.playerScores[0]?.contribution).toBeLessThan(100);
   });
 
+  it('weights bench slots below starters in deeper formats', () => {
+    const picks: LineupPick[] = [
+      { slot: 'PG', playerName: 'Stephen Curry', teamAbbr: 'GSW', teamName: 'Golden State Warriors' },
+      { slot: '6TH', playerName: 'Unknown Player', teamAbbr: 'ATL', teamName: 'Atlanta Hawks' }
+    ];
+
+    const unweighted = scoreLineup(picks);
+    const sixthMan = scoreLineup(picks, { format: 'SIXTH_MAN' });
+
+    expect(sixthMan.baseTeamScore).toBeGreaterThan(unweighted.baseTeamScore);
+  });
+
+});
+
+describe('scoring presets', () => {
+  const picks: LineupPick[] = [
+    { slot: 'PG', playerName: 'Magic Johnson', teamAbbr: 'LAL', teamName: 'Los Angeles Lakers' },
+    { slot: 'SG', playerName: 'Michael Jordan', teamAbbr: 'CHI', teamName: 'Chicago Bulls' },
+    { slot: 'SF', playerName: 'Larry Bird', teamAbbr: 'BOS', teamName: 'Boston Celtics' },
+    { slot: 'PF', playerName: 'Tim Duncan', teamAbbr: 'SAS', teamName: 'San Antonio Spurs' },
+    { slot: 'C', playerName: 'Nikola Jokic', teamAbbr: 'DEN', teamName: 'Denver Nuggets' }
+  ];
+
+  it('defaults to the balanced preset', () => {
+    expect(scoreLineup(picks)).toEqual(scoreLineup(picks, { preset: 'BALANCED' }));
+    expect(scoreLineup(picks, { preset: 'UNKNOWN' })).toEqual(scoreLineup(picks));
+  });
+
+  it('reweights player contributions per preset', () => {
+    const stats = { bpm: 50, ws48: 10, vorp: 85, epm: 80 };
+
+    expect(scorePlayer(stats, 'STAT_STUFFER').contribution).toBeGreaterThan(
+      scorePlayer(stats, 'RINGS_MATTER').contribution
+    );
+  });
+
+  it('drops the chemistry multiplier without chemistry', () => {
+    const result = scoreLineup(picks, { preset: 'NO_CHEMISTRY' });
+
+    expect(result.chemistry.multiplier).toBe(1);
+    expect(result.teamScore).toBe(result.baseTeamScore);
+    expect(result.baseTeamScore).toBe(scoreLineup(picks).baseTeamScore);
+  });
+});
+
+describe('positional fit', () => {
+  const picks: LineupPick[] = [
+    { slot: 'PG', playerName: 'Magic Johnson', teamAbbr: 'LAL', teamName: 'Los Angeles Lakers' },
+    { slot: 'SG', playerName: 'Michael Jordan', teamAbbr: 'CHI', teamName: 'Chicago Bulls' },
+    { slot: 'SF', playerName: 'Larry Bird', teamAbbr: 'BOS', teamName: 'Boston Celtics' },
+    { slot: 'PF', playerName: 'Tim Duncan', teamAbbr: 'SAS', teamName: 'San Antonio Spurs' },
+    { slot: 'C', playerName: 'Nikola Jokic', teamAbbr: 'DEN', teamName: 'Denver Nuggets' }
+  ];
+
+  it('classifies primary, secondary and bench slots', () => {
+    expect(getPositionalFit({ pick: picks[0]!, usedFallback: false })).toBe('PRIMARY');
+    expect(getPositionalFit({ pick: picks[1]!, usedFallback: false })).toBe('SECONDARY');
+    expect(getPositionalFit({ pick: { ...picks[0]!, slot: '6TH' }, usedFallback: false })).toBe('BENCH');
+    expect(getPositionalFit({ pick: { ...picks[0]!, isPenalty: true }, usedFallback: false })).toBeNull();
+  });
+
+  it('rewards primary positions and penalizes out-of-position starters', () => {
+    const swapped = picks.map((pick) =>
+      pick.slot === 'PG' ? { ...pick, slot: 'C' as const } : pick.slot === 'C' ? { ...pick, slot: 'PG' as const } : pick
+    );
+
+    expect(scoreLineup(picks).chemistry.positionalFit).toBeGreaterThan(0);
+    expect(scoreLineup(swapped).chemistry.positionalFit).toBeLessThan(0);
+    expect(scoreLineup(picks, { preset: 'NO_CHEMISTRY' }).chemistry.positionalFit).toBe(0);
+  });
+
+  it('takes the reroll penalty off the final score', () => {
+    const plain = scoreLineup(picks);
+    const rerolled = scoreLineup(picks, { rerolls: 1 });
+
+    expect(rerolled.rerollPenalty).toBe(getRerollPenalty(1));
+    expect(rerolled.teamScore).toBeCloseTo(plain.teamScore - getRerollPenalty(1), 5);
+    expect(rerolled.baseTeamScore).toBe(plain.baseTeamScore);
+  });
 });
@@ -1,39 +1,57 @@
-import { DEFAULT_SEASON } from '@/lib/constants';
-import { getGlobalMetricRanges, lookupPlayerStats, normalizePlayerMetricGlobally } from '@/lib/data';
-import type { ChemistryBreakdown, LineupPick, LineupSlot, PlayerScoreBreakdown, PlayerStats } from '@/lib/types';
-
-const METRIC_WEIGHTS = {
-  // Player-level awards and honors tied to franchise years.
-  bpm: 0.3,
-  // Team success while with the franchise (title and deep-run value).
-  ws48: 0.25,
-  // Franchise box-score production value.
-  vorp: 0.25,
-  // Franchise advanced impact value.
-  epm: 0.2
-} as const;
-
-const CONTRIBUTION_NORMALIZATION = {
-  // Soft cap keeps elite players near ~85-95 instead of bunching at 99/100.
-  ceiling: 95,
-  gamma: 1.15
-} as const;
-const CHEMISTRY_WEIGHTS = {
-  roleCoverage: 0.3,
-  complementarity: 0.25,
-  usageBalance: 0.2,
-  twoWayBalance: 0.15,
-  culture: 0.1
-} as const;
+import { findArchetypeCombos, getArchetypeComboConfig } from '@/lib/archetypes';
+import { DEFAULT_SEASON, REROLL_PENALTY_POINTS } from '@/lib/constants';
+import {
+  getGlobalMetricRanges,
+  getPlayerArchetypes,
+  getPlayerEligibleSlots,
+  lookupPlayerStats,
+  normalizePlayerMetricGlobally
+} from '@/lib/data';
+import { getDraftFormatConfig, getSlotWeight, isBenchSlot } from '@/lib/formats';
+import { getScoringPresetConfig } from '@/lib/scoring-presets';
+import { findTeammatePairs, getPlayerTeammates, sumTeammatePoints, TEAMMATE_POINTS_CAP } from '@/lib/teammates';
+import type {
+  ArchetypeCombo,
+  ChemistryBreakdown,
+  DraftFormat,
+  LineupPick,
+  PlayerArchetype,
+  PlayerScoreBreakdown,
+  PlayerStats,
+  PositionalFit,
+  RosterSlot,
+  ScoringPreset,
+  ScoringPresetConfig
+} from '@/lib/types';
+
+type ChemistryWeights = ScoringPresetConfig['chemistryWeights'];
+
+/**
+ * Version of the scoring model stored on each run. Bump it whenever `scoreLineup` gives a
+ * different result for the same picks, then rescore stored runs with `npm run runs:rescore`.
+ */
+export const SCORING_VERSION = 4;
+
+// Chemistry points per player. Secondary positions are neutral and bench slots take anyone.
+const POSITIONAL_FIT_POINTS: Record<PositionalFit, number> = {
+  PRIMARY: 1.5,
+  SECONDARY: 0,
+  BENCH: 0,
+  OUT_OF_POSITION: -5
+};
 
 function clamp(value: number, min: number, max: number): number {
   return Math.max(min, Math.min(max, value));
 }
 
-function normalizeMetric(metric: keyof PlayerStats, value: number): number {
+function normalizeMetric(
+  metric: keyof PlayerStats,
+  value: number,
+  normalization: ScoringPresetConfig['normalization']
+): number {
   const percentile = clamp(normalizePlayerMetricGlobally(metric, value), 0, 100);
-  const scaled = Math.pow(percentile / 100, CONTRIBUTION_NORMALIZATION.gamma);
-  return clamp(scaled * CONTRIBUTION_NORMALIZATION.ceiling, 0, CONTRIBUTION_NORMALIZATION.ceiling);
+  const scaled = Math.pow(percentile / 100, normalization.gamma);
+  return clamp(scaled * normalization.ceiling, 0, normalization.ceiling);
 }
 
 function roundToOneDecimal(value: number): number {
@@ -69,7 +87,7 @@ type RoleProfile = {
   ballDominance: number;
 };
 
-function slotBonus(slot: LineupSlot, bonuses: Partial<Record<LineupSlot, number>>): number {
+function slotBonus(slot: RosterSlot, bonuses: Partial<Record<RosterSlot, number>>): number {
   return bonuses[slot] ?? 0;
 }
 
@@ -80,22 +98,26 @@ const ZERO_STATS: PlayerStats = {
   epm: 0
 };
 
-export function scorePlayer(stats: PlayerStats): {
+export function scorePlayer(
+  stats: PlayerStats,
+  preset?: ScoringPreset | string | null
+): {
   normalizedMetrics: PlayerStats;
   contribution: number;
 } {
+  const { metricWeights, normalization } = getScoringPresetConfig(preset);
   const normalizedMetrics: PlayerStats = {
-    bpm: normalizeMetric('bpm', stats.bpm),
-    ws48: normalizeMetric('ws48', stats.ws48),
-    vorp: normalizeMetric('vorp', stats.vorp),
-    epm: normalizeMetric('epm', stats.epm)
+    bpm: normalizeMetric('bpm', stats.bpm, normalization),
+    ws48: normalizeMetric('ws48', stats.ws48, normalization),
+    vorp: normalizeMetric('vorp', stats.vorp, normalization),
+    epm: normalizeMetric('epm', stats.epm, normalization)
   };
 
   const contribution =
-    normalizedMetrics.bpm * METRIC_WEIGHTS.bpm +
-    normalizedMetrics.ws48 * METRIC_WEIGHTS.ws48 +
-    normalizedMetrics.vorp * METRIC_WEIGHTS.vorp +
-    normalizedMetrics.epm * METRIC_WEIGHTS.epm;
+    normalizedMetrics.bpm * metricWeights.bpm +
+    normalizedMetrics.ws48 * metricWeights.ws48 +
+    normalizedMetrics.vorp * metricWeights.vorp +
+    normalizedMetrics.epm * metricWeights.epm;
 
   return {
     normalizedMetrics,
@@ -104,7 +126,7 @@ export function scorePlayer(stats: PlayerStats): {
 }
 
 function buildRoleProfile(input: {
-  slot: LineupSlot;
+  slot: RosterSlot;
   metrics: PlayerStats;
   isPenalty?: boolean;
 }): RoleProfile {
@@ -163,7 +185,65 @@ function buildRoleProfile(input: {
   };
 }
 
-function computeChemistry(playerScores: PlayerScoreBreakdown[]): ChemistryBreakdown {
+/**
+ * Fit of a player at their assigned slot. Penalty picks and players missing from the data
+ * have no known position and get no fit.
+ */
+export function getPositionalFit(player: { pick: LineupPick; usedFallback: boolean }): PositionalFit | null {
+  const { pick } = player;
+
+  if (pick.isPenalty || player.usedFallback) {
+    return null;
+  }
+
+  if (isBenchSlot(pick.slot)) {
+    return 'BENCH';
+  }
+
+  const positions = getPlayerEligibleSlots(pick.teamAbbr, pick.playerName);
+
+  if (positions[0] === pick.slot) {
+    return 'PRIMARY';
+  }
+
+  return positions.includes(pick.slot) ? 'SECONDARY' : 'OUT_OF_POSITION';
+}
+
+export function getPositionalFitPoints(fit: PositionalFit | null): number {
+  return fit ? POSITIONAL_FIT_POINTS[fit] : 0;
+}
+
+function sumPositionalFitPoints(playerScores: PlayerScoreBreakdown[]): number {
+  return playerScores.reduce((sum, player) => sum + getPositionalFitPoints(getPositionalFit(player)), 0);
+}
+
+/** Archetypes a scored player brings to combos; penalties and players missing from the data bring none. */
+export function getScoredPlayerArchetypes(player: PlayerScoreBreakdown): PlayerArchetype[] {
+  if (player.pick.isPenalty || player.usedFallback) {
+    return [];
+  }
+
+  return getPlayerArchetypes(player.pick.teamAbbr, player.pick.playerName);
+}
+
+function sumComboPoints(combos: ArchetypeCombo[]): number {
+  return combos.reduce((sum, combo) => sum + getArchetypeComboConfig(combo).points, 0);
+}
+
+function scoreProfilePair(a: RoleProfile, b: RoleProfile): number {
+  const distance = average([
+    Math.abs(a.playmaking - b.playmaking),
+    Math.abs(a.spacing - b.spacing),
+    Math.abs(a.rimPressure - b.rimPressure),
+    Math.abs(a.perimeterDefense - b.perimeterDefense),
+    Math.abs(a.rimProtection - b.rimProtection),
+    Math.abs(a.rebounding - b.rebounding)
+  ]);
+  const dominancePenalty = Math.max(0, ((a.ballDominance + b.ballDominance) / 2 - 72) * 1.1);
+  return clamp(52 + distance * 0.55 - dominancePenalty, 0, 100);
+}
+
+function computeChemistry(playerScores: PlayerScoreBreakdown[], weights: ChemistryWeights): ChemistryBreakdown {
   if (playerScores.length === 0) {
     return {
       roleCoverage: 0,
@@ -171,6 +251,10 @@ function computeChemistry(playerScores: PlayerScoreBreakdown[]): ChemistryBreakd
       usageBalance: 0,
       twoWayBalance: 0,
       culture: 0,
+      positionalFit: 0,
+      synergy: 0,
+      combos: [],
+      teammates: 0,
       chemistryScore: 0,
       multiplier: 1
     };
@@ -199,19 +283,7 @@ function computeChemistry(playerScores: PlayerScoreBreakdown[]): ChemistryBreakd
   const pairScores: number[] = [];
   for (let i = 0; i < profiles.length; i += 1) {
     for (let j = i + 1; j < profiles.length; j += 1) {
-      const a = profiles[i]!;
-      const b = profiles[j]!;
-      const distance = average([
-        Math.abs(a.playmaking - b.playmaking),
-        Math.abs(a.spacing - b.spacing),
-        Math.abs(a.rimPressure - b.rimPressure),
-        Math.abs(a.perimeterDefense - b.perimeterDefense),
-        Math.abs(a.rimProtection - b.rimProtection),
-        Math.abs(a.rebounding - b.rebounding)
-      ]);
-      const dominancePenalty = Math.max(0, ((a.ballDominance + b.ballDominance) / 2 - 72) * 1.1);
-      const pairScore = clamp(52 + distance * 0.55 - dominancePenalty, 0, 100);
-      pairScores.push(pairScore);
+      pairScores.push(scoreProfilePair(profiles[i]!, profiles[j]!));
     }
   }
   const complementarity = clamp(average(pairScores), 0, 100);
@@ -242,12 +314,23 @@ function computeChemistry(playerScores: PlayerScoreBreakdown[]): ChemistryBreakd
   const highCultureCount = teamAccoladeValues.filter((value) => value > 75).length;
   const culture = clamp(teamAccoladeAvg - teamAccoladeStd * 0.5 + highCultureCount * 2.5, 0, 100);
 
+  const positionalFit = sumPositionalFitPoints(playerScores) * weights.positionalFit;
+
+  const combos = findArchetypeCombos(playerScores.map(getScoredPlayerArchetypes));
+  const synergy = sumComboPoints(combos) * weights.synergy;
+
+  const teammatePairs = findTeammatePairs(playerScores.map((player) => player.pick));
+  const teammates = sumTeammatePoints(teammatePairs) * weights.teammates;
+
   const chemistryScore = clamp(
-    roleCoverage * CHEMISTRY_WEIGHTS.roleCoverage +
-      complementarity * CHEMISTRY_WEIGHTS.complementarity +
-      usageBalance * CHEMISTRY_WEIGHTS.usageBalance +
-      twoWayBalance * CHEMISTRY_WEIGHTS.twoWayBalance +
-      culture * CHEMISTRY_WEIGHTS.culture,
+    roleCoverage * weights.roleCoverage +
+      complementarity * weights.complementarity +
+      usageBalance * weights.usageBalance +
+      twoWayBalance * weights.twoWayBalance +
+      culture * weights.culture +
+      positionalFit +
+      synergy +
+      teammates,
     0,
     100
   );
@@ -261,14 +344,246 @@ function computeChemistry(playerScores: PlayerScoreBreakdown[]): ChemistryBreakd
     usageBalance: roundToOneDecimal(usageBalance),
     twoWayBalance: roundToOneDecimal(twoWayBalance),
     culture: roundToOneDecimal(culture),
+    positionalFit: roundToOneDecimal(positionalFit),
+    synergy: roundToOneDecimal(synergy),
+    combos,
+    teammates: roundToOneDecimal(teammates),
     chemistryScore: roundToOneDecimal(chemistryScore),
     multiplier: roundToOneDecimal(multiplier)
   };
 }
 
-export function scoreLineup(picks: LineupPick[], season = DEFAULT_SEASON): {
+const COVERAGE_ROLES = ['playmaking', 'spacing', 'perimeterDefense', 'rimProtection', 'rebounding'] as const;
+
+export type ChemistryPool = {
+  size: number;
+  roleMaxima: Record<(typeof COVERAGE_ROLES)[number], number>;
+  ballDominance: { min: number; max: number };
+  twoWayGap: { min: number; max: number };
+  maxCulture: number;
+  maxPairScore: number;
+  archetypes: PlayerArchetype[];
+  playerNames: Set<string>;
+  maxTeammatePoints: number;
+};
+
+function getTwoWayGap(profile: RoleProfile): number {
+  return (
+    average([profile.playmaking, profile.spacing, profile.rimPressure]) -
+    average([profile.perimeterDefense, profile.rimProtection, profile.rebounding])
+  );
+}
+
+// Bounds are evaluated many times per search for the same players, so profiles are reused.
+const playerProfileCache = new WeakMap<PlayerScoreBreakdown, RoleProfile>();
+
+function buildPlayerProfile(player: PlayerScoreBreakdown): RoleProfile {
+  const cached = playerProfileCache.get(player);
+  if (cached) {
+    return cached;
+  }
+
+  const profile = buildRoleProfile({
+    slot: player.pick.slot,
+    metrics: player.normalizedMetrics,
+    isPenalty: player.pick.isPenalty
+  });
+  playerProfileCache.set(player, profile);
+  return profile;
+}
+
+function getRange(values: number[]): { min: number; max: number } {
+  return values.length > 0 ? { min: Math.min(...values), max: Math.max(...values) } : { min: 0, max: 0 };
+}
+
+// Best pair points a player could earn with any of the given players.
+function getMaxTeammatePoints(playerName: string, candidates: Set<string>): number {
+  let max = 0;
+  for (const [teammate, link] of getPlayerTeammates(playerName)) {
+    if (candidates.has(teammate)) {
+      max = Math.max(max, link.points);
+    }
+  }
+  return max;
+}
+
+/** Per-component extremes of every player a lineup could still add, for `getChemistryMultiplierBound`. */
+export function summarizeChemistryPool(pool: PlayerScoreBreakdown[]): ChemistryPool {
+  const profiles = pool.map(buildPlayerProfile);
+  const playerNames = new Set(pool.filter((player) => !player.pick.isPenalty).map((player) => player.pick.playerName));
+  const ballDominance = profiles.map((profile) => profile.ballDominance);
+  const twoWayGaps = profiles.map(getTwoWayGap);
+  let maxPairScore = 0;
+
+  for (let i = 0; i < profiles.length; i += 1) {
+    for (let j = i + 1; j < profiles.length; j += 1) {
+      maxPairScore = Math.max(maxPairScore, scoreProfilePair(profiles[i]!, profiles[j]!));
+    }
+  }
+
+  return {
+    size: pool.length,
+    roleMaxima: {
+      playmaking: Math.max(0, ...profiles.map((profile) => profile.playmaking)),
+      spacing: Math.max(0, ...profiles.map((profile) => profile.spacing)),
+      perimeterDefense: Math.max(0, ...profiles.map((profile) => profile.perimeterDefense)),
+      rimProtection: Math.max(0, ...profiles.map((profile) => profile.rimProtection)),
+      rebounding: Math.max(0, ...profiles.map((profile) => profile.rebounding))
+    },
+    ballDominance: getRange(ballDominance),
+    twoWayGap: getRange(twoWayGaps),
+    maxCulture: Math.max(0, ...pool.map((player) => player.normalizedMetrics.ws48)),
+    maxPairScore,
+    archetypes: [...new Set(pool.flatMap(getScoredPlayerArchetypes))],
+    playerNames,
+    maxTeammatePoints: Math.max(0, ...[...playerNames].map((name) => getMaxTeammatePoints(name, playerNames)))
+  };
+}
+
+function getIntervalDistance(target: number, min: number, max: number): number {
+  return Math.max(0, min - target, target - max);
+}
+
+// Spread of the known values around their own mean, scaled to the full lineup size.
+// The full lineup's standard deviation can never be lower than this.
+function getStandardDeviationFloor(known: number[], lineupSize: number): number {
+  const mean = average(known);
+  return Math.sqrt(known.reduce((sum, value) => sum + (value - mean) ** 2, 0) / lineupSize);
+}
+
+/**
+ * Ceiling on the chemistry multiplier of a lineup that already holds `chosen` and adds
+ * `remaining` more players from `pool`. `pairScoreCeiling` must cover any pair in the
+ * finished lineup, including pairs with players already chosen.
+ */
+export function getChemistryMultiplierBound(input: {
+  chosen: PlayerScoreBreakdown[];
+  pool: ChemistryPool;
+  remaining: number;
+  pairScoreCeiling: number;
+  preset?: ScoringPreset | string | null;
+}): number {
+  const { chosen, pool, remaining, pairScoreCeiling } = input;
+  const weights = getScoringPresetConfig(input.preset).chemistryWeights;
+  const lineupSize = chosen.length + remaining;
+
+  if (lineupSize === 0) {
+    return 1;
+  }
+
+  if (remaining > 0 && pool.size === 0) {
+    return 2;
+  }
+
+  const profiles = chosen.map(buildPlayerProfile);
+
+  const roleCoverage = average(
+    COVERAGE_ROLES.map((role) =>
+      profiles.reduce((max, profile) => Math.max(max, profile[role]), remaining > 0 ? pool.roleMaxima[role] : 0)
+    )
+  );
+
+  const totalPairs = (lineupSize * (lineupSize - 1)) / 2;
+  let knownPairSum = 0;
+  for (let i = 0; i < profiles.length; i += 1) {
+    for (let j = i + 1; j < profiles.length; j += 1) {
+      knownPairSum += scoreProfilePair(profiles[i]!, profiles[j]!);
+    }
+  }
+  const knownPairs = (profiles.length * (profiles.length - 1)) / 2;
+  const complementarity =
+    totalPairs > 0 ? (knownPairSum + (totalPairs - knownPairs) * pairScoreCeiling) / totalPairs : 0;
+
+  const ballDominance = profiles.map((profile) => profile.ballDominance);
+  const ballDominanceSum = ballDominance.reduce((sum, value) => sum + value, 0);
+  const usageBalance =
+    100 -
+    getIntervalDistance(
+      66,
+      (ballDominanceSum + remaining * pool.ballDominance.min) / lineupSize,
+      (ballDominanceSum + remaining * pool.ballDominance.max) / lineupSize
+    ) *
+      1.2 -
+    getStandardDeviationFloor(ballDominance, lineupSize) * 1.35 -
+    ballDominance.filter((value) => value > 80).length * 3.5;
+
+  const twoWayGapSum = profiles.reduce((sum, profile) => sum + getTwoWayGap(profile), 0);
+  const twoWayBalance =
+    100 -
+    getIntervalDistance(
+      0,
+      (twoWayGapSum + remaining * pool.twoWayGap.min) / lineupSize,
+      (twoWayGapSum + remaining * pool.twoWayGap.max) / lineupSize
+    ) *
+      1.25;
+
+  const accolades = chosen.map((player) => player.normalizedMetrics.ws48);
+  const culture =
+    (accolades.reduce((sum, value) => sum + value, 0) + remaining * pool.maxCulture) / lineupSize -
+    getStandardDeviationFloor(accolades, lineupSize) * 0.5 +
+    (accolades.filter((value) => value > 75).length + (pool.maxCulture > 75 ? remaining : 0)) * 2.5;
+
+  // Every player still to come is assumed to land at their primary position.
+  const positionalFit =
+    (sumPositionalFitPoints(chosen) + remaining * POSITIONAL_FIT_POINTS.PRIMARY) * weights.positionalFit;
+
+  // The pool stands in for each player still to come; two stand-ins can complete a combo together.
+  const reachableArchetypes = [
+    ...chosen.map(getScoredPlayerArchetypes),
+    ...Array.from({ length: Math.min(remaining, 2) }, () => pool.archetypes)
+  ];
+  const synergy = sumComboPoints(findArchetypeCombos(reachableArchetypes)) * weights.synergy;
+
+  // New pairs pair a chosen player with a newcomer or two newcomers with each other.
+  const knownTeammatePoints = sumTeammatePoints(findTeammatePairs(chosen.map((player) => player.pick)));
+  const chosenToNewcomerPoints = chosen
+    .filter((player) => !player.pick.isPenalty)
+    .reduce((sum, player) => sum + getMaxTeammatePoints(player.pick.playerName, pool.playerNames), 0);
+  const newTeammatePoints =
+    remaining * chosenToNewcomerPoints + ((remaining * (remaining - 1)) / 2) * pool.maxTeammatePoints;
+  const teammates = Math.min(TEAMMATE_POINTS_CAP, knownTeammatePoints + newTeammatePoints) * weights.teammates;
+
+  const chemistryScore = clamp(
+    clamp(roleCoverage, 0, 100) * weights.roleCoverage +
+      clamp(complementarity, 0, 100) * weights.complementarity +
+      clamp(usageBalance, 0, 100) * weights.usageBalance +
+      clamp(twoWayBalance, 0, 100) * weights.twoWayBalance +
+      clamp(culture, 0, 100) * weights.culture +
+      positionalFit +
+      synergy +
+      teammates,
+    0,
+    100
+  );
+
+  return roundToOneDecimal(clamp(1 + chemistryScore / 100, 1, 2));
+}
+
+function weightedAverage(values: Array<{ value: number; weight: number }>): number {
+  const totalWeight = values.reduce((sum, entry) => sum + entry.weight, 0);
+  if (totalWeight <= 0) {
+    return 0;
+  }
+
+  return values.reduce((sum, entry) => sum + entry.value * entry.weight, 0) / totalWeight;
+}
+
+export function getRerollPenalty(rerolls = 0): number {
+  return Math.max(0, rerolls) * REROLL_PENALTY_POINTS;
+}
+
+export function scoreLineup(
+  picks: LineupPick[],
+  options: {
+    format?: DraftFormat | string | null;
+    season?: string;
+    preset?: ScoringPreset | string | null;
+    rerolls?: number;
+  } = {}
+): {
   baseTeamScore: number;
   teamScore: number;
+  rerollPenalty: number;
   chemistry: ChemistryBreakdown;
   playerScores: PlayerScoreBreakdown[];
   usedFallbackStats: boolean;
@@ -277,12 +592,17 @@ export function scoreLineup(picks: LineupPick[], season = DEFAULT_SEASON): {
     return {
       baseTeamScore: 0,
       teamScore: 0,
+      rerollPenalty: 0,
       chemistry: {
         roleCoverage: 0,
         complementarity: 0,
         usageBalance: 0,
         twoWayBalance: 0,
         culture: 0,
+        positionalFit: 0,
+        synergy: 0,
+        combos: [],
+        teammates: 0,
         chemistryScore: 0,
         multiplier: 1
       },
@@ -291,46 +611,91 @@ export function scoreLineup(picks: LineupPick[], season = DEFAULT_SEASON): {
     };
   }
 
-  const playerScores = picks.map((pick) => {
-    if (pick.isPenalty) {
-      return {
-        pick,
-        stats: ZERO_STATS,
-        usedFallback: false,
-        normalizedMetrics: ZERO_STATS,
-        contribution: 0
-      };
-    }
+  const playerScores = picks.map((pick) => scorePick(pick, options));
+  const { baseTeamScore, teamScore, chemistry } = combinePlayerScores(playerScores, options.format, options.preset);
+  const rerollPenalty = getRerollPenalty(options.rerolls);
 
-    const statsLookup = lookupPlayerStats(pick.teamAbbr, pick.playerName, season);
-    const scoredPlayer = scorePlayer(statsLookup.stats);
+  return {
+    baseTeamScore,
+    // Rerolls come off the final score, after chemistry.
+    teamScore: roundToOneDecimal(Math.max(0, teamScore - rerollPenalty)),
+    rerollPenalty,
+    chemistry,
+    playerScores,
+    usedFallbackStats: playerScores.some((player) => player.usedFallback)
+  };
+}
 
+export function scorePick(
+  pick: LineupPick,
+  options: {
+    season?: string;
+    preset?: ScoringPreset | string | null;
+  } = {}
+): PlayerScoreBreakdown {
+  if (pick.isPenalty) {
     return {
       pick,
-      stats: statsLookup.stats,
-      usedFallback: statsLookup.usedFallback,
-      normalizedMetrics: scoredPlayer.normalizedMetrics,
-      contribution: scoredPlayer.contribution
+      stats: ZERO_STATS,
+      usedFallback: false,
+      normalizedMetrics: ZERO_STATS,
+      contribution: 0
     };
-  });
+  }
+
+  const statsLookup = lookupPlayerStats(pick.teamAbbr, pick.playerName, options.season ?? DEFAULT_SEASON);
+  const scoredPlayer = scorePlayer(statsLookup.stats, options.preset);
+
+  return {
+    pick,
+    stats: statsLookup.stats,
+    usedFallback: statsLookup.usedFallback,
+    normalizedMetrics: scoredPlayer.normalizedMetrics,
+    contribution: scoredPlayer.contribution
+  };
+}
 
-  const totalContribution = playerScores.reduce((sum, player) => sum + player.contribution, 0);
-  const baseTeamScore = roundToOneDecimal(totalContribution / playerScores.length);
-  const chemistry = computeChemistry(playerScores);
+/**
+ * Team-level half of `scoreLineup`: weighted base score, chemistry, and final score for
+ * players that were already scored. Split out so searches can reuse per-player scores.
+ */
+export function combinePlayerScores(
+  playerScores: PlayerScoreBreakdown[],
+  format?: DraftFormat | string | null,
+  preset?: ScoringPreset | string | null
+): {
+  baseTeamScore: number;
+  teamScore: number;
+  chemistry: ChemistryBreakdown;
+} {
+  const formatConfig = getDraftFormatConfig(format);
+
+  // Bench slots count for less than starters so deeper formats stay comparable.
+  const baseTeamScore = roundToOneDecimal(
+    weightedAverage(
+      playerScores.map((player) => ({
+        value: player.contribution,
+        weight: getSlotWeight(formatConfig, player.pick.slot)
+      }))
+    )
+  );
+  const chemistry = computeChemistry(playerScores, getScoringPresetConfig(preset).chemistryWeights);
   const teamScore = roundToOneDecimal(baseTeamScore * chemistry.multiplier);
 
   return {
     baseTeamScore,
     teamScore,
-    chemistry,
-    playerScores,
-    usedFallbackStats: playerScores.some((player) => player.usedFallback)
+    chemistry
   };
 }
 
-export const SCORING_CONFIG = {
-  metricWeights: METRIC_WEIGHTS,
-  metricRanges: getGlobalMetricRanges(),
-  normalization: CONTRIBUTION_NORMALIZATION,
-  chemistryWeights: CHEMISTRY_WEIGHTS
-};
+export function getScoringConfig(preset?: ScoringPreset | string | null) {
+  const { metricWeights, normalization, chemistryWeights } = getScoringPresetConfig(preset);
+
+  return {
+    metricWeights,
+    metricRanges: getGlobalMetricRanges(),
+    normalization,
+    chemistryWeights
+  };
+}
@@ -1,5 +1,5 @@
 import { cookies } from 'next/headers';
-import { DRAFT_SESSION_COOKIE } from '@/lib/constants';
+import { DEVICE_COOKIE, DRAFT_SESSION_COOKIE } from '@/lib/constants';
 
 export function getDraftSessionCookieToken(): string | null {
   return cookies().get(DRAFT_SESSION_COOKIE)?.value ?? null;
@@ -18,3 +18,26 @@ export function setDraftSessionCookieToken(cookieToken: string) {
 export function clearDraftSessionCookieToken() {
   cookies().delete(DRAFT_SESSION_COOKIE);
 }
+
+export function getDeviceId(): string | null {
+  return cookies().get(DEVICE_COOKIE)?.value ?? null;
+}
+
+/** Returns the long-lived device id, issuing one first if this browser has none. */
+export function ensureDeviceId(): string {
+  const existing = getDeviceId();
+  if (existing) {
+    return existing;
+  }
+
+  const deviceId = crypto.randomUUID();
+  cookies().set(DEVICE_COOKIE, deviceId, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: 60 * 60 * 24 * 365
+  });
+
+  return deviceId;
+}
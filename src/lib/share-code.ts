@@ -18,6 +18,23 @@ export function generateShareCode(length = SHARE_CODE_LENGTH, rng: () => number
   return code;
 }
 
+function normalizeAlphanumericCode(raw: string | null | undefined): string | null {
+  if (!raw) {
+    return null;
+  }
+
+  const cleaned = raw.trim().toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return cleaned || null;
+}
+
+export function normalizeRoomCode(raw: string | null | undefined): string | null {
+  return normalizeAlphanumericCode(raw);
+}
+
+export function normalizeWatchCode(raw: string | null | undefined): string | null {
+  return normalizeAlphanumericCode(raw);
+}
+
 export function normalizeGroupCode(raw: string | null | undefined): string | null {
   if (!raw) {
     return null;
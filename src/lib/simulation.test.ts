@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildBaselineScores,
+  formatSimulationCsv,
+  rankAgainstBaseline,
+  runSimulation,
+  summarizeDistribution,
+  toPercentileRank
+} from '@/lib/simulation';
+import type { SimulationOptions } from '@/lib/simulation';
+
+const options: SimulationOptions = {
+  rounds: 8,
+  strategy: 'greedy',
+  format: 'STANDARD',
+  era: 'ALL_TIME',
+  preset: 'BALANCED',
+  seed: 'SIM-TEST'
+};
+
+describe('simulation', () => {
+  it('summarizes a distribution with interpolated percentiles', () => {
+    const summary = summarizeDistribution([10, 20, 30, 40, 50]);
+
+    expect(summary).toMatchObject({ mean: 30, min: 10, max: 50 });
+    expect(summary.percentiles.p50).toBe(30);
+    expect(summary.percentiles.p25).toBe(20);
+    expect(summary.percentiles.p10).toBe(14);
+  });
+
+  it('replays the same report for the same seed', () => {
+    expect(runSimulation(options)).toEqual(runSimulation(options));
+  });
+
+  it('rates greedy drafting above random picks and exports csv rows', () => {
+    const greedy = runSimulation(options);
+    const random = runSimulation({ ...options, strategy: 'random' });
+
+    expect(greedy.baseTeamScore.mean).toBeGreaterThan(random.baseTeamScore.mean);
+    expect(greedy.franchises.reduce((sum, franchise) => sum + franchise.draws, 0)).toBe(8 * 5);
+    expect(formatSimulationCsv(greedy).split('\n')[1]).toBe(`score,teamScore,mean,${greedy.teamScore.mean}`);
+  });
+
+  it('ranks a score against other scores and the simulated baseline', () => {
+    expect(toPercentileRank({ below: 86, ties: 2, total: 100 })).toBe(87);
+    expect(toPercentileRank({ below: 0, ties: 0, total: 0 })).toBeNull();
+
+    const config = { format: 'STANDARD', era: 'ALL_TIME', preset: 'BALANCED', drawMode: 'UNIFORM' } as const;
+    const baseline = buildBaselineScores(config);
+    expect(baseline).toEqual([...baseline].sort((a, b) => a - b));
+    expect(rankAgainstBaseline(0, baseline)).toBe(0);
+    expect(rankAgainstBaseline(1000, baseline)).toBe(100);
+    expect(buildBaselineScores({ ...config, drawMode: 'BALANCED_TIERS' })).not.toEqual(baseline);
+  });
+});
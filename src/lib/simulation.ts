@@ -0,0 +1,309 @@
+import { SHOT_CLOCK_PENALTY_PLAYER_NAME } from '@/lib/constants';
+import { getRosterByTeam, getTeamByAbbr } from '@/lib/data';
+import { buildDrawSequence } from '@/lib/draw';
+import { getDraftFormatConfig, getEligibleRosterSlots, getSlotWeight } from '@/lib/formats';
+import { solveOptimalLineup } from '@/lib/lineup-solver';
+import { createSeededRng } from '@/lib/rng';
+import { getOpenSlots } from '@/lib/rules';
+import { scoreLineup, scorePick } from '@/lib/scoring';
+import { SIMULATION_STRATEGIES } from '@/lib/types';
+import type {
+  ChemistryBreakdown,
+  DraftEra,
+  DraftFormat,
+  DrawMode,
+  LineupPick,
+  LineupState,
+  PlayerScoreBreakdown,
+  ScoringPreset,
+  SimulationStrategy
+} from '@/lib/types';
+
+const REPORTED_PERCENTILES = ['p10', 'p25', 'p50', 'p75', 'p90', 'p99'] as const;
+
+export type SimulationOptions = {
+  rounds: number;
+  strategy: SimulationStrategy;
+  format: DraftFormat;
+  era: DraftEra;
+  preset: ScoringPreset;
+  seed: string;
+  drawMode?: DrawMode;
+};
+
+export type SimulatedRound = {
+  seed: string;
+  playerScores: PlayerScoreBreakdown[];
+  baseTeamScore: number;
+  teamScore: number;
+  chemistry: ChemistryBreakdown;
+};
+
+export type DistributionSummary = {
+  mean: number;
+  stdDev: number;
+  min: number;
+  max: number;
+  percentiles: Record<(typeof REPORTED_PERCENTILES)[number], number>;
+};
+
+export type FranchiseValue = {
+  teamAbbr: string;
+  draws: number;
+  averageContribution: number;
+  penaltyRate: number;
+};
+
+export type SimulationReport = {
+  options: SimulationOptions;
+  teamScore: DistributionSummary;
+  baseTeamScore: DistributionSummary;
+  chemistryMultiplier: DistributionSummary;
+  chemistryComponents: Record<ChemistryComponent, DistributionSummary>;
+  franchises: FranchiseValue[];
+};
+
+type ChemistryComponent = Exclude<keyof ChemistryBreakdown, 'combos' | 'multiplier'>;
+
+const CHEMISTRY_COMPONENTS: ChemistryComponent[] = [
+  'roleCoverage',
+  'complementarity',
+  'usageBalance',
+  'twoWayBalance',
+  'culture',
+  'positionalFit',
+  'synergy',
+  'teammates',
+  'chemistryScore'
+];
+
+// Greedy drafts stand in for a solid player when placing a real run among simulated ones.
+const BASELINE_STRATEGY: SimulationStrategy = 'greedy';
+const BASELINE_ROUNDS = 200;
+
+function roundToOneDecimal(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Share of the other scores a score beats, from 0 to 100, with ties counting half. Null when
+ * there is nothing to compare against.
+ */
+export function toPercentileRank(counts: { below: number; ties: number; total: number }): number | null {
+  if (counts.total <= 0) {
+    return null;
+  }
+
+  return roundToOneDecimal(((counts.below + counts.ties / 2) / counts.total) * 100);
+}
+
+export function parseSimulationStrategy(value: string | null | undefined): SimulationStrategy {
+  if (value && SIMULATION_STRATEGIES.includes(value as SimulationStrategy)) {
+    return value as SimulationStrategy;
+  }
+
+  throw new Error(`Unknown strategy "${value}". Use one of: ${SIMULATION_STRATEGIES.join(', ')}.`);
+}
+
+// Linear interpolation between the closest ranks.
+function getPercentile(sorted: number[], percentile: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+
+  const rank = (percentile / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower]! + (sorted[upper]! - sorted[lower]!) * (rank - lower);
+}
+
+export function summarizeDistribution(values: number[]): DistributionSummary {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = sorted.length > 0 ? sorted.reduce((sum, value) => sum + value, 0) / sorted.length : 0;
+  const variance =
+    sorted.length > 0 ? sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / sorted.length : 0;
+
+  return {
+    mean: roundToOneDecimal(mean),
+    stdDev: roundToOneDecimal(Math.sqrt(variance)),
+    min: roundToOneDecimal(sorted[0] ?? 0),
+    max: roundToOneDecimal(sorted[sorted.length - 1] ?? 0),
+    percentiles: Object.fromEntries(
+      REPORTED_PERCENTILES.map((key) => [key, roundToOneDecimal(getPercentile(sorted, Number(key.slice(1))))])
+    ) as DistributionSummary['percentiles']
+  };
+}
+
+/**
+ * Drafts one draw sequence pick by pick. Random takes any legal player and slot; greedy takes
+ * the highest slot-weighted contribution. A draw nobody on the franchise can fill is burned
+ * into an open slot, like a shot clock violation.
+ */
+function draftPickByPick(input: {
+  drawSequence: string[];
+  strategy: Exclude<SimulationStrategy, 'optimal'>;
+  options: SimulationOptions;
+  rng: () => number;
+}): LineupPick[] {
+  const { drawSequence, strategy, options, rng } = input;
+  const formatConfig = getDraftFormatConfig(options.format);
+  let lineup: LineupState = {};
+  const picks: LineupPick[] = [];
+
+  for (const teamAbbr of drawSequence) {
+    const openSlots = getOpenSlots(lineup, formatConfig.slots);
+    if (openSlots.length === 0) {
+      break;
+    }
+
+    const teamName = getTeamByAbbr(teamAbbr)?.name ?? teamAbbr;
+    const choices = getRosterByTeam(teamAbbr, options.era)
+      .filter((player) => !picks.some((pick) => pick.playerName === player.name))
+      .flatMap((player) =>
+        getEligibleRosterSlots(player.eligibleSlots, openSlots).map((slot) => ({
+          slot,
+          playerName: player.name,
+          teamAbbr,
+          teamName
+        }))
+      );
+
+    let pick: LineupPick;
+    if (choices.length === 0) {
+      pick = {
+        slot: openSlots[Math.floor(rng() * openSlots.length)]!,
+        playerName: SHOT_CLOCK_PENALTY_PLAYER_NAME,
+        teamAbbr,
+        teamName,
+        isPenalty: true
+      };
+    } else if (strategy === 'random') {
+      pick = choices[Math.floor(rng() * choices.length)]!;
+    } else {
+      const value = (choice: LineupPick) =>
+        scorePick(choice, { preset: options.preset }).contribution * getSlotWeight(formatConfig, choice.slot);
+      pick = choices.reduce((best, choice) => (value(choice) > value(best) ? choice : best));
+    }
+
+    lineup = { ...lineup, [pick.slot]: pick };
+    picks.push(pick);
+  }
+
+  // Score and report in slot order, like a finished run.
+  return formatConfig.slots.flatMap((slot) => (lineup[slot] ? [lineup[slot]!] : []));
+}
+
+export function simulateRound(options: SimulationOptions, roundSeed: string): SimulatedRound {
+  const formatConfig = getDraftFormatConfig(options.format);
+  const drawSequence = buildDrawSequence(roundSeed, formatConfig.totalDraws, options.era, options.drawMode);
+  const picks =
+    options.strategy === 'optimal'
+      ? solveOptimalLineup({ drawSequence, format: options.format, era: options.era, preset: options.preset })
+          ?.picks ?? []
+      : draftPickByPick({ drawSequence, strategy: options.strategy, options, rng: createSeededRng(`${roundSeed}:picks`) });
+  const scoring = scoreLineup(picks, { format: options.format, preset: options.preset });
+
+  return {
+    seed: roundSeed,
+    playerScores: scoring.playerScores,
+    baseTeamScore: scoring.baseTeamScore,
+    teamScore: scoring.teamScore,
+    chemistry: scoring.chemistry
+  };
+}
+
+/** Plays `rounds` seeded rounds with one strategy and summarizes where scores land. */
+export function runSimulation(
+  options: SimulationOptions,
+  onRound?: (round: SimulatedRound, index: number) => void
+): SimulationReport {
+  const rounds: SimulatedRound[] = [];
+
+  for (let index = 0; index < options.rounds; index += 1) {
+    const round = simulateRound(options, `${options.seed}-${index + 1}`);
+    rounds.push(round);
+    onRound?.(round, index);
+  }
+
+  const franchiseTotals = new Map<string, { draws: number; contribution: number; penalties: number }>();
+  for (const round of rounds) {
+    for (const player of round.playerScores) {
+      const totals = franchiseTotals.get(player.pick.teamAbbr) ?? { draws: 0, contribution: 0, penalties: 0 };
+      totals.draws += 1;
+      totals.contribution += player.contribution;
+      totals.penalties += player.pick.isPenalty ? 1 : 0;
+      franchiseTotals.set(player.pick.teamAbbr, totals);
+    }
+  }
+
+  return {
+    options,
+    teamScore: summarizeDistribution(rounds.map((round) => round.teamScore)),
+    baseTeamScore: summarizeDistribution(rounds.map((round) => round.baseTeamScore)),
+    chemistryMultiplier: summarizeDistribution(rounds.map((round) => round.chemistry.multiplier)),
+    chemistryComponents: Object.fromEntries(
+      CHEMISTRY_COMPONENTS.map((component) => [
+        component,
+        summarizeDistribution(rounds.map((round) => round.chemistry[component]))
+      ])
+    ) as SimulationReport['chemistryComponents'],
+    franchises: [...franchiseTotals.entries()]
+      .map(([teamAbbr, totals]) => ({
+        teamAbbr,
+        draws: totals.draws,
+        averageContribution: roundToOneDecimal(totals.contribution / totals.draws),
+        penaltyRate: Math.round((totals.penalties / totals.draws) * 1000) / 1000
+      }))
+      .sort((a, b) => b.averageContribution - a.averageContribution)
+  };
+}
+
+function distributionCsvRows(section: string, name: string, summary: DistributionSummary): string[] {
+  return [
+    ...(['mean', 'stdDev', 'min', 'max'] as const).map((metric) => `${section},${name},${metric},${summary[metric]}`),
+    ...REPORTED_PERCENTILES.map((key) => `${section},${name},${key},${summary.percentiles[key]}`)
+  ];
+}
+
+/** The report as long-format CSV (`section,name,metric,value`) for spreadsheets. */
+export function formatSimulationCsv(report: SimulationReport): string {
+  return [
+    'section,name,metric,value',
+    ...distributionCsvRows('score', 'teamScore', report.teamScore),
+    ...distributionCsvRows('score', 'baseTeamScore', report.baseTeamScore),
+    ...distributionCsvRows('score', 'chemistryMultiplier', report.chemistryMultiplier),
+    ...CHEMISTRY_COMPONENTS.flatMap((component) =>
+      distributionCsvRows('chemistry', component, report.chemistryComponents[component])
+    ),
+    ...report.franchises.flatMap((franchise) => [
+      `franchise,${franchise.teamAbbr},draws,${franchise.draws}`,
+      `franchise,${franchise.teamAbbr},averageContribution,${franchise.averageContribution}`,
+      `franchise,${franchise.teamAbbr},penaltyRate,${franchise.penaltyRate}`
+    ])
+  ].join('\n');
+}
+
+/**
+ * Team scores of seeded greedy simulations of one format, era, preset and draw mode, lowest
+ * first. Simulated drafts never reroll. Slow enough that it runs ahead of time (`npm run
+ * sim:baselines`) rather than on a page view.
+ */
+export function buildBaselineScores(
+  config: Pick<SimulationOptions, 'format' | 'era' | 'preset'> & { drawMode: DrawMode }
+): number[] {
+  const options = { ...config, rounds: BASELINE_ROUNDS, strategy: BASELINE_STRATEGY, seed: 'baseline' };
+
+  return Array.from(
+    { length: BASELINE_ROUNDS },
+    (_, index) => simulateRound(options, `baseline-${index + 1}`).teamScore
+  ).sort((a, b) => a - b);
+}
+
+/** Percentile of a team score among baseline scores from `buildBaselineScores`. */
+export function rankAgainstBaseline(teamScore: number, scores: number[]): number | null {
+  return toPercentileRank({
+    below: scores.filter((score) => score < teamScore).length,
+    ties: scores.filter((score) => score === teamScore).length,
+    total: scores.length
+  });
+}
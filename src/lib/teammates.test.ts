@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { scoreLineup } from '@/lib/scoring';
+import { findTeammatePairs, getTeammatePairPoints } from '@/lib/teammates';
+import type { LineupPick } from '@/lib/types';
+
+describe('real teammates', () => {
+  it('finds players who shared a franchise in overlapping seasons', () => {
+    const pairs = findTeammatePairs([
+      { playerName: 'Magic Johnson' },
+      { playerName: 'Kareem Abdul-Jabbar' },
+      { playerName: 'Bill Russell' }
+    ]);
+
+    expect(pairs).toEqual([
+      { playerNames: ['Magic Johnson', 'Kareem Abdul-Jabbar'], teamAbbr: 'LAL', seasons: 10, points: 3 }
+    ]);
+  });
+
+  it('links players through a franchise either of them was drafted from', () => {
+    const pairs = findTeammatePairs([{ playerName: "Shaquille O'Neal" }, { playerName: 'Dwyane Wade' }]);
+
+    expect(pairs[0]).toMatchObject({ teamAbbr: 'MIA', seasons: 4 });
+    expect(findTeammatePairs([{ playerName: "Shaquille O'Neal" }, { playerName: 'Dwyane Wade', isPenalty: true }])).toEqual(
+      []
+    );
+  });
+
+  it('adds teammate chemistry to the lineup score', () => {
+    const picks: LineupPick[] = [
+      { slot: 'PG', playerName: 'Magic Johnson', teamAbbr: 'LAL', teamName: 'Los Angeles Lakers' },
+      { slot: 'C', playerName: 'Kareem Abdul-Jabbar', teamAbbr: 'LAL', teamName: 'Los Angeles Lakers' }
+    ];
+
+    expect(getTeammatePairPoints(1)).toBeLessThan(getTeammatePairPoints(4));
+    expect(scoreLineup(picks).chemistry.teammates).toBe(3);
+    expect(scoreLineup(picks, { preset: 'NO_CHEMISTRY' }).chemistry.teammates).toBe(0);
+  });
+});
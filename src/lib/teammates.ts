@@ -0,0 +1,125 @@
+import { ALL_TIME_TEAM_SEED } from '@/lib/all-time-seed';
+import { parseTenureYears } from '@/lib/data';
+import type { LineupPick, TeammatePair, TenureSpan } from '@/lib/types';
+
+type TeammateLink = Omit<TeammatePair, 'playerNames'>;
+
+// A pair earns base points plus more for each shared season, up to four.
+const TEAMMATE_BASE_POINTS = 1;
+const TEAMMATE_POINTS_PER_SEASON = 0.5;
+const TEAMMATE_MAX_SEASONS = 4;
+export const TEAMMATE_POINTS_CAP = 6;
+
+let linksByPlayer: Map<string, Map<string, TeammateLink>> | null = null;
+
+// Year ranges run from the first season's start year to the last season's end year.
+function countSharedSeasons(a: TenureSpan[], b: TenureSpan[]): number {
+  const shared = new Set<number>();
+
+  for (const spanA of a) {
+    for (const spanB of b) {
+      const end = Math.min(spanA.endYear, spanB.endYear);
+      for (let year = Math.max(spanA.startYear, spanB.startYear); year < end; year += 1) {
+        shared.add(year);
+      }
+    }
+  }
+
+  return shared.size;
+}
+
+export function getTeammatePairPoints(seasons: number): number {
+  if (seasons <= 0) {
+    return 0;
+  }
+
+  return TEAMMATE_BASE_POINTS + Math.min(seasons, TEAMMATE_MAX_SEASONS) * TEAMMATE_POINTS_PER_SEASON;
+}
+
+/**
+ * Players who shared a franchise in overlapping seasons, keyed by player name both ways.
+ * Franchise tenures come from the seed rosters, plus career stints where the sync script
+ * recorded them, so teammates on a franchise one of them is not a great of still count.
+ */
+function getTeammateLinks(): Map<string, Map<string, TeammateLink>> {
+  if (linksByPlayer) {
+    return linksByPlayer;
+  }
+
+  const spansByPlayer = new Map<string, Map<string, TenureSpan[]>>();
+  for (const [teamAbbr, players] of Object.entries(ALL_TIME_TEAM_SEED)) {
+    for (const player of players) {
+      const spansByTeam = spansByPlayer.get(player.name) ?? new Map<string, TenureSpan[]>();
+      // Career stints repeat the franchise tenure, so they replace it rather than add to it.
+      if (player.careerStints && player.careerStints.length > 0) {
+        for (const stint of player.careerStints) {
+          spansByTeam.set(stint.teamAbbr, parseTenureYears(stint.years));
+        }
+      } else if (!spansByTeam.has(teamAbbr)) {
+        spansByTeam.set(teamAbbr, parseTenureYears(player.years));
+      }
+      spansByPlayer.set(player.name, spansByTeam);
+    }
+  }
+
+  const membersByTeam = new Map<string, Array<{ name: string; spans: TenureSpan[] }>>();
+  for (const [name, spansByTeam] of spansByPlayer) {
+    for (const [teamAbbr, spans] of spansByTeam) {
+      membersByTeam.set(teamAbbr, [...(membersByTeam.get(teamAbbr) ?? []), { name, spans }]);
+    }
+  }
+
+  linksByPlayer = new Map();
+  for (const [teamAbbr, members] of membersByTeam) {
+    for (let i = 0; i < members.length; i += 1) {
+      for (let j = i + 1; j < members.length; j += 1) {
+        const a = members[i]!;
+        const b = members[j]!;
+        const seasons = countSharedSeasons(a.spans, b.spans);
+        // Pairs who played together on several franchises keep their longest stretch.
+        if (seasons <= 0 || seasons <= (linksByPlayer.get(a.name)?.get(b.name)?.seasons ?? 0)) {
+          continue;
+        }
+
+        const link = { teamAbbr, seasons, points: getTeammatePairPoints(seasons) };
+        for (const [from, to] of [
+          [a.name, b.name],
+          [b.name, a.name]
+        ] as const) {
+          const links = linksByPlayer.get(from) ?? new Map<string, TeammateLink>();
+          links.set(to, link);
+          linksByPlayer.set(from, links);
+        }
+      }
+    }
+  }
+
+  return linksByPlayer;
+}
+
+/** Every teammate of a player, with the franchise and seasons they shared. */
+export function getPlayerTeammates(playerName: string): Map<string, TeammateLink> {
+  return getTeammateLinks().get(playerName) ?? new Map();
+}
+
+/** Pairs of real teammates among the picks, longest shared stretch first. Penalties have no teammates. */
+export function findTeammatePairs(picks: Array<Pick<LineupPick, 'playerName' | 'isPenalty'>>): TeammatePair[] {
+  const names = picks.filter((pick) => !pick.isPenalty).map((pick) => pick.playerName);
+  const pairs: TeammatePair[] = [];
+
+  for (let i = 0; i < names.length; i += 1) {
+    const links = getPlayerTeammates(names[i]!);
+    for (let j = i + 1; j < names.length; j += 1) {
+      const link = links.get(names[j]!);
+      if (link) {
+        pairs.push({ playerNames: [names[i]!, names[j]!], ...link });
+      }
+    }
+  }
+
+  return pairs.sort((a, b) => b.seasons - a.seasons);
+}
+
+export function sumTeammatePoints(pairs: Array<Pick<TeammatePair, 'points'>>): number {
+  return Math.min(TEAMMATE_POINTS_CAP, pairs.reduce((sum, pair) => sum + pair.points, 0));
+}
@@ -0,0 +1,33 @@
+import { TIMEOUT_POLICIES } from '@/lib/types';
+import type { TimeoutPolicy, TimeoutPolicyConfig } from '@/lib/types';
+
+export const DEFAULT_TIMEOUT_POLICY: TimeoutPolicy = 'EMPTY_SLOT';
+
+const TIMEOUT_POLICY_CONFIGS: Record<TimeoutPolicy, TimeoutPolicyConfig> = {
+  EMPTY_SLOT: {
+    policy: 'EMPTY_SLOT',
+    label: 'Empty slot',
+    description: 'A random open slot is filled with a 0-point shot clock violation.'
+  },
+  AUTO_PICK_WORST: {
+    policy: 'AUTO_PICK_WORST',
+    label: 'Auto-pick worst',
+    description: "The franchise's weakest player who still fits is drafted into a random open slot for you."
+  }
+};
+
+export function parseTimeoutPolicy(value: string | null | undefined): TimeoutPolicy {
+  if (value && TIMEOUT_POLICIES.includes(value as TimeoutPolicy)) {
+    return value as TimeoutPolicy;
+  }
+
+  return DEFAULT_TIMEOUT_POLICY;
+}
+
+export function getTimeoutPolicyConfig(policy: string | null | undefined): TimeoutPolicyConfig {
+  return TIMEOUT_POLICY_CONFIGS[parseTimeoutPolicy(policy)];
+}
+
+export function getTimeoutPolicyOptions(): TimeoutPolicyConfig[] {
+  return TIMEOUT_POLICIES.map((policy) => TIMEOUT_POLICY_CONFIGS[policy]);
+}
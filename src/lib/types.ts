@@ -1,8 +1,125 @@
 export const LINEUP_SLOTS = ['PG', 'SG', 'SF', 'PF', 'C'] as const;
+export const BENCH_SLOTS = ['6TH', '7TH', 'FLEX'] as const;
+export const ROSTER_SLOTS = [...LINEUP_SLOTS, ...BENCH_SLOTS] as const;
 export const DRAFT_STATUSES = ['DRAFTING', 'COMPLETED'] as const;
+export const DRAFT_FORMATS = ['STANDARD', 'SIXTH_MAN', 'SEVEN_DEEP', 'FULL_BENCH'] as const;
+export const DRAFT_ERAS = ['ALL_TIME', 'PRE_MERGER', 'EIGHTIES_NINETIES', 'TWO_THOUSANDS', 'MODERN'] as const;
+export const SCORING_PRESETS = ['BALANCED', 'RINGS_MATTER', 'STAT_STUFFER', 'NO_CHEMISTRY'] as const;
+export const DRAW_MODES = ['UNIFORM', 'BALANCED_TIERS'] as const;
+export const CLOCK_MODES = ['STANDARD', 'BLITZ', 'STUDY', 'TIME_BANK'] as const;
+export const TIMEOUT_POLICIES = ['EMPTY_SLOT', 'AUTO_PICK_WORST'] as const;
+export const ROOM_STATUSES = ['LOBBY', 'DRAFTING', 'COMPLETED'] as const;
+export const LEADERBOARD_TIMEFRAMES = ['all', 'daily'] as const;
+export const LEADERBOARD_ASSIST_FILTERS = ['all', 'unassisted', 'assisted'] as const;
+export const LEADERBOARD_SCORE_VERSIONS = ['current', 'original', 'luck_adjusted'] as const;
+export const PLAYER_ARCHETYPES = [
+  'FLOOR_GENERAL',
+  'STRETCH_BIG',
+  'THREE_AND_D_WING',
+  'RIM_PROTECTOR',
+  'SLASHER',
+  'POST_SCORER'
+] as const;
+export const SIMULATION_STRATEGIES = ['random', 'greedy', 'optimal'] as const;
+export const ARCHETYPE_COMBOS = ['PICK_AND_ROLL', 'PICK_AND_POP', 'DRIVE_AND_KICK', 'INSIDE_OUT', 'OPEN_LANE', 'TWIN_TOWERS'] as const;
 
 export type LineupSlot = (typeof LINEUP_SLOTS)[number];
+export type BenchSlot = (typeof BENCH_SLOTS)[number];
+export type RosterSlot = (typeof ROSTER_SLOTS)[number];
 export type DraftStatus = (typeof DRAFT_STATUSES)[number];
+export type DraftFormat = (typeof DRAFT_FORMATS)[number];
+export type DraftEra = (typeof DRAFT_ERAS)[number];
+export type ScoringPreset = (typeof SCORING_PRESETS)[number];
+export type DrawMode = (typeof DRAW_MODES)[number];
+export type ClockMode = (typeof CLOCK_MODES)[number];
+export type TimeoutPolicy = (typeof TIMEOUT_POLICIES)[number];
+export type RoomStatus = (typeof ROOM_STATUSES)[number];
+export type LeaderboardTimeframe = (typeof LEADERBOARD_TIMEFRAMES)[number];
+export type LeaderboardAssistFilter = (typeof LEADERBOARD_ASSIST_FILTERS)[number];
+export type LeaderboardScoreVersion = (typeof LEADERBOARD_SCORE_VERSIONS)[number];
+export type PlayerArchetype = (typeof PLAYER_ARCHETYPES)[number];
+export type ArchetypeCombo = (typeof ARCHETYPE_COMBOS)[number];
+export type SimulationStrategy = (typeof SIMULATION_STRATEGIES)[number];
+
+export type DraftFormatConfig = {
+  format: DraftFormat;
+  label: string;
+  description: string;
+  slots: RosterSlot[];
+  totalDraws: number;
+  slotWeights: Partial<Record<RosterSlot, number>>;
+};
+
+export type DraftEraConfig = {
+  era: DraftEra;
+  label: string;
+  description: string;
+  // Inclusive calendar years a franchise tenure must overlap; null leaves that side open.
+  startYear: number | null;
+  endYear: number | null;
+};
+
+export type DrawModeConfig = {
+  mode: DrawMode;
+  label: string;
+  description: string;
+};
+
+export type ClockModeConfig = {
+  mode: ClockMode;
+  label: string;
+  description: string;
+  // Seconds on the clock for each draw; null when the mode has no per-draw clock.
+  secondsPerDraw: number | null;
+  // Seconds shared across every draw of the round; null outside time-bank play.
+  timeBankSeconds: number | null;
+};
+
+export type TimeoutPolicyConfig = {
+  policy: TimeoutPolicy;
+  label: string;
+  description: string;
+};
+
+// How a player's assigned slot relates to their listed positions; the first listed is primary.
+export type PositionalFit = 'PRIMARY' | 'SECONDARY' | 'BENCH' | 'OUT_OF_POSITION';
+
+export type ScoringPresetConfig = {
+  preset: ScoringPreset;
+  label: string;
+  description: string;
+  metricWeights: PlayerStats;
+  normalization: { ceiling: number; gamma: number };
+  // Component weights; `positionalFit`, `synergy` and `teammates` instead scale the points added on top.
+  chemistryWeights: Omit<ChemistryBreakdown, 'combos' | 'chemistryScore' | 'multiplier'>;
+};
+
+export type ArchetypeComboConfig = {
+  combo: ArchetypeCombo;
+  label: string;
+  description: string;
+  // Two different players must bring these archetypes.
+  archetypes: [PlayerArchetype, PlayerArchetype];
+  points: number;
+};
+
+export type TenureSpan = {
+  startYear: number;
+  endYear: number;
+};
+
+// A stint with any franchise over a player's career, in the same year-range format as the seed.
+export type CareerStint = {
+  teamAbbr: string;
+  years: string;
+};
+
+export type TeammatePair = {
+  playerNames: [string, string];
+  teamAbbr: string;
+  seasons: number;
+  points: number;
+};
 
 export type Team = {
   abbr: string;
@@ -72,15 +189,36 @@ export type FranchiseGreatnessBreakdown = {
   tenureRatio: number;
 };
 
+export type DrawReroll = {
+  drawIndex: number;
+  fromTeamAbbr: string;
+  toTeamAbbr: string;
+};
+
+// One draw of a drafter's round, in the order it was played.
+export type DraftLogEntry = {
+  drawIndex: number;
+  teamAbbr: string;
+  // Players the drafter could legally have taken when the draw came up.
+  options: string[];
+  playerName: string;
+  slot: RosterSlot;
+  elapsedMs: number;
+  isPenalty: boolean;
+  isAutoDrafted: boolean;
+};
+
 export type LineupPick = {
-  slot: LineupSlot;
+  slot: RosterSlot;
   playerName: string;
   teamAbbr: string;
   teamName: string;
   isPenalty?: boolean;
+  // Drafted by the shot clock under the auto-pick timeout policy.
+  isAutoDrafted?: boolean;
 };
 
-export type LineupState = Partial<Record<LineupSlot, LineupPick>>;
+export type LineupState = Partial<Record<RosterSlot, LineupPick>>;
 
 export type PlayerScoreBreakdown = {
   pick: LineupPick;
@@ -96,6 +234,13 @@ export type ChemistryBreakdown = {
   usageBalance: number;
   twoWayBalance: number;
   culture: number;
+  // Chemistry points added for players at their primary position (negative when out of position).
+  positionalFit: number;
+  // Chemistry points from archetype combos, and the combos the lineup completed.
+  synergy: number;
+  combos: ArchetypeCombo[];
+  // Chemistry points for pairs of players who were real teammates.
+  teammates: number;
   chemistryScore: number;
   multiplier: number;
 };
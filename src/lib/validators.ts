@@ -1,18 +1,80 @@
 import { z } from 'zod';
 import {
   GROUP_CODE_MAX_LENGTH,
+  ROOM_CODE_LENGTH,
   SEED_MAX_LENGTH,
+  SHARE_CODE_LENGTH,
   USER_NAME_MAX_LENGTH
 } from '@/lib/constants';
-import { LINEUP_SLOTS } from '@/lib/types';
+import {
+  CLOCK_MODES,
+  DRAFT_ERAS,
+  DRAFT_FORMATS,
+  DRAW_MODES,
+  LEADERBOARD_ASSIST_FILTERS,
+  LEADERBOARD_SCORE_VERSIONS,
+  LEADERBOARD_TIMEFRAMES,
+  ROSTER_SLOTS,
+  SCORING_PRESETS,
+  TIMEOUT_POLICIES
+} from '@/lib/types';
 
 export const startGameSchema = z.object({
   userName: z.string().max(USER_NAME_MAX_LENGTH).optional(),
   groupCode: z.string().max(GROUP_CODE_MAX_LENGTH).optional(),
-  seed: z.string().max(SEED_MAX_LENGTH).optional()
+  seed: z.string().max(SEED_MAX_LENGTH).optional(),
+  format: z.enum(DRAFT_FORMATS).optional(),
+  era: z.enum(DRAFT_ERAS).optional(),
+  scoringPreset: z.enum(SCORING_PRESETS).optional(),
+  drawMode: z.enum(DRAW_MODES).optional(),
+  clockMode: z.enum(CLOCK_MODES).optional(),
+  timeoutPolicy: z.enum(TIMEOUT_POLICIES).optional()
+});
+
+export const startDailySchema = z.object({
+  userName: z.string().max(USER_NAME_MAX_LENGTH).optional()
+});
+
+export const startChallengeSchema = z.object({
+  shareCode: z.string().trim().min(1, 'Missing the run to challenge.').max(SHARE_CODE_LENGTH + 4),
+  userName: z.string().max(USER_NAME_MAX_LENGTH).optional(),
+  groupCode: z.string().max(GROUP_CODE_MAX_LENGTH).optional()
+});
+
+export const joinRoomSchema = z.object({
+  roomCode: z.string().trim().min(1, 'Enter a room code to join.').max(ROOM_CODE_LENGTH + 4),
+  userName: z.string().max(USER_NAME_MAX_LENGTH).optional()
+});
+
+export const startRoomSchema = z.object({
+  roomCode: z.string().trim().min(1).max(ROOM_CODE_LENGTH + 4)
+});
+
+export const API_MAX_PAGE_SIZE = 100;
+
+export const leaderboardQuerySchema = z.object({
+  groupCode: z.string().trim().max(GROUP_CODE_MAX_LENGTH).optional(),
+  timeframe: z.enum(LEADERBOARD_TIMEFRAMES).default('all'),
+  assist: z.enum(LEADERBOARD_ASSIST_FILTERS).default('all'),
+  era: z.enum(DRAFT_ERAS).default('ALL_TIME'),
+  scoringPreset: z.enum(SCORING_PRESETS).default('BALANCED'),
+  clockMode: z.enum(CLOCK_MODES).default('STANDARD'),
+  format: z.enum(DRAFT_FORMATS).default('STANDARD'),
+  drawMode: z.enum(DRAW_MODES).default('UNIFORM'),
+  score: z.enum(LEADERBOARD_SCORE_VERSIONS).default('current'),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(API_MAX_PAGE_SIZE).default(25)
+});
+
+export const benchmarksQuerySchema = z.object({
+  groupCode: z.string().trim().max(GROUP_CODE_MAX_LENGTH).optional()
 });
 
 export const draftPickSchema = z.object({
   playerName: z.string().min(1).max(80),
-  slot: z.enum(LINEUP_SLOTS)
+  slot: z.enum(ROSTER_SLOTS)
+});
+
+export const draftCoachSchema = z.object({
+  enabled: z.enum(['on', 'off']).transform((value) => value === 'on')
 });